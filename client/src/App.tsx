@@ -9,17 +9,21 @@ import PerformanceDashboard from "@/pages/PerformanceDashboard";
 import StressAnalytics from "@/pages/StressAnalytics";
 import TeamMonitoring from "@/pages/TeamMonitoring";
 import AlertManagement from "@/pages/AlertManagement";
+import AuthPage from "@/pages/AuthPage";
 import NotFound from "@/pages/not-found";
+import { AuthProvider } from "@/hooks/useAuth";
+import { ProtectedRoute } from "@/lib/protectedRoute";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/admin" component={AdminConsole} />
-      <Route path="/performance" component={PerformanceDashboard} />
-      <Route path="/analytics" component={StressAnalytics} />
-      <Route path="/monitoring" component={TeamMonitoring} />
-      <Route path="/alerts" component={AlertManagement} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/admin" component={AdminConsole} permission="admin.view" />
+      <ProtectedRoute path="/performance" component={PerformanceDashboard} />
+      <ProtectedRoute path="/analytics" component={StressAnalytics} />
+      <ProtectedRoute path="/monitoring" component={TeamMonitoring} permission="monitoring.view" />
+      <ProtectedRoute path="/alerts" component={AlertManagement} permission="alerts.view" />
       <Route component={NotFound} />
     </Switch>
   );
@@ -28,12 +32,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <div className="min-h-screen bg-background text-foreground">
-          <Toaster />
-          <Router />
-        </div>
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <div className="min-h-screen bg-background text-foreground">
+            <Toaster />
+            <Router />
+          </div>
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -10,11 +10,11 @@ import { StroopColorTest } from './tests/StroopColorTest';
 import { ReactionConsistencyTest } from './tests/ReactionConsistencyTest';
 import { useEmotionSense } from '@/hooks/useEmotionSense';
 import { useTradePause } from '@/hooks/useTradePause';
-import type { OrderContext, ImpulseControlMetrics, FocusStabilityMetrics, ReactionConsistencyMetrics, CameraSignals } from '@/types/tradePause';
+import type { OrderContext, ImpulseControlMetrics, FocusStabilityMetrics, ReactionConsistencyMetrics, CameraSignals, TradeAuthorizationGrant } from '@/types/tradePause';
 
 interface AIAssessmentGateProps {
   orderContext: OrderContext;
-  onAllow: () => void;
+  onAllow: (authorization?: TradeAuthorizationGrant) => void;
   onDeny: (reason: string) => void;
   onCancel: () => void;
 }
@@ -178,7 +178,7 @@ export default function AIAssessmentGate({ orderContext, onAllow, onDeny, onCanc
 
   const handleDecisionAction = () => {
     if (latestDecision?.allowed) {
-      onAllow();
+      onAllow(latestDecision.authorization);
     } else {
       // ENFORCED COOLDOWN: Start cooldown timer if decision is deny/cooldown
       if (latestDecision?.cooldownSeconds && latestDecision.cooldownSeconds > 0) {
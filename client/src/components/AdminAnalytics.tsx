@@ -43,6 +43,8 @@ export function AdminAnalytics({ stats, recentEvents, isLoading, lastMessage }:
         return '🎯';
       case 'override_used':
         return '⚠️';
+      case 'tilt_alert':
+        return '🌀';
       case 'cooldown_completed':
         return '🧘';
       case 'policy_updated':
@@ -53,7 +55,7 @@ export function AdminAnalytics({ stats, recentEvents, isLoading, lastMessage }:
   };
 
   const getEventColor = (eventType: string, data?: any) => {
-    if (eventType === 'override_used') return 'bg-chart-3';
+    if (eventType === 'override_used' || eventType === 'tilt_alert') return 'bg-chart-3';
     if (eventType === 'verdict_rendered' && data?.verdict === 'block') return 'bg-chart-3';
     if (eventType === 'verdict_rendered' && data?.verdict === 'hold') return 'bg-accent';
     return 'bg-chart-1';
@@ -66,6 +68,8 @@ export function AdminAnalytics({ stats, recentEvents, isLoading, lastMessage }:
         return `${event.data?.verdict || 'Unknown'} - Risk score: ${event.data?.riskScore || 'N/A'}`;
       case 'override_used':
         return 'Override used - Supervisor notified';
+      case 'tilt_alert':
+        return `Tilt detected - score ${event.data?.score ?? 'N/A'} (${(event.data?.patterns ?? []).join(', ').replace(/_/g, ' ')})`;
       case 'cooldown_completed':
         return 'Breathing exercise completed';
       case 'policy_updated':
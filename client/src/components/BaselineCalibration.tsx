@@ -5,14 +5,13 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { StroopTest } from './StroopTest';
 import { BiometricTracker } from './BiometricTracker';
 import { useBiometrics } from '@/hooks/useBiometrics';
+import { useAuth } from '@/hooks/useAuth';
 import type { UserBaseline, StroopTrial } from '@/types/tradePause';
 
-const DEMO_USER_ID = 'demo-user';
-
 type CalibrationPhase = 'idle' | 'instructions' | 'biometric_tracking' | 'cognitive_test' | 'processing' | 'complete';
 
 export function BaselineCalibration() {
@@ -21,10 +20,13 @@ export function BaselineCalibration() {
   const [progress, setProgress] = useState(0);
   const [stroopResults, setStroopResults] = useState<StroopTrial[]>([]);
   const { startTracking, stopTracking, isTracking } = useBiometrics();
+  const { user } = useAuth();
+  // Rendered only behind ProtectedRoute, so a session user is always present
+  const userId = user!.id;
 
   // Fetch current baseline
   const { data: baseline, isLoading } = useQuery<UserBaseline | null>({
-    queryKey: ['/api/baselines', DEMO_USER_ID],
+    queryKey: ['/api/baselines', userId],
   });
 
   // Create/update baseline mutation
@@ -37,16 +39,7 @@ export function BaselineCalibration() {
       mouseStability: number;
       keystrokeRhythm: number;
     }) => {
-      const response = await fetch(`/api/baselines/${DEMO_USER_ID}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(baselineData),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update baseline');
-      }
-
+      const response = await apiRequest('POST', `/api/baselines/${userId}`, baselineData);
       return response.json();
     },
     onSuccess: () => {
@@ -55,7 +48,7 @@ export function BaselineCalibration() {
         description: 'Personal calibration has been saved successfully.',
       });
       setCurrentPhase('complete');
-      queryClient.invalidateQueries({ queryKey: ['/api/baselines', DEMO_USER_ID] });
+      queryClient.invalidateQueries({ queryKey: ['/api/baselines', userId] });
     },
     onError: (error) => {
       toast({
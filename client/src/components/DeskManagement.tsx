@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useHasPermission } from '@/hooks/useAuth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { AuthUser, Policy, TradingDesk } from '@/types/tradePause';
+import { Trash2 } from 'lucide-react';
+
+// Radix Select items cannot carry an empty value, so "none" gets a sentinel
+const NONE = '__none__';
+const toSelectValue = (id?: string | null) => id ?? NONE;
+const fromSelectValue = (value: string) => (value === NONE ? null : value);
+
+export function DeskManagement() {
+  const { toast } = useToast();
+  const canManage = useHasPermission('desks.manage');
+  const [newDesk, setNewDesk] = useState({ name: '', description: '' });
+
+  const { data: desks = [], isLoading: desksLoading } = useQuery<TradingDesk[]>({
+    queryKey: ['/api/desks'],
+  });
+  const { data: users = [], isLoading: usersLoading } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users'],
+  });
+  const { data: policies = [] } = useQuery<Policy[]>({
+    queryKey: ['/api/policies'],
+  });
+
+  const supervisors = users.filter((user) => user.role !== 'trader');
+  const traders = users.filter((user) => user.role === 'trader');
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Request failed',
+      variant: 'destructive',
+    });
+  };
+
+  const createDeskMutation = useMutation({
+    mutationFn: async (desk: { name: string; description: string }) => {
+      const response = await apiRequest('POST', '/api/desks', {
+        name: desk.name,
+        description: desk.description || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewDesk({ name: '', description: '' });
+      queryClient.invalidateQueries({ queryKey: ['/api/desks'] });
+    },
+    onError: onError('Desk Creation Failed'),
+  });
+
+  const updateDeskMutation = useMutation({
+    mutationFn: async ({ deskId, updates }: { deskId: string; updates: Partial<TradingDesk> }) => {
+      const response = await apiRequest('PATCH', `/api/desks/${deskId}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/desks'] });
+    },
+    onError: onError('Desk Update Failed'),
+  });
+
+  const deleteDeskMutation = useMutation({
+    mutationFn: async (deskId: string) => {
+      await apiRequest('DELETE', `/api/desks/${deskId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/desks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: onError('Desk Deletion Failed'),
+  });
+
+  const assignDeskMutation = useMutation({
+    mutationFn: async ({ userId, deskId }: { userId: string; deskId: string | null }) => {
+      const response = await apiRequest('PUT', `/api/users/${userId}/desk`, { deskId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: onError('Assignment Failed'),
+  });
+
+  const overridePolicyMutation = useMutation({
+    mutationFn: async ({ userId, policyId }: { userId: string; policyId: string | null }) => {
+      const response = await apiRequest('PUT', `/api/users/${userId}/policy`, { policyId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: onError('Policy Override Failed'),
+  });
+
+  const policyOptions = (noneLabel: string) => (
+    <SelectContent>
+      <SelectItem value={NONE}>{noneLabel}</SelectItem>
+      {policies.map((policy) => (
+        <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+      ))}
+    </SelectContent>
+  );
+
+  if (desksLoading || usersLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Trading Desks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-muted rounded w-1/4"></div>
+            <div className="h-10 bg-muted rounded"></div>
+            <div className="h-10 bg-muted rounded"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Trading Desks</CardTitle>
+          <CardDescription>
+            Traders use their own policy override if set, otherwise their desk's policy, otherwise the firm default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {canManage && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label htmlFor="desk-name">Desk Name</Label>
+                <Input
+                  id="desk-name"
+                  value={newDesk.name}
+                  onChange={(e) => setNewDesk((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. FX Spot"
+                  data-testid="input-desk-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="desk-description">Description</Label>
+                <Input
+                  id="desk-description"
+                  value={newDesk.description}
+                  onChange={(e) => setNewDesk((prev) => ({ ...prev, description: e.target.value }))}
+                  placeholder="Optional"
+                  data-testid="input-desk-description"
+                />
+              </div>
+              <Button
+                onClick={() => createDeskMutation.mutate(newDesk)}
+                disabled={!newDesk.name.trim() || createDeskMutation.isPending}
+                data-testid="button-create-desk"
+              >
+                {createDeskMutation.isPending ? 'Creating...' : 'Create Desk'}
+              </Button>
+            </div>
+          )}
+
+          {desks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No desks yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Desk</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Supervisor</TableHead>
+                  <TableHead>Traders</TableHead>
+                  {canManage && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {desks.map((desk) => (
+                  <TableRow key={desk.id} data-testid={`row-desk-${desk.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{desk.name}</div>
+                      {desk.description && (
+                        <div className="text-xs text-muted-foreground">{desk.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={toSelectValue(desk.policyId)}
+                        onValueChange={(value) =>
+                          updateDeskMutation.mutate({ deskId: desk.id, updates: { policyId: fromSelectValue(value) } })}
+                        disabled={!canManage}
+                      >
+                        <SelectTrigger data-testid={`select-desk-policy-${desk.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        {policyOptions('Firm default')}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={toSelectValue(desk.supervisorId)}
+                        onValueChange={(value) =>
+                          updateDeskMutation.mutate({ deskId: desk.id, updates: { supervisorId: fromSelectValue(value) } })}
+                        disabled={!canManage}
+                      >
+                        <SelectTrigger data-testid={`select-desk-supervisor-${desk.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Unassigned</SelectItem>
+                          {supervisors.map((user) => (
+                            <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {traders.filter((user) => user.deskId === desk.id).length}
+                      </Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteDeskMutation.mutate(desk.id)}
+                          disabled={deleteDeskMutation.isPending}
+                          data-testid={`button-delete-desk-${desk.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trader Assignments</CardTitle>
+          <CardDescription>Move traders between desks or pin an individual policy override.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {traders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No traders visible.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Trader</TableHead>
+                  <TableHead>Desk</TableHead>
+                  <TableHead>Policy Override</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {traders.map((user) => (
+                  <TableRow key={user.id} data-testid={`row-trader-${user.id}`}>
+                    <TableCell className="font-medium">{user.username}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={toSelectValue(user.deskId)}
+                        onValueChange={(value) => assignDeskMutation.mutate({ userId: user.id, deskId: fromSelectValue(value) })}
+                        disabled={!canManage}
+                      >
+                        <SelectTrigger data-testid={`select-trader-desk-${user.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>No desk</SelectItem>
+                          {desks.map((desk) => (
+                            <SelectItem key={desk.id} value={desk.id}>{desk.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={toSelectValue(user.policyId)}
+                        onValueChange={(value) => overridePolicyMutation.mutate({ userId: user.id, policyId: fromSelectValue(value) })}
+                        disabled={!canManage}
+                      >
+                        <SelectTrigger data-testid={`select-trader-policy-${user.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        {policyOptions('None (use desk policy)')}
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useHasPermission } from '@/hooks/useAuth';
+import { apiRequest, invalidateApiPath } from '@/lib/queryClient';
+import type { WebSocketMessage } from '@/hooks/useWebSocket';
+import type { AuthUser, OverrideRequest } from '@/types/tradePause';
+
+const TRIGGER_LABELS: Record<OverrideRequest['trigger'], string> = {
+  block_verdict: 'Block verdict',
+  risk_score: 'High risk score',
+};
+
+// Overrides waiting on a supervisor's co-sign. The trader is held at the order
+// ticket until one of them approves, so new requests arrive over the WebSocket.
+export function OverrideRequests({ lastMessage }: { lastMessage: WebSocketMessage | null }) {
+  const { toast } = useToast();
+  const canReview = useHasPermission('overrides.approve');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: requests = [] } = useQuery<OverrideRequest[]>({
+    queryKey: ['/api/trade-pause/override-requests'],
+    enabled: canReview,
+    refetchInterval: 30000,
+  });
+  const { data: users = [] } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users'],
+    enabled: canReview,
+  });
+
+  useEffect(() => {
+    if (lastMessage?.type === 'override_approval_requested' || lastMessage?.type === 'override_approval_resolved') {
+      invalidateApiPath('/api/trade-pause/override-requests');
+    }
+  }, [lastMessage]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ requestId, decision }: { requestId: string; decision: 'approve' | 'reject' }) => {
+      const note = notes[requestId]?.trim();
+      const response = await apiRequest('POST', `/api/trade-pause/override-requests/${requestId}/${decision}`, note ? { note } : {});
+      return response.json();
+    },
+    onSuccess: (_result, { decision }) => {
+      toast({
+        title: decision === 'approve' ? 'Override Approved' : 'Override Rejected',
+        description: decision === 'approve'
+          ? 'The trader may proceed with the order.'
+          : 'The trade stays paused.',
+      });
+      invalidateApiPath('/api/trade-pause/override-requests');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Review Failed',
+        description: error instanceof Error ? error.message : 'Failed to review override request',
+        variant: 'destructive',
+      });
+      invalidateApiPath('/api/trade-pause/override-requests');
+    },
+  });
+
+  if (!canReview || requests.length === 0) return null;
+
+  const username = (id: string) => users.find((u) => u.id === id)?.username ?? id;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Overrides Awaiting Co-sign</CardTitle>
+        <CardDescription>
+          Traders asking to go ahead against a block verdict or a high risk score.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {requests.map((request) => (
+          <div key={request.id} className="border border-border rounded-md p-4 space-y-3" data-testid={`override-request-${request.id}`}>
+            <div className="flex items-center justify-between">
+              <div className="text-sm">
+                <span className="font-medium">{username(request.userId)}</span>
+                <span className="text-muted-foreground">
+                  {' '}wants to override a {request.verdict} verdict
+                  {request.riskScore !== null && ` (risk ${request.riskScore})`}
+                </span>
+                <Badge variant="secondary" className="ml-2">{TRIGGER_LABELS[request.trigger]}</Badge>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                Expires {new Date(request.expiresAt).toLocaleTimeString()}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">{request.reason}</p>
+            <div className="flex items-center space-x-2">
+              <Input
+                value={notes[request.id] ?? ''}
+                onChange={(e) => setNotes((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                placeholder="Review note (optional)"
+                data-testid={`input-override-note-${request.id}`}
+              />
+              <Button
+                variant="outline"
+                onClick={() => reviewMutation.mutate({ requestId: request.id, decision: 'reject' })}
+                disabled={reviewMutation.isPending}
+                data-testid={`button-reject-override-${request.id}`}
+              >
+                Reject
+              </Button>
+              <Button
+                onClick={() => reviewMutation.mutate({ requestId: request.id, decision: 'approve' })}
+                disabled={reviewMutation.isPending}
+                data-testid={`button-approve-override-${request.id}`}
+              >
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth, useHasPermission } from '@/hooks/useAuth';
+import { apiRequest, invalidateApiPath } from '@/lib/queryClient';
+import type { AuthUser, PolicyChangeRequest } from '@/types/tradePause';
+
+const formatChanges = (changes: PolicyChangeRequest['changes']) =>
+  Object.entries(changes)
+    .filter(([field]) => field !== 'enabledModes')
+    .map(([field, value]) => field === 'scoringProfile'
+      ? `scoringProfile: ${value ? 'custom' : 'engine default'}`
+      : `${field}: ${String(value)}`)
+    .join(', ');
+
+export function PolicyChangeRequests({ policyId }: { policyId: string }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canReview = useHasPermission('policies.approve');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: requests = [] } = useQuery<PolicyChangeRequest[]>({
+    queryKey: [`/api/policies/change-requests?policyId=${policyId}&status=pending`],
+    refetchInterval: 30000,
+  });
+  const { data: users = [] } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ requestId, decision }: { requestId: string; decision: 'approve' | 'reject' }) => {
+      const note = notes[requestId]?.trim();
+      const response = await apiRequest('POST', `/api/policies/change-requests/${requestId}/${decision}`, note ? { note } : {});
+      return response.json();
+    },
+    onSuccess: (_result, { decision }) => {
+      toast({
+        title: decision === 'approve' ? 'Change Approved' : 'Change Rejected',
+        description: decision === 'approve'
+          ? 'The policy change is now in effect.'
+          : 'The proposed change was discarded.',
+      });
+      invalidateApiPath('/api/policies');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Review Failed',
+        description: error instanceof Error ? error.message : 'Failed to review change request',
+        variant: 'destructive',
+      });
+      invalidateApiPath('/api/policies');
+    },
+  });
+
+  if (requests.length === 0) return null;
+
+  const username = (id: string) => users.find((u) => u.id === id)?.username ?? id;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pending Approval</CardTitle>
+        <CardDescription>
+          Changes to risk threshold, override or cooldown on a live policy need a second supervisor or admin.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {requests.map((request) => {
+          const isOwn = request.proposedBy === user?.id;
+          return (
+            <div key={request.id} className="border border-border rounded-md p-4 space-y-3" data-testid={`change-request-${request.id}`}>
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <span className="font-medium">{username(request.proposedBy)}</span>
+                  <span className="text-muted-foreground"> proposed against v{request.baseVersion}</span>
+                  {request.restoredVersion && (
+                    <Badge variant="secondary" className="ml-2">Rollback to v{request.restoredVersion}</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  Expires {new Date(request.expiresAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-sm font-mono">{formatChanges(request.changes)}</p>
+              <p className="text-sm text-muted-foreground">{request.reason}</p>
+              {canReview && (
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={notes[request.id] ?? ''}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                    placeholder="Review note (optional)"
+                    disabled={isOwn}
+                    data-testid={`input-review-note-${request.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => reviewMutation.mutate({ requestId: request.id, decision: 'reject' })}
+                    disabled={isOwn || reviewMutation.isPending}
+                    data-testid={`button-reject-${request.id}`}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    onClick={() => reviewMutation.mutate({ requestId: request.id, decision: 'approve' })}
+                    disabled={isOwn || reviewMutation.isPending}
+                    title={isOwn ? 'You cannot review your own change' : undefined}
+                    data-testid={`button-approve-${request.id}`}
+                  >
+                    Approve
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
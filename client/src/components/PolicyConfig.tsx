@@ -8,18 +8,33 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient } from '@/lib/queryClient';
-import type { Policy } from '@/types/tradePause';
+import { useHasPermission } from '@/hooks/useAuth';
+import { apiRequest, invalidateApiPath } from '@/lib/queryClient';
+import { PolicyHistory } from '@/components/PolicyHistory';
+import { PolicyChangeRequests } from '@/components/PolicyChangeRequests';
+import { ScoringProfileEditor } from '@/components/ScoringProfileEditor';
+import type { Policy, ScoringEngine } from '@/types/tradePause';
+import type { ScoringSurface } from '@shared/scoringEngines';
 
 export function PolicyConfig() {
   const { toast } = useToast();
   const [isDirty, setIsDirty] = useState(false);
+  const [changeReason, setChangeReason] = useState('');
+  const canEdit = useHasPermission('policies.update');
 
   // Fetch current policy
   const { data: policy, isLoading } = useQuery<Policy>({
     queryKey: ['/api/policies/default'],
   });
 
+  const { data: engines = [] } = useQuery<ScoringEngine[]>({
+    queryKey: ['/api/scoring-engines'],
+  });
+
+  // Retired engines stay listed only for a policy still on them
+  const enginesFor = (surface: ScoringSurface, current?: string) =>
+    engines.filter((engine) => engine.surface === surface && (!engine.retired || engine.ref === current));
+
   // Local state for form
   const [formData, setFormData] = useState<Partial<Policy>>({});
 
@@ -35,25 +50,23 @@ export function PolicyConfig() {
     mutationFn: async (updates: Partial<Policy>) => {
       if (!policy) throw new Error('No policy loaded');
       
-      const response = await fetch(`/api/policies/${policy.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update policy');
-      }
-
-      return response.json();
+      const response = await apiRequest('PUT', `/api/policies/${policy.id}`, { ...updates, reason: changeReason });
+      // 202: sensitive change to a live policy, held for a second reviewer
+      return { pendingApproval: response.status === 202 };
     },
-    onSuccess: () => {
-      toast({
-        title: 'Policy Updated',
-        description: 'Configuration has been saved successfully.',
-      });
+    onSuccess: ({ pendingApproval }) => {
+      toast(pendingApproval
+        ? {
+            title: 'Change Submitted for Approval',
+            description: 'Another supervisor or admin must approve this change before it takes effect.',
+          }
+        : {
+            title: 'Policy Updated',
+            description: 'Configuration has been saved successfully.',
+          });
       setIsDirty(false);
-      queryClient.invalidateQueries({ queryKey: ['/api/policies/default'] });
+      setChangeReason('');
+      invalidateApiPath('/api/policies');
     },
     onError: (error) => {
       toast({
@@ -293,6 +306,320 @@ export function PolicyConfig() {
 
           <Separator />
 
+          {/* Cooldown Ladder */}
+          <div>
+            <Label className="text-base font-medium">Cooldown Ladder</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Each earlier hold or block within the window lengthens the next cooldown by the growth rate, up to the cap. A run of clean verdicts resets it. A 0-minute window keeps cooldowns flat.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-3">
+              <div>
+                <Label htmlFor="ladder-window">Window (minutes)</Label>
+                <Input
+                  id="ladder-window"
+                  type="number"
+                  min="0"
+                  max="1440"
+                  value={formData.cooldownLadderWindowMinutes ?? 0}
+                  onChange={(e) => handleFieldChange('cooldownLadderWindowMinutes', parseInt(e.target.value) || 0)}
+                  data-testid="input-ladder-window"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ladder-growth">Growth per hold (%)</Label>
+                <Input
+                  id="ladder-growth"
+                  type="number"
+                  min="0"
+                  max="400"
+                  value={formData.cooldownLadderGrowthPct ?? 100}
+                  onChange={(e) => handleFieldChange('cooldownLadderGrowthPct', parseInt(e.target.value) || 0)}
+                  data-testid="input-ladder-growth"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ladder-max">Longest cooldown (seconds)</Label>
+                <Input
+                  id="ladder-max"
+                  type="number"
+                  min="15"
+                  max="3600"
+                  value={formData.cooldownLadderMaxSeconds ?? 600}
+                  onChange={(e) => handleFieldChange('cooldownLadderMaxSeconds', parseInt(e.target.value) || 600)}
+                  data-testid="input-ladder-max"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ladder-reset">Reset after clean verdicts</Label>
+                <Input
+                  id="ladder-reset"
+                  type="number"
+                  min="0"
+                  max="20"
+                  value={formData.cooldownLadderResetAfter ?? 3}
+                  onChange={(e) => handleFieldChange('cooldownLadderResetAfter', parseInt(e.target.value) || 0)}
+                  data-testid="input-ladder-reset"
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Overtrading */}
+          <div>
+            <Label className="text-base font-medium">Overtrading</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Compares a trader's orders in the last 5 and 60 minutes with their own rate at this time of day over the lookback. A burst counts once it is this many standard deviations above normal and at least the minimum number of orders. A 0-day lookback turns it off.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-3">
+              <div>
+                <Label htmlFor="overtrading-lookback">Lookback (days)</Label>
+                <Input
+                  id="overtrading-lookback"
+                  type="number"
+                  min="0"
+                  max="90"
+                  value={formData.overtradingLookbackDays ?? 14}
+                  onChange={(e) => handleFieldChange('overtradingLookbackDays', parseInt(e.target.value) || 0)}
+                  data-testid="input-overtrading-lookback"
+                />
+              </div>
+              <div>
+                <Label htmlFor="overtrading-z">Standard deviations</Label>
+                <Input
+                  id="overtrading-z"
+                  type="number"
+                  min="1"
+                  max="10"
+                  step="0.5"
+                  value={formData.overtradingZScore ?? 3}
+                  onChange={(e) => handleFieldChange('overtradingZScore', parseFloat(e.target.value) || 3)}
+                  data-testid="input-overtrading-z"
+                />
+              </div>
+              <div>
+                <Label htmlFor="overtrading-min-5m">Minimum orders (5 min)</Label>
+                <Input
+                  id="overtrading-min-5m"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={formData.overtradingMinOrders5m ?? 4}
+                  onChange={(e) => handleFieldChange('overtradingMinOrders5m', parseInt(e.target.value) || 4)}
+                  data-testid="input-overtrading-min-5m"
+                />
+              </div>
+              <div>
+                <Label htmlFor="overtrading-min-60m">Minimum orders (60 min)</Label>
+                <Input
+                  id="overtrading-min-60m"
+                  type="number"
+                  min="1"
+                  max="1000"
+                  value={formData.overtradingMinOrders60m ?? 15}
+                  onChange={(e) => handleFieldChange('overtradingMinOrders60m', parseInt(e.target.value) || 15)}
+                  data-testid="input-overtrading-min-60m"
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Scoring Engines */}
+          <div>
+            <Label className="text-base font-medium">Scoring Engines</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Which engine scores each check. Every assessment records the engine and version that scored it. A shadow engine scores full assessments alongside the primary for comparison and never changes the verdict.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+              <div>
+                <Label htmlFor="quick-check-engine">Quick check</Label>
+                <Select
+                  value={formData.quickCheckEngine}
+                  onValueChange={(value) => handleFieldChange('quickCheckEngine', value)}
+                >
+                  <SelectTrigger id="quick-check-engine" data-testid="select-quick-check-engine">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {enginesFor('quick_check', policy?.quickCheckEngine).map((engine) => (
+                      <SelectItem key={engine.ref} value={engine.ref}>
+                        {engine.id} v{engine.version}{engine.retired ? ' (retired)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="full-assessment-engine">Full assessment</Label>
+                <Select
+                  value={formData.fullAssessmentEngine}
+                  onValueChange={(value) => handleFieldChange('fullAssessmentEngine', value)}
+                >
+                  <SelectTrigger id="full-assessment-engine" data-testid="select-full-assessment-engine">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {enginesFor('full_assessment', policy?.fullAssessmentEngine).map((engine) => (
+                      <SelectItem key={engine.ref} value={engine.ref}>
+                        {engine.id} v{engine.version}{engine.retired ? ' (retired)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="shadow-engine">Full assessment shadow</Label>
+                <Select
+                  value={formData.shadowFullAssessmentEngine ?? 'none'}
+                  onValueChange={(value) => handleFieldChange('shadowFullAssessmentEngine', value === 'none' ? null : value)}
+                >
+                  <SelectTrigger id="shadow-engine" data-testid="select-shadow-engine">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {enginesFor('full_assessment', policy?.shadowFullAssessmentEngine ?? undefined).map((engine) => (
+                      <SelectItem key={engine.ref} value={engine.ref}>
+                        {engine.id} v{engine.version}{engine.retired ? ' (retired)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Scoring Profile */}
+          <div>
+            <Label className="text-base font-medium">Scoring Profile</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              How full assessments weigh camera and test results, how each reading maps to a score, and when poor test results override the weighted score.
+            </p>
+            <div className="mt-3">
+              <ScoringProfileEditor
+                value={formData.scoringProfile ?? null}
+                onChange={(profile) => handleFieldChange('scoringProfile', profile)}
+                policyId={policy?.id}
+                engine={engines.find((engine) => engine.ref === formData.fullAssessmentEngine)}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Verdict Reuse */}
+          <div>
+            <Label className="text-base font-medium">Verdict Reuse</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Lets an allow cover the trader's next orders in the same instrument and direction without a new assessment. 0 turns it off.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+              <div>
+                <Label htmlFor="reuse-minutes">Valid for (minutes)</Label>
+                <Input
+                  id="reuse-minutes"
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={formData.verdictReuseMinutes ?? 0}
+                  onChange={(e) => handleFieldChange('verdictReuseMinutes', parseInt(e.target.value) || 0)}
+                  data-testid="input-reuse-minutes"
+                />
+              </div>
+              <div>
+                <Label htmlFor="reuse-orders">Further orders covered</Label>
+                <Input
+                  id="reuse-orders"
+                  type="number"
+                  min="0"
+                  max="20"
+                  value={formData.verdictReuseOrders ?? 0}
+                  onChange={(e) => handleFieldChange('verdictReuseOrders', parseInt(e.target.value) || 0)}
+                  data-testid="input-reuse-orders"
+                />
+              </div>
+              <div>
+                <Label htmlFor="reuse-margin">Size / leverage margin (%)</Label>
+                <Input
+                  id="reuse-margin"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.verdictReuseMarginPct ?? 0}
+                  onChange={(e) => handleFieldChange('verdictReuseMarginPct', parseInt(e.target.value) || 0)}
+                  data-testid="input-reuse-margin"
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Override Governance */}
+          <div>
+            <Label className="text-base font-medium">Override Governance</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Block verdicts always need a supervisor's co-sign to override. Leave the co-sign score empty to require it for blocks only; 0 turns a limit or alert off.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-3">
+              <div>
+                <Label htmlFor="override-daily-limit">Overrides per trader per day</Label>
+                <Input
+                  id="override-daily-limit"
+                  type="number"
+                  min="0"
+                  max="50"
+                  value={formData.overrideDailyLimit ?? 0}
+                  onChange={(e) => handleFieldChange('overrideDailyLimit', parseInt(e.target.value) || 0)}
+                  data-testid="input-override-daily-limit"
+                />
+              </div>
+              <div>
+                <Label htmlFor="override-cosign-score">Co-sign at risk score</Label>
+                <Input
+                  id="override-cosign-score"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.overrideCosignRiskScore ?? ''}
+                  onChange={(e) => handleFieldChange('overrideCosignRiskScore', e.target.value === '' ? null : parseInt(e.target.value) || 0)}
+                  data-testid="input-override-cosign-score"
+                />
+              </div>
+              <div>
+                <Label htmlFor="override-alert-count">Alert after overrides</Label>
+                <Input
+                  id="override-alert-count"
+                  type="number"
+                  min="0"
+                  max="50"
+                  value={formData.overrideAlertCount ?? 0}
+                  onChange={(e) => handleFieldChange('overrideAlertCount', parseInt(e.target.value) || 0)}
+                  data-testid="input-override-alert-count"
+                />
+              </div>
+              <div>
+                <Label htmlFor="override-alert-window">Within (minutes)</Label>
+                <Input
+                  id="override-alert-window"
+                  type="number"
+                  min="5"
+                  max="1440"
+                  value={formData.overrideAlertWindowMinutes ?? 60}
+                  onChange={(e) => handleFieldChange('overrideAlertWindowMinutes', parseInt(e.target.value) || 60)}
+                  data-testid="input-override-alert-window"
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
           {/* Data Retention */}
           <div>
             <Label htmlFor="retention">Data Retention (days)</Label>
@@ -311,6 +638,21 @@ export function PolicyConfig() {
             </Select>
           </div>
 
+          <Separator />
+
+          {/* Every save becomes a revision, so it needs a reason */}
+          <div>
+            <Label htmlFor="change-reason">Change Reason</Label>
+            <Input
+              id="change-reason"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              placeholder="Why is this policy changing?"
+              disabled={!canEdit}
+              data-testid="input-change-reason"
+            />
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-2 pt-4">
             <Button 
@@ -323,7 +665,8 @@ export function PolicyConfig() {
             </Button>
             <Button 
               onClick={handleSave}
-              disabled={!isDirty || updatePolicyMutation.isPending}
+              disabled={!canEdit || !isDirty || !changeReason.trim() || updatePolicyMutation.isPending}
+              title={canEdit ? undefined : 'Only administrators can change policies'}
               data-testid="button-save"
             >
               {updatePolicyMutation.isPending ? 'Saving...' : 'Save Policy'}
@@ -332,6 +675,10 @@ export function PolicyConfig() {
         </CardContent>
       </Card>
 
+      {policy && <PolicyChangeRequests policyId={policy.id} />}
+
+      {policy && <PolicyHistory policyId={policy.id} />}
+
       {/* Privacy Notice */}
       <Card>
         <CardHeader>
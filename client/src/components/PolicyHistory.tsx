@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useHasPermission } from '@/hooks/useAuth';
+import { apiRequest, invalidateApiPath } from '@/lib/queryClient';
+import type { AuthUser, PolicyDiff, PolicyRevision } from '@/types/tradePause';
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export function PolicyHistory({ policyId }: { policyId: string }) {
+  const { toast } = useToast();
+  const canEdit = useHasPermission('policies.update');
+  const [fromVersion, setFromVersion] = useState<number>();
+  const [toVersion, setToVersion] = useState<number>();
+  const [rollbackReason, setRollbackReason] = useState('');
+
+  const { data: revisions = [], isLoading } = useQuery<PolicyRevision[]>({
+    queryKey: ['/api/policies', policyId, 'revisions'],
+  });
+  const { data: users = [] } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  // Default to comparing the latest revision with the one before it
+  useEffect(() => {
+    if (revisions.length >= 2) {
+      setToVersion(revisions[0].version);
+      setFromVersion(revisions[1].version);
+    }
+  }, [revisions]);
+
+  const canDiff = fromVersion !== undefined && toVersion !== undefined && fromVersion !== toVersion;
+  const { data: diff } = useQuery<PolicyDiff>({
+    queryKey: [`/api/policies/${policyId}/diff?from=${fromVersion}&to=${toVersion}`],
+    enabled: canDiff,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest('POST', `/api/policies/${policyId}/rollback`, {
+        version,
+        reason: rollbackReason,
+      });
+      return response.json();
+    },
+    onSuccess: (_policy, version) => {
+      toast({
+        title: 'Policy Rolled Back',
+        description: `Settings from version ${version} are active again as a new revision.`,
+      });
+      setRollbackReason('');
+      invalidateApiPath('/api/policies');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Rollback Failed',
+        description: error instanceof Error ? error.message : 'Failed to roll back policy',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const authorName = (authorId: string | null) =>
+    authorId ? users.find((user) => user.id === authorId)?.username ?? authorId : 'system';
+
+  const versionSelect = (value: number | undefined, onChange: (version: number) => void, testId: string) => (
+    <Select value={value?.toString()} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.version} value={revision.version.toString()}>
+            v{revision.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Version History</CardTitle>
+        <CardDescription>
+          Every change is kept as an immutable revision; assessments record the version they were scored under.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="animate-pulse h-10 bg-muted rounded"></div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded for this policy yet.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Reason</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revisions.map((revision, index) => (
+                  <TableRow key={revision.id} data-testid={`row-revision-${revision.version}`}>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">v{revision.version}</span>
+                        {index === 0 && <Badge>Current</Badge>}
+                        {revision.restoredVersion && (
+                          <Badge variant="secondary">Restores v{revision.restoredVersion}</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{authorName(revision.authorId)}</TableCell>
+                    <TableCell>{new Date(revision.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={revision.reason}>{revision.reason}</TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        {index > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => rollbackMutation.mutate(revision.version)}
+                            disabled={!rollbackReason.trim() || rollbackMutation.isPending}
+                            title={rollbackReason.trim() ? undefined : 'Enter a rollback reason first'}
+                            data-testid={`button-rollback-${revision.version}`}
+                          >
+                            Roll back
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {canEdit && revisions.length > 1 && (
+              <div>
+                <Label htmlFor="rollback-reason">Rollback Reason</Label>
+                <Input
+                  id="rollback-reason"
+                  value={rollbackReason}
+                  onChange={(e) => setRollbackReason(e.target.value)}
+                  placeholder="Why are these settings being restored?"
+                  data-testid="input-rollback-reason"
+                />
+              </div>
+            )}
+
+            {revisions.length > 1 && (
+              <div className="space-y-3">
+                <Label className="text-base font-medium">Compare Versions</Label>
+                <div className="grid grid-cols-2 gap-4">
+                  {versionSelect(fromVersion, setFromVersion, 'select-diff-from')}
+                  {versionSelect(toVersion, setToVersion, 'select-diff-to')}
+                </div>
+                {canDiff && diff && (
+                  diff.changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">These versions have identical settings.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Setting</TableHead>
+                          <TableHead>v{fromVersion}</TableHead>
+                          <TableHead>v{toVersion}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diff.changes.map((change) => (
+                          <TableRow key={change.field} data-testid={`row-diff-${change.field}`}>
+                            <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                            <TableCell className="text-chart-3">{formatValue(change.from)}</TableCell>
+                            <TableCell className="text-chart-1">{formatValue(change.to)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { Policy, PolicySimulationResult, TradingDesk } from '@/types/tradePause';
+
+const ALL_DESKS = '__all__';
+const MAX_CHANGES_SHOWN = 50;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const signedPercent = (delta: number) => `${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)} pts`;
+const money = (value: number) => value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+export function PolicySimulator() {
+  const { toast } = useToast();
+  const [riskThreshold, setRiskThreshold] = useState<number>();
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [deskId, setDeskId] = useState(ALL_DESKS);
+
+  const { data: policy } = useQuery<Policy>({
+    queryKey: ['/api/policies/default'],
+  });
+  const { data: desks = [] } = useQuery<TradingDesk[]>({
+    queryKey: ['/api/desks'],
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/policies/simulate', {
+        basePolicyId: policy?.id,
+        policy: { riskThreshold: riskThreshold ?? policy?.riskThreshold },
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59.999`).toISOString(),
+        deskId: deskId === ALL_DESKS ? undefined : deskId,
+      });
+      return (await response.json()) as PolicySimulationResult;
+    },
+    onError: (error) => {
+      toast({
+        title: 'Simulation Failed',
+        description: error instanceof Error ? error.message : 'Failed to run simulation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const result = simulateMutation.data;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>What-if Simulator</CardTitle>
+          <CardDescription>
+            Replay past assessments under a candidate threshold to see which trades it would have held or blocked.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="sim-threshold">Risk Threshold</Label>
+              <Input
+                id="sim-threshold"
+                type="number"
+                min="0"
+                max="100"
+                value={riskThreshold ?? policy?.riskThreshold ?? ''}
+                onChange={(e) => setRiskThreshold(parseInt(e.target.value))}
+                data-testid="input-sim-threshold"
+              />
+              {policy && (
+                <p className="text-xs text-muted-foreground mt-1">Current: {policy.riskThreshold}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="sim-from">From</Label>
+              <Input id="sim-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-sim-from" />
+            </div>
+            <div>
+              <Label htmlFor="sim-to">To</Label>
+              <Input id="sim-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-sim-to" />
+            </div>
+            <div>
+              <Label>Desk</Label>
+              <Select value={deskId} onValueChange={setDeskId}>
+                <SelectTrigger data-testid="select-sim-desk">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_DESKS}>All visible desks</SelectItem>
+                  {desks.map((desk) => (
+                    <SelectItem key={desk.id} value={desk.id}>{desk.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => simulateMutation.mutate()}
+              disabled={!policy || simulateMutation.isPending}
+              data-testid="button-run-simulation"
+            >
+              {simulateMutation.isPending ? 'Replaying...' : 'Run Simulation'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Assessments Replayed</p>
+                <p className="text-2xl font-semibold" data-testid="text-sim-replayed">{result.replayed}</p>
+                <p className="text-xs text-muted-foreground">
+                  {result.skipped} skipped{result.truncated ? ' · range truncated' : ''}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Block Rate</p>
+                <p className="text-2xl font-semibold">
+                  {percent(result.current.blockRate)} → {percent(result.candidate.blockRate)}
+                </p>
+                <p className="text-xs text-muted-foreground" data-testid="text-sim-block-delta">{signedPercent(result.blockRateDelta)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Hold Rate</p>
+                <p className="text-2xl font-semibold">
+                  {percent(result.current.holdRate)} → {percent(result.candidate.holdRate)}
+                </p>
+                <p className="text-xs text-muted-foreground">{signedPercent(result.holdRateDelta)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">PnL of Newly Stopped Trades</p>
+                <p
+                  className={`text-2xl font-semibold ${result.newlyStopped.pnl < 0 ? 'text-chart-3' : 'text-chart-1'}`}
+                  data-testid="text-sim-stopped-pnl"
+                >
+                  {money(result.newlyStopped.pnl)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {result.newlyStopped.count} stopped · {result.newlyStopped.winners} winners / {result.newlyStopped.losers} losers
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Verdict Changes</CardTitle>
+              <CardDescription>
+                {Object.entries(result.transitions).length === 0
+                  ? 'No verdict would change under the candidate policy.'
+                  : Object.entries(result.transitions).map(([transition, count]) => `${transition}: ${count}`).join(' · ')}
+              </CardDescription>
+            </CardHeader>
+            {result.changes.length > 0 && (
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Trader</TableHead>
+                      <TableHead>Risk</TableHead>
+                      <TableHead>Verdict</TableHead>
+                      <TableHead className="text-right">Trade PnL</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.changes.slice(0, MAX_CHANGES_SHOWN).map((change) => (
+                      <TableRow key={change.assessmentId} data-testid={`row-sim-change-${change.assessmentId}`}>
+                        <TableCell>{change.createdAt ? new Date(change.createdAt).toLocaleString() : '—'}</TableCell>
+                        <TableCell className="font-mono text-xs">{change.userId}</TableCell>
+                        <TableCell>{change.riskScore ?? '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{change.from}</Badge> → <Badge>{change.to}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {change.executed && change.pnl !== null ? money(change.pnl) : 'not executed'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {result.changes.length > MAX_CHANGES_SHOWN && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Showing {MAX_CHANGES_SHOWN} of {result.changes.length} changes.
+                  </p>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
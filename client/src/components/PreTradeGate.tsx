@@ -282,12 +282,18 @@ export function PreTradeGate({
   };
 
   const handleShowOverride = () => {
+    setSubmitError(null);
     setCurrentPhase('overrideJustification');
   };
 
   const handleOverrideSubmit = async () => {
     if (currentAssessment && overrideReason.trim()) {
-      await submitOverride(overrideReason);
+      const result = await submitOverride(overrideReason);
+      // Overrides that need a supervisor's co-sign do not clear the trade yet
+      if (result?.status === 'pending_approval') {
+        setSubmitError('Override sent to your supervisor for approval. The trade stays paused until they approve it.');
+        return;
+      }
       await handleProceedWithTrade();
     }
   };
@@ -503,6 +509,9 @@ export function PreTradeGate({
                 rows={5}
                 data-testid="textarea-override"
               />
+              {submitError ? (
+                <div className="text-sm text-muted-foreground p-3 bg-muted rounded-lg" role="status">{submitError}</div>
+              ) : null}
               
               <div className="flex flex-col sm:grid sm:grid-cols-2 gap-2">
                 <Button 
@@ -1,7 +1,9 @@
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Shield, AlertTriangle, CheckCircle2, Timer, Brain } from 'lucide-react';
+import { Shield, AlertTriangle, CheckCircle2, Timer, Brain, Scale, BarChart3 } from 'lucide-react';
 import type { AssessmentResult } from '@/types/tradePause';
+import type { RiskCalibration, ScoreContribution } from '@shared/tradePauseAI';
+import { ScoreWaterfall } from './ScoreWaterfall';
 
 interface RiskDisplayProps {
   assessment: AssessmentResult & {
@@ -10,6 +12,10 @@ interface RiskDisplayProps {
     emotionalRiskScore?: number;
     confidence?: number;
     reason?: string;
+    diagnostics?: {
+      attribution?: ScoreContribution[];
+    };
+    calibration?: RiskCalibration;
     cognitiveAnalytics?: {
       overallScore: number;
       reactionTimeMs: number;
@@ -114,6 +120,9 @@ export function RiskDisplay({ assessment, onProceed, onCooldown, onBlock, onOver
 
   const status = getStatusConfig();
   const StatusIcon = status.icon;
+  // Size is only compared once the trader has enough earlier orders on the instrument
+  const sizeAnomaly = assessment.sizeAnomaly?.sizePercentile != null ? assessment.sizeAnomaly : undefined;
+  const attribution = assessment.diagnostics?.attribution;
 
   return (
     <div className="space-y-4">
@@ -153,6 +162,15 @@ export function RiskDisplay({ assessment, onProceed, onCooldown, onBlock, onOver
           <span className="text-sm font-semibold">{confidence}%</span>
         </div>
 
+        {assessment.calibration && (
+          <div className="flex justify-between items-center pt-2 border-t border-border/30" data-testid="text-calibrated-risk">
+            <span className="text-xs text-muted-foreground">
+              Bad trades at this score ({assessment.calibration.scope === 'desk' ? 'your desk' : 'firm-wide'}, {assessment.calibration.samples} trades)
+            </span>
+            <span className="text-sm font-semibold">{Math.round(assessment.calibration.probability * 100)}%</span>
+          </div>
+        )}
+
         {reason && (
           <div className="pt-2 border-t border-border/30">
             <p className="text-xs text-muted-foreground italic">{reason}</p>
@@ -160,6 +178,22 @@ export function RiskDisplay({ assessment, onProceed, onCooldown, onBlock, onOver
         )}
       </div>
 
+      {/* SCORE BREAKDOWN CARD (full assessments only) */}
+      {attribution && attribution.length > 0 && (
+        <div className="bg-card/30 backdrop-blur-sm border border-border/50 rounded-xl p-5 space-y-3">
+          <div className="flex items-center gap-2 mb-3">
+            <BarChart3 className="w-4 h-4 text-primary" />
+            <h4 className="text-sm font-semibold">Why This Score</h4>
+          </div>
+
+          <ScoreWaterfall contributions={attribution} score={riskScore} />
+
+          <p className="text-xs text-muted-foreground">
+            Points each reading added to or took off your score
+          </p>
+        </div>
+      )}
+
       {/* COGNITIVE ANALYTICS CARD (if available) */}
       {assessment.cognitiveAnalytics && (
         <div className="bg-card/30 backdrop-blur-sm border border-border/50 rounded-xl p-5 space-y-3">
@@ -189,6 +223,43 @@ export function RiskDisplay({ assessment, onProceed, onCooldown, onBlock, onOver
         </div>
       )}
 
+      {/* ORDER SIZE CARD (once there is history to compare against) */}
+      {sizeAnomaly && (
+        <div className={`bg-card/30 backdrop-blur-sm border rounded-xl p-5 space-y-3 ${sizeAnomaly.unusual ? 'border-orange-500/30' : 'border-border/50'}`}>
+          <div className="flex items-center gap-2 mb-3">
+            <Scale className={`w-4 h-4 ${sizeAnomaly.unusual ? 'text-orange-500' : 'text-primary'}`} />
+            <h4 className="text-sm font-semibold">{sizeAnomaly.unusual ? 'Unusual Order Size' : 'Order Size'}</h4>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Size Percentile</div>
+              <div className="font-semibold">{sizeAnomaly.sizePercentile}th</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Size z-score</div>
+              <div className="font-semibold">{sizeAnomaly.sizeZ ?? '—'}</div>
+            </div>
+            {sizeAnomaly.leveragePercentile != null && (
+              <>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Leverage Percentile</div>
+                  <div className="font-semibold">{sizeAnomaly.leveragePercentile}th</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Leverage z-score</div>
+                  <div className="font-semibold">{sizeAnomaly.leverageZ ?? '—'}</div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Compared with your last {sizeAnomaly.samples} {sizeAnomaly.instrument} orders
+          </p>
+        </div>
+      )}
+
       {/* ACTION BUTTONS */}
       <div className="space-y-2">
         {shouldAllowTrade && (
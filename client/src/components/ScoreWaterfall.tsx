@@ -0,0 +1,78 @@
+import { Bar, BarChart, Cell, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import type { ScoreContribution } from '@shared/tradePauseAI';
+
+interface ScoreWaterfallProps {
+  contributions: ScoreContribution[];
+  score: number;
+}
+
+interface WaterfallStep {
+  label: string;
+  offset: number; // invisible bar the visible step sits on
+  size: number;
+  points: number;
+  kind: 'raise' | 'lower' | 'total';
+}
+
+const chartConfig = {
+  size: { label: 'Points' },
+} satisfies ChartConfig;
+
+const STEP_COLORS: Record<WaterfallStep['kind'], string> = {
+  raise: 'hsl(var(--destructive))',
+  lower: 'hsl(142 71% 45%)',
+  total: 'hsl(var(--primary))',
+};
+
+const formatPoints = (points: number) => `${points > 0 ? '+' : ''}${points.toFixed(1)}`;
+
+/**
+ * Waterfall of the points each input added to (or took off) the risk score,
+ * in scoring order, ending on the score itself.
+ */
+export function ScoreWaterfall({ contributions, score }: ScoreWaterfallProps) {
+  let running = 0;
+  const steps: WaterfallStep[] = contributions.map(({ label, points }) => {
+    const start = running;
+    running += points;
+    return {
+      label,
+      offset: Math.min(start, running),
+      size: Math.abs(points),
+      points,
+      kind: points >= 0 ? 'raise' : 'lower',
+    };
+  });
+  steps.push({ label: 'Risk score', offset: 0, size: score, points: score, kind: 'total' });
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: steps.length * 28 + 24 }}>
+      <BarChart data={steps} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="label" width={150} tickLine={false} axisLine={false} interval={0} />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            const step = active ? (payload?.[0]?.payload as WaterfallStep | undefined) : undefined;
+            if (!step) return null;
+            return (
+              <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                <div className="font-medium">{step.label}</div>
+                <div className="tabular-nums text-muted-foreground">
+                  {step.kind === 'total' ? `${step.points}/100` : `${formatPoints(step.points)} points`}
+                </div>
+              </div>
+            );
+          }}
+        />
+        <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+        <Bar dataKey="size" stackId="waterfall" radius={3}>
+          {steps.map((step) => (
+            <Cell key={step.label} fill={STEP_COLORS[step.kind]} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,345 @@
+import { useEffect, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { ScoringProfilePreview } from '@/types/tradePause';
+import { unappliedProfileParts, type ScoringEngineInfo, type ScoringProfilePart } from '@shared/scoringEngines';
+import {
+  CURVE_INPUTS,
+  DEFAULT_SCORING_PROFILE,
+  SCORING_COMPONENTS,
+  applyCurve,
+  scoringProfileSchema,
+  type CognitiveOverrideRule,
+  type CurvePoint,
+  type ScoringComponent,
+  type ScoringProfile,
+} from '@shared/scoringProfile';
+
+interface ScoringProfileEditorProps {
+  value: ScoringProfile | null;
+  onChange: (profile: ScoringProfile | null) => void;
+  policyId?: string;
+  engine?: ScoringEngineInfo; // the policy's full-assessment engine, as selected
+}
+
+const COMPONENT_LABELS: Record<ScoringComponent, string> = {
+  camera: 'Camera',
+  impulse: 'Impulse control',
+  focus: 'Focus',
+  reaction: 'Reaction',
+};
+
+const MEASURE_LABELS: Record<CognitiveOverrideRule['measure'], string> = {
+  max: 'Highest test score',
+  average: 'Average test score',
+  second: 'Second-highest test score',
+};
+
+const PART_LABELS: Record<ScoringProfilePart, string> = {
+  weights: 'weights',
+  curves: 'curves',
+  cognitiveOverride: 'cognitive override',
+};
+
+const PREVIEW_DELAY_MS = 400;
+
+const round = (value: number, places: number) => Number(value.toFixed(places));
+
+/**
+ * Edits a policy's scoring profile: component weights, each component's curve
+ * and the cognitive override rules, with the sample traders rescored as it
+ * changes. Off means each engine's built-in profile. Parts the engine does not
+ * apply are locked at its built-in values.
+ */
+export function ScoringProfileEditor({ value, onChange, policyId, engine }: ScoringProfileEditorProps) {
+  const builtIn = engine?.profile?.builtIn ?? DEFAULT_SCORING_PROFILE;
+  const applies = (part: ScoringProfilePart) => engine?.profile?.parts.includes(part) ?? true;
+  const unapplied = engine?.profile ? unappliedProfileParts(engine.profile, value) : [];
+
+  const validation = value ? scoringProfileSchema.safeParse(value) : null;
+  const problem = validation && !validation.success
+    ? validation.error.errors[0]?.message
+    : unapplied.length > 0
+      ? `${engine!.id} does not apply the ${unapplied.map((part) => PART_LABELS[part]).join(' or ')}; reset them to its built-in values`
+      : undefined;
+
+  // Rescore once edits pause, and only a profile the API would accept
+  const [previewed, setPreviewed] = useState(value);
+  useEffect(() => {
+    if (problem) return;
+    const timer = setTimeout(() => setPreviewed(value), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value, problem]);
+
+  const { data: preview, isError: previewFailed } = useQuery<ScoringProfilePreview>({
+    queryKey: ['/api/policies/scoring-profile/preview', policyId, previewed],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/policies/scoring-profile/preview', {
+        basePolicyId: policyId,
+        scoringProfile: previewed,
+      });
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const update = (changes: Partial<ScoringProfile>) => value && onChange({ ...value, ...changes });
+
+  const setWeight = (component: ScoringComponent, percent: number) =>
+    value && update({ weights: { ...value.weights, [component]: round(percent / 100, 4) } });
+
+  const setCurve = (component: ScoringComponent, curve: CurvePoint[]) =>
+    value && update({ curves: { ...value.curves, [component]: curve } });
+
+  const setPoint = (component: ScoringComponent, index: number, changes: Partial<CurvePoint>) =>
+    value && setCurve(component, value.curves[component].map((point, i) => (i === index ? { ...point, ...changes } : point)));
+
+  // A new point splits the widest gap, on the curve as it stands
+  const addPoint = (component: ScoringComponent) => {
+    if (!value) return;
+    const curve = value.curves[component];
+    let gap = 1;
+    for (let i = 1; i < curve.length; i++) {
+      if (curve[i].x - curve[i - 1].x > curve[gap].x - curve[gap - 1].x) gap = i;
+    }
+    const x = round((curve[gap - 1].x + curve[gap].x) / 2, 3);
+    setCurve(component, [...curve.slice(0, gap), { x, risk: round(applyCurve(curve, x), 1) }, ...curve.slice(gap)]);
+  };
+
+  const setRule = (index: number, changes: Partial<CognitiveOverrideRule>) =>
+    value && update({ cognitiveOverride: value.cognitiveOverride.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+
+  const weightTotal = value ? SCORING_COMPONENTS.reduce((total, component) => total + value.weights[component], 0) : 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="custom-scoring-profile">Custom scoring profile</Label>
+          <p className="text-xs text-muted-foreground">
+            Off uses each engine's built-in weights and curves. Parts the engine does not apply stay at its built-in values.
+          </p>
+        </div>
+        <Switch
+          id="custom-scoring-profile"
+          checked={value !== null}
+          onCheckedChange={(checked) => onChange(checked ? structuredClone(builtIn) : null)}
+          data-testid="switch-custom-scoring-profile"
+        />
+      </div>
+
+      {value && (
+        <>
+          {/* Weights */}
+          <div>
+            <Label className="text-sm font-medium">Component weights (%)</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-2">
+              {SCORING_COMPONENTS.map((component) => (
+                <div key={component}>
+                  <Label htmlFor={`weight-${component}`} className="text-xs">{COMPONENT_LABELS[component]}</Label>
+                  <Input
+                    id={`weight-${component}`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={round(value.weights[component] * 100, 2)}
+                    onChange={(e) => setWeight(component, parseFloat(e.target.value) || 0)}
+                    data-testid={`input-weight-${component}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className={`text-xs mt-1 ${Math.abs(weightTotal - 1) < 0.001 ? 'text-muted-foreground' : 'text-destructive'}`}>
+              Total {round(weightTotal * 100, 2)}%
+            </p>
+          </div>
+
+          {/* Curves */}
+          <div>
+            <Label className="text-sm font-medium">Component curves</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Each curve maps a reading from 0 to 1 onto a 0-100 component score, linearly between points. Curves must start at 0 and end at 1.
+            </p>
+            {!applies('curves') && (
+              <LockedPart engineId={engine!.id} part="curves" onReset={unapplied.includes('curves') ? () => update({ curves: structuredClone(builtIn.curves) }) : undefined} />
+            )}
+            <fieldset disabled={!applies('curves')} className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2 disabled:opacity-50">
+              {SCORING_COMPONENTS.map((component) => (
+                <div key={component} className="border border-border/50 rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">{COMPONENT_LABELS[component]} <span className="text-xs text-muted-foreground">({CURVE_INPUTS[component]} → risk)</span></span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => addPoint(component)}
+                      disabled={value.curves[component].length >= 12}
+                      data-testid={`button-add-point-${component}`}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {value.curves[component].map((point, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={point.x}
+                        onChange={(e) => setPoint(component, index, { x: parseFloat(e.target.value) || 0 })}
+                        aria-label={`${COMPONENT_LABELS[component]} point ${index + 1} reading`}
+                      />
+                      <span className="text-muted-foreground">→</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={point.risk}
+                        onChange={(e) => setPoint(component, index, { risk: parseFloat(e.target.value) || 0 })}
+                        aria-label={`${COMPONENT_LABELS[component]} point ${index + 1} risk`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCurve(component, value.curves[component].filter((_, i) => i !== index))}
+                        disabled={value.curves[component].length <= 2}
+                        aria-label="Remove point"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </fieldset>
+          </div>
+
+          {/* Cognitive override */}
+          <div>
+            <Label className="text-sm font-medium">Cognitive override</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Raises the composite to at least the floor once a test measure reaches the threshold. Rules are checked in order and the first match applies.
+            </p>
+            {!applies('cognitiveOverride') && (
+              <LockedPart
+                engineId={engine!.id}
+                part="cognitiveOverride"
+                onReset={unapplied.includes('cognitiveOverride') ? () => update({ cognitiveOverride: structuredClone(builtIn.cognitiveOverride) }) : undefined}
+              />
+            )}
+            <fieldset disabled={!applies('cognitiveOverride')} className="space-y-2 mt-2 disabled:opacity-50">
+              {value.cognitiveOverride.map((rule, index) => (
+                <div key={index} className="grid grid-cols-[1fr_6rem_6rem_auto] items-center gap-2">
+                  <Select
+                    value={rule.measure}
+                    onValueChange={(measure) => setRule(index, { measure: measure as CognitiveOverrideRule['measure'] })}
+                  >
+                    <SelectTrigger aria-label={`Rule ${index + 1} measure`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(MEASURE_LABELS).map(([measure, label]) => (
+                        <SelectItem key={measure} value={measure}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={rule.atLeast}
+                    onChange={(e) => setRule(index, { atLeast: parseFloat(e.target.value) || 0 })}
+                    aria-label={`Rule ${index + 1} threshold`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={rule.floor}
+                    onChange={(e) => setRule(index, { floor: parseFloat(e.target.value) || 0 })}
+                    aria-label={`Rule ${index + 1} floor`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ cognitiveOverride: value.cognitiveOverride.filter((_, i) => i !== index) })}
+                    aria-label="Remove rule"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ cognitiveOverride: [...value.cognitiveOverride, { measure: 'max', atLeast: 90, floor: 80 }] })}
+                disabled={value.cognitiveOverride.length >= 12}
+                data-testid="button-add-override-rule"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add rule
+              </Button>
+            </fieldset>
+          </div>
+        </>
+      )}
+
+      {/* Live preview */}
+      <div>
+        <Label className="text-sm font-medium">Preview</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Sample traders scored by {preview?.engine ?? 'the full-assessment engine'} under the saved policy and with this profile.
+        </p>
+        {problem ? (
+          <p className="text-xs text-destructive mt-2" data-testid="text-scoring-profile-problem">{problem}</p>
+        ) : previewFailed ? (
+          <p className="text-xs text-destructive mt-2">Preview unavailable</p>
+        ) : preview && (
+          <Table className="mt-2">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sample</TableHead>
+                <TableHead className="text-right">Saved</TableHead>
+                <TableHead className="text-right">This profile</TableHead>
+                <TableHead className="text-right">Camera / Impulse / Focus / Reaction</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.samples.map((sample) => (
+                <TableRow key={sample.id} data-testid={`row-preview-${sample.id}`}>
+                  <TableCell>{sample.label}</TableCell>
+                  <TableCell className="text-right tabular-nums">{sample.current.emotionalRiskScore} ({sample.current.decision})</TableCell>
+                  <TableCell className={`text-right tabular-nums ${sample.candidate.decision !== sample.current.decision ? 'font-semibold' : ''}`}>
+                    {sample.candidate.emotionalRiskScore} ({sample.candidate.decision})
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums text-muted-foreground">
+                    {SCORING_COMPONENTS.map((component) => sample.candidate.components[component]).join(' / ')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LockedPart({ engineId, part, onReset }: { engineId: string; part: ScoringProfilePart; onReset?: () => void }) {
+  return (
+    <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground" data-testid={`text-locked-${part}`}>
+      <span>{engineId} does not apply the {PART_LABELS[part]}.</span>
+      {onReset && (
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onReset} data-testid={`button-reset-${part}`}>
+          Reset to built-in
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AuthUser } from "@/types/tradePause";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+type LoginData = { username: string; password: string };
+type RegisterData = LoginData & { email?: string; firstName?: string; lastName?: string };
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  registerMutation: UseMutationResult<AuthUser, Error, RegisterData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(["/api/auth/me"], loggedIn);
+    },
+    onError: () => {
+      toast({ title: "Sign in failed", description: "Invalid username or password", variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData) => {
+      const res = await apiRequest("POST", "/api/auth/register", data);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (registered) => {
+      queryClient.setQueryData(["/api/auth/me"], registered);
+    },
+    onError: (error) => {
+      toast({ title: "Registration failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached response so the next user never sees the previous user's data
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
+
+export function useHasPermission(permission: Permission) {
+  const { user } = useAuth();
+  return hasPermission(user?.role, permission);
+}
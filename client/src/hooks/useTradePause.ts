@@ -1,28 +1,20 @@
 import { useState, useCallback } from "react";
-import { tradePause } from "@/lib/tradePauseSDK";
+import { tradePause, type FullAssessmentPayload } from "@/lib/tradePauseSDK";
 import { logger } from "@/lib/logger";
-import type { FullAssessmentRequest, FullAssessmentResponse } from "@/types/tradePause";
+import type { FullAssessmentResponse } from "@/types/tradePause";
 
-type RunAssessmentParams = Omit<FullAssessmentRequest, "userId">;
-
-export function useTradePause(userId = "demo-user") {
+export function useTradePause() {
   const [latestDecision, setLatestDecision] = useState<FullAssessmentResponse | null>(null);
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const runAssessment = useCallback(async (params: RunAssessmentParams) => {
+  const runAssessment = useCallback(async (params: FullAssessmentPayload) => {
     setIsRunning(true);
     setError(null);
     try {
-      logger.log('🚀 Sending assessment request with payload:', {
-        ...params,
-        userId,
-      });
+      logger.log('🚀 Sending assessment request with payload:', params);
       
-      const response = await tradePause.runFullAssessment({
-        ...params,
-        userId,
-      });
+      const response = await tradePause.runFullAssessment(params);
       
       logger.log('✅ Assessment response received:', response);
       setLatestDecision(response);
@@ -56,7 +48,7 @@ export function useTradePause(userId = "demo-user") {
     } finally {
       setIsRunning(false);
     }
-  }, [userId]);
+  }, []);
 
   const reset = useCallback(() => {
     setLatestDecision(null);
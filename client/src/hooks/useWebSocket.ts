@@ -1,4 +1,5 @@
 import { useEffect, useState, useCallback } from 'react';
+import { getTenantKey } from '@/lib/queryClient';
 
 export interface WebSocketMessage {
   type: string;
@@ -12,7 +13,8 @@ export function useWebSocket() {
 
   useEffect(() => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
+    const tenantKey = getTenantKey();
+    const wsUrl = `${protocol}//${window.location.host}/ws${tenantKey ? `?tenantKey=${encodeURIComponent(tenantKey)}` : ''}`;
     
     const ws = new WebSocket(wsUrl);
     
@@ -0,0 +1,34 @@
+import type { ComponentType } from "react";
+import { Route, Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+  permission,
+}: {
+  path: string;
+  component: ComponentType;
+  // When set, users whose role lacks this permission are sent back to the dashboard
+  permission?: Permission;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !user ? (
+        <Redirect to="/auth" />
+      ) : permission && !hasPermission(user.role, permission) ? (
+        <Redirect to="/" />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
@@ -1,5 +1,27 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Tenant identity sent with every API call. Defaults come from the build
+// environment; an embedding app can override them through the TradePause SDK.
+let tenantConfig: { tenantKey?: string; region?: string } = {
+  tenantKey: import.meta.env.VITE_TENANT_KEY || undefined,
+  region: import.meta.env.VITE_TENANT_REGION || undefined,
+};
+
+export function configureTenant(config: { tenantKey?: string; region?: string }) {
+  tenantConfig = { ...tenantConfig, ...config };
+}
+
+export function getTenantKey(): string | undefined {
+  return tenantConfig.tenantKey;
+}
+
+function tenantHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (tenantConfig.tenantKey) headers["X-Tenant-Key"] = tenantConfig.tenantKey;
+  if (tenantConfig.region) headers["X-Tenant-Region"] = tenantConfig.region;
+  return headers;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -11,6 +33,7 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers?: Record<string, string>,
 ): Promise<Response> {
   // Create abort controller for timeout
   const controller = new AbortController();
@@ -19,7 +42,7 @@ export async function apiRequest(
   try {
     const res = await fetch(url, {
       method,
-      headers: data ? { "Content-Type": "application/json" } : {},
+      headers: { ...tenantHeaders(), ...(data ? { "Content-Type": "application/json" } : {}), ...headers },
       body: data ? JSON.stringify(data) : undefined,
       credentials: "include",
       signal: controller.signal,
@@ -44,6 +67,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: tenantHeaders(),
       credentials: "include",
     });
 
@@ -69,3 +93,11 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Query keys are URLs, so keys with a query string do not share a prefix
+// element with their base path; match on the URL text instead.
+export function invalidateApiPath(path: string) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith(path),
+  });
+}
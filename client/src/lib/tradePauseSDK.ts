@@ -1,12 +1,32 @@
-import { apiRequest } from "./queryClient";
+import { apiRequest, configureTenant } from "./queryClient";
 import type {
   OrderContext,
   AssessmentSignals,
   AssessmentResult,
   FullAssessmentRequest,
   FullAssessmentResponse,
+  VerdictReuseResponse,
+  OverrideResponse,
+  SessionLossContext,
+  TradingSession,
 } from "@/types/tradePause";
 
+// The server attributes every request to the signed-in user, so the SDK never sends a userId.
+export type FullAssessmentPayload = Omit<FullAssessmentRequest, "userId">;
+
+// Attempts per call when the connection drops; HTTP errors are never retried
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+// crypto.randomUUID only exists in secure contexts, and phones on the LAN dev server are not one
+function newIdempotencyKey(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const isConnectionFailure = (error: unknown) =>
+  error instanceof TypeError || (error instanceof Error && error.message.startsWith('Request timeout'));
+
 export class TradePauseSDK {
   private tenantKey?: string;
   private region?: string;
@@ -20,16 +40,20 @@ export class TradePauseSDK {
     this.tenantKey = config?.tenantKey;
     this.region = config?.region;
     this.features = config?.features;
+
+    // Every request made through the SDK (and the app's shared query client)
+    // identifies the tenant so the server can scope its data
+    if (this.tenantKey || this.region) {
+      configureTenant({ tenantKey: this.tenantKey, region: this.region });
+    }
   }
 
   async checkBeforeTrade(
     orderContext: OrderContext,
     signals: AssessmentSignals,
-    userId?: string,
     fastMode?: boolean
   ): Promise<AssessmentResult> {
-    const response = await apiRequest('POST', '/api/trade-pause/check-trade', {
-      userId,
+    const response = await this.post('/api/trade-pause/check-trade', {
       orderContext,
       signals,
       fastMode,
@@ -42,7 +66,7 @@ export class TradePauseSDK {
     assessmentId: string,
     durationMs: number
   ): Promise<void> {
-    await apiRequest('POST', '/api/trade-pause/cooldown-completed', {
+    await this.post('/api/trade-pause/cooldown-completed', {
       assessmentId,
       durationMs,
     });
@@ -54,7 +78,7 @@ export class TradePauseSDK {
     plan: string,
     entry?: string
   ): Promise<void> {
-    await apiRequest('POST', '/api/trade-pause/save-journal', {
+    await this.post('/api/trade-pause/save-journal', {
       assessmentId,
       trigger,
       plan,
@@ -62,16 +86,31 @@ export class TradePauseSDK {
     });
   }
 
+  // Block verdicts and high-risk overrides come back pending a supervisor's co-sign
   async submitOverride(
     assessmentId: string,
-    reason: string,
-    userId?: string
-  ): Promise<void> {
-    await apiRequest('POST', '/api/trade-pause/override', {
-      userId,
+    reason: string
+  ): Promise<OverrideResponse> {
+    const response = await this.post('/api/trade-pause/override', {
       assessmentId,
       reason,
     });
+    return response.json();
+  }
+
+  /**
+   * Opens the trader's session. Trade outcomes reported from here on are
+   * booked to its ledger, which is where scoring takes the trader's PnL and
+   * recent losses from.
+   */
+  async startSession(): Promise<TradingSession> {
+    const response = await this.post('/api/trade-pause/sessions/start', {});
+    return response.json();
+  }
+
+  async endSession(): Promise<{ session: TradingSession; context: SessionLossContext }> {
+    const response = await this.post('/api/trade-pause/sessions/end', {});
+    return response.json();
   }
 
   async recordTradeOutcome(
@@ -82,19 +121,47 @@ export class TradePauseSDK {
       duration?: number;
       maxFavorableExcursion?: number;
       maxAdverseExcursion?: number;
+      ruleBreach?: boolean;
     }
   ): Promise<void> {
-    await apiRequest('POST', '/api/trade-pause/trade-outcome', {
+    await this.post('/api/trade-pause/trade-outcome', {
       assessmentId,
       outcome,
     });
   }
 
-  async runFullAssessment(payload: FullAssessmentRequest): Promise<FullAssessmentResponse> {
-    const response = await apiRequest('POST', '/api/trade-pause/assessments/full', payload);
+  /**
+   * Asks whether the trader's latest allow still covers this order. When it
+   * does, the order is counted against that allow and comes with its own
+   * authorization token; otherwise run a full assessment.
+   */
+  async checkVerdictReuse(orderContext: OrderContext): Promise<VerdictReuseResponse> {
+    const response = await this.post('/api/trade-pause/verdict-reuse', { orderContext });
+    return response.json();
+  }
+
+  async runFullAssessment(payload: FullAssessmentPayload): Promise<FullAssessmentResponse> {
+    const response = await this.post('/api/trade-pause/assessments/full', payload);
     return response.json();
   }
 
+  /**
+   * POSTs with an Idempotency-Key that stays the same across retries, so a
+   * request whose response was lost is answered with the original result
+   * instead of creating a second assessment.
+   */
+  private async post(url: string, data: unknown): Promise<Response> {
+    const headers = { 'Idempotency-Key': newIdempotencyKey() };
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await apiRequest('POST', url, data, headers);
+      } catch (error) {
+        if (attempt >= MAX_ATTEMPTS || !isConnectionFailure(error)) throw error;
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+
   // Event listener interface
   private eventListeners: Map<string, Function[]> = new Map();
 
@@ -4,13 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Link } from 'wouter';
 import { PolicyConfig } from '@/components/PolicyConfig';
+import { DeskManagement } from '@/components/DeskManagement';
+import { PolicySimulator } from '@/components/PolicySimulator';
 import { AdminAnalytics } from '@/components/AdminAnalytics';
+import { OverrideRequests } from '@/components/OverrideRequests';
 import { BaselineCalibration } from '@/components/BaselineCalibration';
 import { FaceDetectionDisplay } from '@/components/FaceDetectionDisplay';
 import { useQuery } from '@tanstack/react-query';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import type { AnalyticsStats, RealTimeEvent } from '@/types/tradePause';
-import { PlayCircle, Settings, LineChart, ShieldCheck, Layers, Fingerprint } from 'lucide-react';
+import { PlayCircle, Settings, LineChart, ShieldCheck, Layers, Fingerprint, Users, FlaskConical } from 'lucide-react';
 
 export default function AdminConsole() {
   const [activeTab, setActiveTab] = useState('analytics');
@@ -91,6 +94,24 @@ export default function AdminConsole() {
               <ShieldCheck className="w-4 h-4" aria-hidden />
               <span>Policies</span>
             </a>
+            <a 
+              href="#" 
+              onClick={() => setActiveTab('simulator')}
+              className="flex items-center space-x-3 text-muted-foreground hover:text-foreground px-3 py-2 rounded-md hover:bg-muted smooth-transition" 
+              data-testid="nav-simulator"
+            >
+              <FlaskConical className="w-4 h-4" aria-hidden />
+              <span>What-if</span>
+            </a>
+            <a 
+              href="#" 
+              onClick={() => setActiveTab('desks')}
+              className="flex items-center space-x-3 text-muted-foreground hover:text-foreground px-3 py-2 rounded-md hover:bg-muted smooth-transition" 
+              data-testid="nav-desks"
+            >
+              <Users className="w-4 h-4" aria-hidden />
+              <span>Desks</span>
+            </a>
             <a 
               href="#" 
               onClick={() => setActiveTab('baselines')}
@@ -167,14 +188,17 @@ export default function AdminConsole() {
 
           {/* Main Admin Interface */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="analytics" data-testid="tab-analytics">Analytics</TabsTrigger>
               <TabsTrigger value="policies" data-testid="tab-policies">Policies</TabsTrigger>
+              <TabsTrigger value="simulator" data-testid="tab-simulator">What-if</TabsTrigger>
+              <TabsTrigger value="desks" data-testid="tab-desks">Desks</TabsTrigger>
               <TabsTrigger value="baselines" data-testid="tab-baselines">Baselines</TabsTrigger>
               <TabsTrigger value="biometrics" data-testid="tab-biometrics">Biometrics</TabsTrigger>
             </TabsList>
 
             <TabsContent value="analytics" className="space-y-6">
+              <OverrideRequests lastMessage={lastMessage} />
               <AdminAnalytics 
                 stats={stats}
                 recentEvents={recentEvents}
@@ -187,6 +211,14 @@ export default function AdminConsole() {
               <PolicyConfig />
             </TabsContent>
 
+            <TabsContent value="simulator" className="space-y-6">
+              <PolicySimulator />
+            </TabsContent>
+
+            <TabsContent value="desks" className="space-y-6">
+              <DeskManagement />
+            </TabsContent>
+
             <TabsContent value="baselines" className="space-y-6">
               <BaselineCalibration />
             </TabsContent>
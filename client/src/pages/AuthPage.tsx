@@ -0,0 +1,130 @@
+import { useState, type FormEvent } from 'react';
+import { Redirect } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Shield } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [loginForm, setLoginForm] = useState({ username: '', password: '' });
+  const [registerForm, setRegisterForm] = useState({ username: '', password: '', email: '' });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleLogin = (e: FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(loginForm);
+  };
+
+  const handleRegister = (e: FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({
+      username: registerForm.username,
+      password: registerForm.password,
+      email: registerForm.email || undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center">
+            <Shield className="w-6 h-6 text-primary" />
+          </div>
+          <CardTitle>Mindefender</CardTitle>
+          <p className="text-sm text-muted-foreground">Sign in to continue to the trading safety layer</p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <form onSubmit={handleLogin} className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="login-username">Username</Label>
+                  <Input
+                    id="login-username"
+                    autoComplete="username"
+                    value={loginForm.username}
+                    onChange={(e) => setLoginForm({ ...loginForm, username: e.target.value })}
+                    data-testid="input-login-username"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={loginForm.password}
+                    onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
+                    data-testid="input-login-password"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+                  {loginMutation.isPending ? 'Signing in...' : 'Sign in'}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <form onSubmit={handleRegister} className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="register-username">Username</Label>
+                  <Input
+                    id="register-username"
+                    autoComplete="username"
+                    minLength={3}
+                    value={registerForm.username}
+                    onChange={(e) => setRegisterForm({ ...registerForm, username: e.target.value })}
+                    data-testid="input-register-username"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-email">Email (optional)</Label>
+                  <Input
+                    id="register-email"
+                    type="email"
+                    autoComplete="email"
+                    value={registerForm.email}
+                    onChange={(e) => setRegisterForm({ ...registerForm, email: e.target.value })}
+                    data-testid="input-register-email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-password">Password</Label>
+                  <Input
+                    id="register-password"
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={8}
+                    value={registerForm.password}
+                    onChange={(e) => setRegisterForm({ ...registerForm, password: e.target.value })}
+                    data-testid="input-register-password"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={registerMutation.isPending} data-testid="button-register">
+                  {registerMutation.isPending ? 'Creating account...' : 'Create account'}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
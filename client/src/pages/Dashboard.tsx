@@ -6,27 +6,52 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Link } from 'wouter';
-import { Shield, PlayCircle, Settings } from 'lucide-react';
+import { Shield, PlayCircle, Settings, LogOut } from 'lucide-react';
 import AIAssessmentGate from '@/components/AIAssessmentGate';
 import { useTradePause } from '@/hooks/useTradePause';
-import type { OrderContext } from '@/types/tradePause';
+import { tradePause } from '@/lib/tradePauseSDK';
+import { useAuth, useHasPermission } from '@/hooks/useAuth';
+import type { OrderContext, TradeAuthorizationGrant } from '@/types/tradePause';
 
 export default function Dashboard() {
+  const { user, logoutMutation } = useAuth();
+  const canViewAdmin = useHasPermission('admin.view');
   const [showPreTradeGate, setShowPreTradeGate] = useState(false);
   const [orderAction, setOrderAction] = useState<'buy' | 'sell'>('buy');
   const [orderSize, setOrderSize] = useState('100000');
   const [selectedInstrument, setSelectedInstrument] = useState('EUR/USD');
   const [orderType, setOrderType] = useState<'market' | 'limit'>('market');
 
+  const buildOrderContext = (side: 'buy' | 'sell'): OrderContext => ({
+    instrument: selectedInstrument,
+    size: parseInt(orderSize),
+    orderType,
+    side,
+    timeOfDay: new Date().toISOString(),
+    marketVolatility: 0.6,
+  });
+
   const handleTradeClick = async (action: 'buy' | 'sell') => {
     setOrderAction(action);
+    // An allow from moments ago may still cover this order under the trader's policy
+    try {
+      const reuse = await tradePause.checkVerdictReuse(buildOrderContext(action));
+      if (reuse.covered) {
+        console.log(`♻️ Order covered by assessment ${reuse.assessmentId} (${reuse.ordersRemaining} more orders until ${reuse.validUntil})`);
+        handleAllowTrade(reuse.authorization);
+        return;
+      }
+    } catch (error) {
+      console.warn('Verdict reuse check failed, running a full assessment:', error);
+    }
     setShowPreTradeGate(true);
   };
 
-  const handleAllowTrade = () => {
-    console.log('✅ Trade ALLOWED by AI');
+  const handleAllowTrade = (authorization?: TradeAuthorizationGrant) => {
+    console.log('✅ Trade ALLOWED by AI', authorization ? `(authorization expires ${authorization.expiresAt})` : '');
     setShowPreTradeGate(false);
-    // TODO: Execute the actual trade
+    // TODO: Execute the actual trade, sending authorization.token with the order
+    // so the order system can redeem it at /api/trade-authorizations/verify
   };
 
   const handleDenyTrade = () => {
@@ -53,11 +78,25 @@ export default function Dashboard() {
               <span className="text-xs sm:text-sm text-muted-foreground hidden sm:inline">System Online</span>
               <span className="text-xs text-muted-foreground sm:hidden">Online</span>
             </div>
-            <Link href="/admin">
-              <Button variant="secondary" size="sm" data-testid="button-settings" className="min-h-[40px]">
-                Settings
-              </Button>
-            </Link>
+            {canViewAdmin && (
+              <Link href="/admin">
+                <Button variant="secondary" size="sm" data-testid="button-settings" className="min-h-[40px]">
+                  Settings
+                </Button>
+              </Link>
+            )}
+            <span className="text-xs sm:text-sm text-muted-foreground hidden sm:inline" data-testid="text-username">{user?.username}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+              className="min-h-[40px]"
+              aria-label="Sign out"
+            >
+              <LogOut className="w-4 h-4" aria-hidden />
+            </Button>
           </div>
         </div>
       </header>
@@ -72,13 +111,15 @@ export default function Dashboard() {
                 <span className="text-sm">Live Demo</span>
               </span>
             </Link>
-            <Link href="/admin">
-              <div className="flex items-center space-x-2 sm:space-x-3 text-muted-foreground hover:text-foreground px-3 py-2 rounded-md hover:bg-muted smooth-transition cursor-pointer whitespace-nowrap min-h-[44px]" data-testid="nav-admin">
-                <Settings className="w-4 h-4 sm:w-5 sm:h-5" aria-hidden />
-                <span className="text-sm hidden sm:inline">Admin Console</span>
-                <span className="text-sm sm:hidden">Admin</span>
-              </div>
-            </Link>
+            {canViewAdmin && (
+              <Link href="/admin">
+                <div className="flex items-center space-x-2 sm:space-x-3 text-muted-foreground hover:text-foreground px-3 py-2 rounded-md hover:bg-muted smooth-transition cursor-pointer whitespace-nowrap min-h-[44px]" data-testid="nav-admin">
+                  <Settings className="w-4 h-4 sm:w-5 sm:h-5" aria-hidden />
+                  <span className="text-sm hidden sm:inline">Admin Console</span>
+                  <span className="text-sm sm:hidden">Admin</span>
+                </div>
+              </Link>
+            )}
           </nav>        </aside>
 
         {/* Main Content - Mobile Optimized */}
@@ -260,14 +301,7 @@ export default function Dashboard() {
       {/* AI Assessment Gate Modal */}
       {showPreTradeGate && (
         <AIAssessmentGate
-          orderContext={{
-            instrument: selectedInstrument,
-            size: parseInt(orderSize),
-            orderType,
-            side: orderAction,
-            timeOfDay: new Date().toISOString(),
-            marketVolatility: 0.6,
-          }}
+          orderContext={buildOrderContext(orderAction)}
           onAllow={handleAllowTrade}
           onDeny={handleDenyTrade}
           onCancel={handleCloseGate}
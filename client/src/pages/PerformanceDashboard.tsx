@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { ArrowUpIcon, ArrowDownIcon, TrendingUp, TrendingDown, Activity, Target, Zap, AlertTriangle, BarChart3, Calendar, Users, Gauge } from 'lucide-react';
+import { useHasPermission } from '@/hooks/useAuth';
 
 // Performance metrics interfaces
 interface PerformanceMetrics {
@@ -47,6 +48,8 @@ interface TeamPerformanceOverview {
 }
 
 export default function PerformanceDashboard() {
+  const canViewTeam = useHasPermission('analytics.team');
+
   // Fetch performance data
   const { data: metrics, isLoading: metricsLoading } = useQuery<PerformanceMetrics>({
     queryKey: ['/api/performance/metrics'],
@@ -62,6 +65,7 @@ export default function PerformanceDashboard() {
 
   const { data: teamOverview, isLoading: teamLoading } = useQuery<TeamPerformanceOverview>({
     queryKey: ['/api/performance/team-overview'],
+    enabled: canViewTeam,
   });
 
   // Use real data from API, with fallbacks for demo purposes
@@ -6,6 +6,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { ArrowUpIcon, ArrowDownIcon, TrendingUp, TrendingDown, Activity, Brain, Clock, Zap, AlertTriangle, Calendar, Users, Target } from 'lucide-react';
 import { Link } from 'wouter';
+import { useHasPermission } from '@/hooks/useAuth';
 
 // Stress analytics interfaces
 interface StressPattern {
@@ -45,6 +46,9 @@ interface IndividualStressProfile {
 }
 
 export default function StressAnalytics() {
+  const canViewAdmin = useHasPermission('admin.view');
+  const canViewTeam = useHasPermission('analytics.team');
+
   // Fetch stress analytics data
   const { data: stressPatterns, isLoading: isLoadingPatterns } = useQuery({
     queryKey: ['/api/analytics/stress-patterns'],
@@ -60,6 +64,7 @@ export default function StressAnalytics() {
 
   const { data: individualProfiles, isLoading: isLoadingProfiles } = useQuery({
     queryKey: ['/api/analytics/individual-profiles'],
+    enabled: canViewTeam,
   });
 
   // Use real data from API with meaningful fallbacks
@@ -119,11 +124,13 @@ export default function StressAnalytics() {
               <div className="w-2 h-2 bg-chart-1 rounded-full pulse-dot"></div>
               <span className="text-sm text-muted-foreground">Live Analysis</span>
             </div>
-            <Link href="/admin">
-              <Button variant="secondary" size="sm" data-testid="button-settings">
-                Settings
-              </Button>
-            </Link>
+            {canViewAdmin && (
+              <Link href="/admin">
+                <Button variant="secondary" size="sm" data-testid="button-settings">
+                  Settings
+                </Button>
+              </Link>
+            )}
           </div>
         </div>
       </header>
@@ -150,12 +157,14 @@ export default function StressAnalytics() {
                 <span>Stress Analytics</span>
               </span>
             </Link>
-            <Link href="/admin">
-              <div className="flex items-center space-x-3 text-muted-foreground hover:text-foreground px-3 py-2 rounded-md hover:bg-muted smooth-transition cursor-pointer" data-testid="nav-admin">
-                <span className="text-sm">⚙️</span>
-                <span>Admin Console</span>
-              </div>
-            </Link>
+            {canViewAdmin && (
+              <Link href="/admin">
+                <div className="flex items-center space-x-3 text-muted-foreground hover:text-foreground px-3 py-2 rounded-md hover:bg-muted smooth-transition cursor-pointer" data-testid="nav-admin">
+                  <span className="text-sm">⚙️</span>
+                  <span>Admin Console</span>
+                </div>
+              </Link>
+            )}
             <a href="#" className="flex items-center space-x-3 text-muted-foreground hover:text-foreground px-3 py-2 rounded-md hover:bg-muted smooth-transition" data-testid="nav-privacy">
               <span className="text-sm">🔒</span>
               <span>Privacy</span>
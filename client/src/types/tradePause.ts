@@ -6,7 +6,13 @@ import type {
   ReactionConsistencyMetrics,
   FullAssessmentRequest,
   FullAssessmentResponse,
+  SizeAnomaly,
 } from '@shared/tradePauseAI';
+import type { PolicySettingChange } from '@shared/policyRevisions';
+import type { AssessmentStatus } from '@shared/assessmentLifecycle';
+import type { TradeAuthorizationGrant } from '@shared/tradePauseAI';
+import type { ScoringEngineInfo } from '@shared/scoringEngines';
+import type { ScoringComponent, ScoringProfile } from '@shared/scoringProfile';
 
 export type OrderContext = SharedOrderContext;
 
@@ -103,6 +109,8 @@ export interface AssessmentSignals {
 
 export interface AssessmentResult {
   assessmentId: string;
+  status?: AssessmentStatus;
+  pending?: boolean; // no verdict yet; send signals for the assessment
   // New API structure
   shouldAllowTrade?: boolean;
   cooldownMs?: number;
@@ -115,6 +123,30 @@ export interface AssessmentResult {
   confidence?: number;
   recommendedAction?: string;
   cooldownDuration?: number;
+  authorization?: TradeAuthorizationGrant; // go verdicts only
+  sizeAnomaly?: SizeAnomaly; // the order's size and leverage against the trader's own
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  role: 'trader' | 'supervisor' | 'admin';
+  deskId?: string | null;
+  policyId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TradingDesk {
+  id: string;
+  name: string;
+  description?: string | null;
+  policyId?: string | null;
+  supervisorId?: string | null;
+  createdAt: string;
 }
 
 export interface Policy {
@@ -133,11 +165,170 @@ export interface Policy {
   overrideAllowed: boolean;
   supervisorNotification: boolean;
   dataRetentionDays: number;
+  verdictReuseMinutes: number;
+  verdictReuseOrders: number;
+  verdictReuseMarginPct: number;
+  overrideDailyLimit: number;
+  overrideCosignRiskScore: number | null;
+  overrideAlertCount: number;
+  overrideAlertWindowMinutes: number;
+  cooldownLadderWindowMinutes: number;
+  cooldownLadderGrowthPct: number;
+  cooldownLadderMaxSeconds: number;
+  cooldownLadderResetAfter: number;
+  overtradingLookbackDays: number;
+  overtradingZScore: number;
+  overtradingMinOrders5m: number;
+  overtradingMinOrders60m: number;
+  quickCheckEngine: string;
+  fullAssessmentEngine: string;
+  shadowFullAssessmentEngine: string | null;
+  scoringProfile: ScoringProfile | null; // null = each engine's built-in profile
   version: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// A registered scoring engine and the policies that run on it
+export interface ScoringEngine extends ScoringEngineInfo {
+  policyIds: string[];
+}
+
+interface ScoringPreviewScore {
+  emotionalRiskScore: number;
+  decision: 'allow' | 'cooldown' | 'block';
+  components: Record<ScoringComponent, number>;
+}
+
+// Sample traders scored under the saved policy and with a candidate scoring profile
+export interface ScoringProfilePreview {
+  engine: string;
+  samples: { id: string; label: string; current: ScoringPreviewScore; candidate: ScoringPreviewScore }[];
+}
+
+export interface PolicyRevision {
+  id: string;
+  policyId: string;
+  version: number;
+  // Revisions written before a setting existed do not carry it
+  snapshot: Pick<Policy, 'name' | 'strictnessLevel' | 'riskThreshold' | 'cooldownDuration' | 'enabledModes' | 'overrideAllowed' | 'supervisorNotification' | 'dataRetentionDays'>
+    & Partial<Pick<Policy,
+      | 'verdictReuseMinutes'
+      | 'verdictReuseOrders'
+      | 'verdictReuseMarginPct'
+      | 'overrideDailyLimit'
+      | 'overrideCosignRiskScore'
+      | 'overrideAlertCount'
+      | 'overrideAlertWindowMinutes'
+      | 'cooldownLadderWindowMinutes'
+      | 'cooldownLadderGrowthPct'
+      | 'cooldownLadderMaxSeconds'
+      | 'cooldownLadderResetAfter'
+      | 'overtradingLookbackDays'
+      | 'overtradingZScore'
+      | 'overtradingMinOrders5m'
+      | 'overtradingMinOrders60m'
+      | 'quickCheckEngine'
+      | 'fullAssessmentEngine'
+      | 'shadowFullAssessmentEngine'
+      | 'scoringProfile'>>;
+  authorId: string | null;
+  reason: string;
+  restoredVersion: number | null;
+  createdAt: string;
+}
+
+export interface PolicyDiff {
+  policyId: string;
+  from: PolicyRevision;
+  to: PolicyRevision;
+  changes: PolicySettingChange[];
+}
+
+export interface PolicyChangeRequest {
+  id: string;
+  policyId: string;
+  baseVersion: number;
+  changes: Partial<PolicyRevision['snapshot']>;
+  reason: string;
+  restoredVersion: number | null;
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'failed';
+  proposedBy: string;
+  reviewedBy: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  appliedVersion: number | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface OverrideRequest {
+  id: string;
+  assessmentId: string;
+  userId: string;
+  reason: string;
+  verdict: string;
+  riskScore: number | null;
+  trigger: 'block_verdict' | 'risk_score';
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'failed';
+  reviewedBy: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface TradingSession {
+  id: string;
+  userId: string;
+  startedAt: string;
+  endedAt: string | null;
+  realizedPnl: number;
+  tradeCount: number;
+  createdAt: string;
+}
+
+export interface SessionTrade {
+  id: string;
+  sessionId: string;
+  userId: string;
+  assessmentId: string;
+  pnl: number;
+  recordedAt: string;
+}
+
+export interface SimulationOutcome {
+  count: number;
+  executed: number;
+  pnl: number;
+  winners: number;
+  losers: number;
+}
+
+export interface PolicySimulationResult {
+  policy: Policy;
+  replayed: number;
+  skipped: number;
+  truncated: boolean;
+  current: { blockRate: number; holdRate: number };
+  candidate: { blockRate: number; holdRate: number };
+  blockRateDelta: number;
+  holdRateDelta: number;
+  transitions: Record<string, number>;
+  newlyStopped: SimulationOutcome;
+  newlyAllowed: SimulationOutcome;
+  changes: Array<{
+    assessmentId: string;
+    userId: string;
+    createdAt: string | null;
+    riskScore: number | null;
+    from: 'go' | 'hold' | 'block';
+    to: 'go' | 'hold' | 'block';
+    executed: boolean;
+    pnl: number | null;
+  }>;
+}
+
 export interface UserBaseline {
   id: string;
   userId: string;
@@ -157,6 +348,7 @@ export interface Assessment {
   id: string;
   userId: string;
   policyId: string;
+  policyVersion?: number | null;
   orderContext: OrderContext;
   quickCheckDurationMs?: number;
   stroopTestResults?: StroopTrial[];
@@ -206,4 +398,9 @@ export type {
   ReactionConsistencyMetrics,
   FullAssessmentRequest,
   FullAssessmentResponse,
+  TradeAuthorizationGrant,
+  VerdictReuseResponse,
+  OverrideResponse,
+  SessionLossContext,
+  SizeAnomaly,
 } from '@shared/tradePauseAI';
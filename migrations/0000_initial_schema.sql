@@ -0,0 +1,245 @@
+CREATE TABLE "alert_channels" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"alert_policy_id" varchar NOT NULL,
+	"channel_type" text NOT NULL,
+	"severity" text NOT NULL,
+	"recipients" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"template" text,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"max_frequency" integer DEFAULT 5 NOT NULL,
+	"cooldown_minutes" integer DEFAULT 15 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "alert_history" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"alert_policy_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"assessment_id" varchar,
+	"alert_type" text NOT NULL,
+	"severity" text NOT NULL,
+	"message" text NOT NULL,
+	"stress_level" real NOT NULL,
+	"trigger_threshold" integer NOT NULL,
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"channels_triggered" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"delivery_status" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"resolved" boolean DEFAULT false NOT NULL,
+	"resolved_at" timestamp,
+	"resolved_by" varchar,
+	"resolution_note" text,
+	"auto_resolved" boolean DEFAULT false NOT NULL,
+	"response_time" integer,
+	"escalated" boolean DEFAULT false NOT NULL,
+	"escalated_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "alert_policies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"warning_threshold" integer DEFAULT 60 NOT NULL,
+	"urgent_threshold" integer DEFAULT 75 NOT NULL,
+	"critical_threshold" integer DEFAULT 90 NOT NULL,
+	"escalation_delay" integer DEFAULT 300 NOT NULL,
+	"auto_resolve_delay" integer DEFAULT 1800 NOT NULL,
+	"target_roles" jsonb DEFAULT '["trader"]'::jsonb NOT NULL,
+	"target_desks" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "assessments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"policy_id" varchar NOT NULL,
+	"policy_version" integer,
+	"order_context" jsonb NOT NULL,
+	"quick_check_duration_ms" integer,
+	"stroop_test_results" jsonb,
+	"self_report_stress" integer,
+	"behavioral_metrics" jsonb,
+	"voice_prosody_score" real,
+	"facial_expression_score" real,
+	"facial_metrics" jsonb,
+	"risk_score" integer,
+	"verdict" text NOT NULL,
+	"reason_tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"confidence" real,
+	"cooldown_completed" boolean DEFAULT false,
+	"cooldown_duration_ms" integer,
+	"journal_entry" text,
+	"journal_trigger" text,
+	"journal_plan" text,
+	"override_used" boolean DEFAULT false,
+	"override_reason" text,
+	"supervisor_notified" boolean DEFAULT false,
+	"trade_executed" boolean DEFAULT false,
+	"trade_outcome" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"user_id" varchar,
+	"assessment_id" varchar,
+	"action" text NOT NULL,
+	"details" jsonb NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"timestamp" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "policies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"strictness_level" text DEFAULT 'standard' NOT NULL,
+	"risk_threshold" integer DEFAULT 65 NOT NULL,
+	"cooldown_duration" integer DEFAULT 30 NOT NULL,
+	"enabled_modes" jsonb DEFAULT '{"cognitiveTest":true,"behavioralBiometrics":true,"selfReport":true,"voiceProsody":false,"facialExpression":false}'::jsonb NOT NULL,
+	"override_allowed" boolean DEFAULT true NOT NULL,
+	"supervisor_notification" boolean DEFAULT true NOT NULL,
+	"data_retention_days" integer DEFAULT 30 NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "policy_change_requests" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"policy_id" varchar NOT NULL,
+	"base_version" integer NOT NULL,
+	"changes" jsonb NOT NULL,
+	"reason" text NOT NULL,
+	"restored_version" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"proposed_by" varchar NOT NULL,
+	"reviewed_by" varchar,
+	"review_note" text,
+	"reviewed_at" timestamp,
+	"applied_version" integer,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "policy_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"policy_id" varchar NOT NULL,
+	"version" integer NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"author_id" varchar,
+	"reason" text NOT NULL,
+	"restored_version" integer,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "policy_revisions_policy_version_unique" UNIQUE("policy_id","version")
+);
+--> statement-breakpoint
+CREATE TABLE "real_time_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"event_type" text NOT NULL,
+	"user_id" varchar,
+	"assessment_id" varchar,
+	"data" jsonb NOT NULL,
+	"processed" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "tenants" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"api_key" text NOT NULL,
+	"region" text,
+	"default_policy_id" varchar,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "tenants_api_key_unique" UNIQUE("api_key")
+);
+--> statement-breakpoint
+CREATE TABLE "trading_desks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"policy_id" varchar,
+	"supervisor_id" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_baselines" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"reaction_time_ms" real,
+	"reaction_time_std_dev" real,
+	"accuracy" real,
+	"accuracy_std_dev" real,
+	"mouse_stability" real,
+	"keystroke_rhythm" real,
+	"calibration_count" integer DEFAULT 0 NOT NULL,
+	"last_calibrated" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text,
+	"email" text,
+	"first_name" text,
+	"last_name" text,
+	"profile_image_url" text,
+	"role" text DEFAULT 'trader' NOT NULL,
+	"desk_id" varchar,
+	"policy_id" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_tenant_username_unique" UNIQUE("tenant_id","username")
+);
+--> statement-breakpoint
+ALTER TABLE "alert_channels" ADD CONSTRAINT "alert_channels_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_channels" ADD CONSTRAINT "alert_channels_alert_policy_id_alert_policies_id_fk" FOREIGN KEY ("alert_policy_id") REFERENCES "public"."alert_policies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_history" ADD CONSTRAINT "alert_history_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_history" ADD CONSTRAINT "alert_history_alert_policy_id_alert_policies_id_fk" FOREIGN KEY ("alert_policy_id") REFERENCES "public"."alert_policies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_history" ADD CONSTRAINT "alert_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_history" ADD CONSTRAINT "alert_history_assessment_id_assessments_id_fk" FOREIGN KEY ("assessment_id") REFERENCES "public"."assessments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_history" ADD CONSTRAINT "alert_history_resolved_by_users_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_policies" ADD CONSTRAINT "alert_policies_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "assessments" ADD CONSTRAINT "assessments_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "assessments" ADD CONSTRAINT "assessments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "assessments" ADD CONSTRAINT "assessments_policy_id_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "public"."policies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_assessment_id_assessments_id_fk" FOREIGN KEY ("assessment_id") REFERENCES "public"."assessments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policies" ADD CONSTRAINT "policies_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_change_requests" ADD CONSTRAINT "policy_change_requests_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_change_requests" ADD CONSTRAINT "policy_change_requests_policy_id_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "public"."policies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_change_requests" ADD CONSTRAINT "policy_change_requests_proposed_by_users_id_fk" FOREIGN KEY ("proposed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_change_requests" ADD CONSTRAINT "policy_change_requests_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_revisions" ADD CONSTRAINT "policy_revisions_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_revisions" ADD CONSTRAINT "policy_revisions_policy_id_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "public"."policies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_revisions" ADD CONSTRAINT "policy_revisions_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "real_time_events" ADD CONSTRAINT "real_time_events_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "real_time_events" ADD CONSTRAINT "real_time_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "real_time_events" ADD CONSTRAINT "real_time_events_assessment_id_assessments_id_fk" FOREIGN KEY ("assessment_id") REFERENCES "public"."assessments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenants" ADD CONSTRAINT "tenants_default_policy_id_policies_id_fk" FOREIGN KEY ("default_policy_id") REFERENCES "public"."policies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trading_desks" ADD CONSTRAINT "trading_desks_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trading_desks" ADD CONSTRAINT "trading_desks_policy_id_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "public"."policies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trading_desks" ADD CONSTRAINT "trading_desks_supervisor_id_users_id_fk" FOREIGN KEY ("supervisor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_baselines" ADD CONSTRAINT "user_baselines_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_baselines" ADD CONSTRAINT "user_baselines_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_desk_id_trading_desks_id_fk" FOREIGN KEY ("desk_id") REFERENCES "public"."trading_desks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_policy_id_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "public"."policies"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- Rows the server assumes exist without ever writing them: the tenant for
+-- requests without an SDK key and the static default policy assessments
+-- reference (see server/storageShared.ts). Both ids must match that file.
+INSERT INTO "tenants" ("id", "name", "api_key", "is_active", "created_at")
+VALUES ('a4f1b6c2-5e0d-4c8a-9b7e-3d2f1a0c9e8b', 'Default Tenant', 'default', true, '2025-09-26 00:00:00')
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "policies" (
+  "id", "tenant_id", "name", "strictness_level", "risk_threshold", "cooldown_duration",
+  "enabled_modes", "override_allowed", "supervisor_notification", "data_retention_days",
+  "version", "created_at", "updated_at"
+)
+VALUES (
+  '3a22961e-4d52-4251-aa73-2dd0d5169812', 'a4f1b6c2-5e0d-4c8a-9b7e-3d2f1a0c9e8b', 'Default Standard Policy', 'standard', 65, 30,
+  '{"cognitiveTest":true,"behavioralBiometrics":true,"selfReport":true,"voiceProsody":false,"facialExpression":false}'::jsonb,
+  true, true, 30, 1, '2025-09-26 00:00:00', '2025-09-26 00:00:00'
+)
+ON CONFLICT DO NOTHING;
@@ -0,0 +1 @@
+ALTER TABLE "assessments" ADD COLUMN "redacted_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,12 @@
+ALTER TABLE "assessments" ADD COLUMN "status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN "status_changed_at" timestamp DEFAULT now();--> statement-breakpoint
+-- Place existing assessments in the lifecycle from the flags they already carry
+UPDATE "assessments" SET
+  "status" = CASE
+    WHEN "override_used" THEN 'overridden'
+    WHEN "cooldown_completed" OR "trade_outcome" IS NOT NULL THEN 'completed'
+    WHEN "verdict" <> 'pending' THEN 'rendered'
+    WHEN "created_at" < now() - interval '15 minutes' THEN 'expired'
+    ELSE 'pending'
+  END,
+  "status_changed_at" = "created_at";
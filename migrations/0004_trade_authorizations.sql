@@ -0,0 +1,16 @@
+CREATE TABLE "trade_authorizations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"assessment_id" varchar NOT NULL,
+	"instrument" text NOT NULL,
+	"side" text NOT NULL,
+	"size" real NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"consumed_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "trade_authorizations" ADD CONSTRAINT "trade_authorizations_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trade_authorizations" ADD CONSTRAINT "trade_authorizations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trade_authorizations" ADD CONSTRAINT "trade_authorizations_assessment_id_assessments_id_fk" FOREIGN KEY ("assessment_id") REFERENCES "public"."assessments"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "idempotency_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"key" text NOT NULL,
+	"request_path" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"status_code" integer,
+	"response_body" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "idempotency_keys_user_key_unique" UNIQUE("tenant_id","user_id","key")
+);
+--> statement-breakpoint
+ALTER TABLE "idempotency_keys" ADD CONSTRAINT "idempotency_keys_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "idempotency_keys" ADD CONSTRAINT "idempotency_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
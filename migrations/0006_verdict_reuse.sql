@@ -0,0 +1,4 @@
+ALTER TABLE "assessments" ADD COLUMN "reuse_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "verdict_reuse_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "verdict_reuse_orders" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "verdict_reuse_margin_pct" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
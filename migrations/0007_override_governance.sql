@@ -0,0 +1,25 @@
+CREATE TABLE "override_requests" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" varchar NOT NULL,
+	"assessment_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"reason" text NOT NULL,
+	"verdict" text NOT NULL,
+	"risk_score" integer,
+	"trigger" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" varchar,
+	"review_note" text,
+	"reviewed_at" timestamp,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "override_daily_limit" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "override_cosign_risk_score" integer;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "override_alert_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "override_alert_window_minutes" integer DEFAULT 60 NOT NULL;--> statement-breakpoint
+ALTER TABLE "override_requests" ADD CONSTRAINT "override_requests_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "override_requests" ADD CONSTRAINT "override_requests_assessment_id_assessments_id_fk" FOREIGN KEY ("assessment_id") REFERENCES "public"."assessments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "override_requests" ADD CONSTRAINT "override_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "override_requests" ADD CONSTRAINT "override_requests_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "assessments" ADD COLUMN "cooldown_step" integer;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "cooldown_ladder_window_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "cooldown_ladder_growth_pct" integer DEFAULT 100 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "cooldown_ladder_max_seconds" integer DEFAULT 600 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "cooldown_ladder_reset_after" integer DEFAULT 3 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "policies" ADD COLUMN "overtrading_lookback_days" integer DEFAULT 14 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "overtrading_z_score" real DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "overtrading_min_orders_5m" integer DEFAULT 4 NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "overtrading_min_orders_60m" integer DEFAULT 15 NOT NULL;
\ No newline at end of file
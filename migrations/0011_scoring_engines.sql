@@ -0,0 +1,4 @@
+ALTER TABLE "assessments" ADD COLUMN "engine_id" text;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN "engine_version" text;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "quick_check_engine" text DEFAULT 'risk-scoring@1.0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "full_assessment_engine" text DEFAULT 'new-scoring-engine@2.5' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "assessments" ADD COLUMN "shadow_engine_id" text;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN "shadow_engine_version" text;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN "shadow_risk_score" integer;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN "shadow_decision" text;--> statement-breakpoint
+ALTER TABLE "policies" ADD COLUMN "shadow_full_assessment_engine" text;
\ No newline at end of file
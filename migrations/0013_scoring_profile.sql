@@ -0,0 +1 @@
+ALTER TABLE "policies" ADD COLUMN "scoring_profile" jsonb;
\ No newline at end of file
@@ -0,0 +1,252 @@
+import type { IncomingMessage } from "node:http";
+import type { Express, Request, RequestHandler, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { resolveTenant } from "./tenants";
+import { bindTenantContext, runWithTenant } from "./tenantContext";
+import type { Tenant, User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string }; // written by passport.session()
+  }
+}
+
+/**
+ * Resolves the signed-in user of a request that never reaches Express, such as
+ * a WebSocket upgrade, from its session cookie. Undefined when anonymous.
+ */
+export type UpgradeAuthenticator = (req: IncomingMessage, tenant: Tenant) => Promise<SelectUser | undefined>;
+
+/** User shape that is safe to return to clients (never includes the password hash). */
+export type PublicUser = Omit<SelectUser, "passwordHash">;
+
+const scryptAsync = promisify(scrypt);
+
+const registerSchema = z.object({
+  username: z.string().min(3).max(64),
+  password: z.string().min(8).max(256),
+  email: z.string().email().optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${derived.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const storedBuffer = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, storedBuffer.length)) as Buffer;
+  return storedBuffer.length === derived.length && timingSafeEqual(storedBuffer, derived);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { passwordHash: _passwordHash, ...rest } = user;
+  return rest;
+}
+
+function createSessionStore(): session.Store {
+  // Persist sessions next to the application data when a real database is
+  // configured; otherwise keep them in a bounded in-process store.
+  if (process.env.DATABASE_URL) {
+    const PostgresSessionStore = connectPg(session);
+    return new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function resolveSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("⚠️  SESSION_SECRET not set - using an ephemeral secret (sessions reset on restart)");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Rejects the request with 401 unless a verified session user is attached.
+ * The user object on `req.user` is re-read from storage on every request by
+ * passport's deserializer, so role changes and deletions take effect immediately.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+function authenticateWith(sessionParser: RequestHandler): UpgradeAuthenticator {
+  return (req, tenant) =>
+    new Promise((resolve, reject) => {
+      // The upgrade has no response to set cookies on; the session is only read
+      sessionParser(req as Request, {} as Response, async (err?: unknown) => {
+        if (err) return reject(err);
+        const userId = (req as Request).session?.passport?.user;
+        if (!userId) return resolve(undefined);
+        try {
+          // Same lookup as the deserializer: a session from another tenant is anonymous
+          resolve(await runWithTenant(tenant, () => storage.getUser(userId)));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+}
+
+/**
+ * Installs tenant resolution, session handling, passport and the /api/auth
+ * endpoints on the app. Must run before any route that relies on `requireAuth`.
+ * Users are looked up within the request's tenant, so a session created under
+ * one tenant key is anonymous under any other. Returns the authenticator for
+ * WebSocket upgrades, which share the same sessions.
+ */
+export function setupAuth(app: Express): UpgradeAuthenticator {
+  const sessionSettings: session.SessionOptions = {
+    secret: resolveSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 12 * 60 * 60 * 1000, // one trading day
+    },
+  };
+
+  if (process.env.NODE_ENV === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  const sessionParser = session(sessionSettings);
+  app.use("/api", resolveTenant);
+  app.use("/api", sessionParser);
+  app.use("/api", passport.initialize());
+  app.use("/api", passport.session());
+  app.use("/api", bindTenantContext);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (req: Request, id: string, done: (err: unknown, user?: SelectUser | false) => void) => {
+    try {
+      if (!req.tenant) return done(null, false);
+      // Session stores may call back outside the request's async context
+      const user = await runWithTenant(req.tenant, () => storage.getUser(id));
+      // An unknown id simply yields an anonymous request rather than an error
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const parsed = registerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(422).json({ message: "Invalid registration payload", details: parsed.error.errors });
+      }
+
+      const { password, ...profile } = parsed.data;
+      const existing = await storage.getUserByUsername(profile.username);
+      if (existing) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      // Self-registration always creates traders; elevated roles are assigned by an admin
+      const user = await storage.createUser({
+        ...profile,
+        role: "trader",
+        passwordHash: await hashPassword(password),
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "user_registered",
+        details: { username: user.username },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Registration failed:", error);
+      res.status(500).json({ message: "Registration failed" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        try {
+          await storage.createAuditLog({
+            userId: user.id,
+            action: "user_login",
+            details: { username: user.username },
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent"),
+          });
+        } catch (auditError) {
+          console.error("Login audit log failed (non-critical):", auditError);
+        }
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  return authenticateWith(sessionParser);
+}
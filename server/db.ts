@@ -51,9 +51,25 @@ const createMockDb = () => {
 
 db = createMockDb();
 
-if (process.env.DATABASE_URL) {
+// Settles once the real client (if any) has replaced the mock. The server
+// awaits it before accepting requests so the embedded database is migrated
+// before the first query.
+let dbReady: Promise<void> = Promise.resolve();
+
+if (process.env.STORAGE_DRIVER === 'embedded') {
+  // Embedded Postgres on local disk; migrations apply before it is swapped in.
+  // A failure here must stop startup rather than fall back to the mock.
+  const dataDir = process.env.EMBEDDED_DB_PATH;
+  dbReady = import('./embeddedDb')
+    .then(({ openEmbeddedDb, DEFAULT_EMBEDDED_DB_PATH }) => openEmbeddedDb(dataDir || DEFAULT_EMBEDDED_DB_PATH))
+    .then((embedded) => {
+      db = embedded.db;
+      // eslint-disable-next-line no-console
+      console.log(`Embedded database ready at ${dataDir || 'default path'}`);
+    });
+} else if (process.env.DATABASE_URL) {
   // initialize real DB client asynchronously and replace `db` when ready
-  import('@neondatabase/serverless')
+  dbReady = import('@neondatabase/serverless')
     .then(({ Pool, neonConfig }) =>
       import('drizzle-orm/neon-serverless').then(({ drizzle }) => {
         try {
@@ -74,4 +90,4 @@ if (process.env.DATABASE_URL) {
     });
 }
 
-export { db };
\ No newline at end of file
+export { db, dbReady };
\ No newline at end of file
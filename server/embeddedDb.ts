@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+
+// Embedded Postgres (PGlite) for single-box installs without a hosted database.
+// It is the same engine as the Neon path, so DatabaseStorage's queries behave
+// identically; the data lives in a directory on local disk.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Resolves to the repo root both from server/ (tsx) and from dist/ (bundled)
+export const MIGRATIONS_FOLDER = path.resolve(__dirname, "..", "migrations");
+
+export const DEFAULT_EMBEDDED_DB_PATH = "./data/mindefender";
+
+export type EmbeddedDb = ReturnType<typeof drizzle<typeof schema>>;
+
+/**
+ * Opens (creating if needed) the embedded database at `dataDir` and applies
+ * any pending migrations from ./migrations before returning. Pass
+ * `memory://` for a throwaway in-process database.
+ */
+export async function openEmbeddedDb(dataDir: string = DEFAULT_EMBEDDED_DB_PATH): Promise<{ db: EmbeddedDb; client: PGlite }> {
+  if (!dataDir.startsWith("memory://")) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+
+  const client = new PGlite(dataDir);
+  const db = drizzle({ client, schema });
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  return { db, client };
+}
@@ -0,0 +1,84 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "node:crypto";
+import { storage } from "./storage";
+import { runWithTenant } from "./tenantContext";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+const MAX_KEY_LENGTH = 255;
+
+const hashBody = (body: unknown) => createHash("sha256").update(JSON.stringify(body ?? null)).digest("hex");
+
+/**
+ * Makes POSTs that carry an `Idempotency-Key` header safe to retry. The first
+ * request with a key runs and its response is stored; a repeat within
+ * `windowMs` gets the stored response back without running again. Keys belong
+ * to the session user, so use after `requireAuth`.
+ *
+ * Server errors (5xx) are not stored, so the client's retry runs for real.
+ * The key stays reserved until the handler responds, even if the client has
+ * hung up, so a retry never runs the handler a second time alongside it.
+ */
+export function idempotent(windowMs: number) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (req.method !== "POST" || !key) return next();
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ message: `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters` });
+    }
+
+    try {
+      const userId = req.user!.id;
+      const requestPath = `${req.method} ${req.baseUrl}${req.path}`;
+      const requestHash = hashBody(req.body);
+
+      await storage.deleteIdempotencyKeysBefore(new Date(Date.now() - windowMs));
+      const reserved = await storage.reserveIdempotencyKey({ userId, key, requestPath, requestHash });
+
+      if (!reserved) {
+        const original = await storage.getIdempotencyKey(userId, key);
+        if (original && (original.requestPath !== requestPath || original.requestHash !== requestHash)) {
+          return res.status(422).json({ message: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request` });
+        }
+        if (!original || original.statusCode === null) {
+          return res.status(409).json({ message: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress` });
+        }
+        res.set(IDEMPOTENT_REPLAY_HEADER, "true");
+        return res.status(original.statusCode).json(original.responseBody);
+      }
+
+      let settled = false;
+      const send = res.json.bind(res);
+      res.json = (body?: unknown) => {
+        settled = true;
+        // Stored before it is sent, so a retry racing this response still gets it replayed
+        const settle = res.statusCode >= 500
+          ? storage.deleteIdempotencyKey(reserved.id)
+          : storage.completeIdempotencyKey(reserved.id, { statusCode: res.statusCode, responseBody: body ?? null });
+        settle
+          .catch((error) => console.error("Idempotency key update failed:", error))
+          .finally(() => send(body));
+        return res;
+      };
+
+      // A handler that ends the response some other way has nothing to replay,
+      // so its key is released. A client hanging up is no reason to: the
+      // handler is still running, and its retry must wait for it.
+      const end = res.end.bind(res) as (...args: unknown[]) => Response;
+      res.end = ((...args: unknown[]) => {
+        if (!settled && req.tenant) {
+          settled = true;
+          runWithTenant(req.tenant, () => storage.deleteIdempotencyKey(reserved.id))
+            .catch((error) => console.error("Idempotency key release failed:", error));
+        }
+        return end(...args);
+      }) as Response["end"];
+
+      next();
+    } catch (error) {
+      console.error("Idempotency check failed:", error);
+      res.status(500).json({ message: "Idempotency check failed" });
+    }
+  };
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { dbReady } from "./db";
+import { storage } from "./storage";
+import { dataRetentionService } from "./services/dataRetention";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +40,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await dbReady;
+  await storage.seedDefaults();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -70,4 +75,10 @@ app.use((req, res, next) => {
   server.listen(listenOptions, () => {
     log(`serving on port ${port}`);
   });
+
+  // Purge data past each policy's retention window; 0 turns the schedule off
+  const retentionIntervalHours = Number(process.env.RETENTION_INTERVAL_HOURS ?? 24);
+  if (retentionIntervalHours > 0) {
+    dataRetentionService.start(retentionIntervalHours * 60 * 60 * 1000);
+  }
 })();
@@ -0,0 +1,931 @@
+import { randomUUID } from "node:crypto";
+import type {
+  Tenant,
+  InsertTenant,
+  User,
+  InsertUser,
+  Policy,
+  InsertPolicy,
+  PolicyRevision,
+  PolicyChangeRequest,
+  InsertPolicyChangeRequest,
+  Assessment,
+  InsertAssessment,
+  UserBaseline,
+  InsertUserBaseline,
+  AuditLog,
+  InsertAuditLog,
+  RealTimeEvent,
+  InsertRealTimeEvent,
+  TradingDesk,
+  InsertTradingDesk,
+  AlertPolicy,
+  InsertAlertPolicy,
+  AlertChannel,
+  InsertAlertChannel,
+  AlertHistory,
+  InsertAlertHistory,
+  TradeAuthorization,
+  InsertTradeAuthorization,
+  IdempotencyKey,
+  InsertIdempotencyKey,
+  OverrideRequest,
+  InsertOverrideRequest,
+  TradingSession,
+  InsertTradingSession,
+  SessionTrade,
+  InsertSessionTrade,
+} from "@shared/schema";
+import type { AssessmentStatus } from "@shared/assessmentLifecycle";
+import { pickPolicySettings } from "@shared/policyRevisions";
+import { DEFAULT_FULL_ASSESSMENT_ENGINE, DEFAULT_QUICK_CHECK_ENGINE } from "@shared/scoringEngines";
+import type { IStorage, PolicyChange, ResolvedPolicy } from "./storage";
+import { currentTenantId, getCurrentTenant } from "./tenantContext";
+import {
+  DEFAULT_TENANT_ID,
+  alertAnalyticsSince,
+  assessmentStatsSince,
+  defaultPolicyFor,
+  defaultTenant,
+  findActiveCooldown,
+  policyAtVersion,
+  resolvePolicyFor,
+  rollbackPolicyTo,
+  summarizeAlerts,
+  type AlertAnalytics,
+} from "./storageShared";
+
+type TenantRow = { tenantId: string };
+
+// Rows handed out are copies, so callers mutating a result never change stored state
+const copy = <T>(row: T): T => structuredClone(row);
+
+// Payloads may carry undefined for "leave as is" or "use the column default", as with Drizzle
+const defined = <T extends object>(values: T): Partial<T> =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+const time = (value: Date | null | undefined) => (value ? new Date(value).getTime() : 0);
+
+// Newest first; rows with equal timestamps keep the most recently inserted first
+const newestFirst = <T>(rows: T[], key: (row: T) => Date | null) =>
+  [...rows].reverse().sort((a, b) => time(key(b)) - time(key(a)));
+
+const oldestFirst = <T>(rows: T[], key: (row: T) => Date | null) =>
+  [...rows].sort((a, b) => time(key(a)) - time(key(b)));
+
+/**
+ * In-process IStorage for local development and tests. Rows live in arrays
+ * and follow the same rules as DatabaseStorage: every read, update and delete
+ * is confined to the current tenant, inserts are stamped with it and get the
+ * schema's column defaults, and unique constraints are enforced.
+ */
+export class MemoryStorage implements IStorage {
+  private tenants: Tenant[] = [];
+  private users: User[] = [];
+  private policies: Policy[] = [];
+  private policyRevisions: PolicyRevision[] = [];
+  private policyChangeRequests: PolicyChangeRequest[] = [];
+  private assessments: Assessment[] = [];
+  private userBaselines: UserBaseline[] = [];
+  private auditLogs: AuditLog[] = [];
+  private realTimeEvents: RealTimeEvent[] = [];
+  private tradingDesks: TradingDesk[] = [];
+  private alertPolicies: AlertPolicy[] = [];
+  private alertChannels: AlertChannel[] = [];
+  private alertHistory: AlertHistory[] = [];
+  private tradeAuthorizations: TradeAuthorization[] = [];
+  private idempotencyKeys: IdempotencyKey[] = [];
+  private overrideRequests: OverrideRequest[] = [];
+  private tradingSessions: TradingSession[] = [];
+  private sessionTrades: SessionTrade[] = [];
+
+  // The default policy stays static here: nothing in memory enforces a
+  // reference to it, so only the tenant row is needed for tenant listings.
+  async seedDefaults(): Promise<void> {
+    if (!this.tenants.some((tenant) => tenant.id === DEFAULT_TENANT_ID)) {
+      this.tenants.push(defaultTenant());
+    }
+  }
+
+  async createTenant(tenant: InsertTenant): Promise<Tenant> {
+    if (this.tenants.some((existing) => existing.apiKey === tenant.apiKey)) {
+      throw new Error('duplicate key value violates unique constraint "tenants_api_key_unique"');
+    }
+    const row: Tenant = {
+      id: randomUUID(),
+      region: null,
+      defaultPolicyId: null,
+      isActive: true,
+      createdAt: new Date(),
+      ...defined(tenant),
+    } as Tenant;
+    this.tenants.push(row);
+    return copy(row);
+  }
+
+  async getTenantByApiKey(apiKey: string): Promise<Tenant | undefined> {
+    const tenant = this.tenants.find((t) => t.apiKey === apiKey);
+    return tenant && copy(tenant);
+  }
+
+  async getDefaultTenant(): Promise<Tenant> {
+    return defaultTenant();
+  }
+
+  async getTenants(): Promise<Tenant[]> {
+    return oldestFirst(this.tenants, (tenant) => tenant.createdAt).map(copy);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.first(this.users, (user) => user.id === id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.first(this.users, (user) => user.username === username);
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.select(this.users).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (this.scoped(this.users).some((user) => user.username === insertUser.username)) {
+      throw new Error('duplicate key value violates unique constraint "users_tenant_username_unique"');
+    }
+    const now = new Date();
+    return this.insert(this.users, {
+      id: randomUUID(),
+      passwordHash: null,
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      role: 'trader',
+      deskId: null,
+      policyId: null,
+      createdAt: now,
+      updatedAt: now,
+      ...defined(insertUser),
+    } as User);
+  }
+
+  async updateUser(id: string, updates: Partial<Pick<InsertUser, 'deskId' | 'policyId'>>): Promise<User | undefined> {
+    const [user] = this.update(this.users, (u) => u.id === id, { ...updates, updatedAt: new Date() });
+    return user;
+  }
+
+  async getSupervisedUserIds(supervisorId: string): Promise<string[]> {
+    const deskIds = this.scoped(this.tradingDesks)
+      .filter((desk) => desk.supervisorId === supervisorId)
+      .map((desk) => desk.id);
+    if (deskIds.length === 0) return [];
+
+    return this.scoped(this.users)
+      .filter((user) => user.deskId !== null && deskIds.includes(user.deskId))
+      .map((user) => user.id);
+  }
+
+  async getPolicy(id: string): Promise<Policy | undefined> {
+    return this.first(this.policies, (policy) => policy.id === id);
+  }
+
+  async getPolicies(): Promise<Policy[]> {
+    return this.select(this.policies).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async resolvePolicy(userId: string): Promise<ResolvedPolicy> {
+    return resolvePolicyFor(this, userId);
+  }
+
+  async getDefaultPolicy(): Promise<Policy> {
+    return defaultPolicyFor(this);
+  }
+
+  async createPolicy(policy: InsertPolicy, change: PolicyChange): Promise<Policy> {
+    const now = new Date();
+    const newPolicy = this.insert(this.policies, {
+      id: randomUUID(),
+      strictnessLevel: 'standard',
+      riskThreshold: 65,
+      cooldownDuration: 30,
+      enabledModes: {
+        cognitiveTest: true,
+        behavioralBiometrics: true,
+        selfReport: true,
+        voiceProsody: false,
+        facialExpression: false
+      },
+      overrideAllowed: true,
+      supervisorNotification: true,
+      dataRetentionDays: 30,
+      verdictReuseMinutes: 0,
+      verdictReuseOrders: 0,
+      verdictReuseMarginPct: 0,
+      overrideDailyLimit: 0,
+      overrideCosignRiskScore: null,
+      overrideAlertCount: 0,
+      overrideAlertWindowMinutes: 60,
+      cooldownLadderWindowMinutes: 0,
+      cooldownLadderGrowthPct: 100,
+      cooldownLadderMaxSeconds: 600,
+      cooldownLadderResetAfter: 3,
+      overtradingLookbackDays: 14,
+      overtradingZScore: 3,
+      overtradingMinOrders5m: 4,
+      overtradingMinOrders60m: 15,
+      quickCheckEngine: DEFAULT_QUICK_CHECK_ENGINE,
+      fullAssessmentEngine: DEFAULT_FULL_ASSESSMENT_ENGINE,
+      shadowFullAssessmentEngine: null,
+      scoringProfile: null,
+      createdAt: now,
+      updatedAt: now,
+      ...defined(policy),
+      version: 1,
+    } as Policy);
+    await this.createPolicyRevision(newPolicy, change);
+    return newPolicy;
+  }
+
+  // Same contract as DatabaseStorage.updatePolicy: every update bumps the
+  // version and records the resulting settings as a revision.
+  async updatePolicy(id: string, policy: Partial<InsertPolicy>, change: PolicyChange): Promise<Policy | undefined> {
+    const current = await this.getPolicy(id);
+    if (!current) return undefined;
+
+    if (!(await this.getPolicyRevision(id, current.version))) {
+      await this.createPolicyRevision(current, { authorId: null, reason: 'Recorded before revision history' });
+    }
+
+    if (change.baseVersion !== undefined && change.baseVersion !== current.version) {
+      throw new Error(`Policy has moved from version ${change.baseVersion} to ${current.version}; reload and try again`);
+    }
+
+    const version = current.version + 1;
+    const [updatedPolicy] = this.update(
+      this.policies,
+      (p) => p.id === id && p.version === current.version,
+      { ...policy, version, updatedAt: new Date() } as Partial<Policy>
+    );
+    if (!updatedPolicy) {
+      throw new Error('Policy was modified concurrently; reload and try again');
+    }
+
+    await this.createPolicyRevision({ ...current, ...policy, version } as Policy, change);
+    return updatedPolicy;
+  }
+
+  async getPolicyRevisions(policyId: string): Promise<PolicyRevision[]> {
+    return this.select(this.policyRevisions, (revision) => revision.policyId === policyId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getPolicyRevision(policyId: string, version: number): Promise<PolicyRevision | undefined> {
+    return this.first(this.policyRevisions, (revision) => revision.policyId === policyId && revision.version === version);
+  }
+
+  async getPolicyAtVersion(policyId: string, version: number | null): Promise<Policy | undefined> {
+    return policyAtVersion(this, policyId, version);
+  }
+
+  async rollbackPolicy(policyId: string, version: number, change: PolicyChange): Promise<Policy | undefined> {
+    return rollbackPolicyTo(this, policyId, version, change);
+  }
+
+  async isPolicyInUse(policyId: string): Promise<boolean> {
+    if (getCurrentTenant()?.defaultPolicyId === policyId) return true;
+    return this.scoped(this.tradingDesks).some((desk) => desk.policyId === policyId)
+      || this.scoped(this.users).some((user) => user.policyId === policyId);
+  }
+
+  async createPolicyChangeRequest(request: InsertPolicyChangeRequest): Promise<PolicyChangeRequest> {
+    return this.insert(this.policyChangeRequests, {
+      id: randomUUID(),
+      restoredVersion: null,
+      status: 'pending',
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      appliedVersion: null,
+      createdAt: new Date(),
+      ...defined(request),
+    } as PolicyChangeRequest);
+  }
+
+  async getPolicyChangeRequest(id: string): Promise<PolicyChangeRequest | undefined> {
+    return this.first(this.policyChangeRequests, (request) => request.id === id);
+  }
+
+  async getPolicyChangeRequests(filters: { policyId?: string; status?: string }): Promise<PolicyChangeRequest[]> {
+    const requests = this.select(this.policyChangeRequests, (request) =>
+      (!filters.policyId || request.policyId === filters.policyId) &&
+      (!filters.status || request.status === filters.status));
+    return newestFirst(requests, (request) => request.createdAt);
+  }
+
+  async reviewPolicyChangeRequest(
+    id: string,
+    review: Pick<PolicyChangeRequest, 'status'> & Partial<Pick<PolicyChangeRequest, 'reviewedBy' | 'reviewNote' | 'appliedVersion'>>,
+    from = 'pending'
+  ): Promise<PolicyChangeRequest | undefined> {
+    const [request] = this.update(
+      this.policyChangeRequests,
+      (r) => r.id === id && r.status === from,
+      { ...review, reviewedAt: new Date() }
+    );
+    return request;
+  }
+
+  private async createPolicyRevision(policy: Policy, change: PolicyChange): Promise<PolicyRevision> {
+    if (this.scoped(this.policyRevisions).some((r) => r.policyId === policy.id && r.version === policy.version)) {
+      throw new Error('duplicate key value violates unique constraint "policy_revisions_policy_version_unique"');
+    }
+    return this.insert(this.policyRevisions, {
+      id: randomUUID(),
+      policyId: policy.id,
+      version: policy.version,
+      snapshot: pickPolicySettings(policy),
+      authorId: change.authorId,
+      reason: change.reason,
+      restoredVersion: change.restoredVersion ?? null,
+      createdAt: new Date(),
+    } as PolicyRevision);
+  }
+
+  async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
+    return this.insert(this.assessments, {
+      id: randomUUID(),
+      policyVersion: null,
+      quickCheckDurationMs: null,
+      stroopTestResults: null,
+      selfReportStress: null,
+      behavioralMetrics: null,
+      voiceProsodyScore: null,
+      facialExpressionScore: null,
+      facialMetrics: null,
+      riskScore: null,
+      reasonTags: [],
+      confidence: null,
+      engineId: null,
+      engineVersion: null,
+      shadowEngineId: null,
+      shadowEngineVersion: null,
+      shadowRiskScore: null,
+      shadowDecision: null,
+      cooldownCompleted: false,
+      cooldownDurationMs: null,
+      cooldownStep: null,
+      journalEntry: null,
+      journalTrigger: null,
+      journalPlan: null,
+      overrideUsed: false,
+      overrideReason: null,
+      supervisorNotified: false,
+      reuseCount: 0,
+      tradeExecuted: false,
+      tradeOutcome: null,
+      redactedAt: null,
+      status: 'pending',
+      statusChangedAt: new Date(),
+      createdAt: new Date(),
+      ...defined(assessment),
+    } as Assessment);
+  }
+
+  async getAssessment(id: string): Promise<Assessment | undefined> {
+    return this.first(this.assessments, (assessment) => assessment.id === id);
+  }
+
+  async updateAssessment(id: string, updates: Partial<Assessment>): Promise<Assessment> {
+    const [updatedAssessment] = this.update(this.assessments, (a) => a.id === id, updates);
+    return updatedAssessment;
+  }
+
+  async transitionAssessment(id: string, from: AssessmentStatus, updates: Partial<Assessment>): Promise<Assessment | undefined> {
+    const [transitioned] = this.update(this.assessments, (a) => a.id === id && a.status === from, updates);
+    return transitioned;
+  }
+
+  async claimAssessmentReuse(id: string, maxOrders: number): Promise<Assessment | undefined> {
+    const current = this.first(this.assessments, (a) => a.id === id && a.reuseCount < maxOrders);
+    if (!current) return undefined;
+    const [claimed] = this.update(this.assessments, (a) => a.id === id, { reuseCount: current.reuseCount + 1 });
+    return claimed;
+  }
+
+  async getUserAssessments(userId: string, limit = 50): Promise<Assessment[]> {
+    const rows = this.select(this.assessments, (assessment) => assessment.userId === userId);
+    return newestFirst(rows, (assessment) => assessment.createdAt).slice(0, limit);
+  }
+
+  async getAssessmentsInRange(filters: { from: Date; to: Date; userIds?: string[]; redacted?: boolean }): Promise<Assessment[]> {
+    const from = filters.from.getTime();
+    const to = filters.to.getTime();
+    const rows = this.select(this.assessments, (assessment) =>
+      time(assessment.createdAt) >= from &&
+      time(assessment.createdAt) <= to &&
+      (!filters.userIds || filters.userIds.includes(assessment.userId)) &&
+      (filters.redacted === undefined || (assessment.redactedAt !== null) === filters.redacted));
+    return oldestFirst(rows, (assessment) => assessment.createdAt);
+  }
+
+  async getActiveCooldown(userId: string): Promise<{
+    isInCooldown: boolean;
+    remainingMs: number;
+    step: number; // cooldown ladder rung of the held assessment
+    assessment?: Assessment
+  }> {
+    const pending = this.select(this.assessments, (assessment) =>
+      assessment.userId === userId && assessment.cooldownCompleted === false);
+    return findActiveCooldown(userId, newestFirst(pending, (assessment) => assessment.createdAt));
+  }
+
+  async getAssessmentStats(timeframe: 'day' | 'week' | 'month' = 'day') {
+    const since = assessmentStatsSince(timeframe).getTime();
+    const rows = this.scoped(this.assessments).filter((assessment) => time(assessment.createdAt) >= since);
+
+    // Mirrors the SQL aggregate: the trigger count uses the fixed 65 line and
+    // the average ignores assessments still pending a score
+    const total = rows.length;
+    const scored = rows.filter((assessment) => assessment.riskScore !== null);
+    const blocked = rows.filter((assessment) => assessment.verdict === 'block').length;
+    const triggered = scored.filter((assessment) => assessment.riskScore! >= 65).length;
+    const overridden = rows.filter((assessment) => assessment.overrideUsed === true).length;
+    const avgRisk = scored.length > 0
+      ? scored.reduce((sum, assessment) => sum + assessment.riskScore!, 0) / scored.length
+      : 0;
+
+    return {
+      totalAssessments: total,
+      triggerRate: total > 0 ? (triggered / total) * 100 : 0,
+      blockRate: total > 0 ? (blocked / total) * 100 : 0,
+      overrideRate: total > 0 ? (overridden / total) * 100 : 0,
+      averageRiskScore: avgRisk
+    };
+  }
+
+  async getUserBaseline(userId: string): Promise<UserBaseline | undefined> {
+    return this.first(this.userBaselines, (baseline) => baseline.userId === userId);
+  }
+
+  async createOrUpdateBaseline(baseline: InsertUserBaseline): Promise<UserBaseline> {
+    const existing = await this.getUserBaseline(baseline.userId);
+    if (existing) {
+      const [updated] = this.update(
+        this.userBaselines,
+        (b) => b.id === existing.id,
+        { ...baseline, updatedAt: new Date() } as Partial<UserBaseline>
+      );
+      return updated;
+    }
+
+    const now = new Date();
+    return this.insert(this.userBaselines, {
+      id: randomUUID(),
+      reactionTimeMs: null,
+      reactionTimeStdDev: null,
+      accuracy: null,
+      accuracyStdDev: null,
+      mouseStability: null,
+      keystrokeRhythm: null,
+      calibrationCount: 0,
+      lastCalibrated: now,
+      createdAt: now,
+      updatedAt: now,
+      ...defined(baseline),
+    } as UserBaseline);
+  }
+
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    return this.insert(this.auditLogs, {
+      id: randomUUID(),
+      userId: null,
+      assessmentId: null,
+      ipAddress: null,
+      userAgent: null,
+      timestamp: new Date(),
+      ...defined(log),
+    } as AuditLog);
+  }
+
+  async getAuditLogs(filters: {
+    userId?: string;
+    userIds?: string[];
+    assessmentId?: string;
+    action?: string;
+    since?: Date;
+    limit?: number;
+  }): Promise<AuditLog[]> {
+    // An empty scope matches nothing rather than everything
+    if (filters.userIds && filters.userIds.length === 0) return [];
+
+    const logs = this.select(this.auditLogs, (log) =>
+      (!filters.userId || log.userId === filters.userId) &&
+      (!filters.userIds || (log.userId !== null && filters.userIds.includes(log.userId))) &&
+      (!filters.assessmentId || log.assessmentId === filters.assessmentId) &&
+      (!filters.action || log.action === filters.action) &&
+      (!filters.since || time(log.timestamp) >= filters.since.getTime()));
+
+    const limit = Math.min(Math.max(1, filters.limit || 100), 1000); // Ensure limit is between 1-1000
+    return newestFirst(logs, (log) => log.timestamp).slice(0, limit);
+  }
+
+  async createEvent(event: InsertRealTimeEvent): Promise<RealTimeEvent> {
+    return this.insert(this.realTimeEvents, {
+      id: randomUUID(),
+      userId: null,
+      assessmentId: null,
+      processed: false,
+      createdAt: new Date(),
+      ...defined(event),
+    } as RealTimeEvent);
+  }
+
+  async getUnprocessedEvents(): Promise<RealTimeEvent[]> {
+    const events = this.select(this.realTimeEvents, (event) => event.processed === false);
+    return oldestFirst(events, (event) => event.createdAt);
+  }
+
+  async markEventProcessed(id: string): Promise<void> {
+    this.update(this.realTimeEvents, (event) => event.id === id, { processed: true });
+  }
+
+  async getRecentEvents(limit = 50): Promise<RealTimeEvent[]> {
+    return newestFirst(this.select(this.realTimeEvents), (event) => event.createdAt).slice(0, limit);
+  }
+
+  async getEventsBefore(before: Date): Promise<RealTimeEvent[]> {
+    const events = this.select(this.realTimeEvents, (event) => time(event.createdAt) < before.getTime());
+    return oldestFirst(events, (event) => event.createdAt);
+  }
+
+  async deleteEvents(ids: string[]): Promise<void> {
+    this.remove(this.realTimeEvents, (event) => ids.includes(event.id));
+  }
+
+  async getAlertHistoryBefore(before: Date): Promise<AlertHistory[]> {
+    const alerts = this.select(this.alertHistory, (alert) => time(alert.createdAt) < before.getTime());
+    return oldestFirst(alerts, (alert) => alert.createdAt);
+  }
+
+  async deleteAlertHistory(ids: string[]): Promise<void> {
+    this.remove(this.alertHistory, (alert) => ids.includes(alert.id));
+  }
+
+  async getAuditLogsForAssessments(assessmentIds: string[]): Promise<AuditLog[]> {
+    const logs = this.select(this.auditLogs, (log) => log.assessmentId !== null && assessmentIds.includes(log.assessmentId));
+    return oldestFirst(logs, (log) => log.timestamp);
+  }
+
+  async redactAuditLog(id: string, details: Record<string, unknown>): Promise<void> {
+    this.update(this.auditLogs, (log) => log.id === id, { details });
+  }
+
+  async deleteAuditLogs(ids: string[]): Promise<void> {
+    this.remove(this.auditLogs, (log) => ids.includes(log.id));
+  }
+
+  async getTradingDesks(): Promise<TradingDesk[]> {
+    return this.select(this.tradingDesks);
+  }
+
+  async getTradingDesk(id: string): Promise<TradingDesk | undefined> {
+    return this.first(this.tradingDesks, (desk) => desk.id === id);
+  }
+
+  async createTradingDesk(desk: InsertTradingDesk): Promise<TradingDesk> {
+    return this.insert(this.tradingDesks, {
+      id: randomUUID(),
+      description: null,
+      policyId: null,
+      supervisorId: null,
+      createdAt: new Date(),
+      ...defined(desk),
+    } as TradingDesk);
+  }
+
+  async updateTradingDesk(id: string, desk: Partial<InsertTradingDesk>): Promise<TradingDesk> {
+    const [updatedDesk] = this.update(this.tradingDesks, (d) => d.id === id, desk as Partial<TradingDesk>);
+    return updatedDesk;
+  }
+
+  async deleteTradingDesk(id: string): Promise<void> {
+    // Unassign the desk's traders first so they fall back to the tenant default policy
+    this.update(this.users, (user) => user.deskId === id, { deskId: null, updatedAt: new Date() });
+    this.remove(this.tradingDesks, (desk) => desk.id === id);
+  }
+
+  async getAlertPolicies(): Promise<AlertPolicy[]> {
+    return newestFirst(this.select(this.alertPolicies), (policy) => policy.createdAt);
+  }
+
+  async getAlertPolicy(id: string): Promise<AlertPolicy | undefined> {
+    return this.first(this.alertPolicies, (policy) => policy.id === id);
+  }
+
+  async createAlertPolicy(policy: InsertAlertPolicy): Promise<AlertPolicy> {
+    const now = new Date();
+    return this.insert(this.alertPolicies, {
+      id: randomUUID(),
+      description: null,
+      warningThreshold: 60,
+      urgentThreshold: 75,
+      criticalThreshold: 90,
+      escalationDelay: 300,
+      autoResolveDelay: 1800,
+      targetRoles: ['trader'],
+      targetDesks: [],
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+      ...defined(policy),
+    } as AlertPolicy);
+  }
+
+  async updateAlertPolicy(id: string, policy: Partial<InsertAlertPolicy>): Promise<AlertPolicy> {
+    const [updated] = this.update(
+      this.alertPolicies,
+      (p) => p.id === id,
+      { ...policy, updatedAt: new Date() } as Partial<AlertPolicy>
+    );
+    return updated;
+  }
+
+  async deleteAlertPolicy(id: string): Promise<void> {
+    this.remove(this.alertPolicies, (policy) => policy.id === id);
+  }
+
+  async getAlertChannels(policyId: string): Promise<AlertChannel[]> {
+    return this.select(this.alertChannels, (channel) => channel.alertPolicyId === policyId)
+      .sort((a, b) => a.channelType.localeCompare(b.channelType));
+  }
+
+  async createAlertChannel(channel: InsertAlertChannel): Promise<AlertChannel> {
+    return this.insert(this.alertChannels, {
+      id: randomUUID(),
+      recipients: [],
+      template: null,
+      enabled: true,
+      maxFrequency: 5,
+      cooldownMinutes: 15,
+      createdAt: new Date(),
+      ...defined(channel),
+    } as AlertChannel);
+  }
+
+  async updateAlertChannel(id: string, channel: Partial<InsertAlertChannel>): Promise<AlertChannel> {
+    const [updated] = this.update(this.alertChannels, (c) => c.id === id, channel as Partial<AlertChannel>);
+    return updated;
+  }
+
+  async deleteAlertChannel(id: string): Promise<void> {
+    this.remove(this.alertChannels, (channel) => channel.id === id);
+  }
+
+  async createAlertHistory(alert: InsertAlertHistory): Promise<AlertHistory> {
+    return this.insert(this.alertHistory, {
+      id: randomUUID(),
+      assessmentId: null,
+      metadata: {},
+      channelsTriggered: [],
+      deliveryStatus: {},
+      resolved: false,
+      resolvedAt: null,
+      resolvedBy: null,
+      resolutionNote: null,
+      autoResolved: false,
+      responseTime: null,
+      escalated: false,
+      escalatedAt: null,
+      createdAt: new Date(),
+      ...defined(alert),
+    } as AlertHistory);
+  }
+
+  async updateAlertHistory(id: string, updates: Partial<InsertAlertHistory>): Promise<AlertHistory> {
+    const [updated] = this.update(this.alertHistory, (alert) => alert.id === id, updates as Partial<AlertHistory>);
+    return updated;
+  }
+
+  async getAlertHistory(filters: {
+    policyId?: string;
+    userId?: string;
+    userIds?: string[];
+    severity?: string;
+    resolved?: boolean;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ alerts: AlertHistory[]; total: number }> {
+    if (filters.userIds && filters.userIds.length === 0) return { alerts: [], total: 0 };
+
+    const matching = this.select(this.alertHistory, (alert) =>
+      (!filters.policyId || alert.alertPolicyId === filters.policyId) &&
+      (!filters.userId || alert.userId === filters.userId) &&
+      (!filters.userIds || filters.userIds.includes(alert.userId)) &&
+      (!filters.severity || alert.severity === filters.severity) &&
+      (filters.resolved === undefined || alert.resolved === filters.resolved));
+
+    const offset = filters.offset || 0;
+    const alerts = newestFirst(matching, (alert) => alert.createdAt).slice(offset, offset + (filters.limit || 50));
+    return { alerts, total: matching.length };
+  }
+
+  async getAlert(id: string): Promise<AlertHistory | undefined> {
+    return this.first(this.alertHistory, (alert) => alert.id === id);
+  }
+
+  async getActiveAlerts(): Promise<AlertHistory[]> {
+    return newestFirst(this.select(this.alertHistory, (alert) => !alert.resolved), (alert) => alert.createdAt);
+  }
+
+  async resolveAlert(id: string, resolvedBy: string, resolutionNote?: string): Promise<AlertHistory> {
+    const resolvedAt = new Date();
+    const alert = this.scoped(this.alertHistory).find((a) => a.id === id);
+    const [resolved] = this.update(this.alertHistory, (a) => a.id === id, {
+      resolved: true,
+      resolvedAt,
+      resolvedBy,
+      resolutionNote,
+      responseTime: alert ? Math.round((resolvedAt.getTime() - time(alert.createdAt)) / 1000) : null,
+    });
+    return resolved;
+  }
+
+  async getAlertAnalytics(timeframe = '24h'): Promise<AlertAnalytics> {
+    const since = alertAnalyticsSince(timeframe).getTime();
+    return summarizeAlerts(this.select(this.alertHistory, (alert) => time(alert.createdAt) >= since));
+  }
+
+  async createTradeAuthorization(authorization: InsertTradeAuthorization): Promise<TradeAuthorization> {
+    return this.insert(this.tradeAuthorizations, {
+      id: randomUUID(),
+      consumedAt: null,
+      createdAt: new Date(),
+      ...defined(authorization),
+    } as TradeAuthorization);
+  }
+
+  async getTradeAuthorization(id: string): Promise<TradeAuthorization | undefined> {
+    return this.first(this.tradeAuthorizations, (authorization) => authorization.id === id);
+  }
+
+  async consumeTradeAuthorization(id: string, consumedAt: Date): Promise<TradeAuthorization | undefined> {
+    const [consumed] = this.update(this.tradeAuthorizations, (a) => a.id === id && !a.consumedAt, { consumedAt });
+    return consumed;
+  }
+
+  async reserveIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    if (this.scoped(this.idempotencyKeys).some((k) => k.userId === record.userId && k.key === record.key)) {
+      return undefined;
+    }
+    return this.insert(this.idempotencyKeys, {
+      id: randomUUID(),
+      statusCode: null,
+      responseBody: null,
+      createdAt: new Date(),
+      ...defined(record),
+    } as IdempotencyKey);
+  }
+
+  async getIdempotencyKey(userId: string, key: string): Promise<IdempotencyKey | undefined> {
+    return this.first(this.idempotencyKeys, (k) => k.userId === userId && k.key === key);
+  }
+
+  async completeIdempotencyKey(id: string, response: Pick<IdempotencyKey, 'statusCode' | 'responseBody'>): Promise<void> {
+    this.update(this.idempotencyKeys, (k) => k.id === id, response);
+  }
+
+  async deleteIdempotencyKey(id: string): Promise<void> {
+    this.remove(this.idempotencyKeys, (k) => k.id === id);
+  }
+
+  async deleteIdempotencyKeysBefore(before: Date): Promise<void> {
+    this.remove(this.idempotencyKeys, (k) => time(k.createdAt) < before.getTime());
+  }
+
+  async createOverrideRequest(request: InsertOverrideRequest): Promise<OverrideRequest> {
+    return this.insert(this.overrideRequests, {
+      id: randomUUID(),
+      riskScore: null,
+      status: 'pending',
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+      ...defined(request),
+    } as OverrideRequest);
+  }
+
+  async getOverrideRequest(id: string): Promise<OverrideRequest | undefined> {
+    return this.first(this.overrideRequests, (request) => request.id === id);
+  }
+
+  async getOverrideRequests(filters: { status?: string; userIds?: string[]; assessmentId?: string }): Promise<OverrideRequest[]> {
+    const requests = this.select(this.overrideRequests, (request) =>
+      (!filters.status || request.status === filters.status) &&
+      (!filters.userIds || filters.userIds.includes(request.userId)) &&
+      (!filters.assessmentId || request.assessmentId === filters.assessmentId));
+    return newestFirst(requests, (request) => request.createdAt);
+  }
+
+  async reviewOverrideRequest(
+    id: string,
+    review: Pick<OverrideRequest, 'status'> & Partial<Pick<OverrideRequest, 'reviewedBy' | 'reviewNote'>>,
+    from = 'pending'
+  ): Promise<OverrideRequest | undefined> {
+    const [request] = this.update(
+      this.overrideRequests,
+      (r) => r.id === id && r.status === from,
+      { ...review, reviewedAt: new Date() }
+    );
+    return request;
+  }
+
+  async createTradingSession(session: InsertTradingSession): Promise<TradingSession> {
+    const now = new Date();
+    return this.insert(this.tradingSessions, {
+      id: randomUUID(),
+      startedAt: now,
+      endedAt: null,
+      realizedPnl: 0,
+      tradeCount: 0,
+      createdAt: now,
+      ...defined(session),
+    } as TradingSession);
+  }
+
+  async getOpenTradingSession(userId: string): Promise<TradingSession | undefined> {
+    const open = this.select(this.tradingSessions, (session) => session.userId === userId && !session.endedAt);
+    return newestFirst(open, (session) => session.startedAt)[0];
+  }
+
+  async getTradingSessions(userId: string, limit = 20): Promise<TradingSession[]> {
+    const sessions = this.select(this.tradingSessions, (session) => session.userId === userId);
+    return newestFirst(sessions, (session) => session.startedAt).slice(0, limit);
+  }
+
+  async endTradingSession(id: string, endedAt: Date): Promise<TradingSession | undefined> {
+    const [session] = this.update(this.tradingSessions, (s) => s.id === id && !s.endedAt, { endedAt });
+    return session;
+  }
+
+  async addSessionTrade(trade: InsertSessionTrade): Promise<SessionTrade | undefined> {
+    if (this.scoped(this.sessionTrades).some((t) => t.sessionId === trade.sessionId && t.assessmentId === trade.assessmentId)) {
+      return undefined;
+    }
+    const booked = this.insert(this.sessionTrades, {
+      id: randomUUID(),
+      recordedAt: new Date(),
+      ...defined(trade),
+    } as SessionTrade);
+
+    const session = this.first(this.tradingSessions, (s) => s.id === trade.sessionId);
+    if (session) {
+      this.update(this.tradingSessions, (s) => s.id === session.id, {
+        realizedPnl: session.realizedPnl + booked.pnl,
+        tradeCount: session.tradeCount + 1,
+      });
+    }
+    return booked;
+  }
+
+  async getSessionTrades(sessionId: string): Promise<SessionTrade[]> {
+    return oldestFirst(
+      this.select(this.sessionTrades, (trade) => trade.sessionId === sessionId),
+      (trade) => trade.recordedAt
+    );
+  }
+
+  // Live rows of the current tenant; throws outside a tenant scope like inTenant() does
+  private scoped<T extends TenantRow>(table: T[]): T[] {
+    const tenantId = currentTenantId();
+    return table.filter((row) => row.tenantId === tenantId);
+  }
+
+  private select<T extends TenantRow>(table: T[], where: (row: T) => boolean = () => true): T[] {
+    return this.scoped(table).filter(where).map(copy);
+  }
+
+  private first<T extends TenantRow>(table: T[], where: (row: T) => boolean): T | undefined {
+    const row = this.scoped(table).find(where);
+    return row && copy(row);
+  }
+
+  private insert<T extends TenantRow>(table: T[], row: T): T {
+    const stored = copy({ ...row, tenantId: currentTenantId() });
+    table.push(stored);
+    return copy(stored);
+  }
+
+  private update<T extends TenantRow>(table: T[], where: (row: T) => boolean, changes: Partial<T>): T[] {
+    return this.scoped(table)
+      .filter(where)
+      .map((row) => copy(Object.assign(row, copy(defined(changes)))));
+  }
+
+  private remove<T extends TenantRow>(table: T[], where: (row: T) => boolean): void {
+    const doomed = new Set(this.scoped(table).filter(where));
+    for (let i = table.length - 1; i >= 0; i--) {
+      if (doomed.has(table[i])) table.splice(i, 1);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+/**
+ * Sends a 403 and records the attempt in the audit log. Audit failures are
+ * logged but never turn a denial into a success or a 500.
+ */
+export async function denyAccess(req: Request, res: Response, details: Record<string, unknown> = {}) {
+  try {
+    await storage.createAuditLog({
+      userId: req.user?.id,
+      action: "access_denied",
+      details: {
+        method: req.method,
+        path: req.originalUrl,
+        role: req.user?.role,
+        ...details,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  } catch (error) {
+    console.error("Access denial audit log failed:", error);
+  }
+  return res.status(403).json({ message: "Insufficient permissions" });
+}
+
+/** Allows the request through only if the session user's role grants `permission`. Use after `requireAuth`. */
+export function authorize(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (hasPermission(req.user?.role, permission)) return next();
+    await denyAccess(req, res, { permission });
+  };
+}
+
+/**
+ * Users whose data the given user may see: admins see everyone (`null`),
+ * supervisors see themselves plus the traders on desks they supervise, and
+ * traders see only themselves.
+ */
+export async function getVisibleUserIds(user: Express.User): Promise<string[] | null> {
+  if (user.role === "admin") return null;
+  if (user.role === "supervisor") {
+    return [user.id, ...(await storage.getSupervisedUserIds(user.id))];
+  }
+  return [user.id];
+}
+
+export async function canAccessUser(user: Express.User, targetUserId: string | null | undefined): Promise<boolean> {
+  if (user.id === targetUserId) return true;
+  if (!targetUserId) return false;
+  const visible = await getVisibleUserIds(user);
+  // "Everyone" for an admin still means everyone in the admin's own tenant
+  if (visible === null) return !!(await storage.getUser(targetUserId));
+  return visible.includes(targetUserId);
+}
+
+/** For routes keyed by `:userId`: the user themselves, their desk supervisor, or an admin. */
+export async function requireUserAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (await canAccessUser(req.user!, req.params.userId)) return next();
+    await denyAccess(req, res, { targetUserId: req.params.userId });
+  } catch (error) {
+    next(error);
+  }
+}
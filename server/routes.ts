@@ -1,14 +1,38 @@
 import type { Express } from "express";
-import { createServer as createHttpServer, type Server } from "http";
+import { createServer as createHttpServer, type IncomingMessage, type Server } from "http";
 import { createServer as createHttpsServer } from "https";
 import fs from "fs";
 import path from "path";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, toPublicUser } from "./auth";
+import { authorize, canAccessUser, denyAccess, getVisibleUserIds, requireUserAccess } from "./permissions";
+import { idempotent } from "./idempotency";
+import { resolveTenantKey } from "./tenants";
+import { getCurrentTenant } from "./tenantContext";
 import { TradePauseService } from "./services/tradePause";
 import { NLPAnalysisService } from "./services/nlpAnalysis";
 import { AdaptiveBaselineLearningService } from "./services/adaptiveBaselineLearning";
-import { fullAssessmentDecisionEngine } from "./services/fullAssessmentDecision";
-import { newScoringEngine } from "./services/newScoringEngine"; // NEW: Better scoring
+import { mapDecisionToVerdict } from "./services/newScoringEngine";
+import { policyApproval, PolicyApprovalError } from "./services/policyApproval";
+import { assessmentLifecycle, AssessmentTransitionError } from "./services/assessmentLifecycle";
+import { policySimulator } from "./services/policySimulator";
+import { dataRetentionService } from "./services/dataRetention";
+import { tradeAuthorization, TradeAuthorizationError } from "./services/tradeAuthorization";
+import { verdictReuse } from "./services/verdictReuse";
+import { cooldownLadder } from "./services/cooldownLadder";
+import { overrideGovernance, OverrideGovernanceError, type OverrideFrequencyAlert } from "./services/overrideGovernance";
+import { tradingSessions, TradingSessionError } from "./services/tradingSessions";
+import { tiltDetector, type TiltAlert } from "./services/tiltDetector";
+import { overtrading } from "./services/overtrading";
+import { sizeAnomaly } from "./services/sizeAnomaly";
+import { ScoringEngineError, engineStamp, scoringEngines } from "./services/scoringEngines";
+import { shadowScoring } from "./services/shadowScoring";
+import { scoringProfilePreview } from "./services/scoringProfilePreview";
+import { riskCalibration } from "./services/riskCalibration";
+import { hasPermission } from "@shared/permissions";
+import { diffPolicySettings } from "@shared/policyRevisions";
+import { scoringProfileSchema } from "@shared/scoringProfile";
+import type { InsertPolicy, PolicySettings } from "@shared/schema";
 import { WebSocketServer, WebSocket } from "ws";
 import { z } from "zod";
 import { randomUUID } from 'node:crypto';
@@ -80,6 +104,10 @@ const overrideSchema = z.object({
 
 const orderContextSchema = checkTradeSchema.shape.orderContext;
 
+const verdictReuseSchema = z.object({
+  orderContext: orderContextSchema,
+});
+
 const cameraSignalsSchema = z.object({
   stressLevel: z.number().min(0).max(1),
   agitation: z.number().min(0).max(1),
@@ -146,8 +174,8 @@ const reactionMetricsSchema = z.object({
   lateResponses: z.number().int().min(0),
 });
 
+// The trader is always the authenticated session user; any client-supplied userId is ignored
 const fullAssessmentSchema = z.object({
-  userId: z.string().min(1),
   orderContext: orderContextSchema,
   camera: cameraSignalsSchema,
   tests: z.object({
@@ -157,18 +185,6 @@ const fullAssessmentSchema = z.object({
   }),
 });
 
-const mapDecisionToVerdict = (decision: 'allow' | 'cooldown' | 'block'): 'go' | 'hold' | 'block' => {
-  switch (decision) {
-    case 'allow':
-      return 'go';
-    case 'cooldown':
-      return 'hold';
-    case 'block':
-    default:
-      return 'block';
-  }
-};
-
 // Alert system validation schemas
 const alertPolicySchema = z.object({
   name: z.string().min(1, "Policy name is required"),
@@ -209,6 +225,7 @@ const outcomeSchema = z.object({
     duration: z.number().optional(),
     maxFavorableExcursion: z.number().optional(),
     maxAdverseExcursion: z.number().optional(),
+    ruleBreach: z.boolean().optional(), // the trade broke a desk or risk rule
   }),
 });
 
@@ -267,6 +284,104 @@ const policyUpdateSchema = z.object({
   overrideAllowed: z.boolean().optional(),
   supervisorNotification: z.boolean().optional(),
   dataRetentionDays: z.number().min(7).max(90).optional(),
+  verdictReuseMinutes: z.number().int().min(0).max(60).optional(),
+  verdictReuseOrders: z.number().int().min(0).max(20).optional(),
+  verdictReuseMarginPct: z.number().int().min(0).max(100).optional(),
+  overrideDailyLimit: z.number().int().min(0).max(50).optional(),
+  overrideCosignRiskScore: z.number().int().min(0).max(100).nullable().optional(),
+  overrideAlertCount: z.number().int().min(0).max(50).optional(),
+  overrideAlertWindowMinutes: z.number().int().min(5).max(1440).optional(),
+  cooldownLadderWindowMinutes: z.number().int().min(0).max(1440).optional(),
+  cooldownLadderGrowthPct: z.number().int().min(0).max(400).optional(),
+  cooldownLadderMaxSeconds: z.number().int().min(15).max(3600).optional(),
+  cooldownLadderResetAfter: z.number().int().min(0).max(20).optional(),
+  overtradingLookbackDays: z.number().int().min(0).max(90).optional(),
+  overtradingZScore: z.number().min(1).max(10).optional(),
+  overtradingMinOrders5m: z.number().int().min(1).max(100).optional(),
+  overtradingMinOrders60m: z.number().int().min(1).max(1000).optional(),
+  quickCheckEngine: z.string()
+    .refine((ref) => scoringEngines.isSelectable(ref, 'quick_check'), "Unknown or retired quick-check engine")
+    .optional(),
+  fullAssessmentEngine: z.string()
+    .refine((ref) => scoringEngines.isSelectable(ref, 'full_assessment'), "Unknown or retired full-assessment engine")
+    .optional(),
+  shadowFullAssessmentEngine: z.string()
+    .refine((ref) => scoringEngines.isSelectable(ref, 'full_assessment'), "Unknown or retired full-assessment engine")
+    .nullable()
+    .optional(),
+  scoringProfile: scoringProfileSchema.nullable().optional(),
+  reason: z.string().trim().min(1, "A change reason is required"),
+});
+
+const policyRollbackSchema = z.object({
+  version: z.number().int().min(1),
+  reason: z.string().trim().min(1, "A change reason is required"),
+});
+
+const policySimulationSchema = z.object({
+  basePolicyId: z.string().optional(), // defaults to the tenant default policy
+  policy: policyUpdateSchema.omit({ reason: true }),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  deskId: z.string().optional(),
+}).refine((value) => value.from <= value.to, { message: "from must not be after to", path: ["from"] });
+
+const scoringProfilePreviewSchema = z.object({
+  basePolicyId: z.string().optional(), // defaults to the tenant default policy
+  scoringProfile: scoringProfileSchema.nullable(),
+});
+
+const shadowScoringQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  deskId: z.string().optional(),
+}).refine((value) => value.from <= value.to, { message: "from must not be after to", path: ["from"] });
+
+const changeRequestReviewSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+const overrideRequestQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'expired']).optional(),
+});
+
+// Traders list their own sessions; supervisors may pass a visible trader's userId
+const tradingSessionQuerySchema = z.object({
+  userId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const policyDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+const deskSchema = z.object({
+  name: z.string().min(1, "Desk name is required"),
+  description: z.string().nullable().optional(),
+  policyId: z.string().nullable().optional(),
+  supervisorId: z.string().nullable().optional(),
+});
+
+const deskAssignmentSchema = z.object({
+  deskId: z.string().nullable(),
+});
+
+const retentionRunSchema = z.object({
+  // Purging is irreversible, so a run only changes data when asked to explicitly
+  dryRun: z.boolean().default(true),
+});
+
+const tradeAuthorizationVerifySchema = z.object({
+  token: z.string().min(1),
+  // The order about to be executed; rejected unless it is the one the token was issued for
+  order: orderContextSchema.pick({ instrument: true, side: true, size: true }).optional(),
+  // Order systems redeem the token by default; false only checks it
+  consume: z.boolean().default(true),
+});
+
+const policyOverrideSchema = z.object({
+  policyId: z.string().nullable(),
 });
 
 function tryLoadDevHttpsOptions() {
@@ -317,6 +432,35 @@ function tryLoadDevHttpsOptions() {
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const authenticateUpgrade = setupAuth(app);
+
+  // Everything below acts on behalf of a trader; only /health and the demo
+  // endpoints remain reachable without a session.
+  for (const prefix of [
+    '/api/trade-pause',
+    '/api/baselines',
+    '/api/policies',
+    '/api/analytics',
+    '/api/assessments',
+    '/api/audit-logs',
+    '/api/retention',
+    '/api/performance',
+    '/api/monitoring',
+    '/api/alerts',
+    '/api/desks',
+    '/api/users',
+    '/api/scoring-engines',
+    '/api/calibration',
+  ]) {
+    app.use(prefix, requireAuth);
+  }
+  app.use('/api/monitoring', authorize('monitoring.view'));
+
+  // Retried trade-pause POSTs replay their first response instead of creating
+  // another assessment (see ./idempotency)
+  const idempotencyWindowHours = Number(process.env.IDEMPOTENCY_WINDOW_HOURS ?? 24);
+  app.use('/api/trade-pause', idempotent(idempotencyWindowHours * 60 * 60 * 1000));
+
   // Heavy services (AI, NLP, adaptive learning) can be disabled for a
   // minimal boot to isolate startup crashes. Control via env vars:
   // ENABLE_TRADE_PAUSE, ENABLE_NLP_ANALYSIS, ENABLE_ADAPTIVE_LEARNING
@@ -392,17 +536,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log('⚠️  Running on HTTP - camera will not work on mobile');
   }
 
-  // In-memory store for placeholder assessments created when no DB or signals exist.
-  // This is intentionally lightweight and used for demo/test flows where the
-  // persistent DB may be unavailable or the adapter doesn't return inserted rows.
-  const placeholderAssessments = new Map<string, any>();
+  // Looks up an assessment and hides it unless it belongs to the requesting user.
+  const findOwnedAssessment = async (assessmentId: string, userId: string) => {
+    const assessment = await storage.getAssessment(assessmentId);
+    return assessment && assessment.userId === userId ? assessment : undefined;
+  };
   
-  // WebSocket server for real-time updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  const connectedClients = new Set<WebSocket>();
+  // WebSocket server for real-time updates. The upgrade is refused with 401
+  // unless it names a live tenant with its `tenantKey` query parameter and
+  // carries that tenant's session cookie; each socket then only receives its
+  // tenant's events.
+  type SocketOwner = { tenantId: string; userId: string };
+  const upgradeOwners = new WeakMap<IncomingMessage, SocketOwner>();
+  const verifyUpgrade = async (req: IncomingMessage): Promise<string | undefined> => {
+    const tenantKey = new URL(req.url ?? '/ws', 'http://localhost').searchParams.get('tenantKey');
+    const tenant = await resolveTenantKey(tenantKey).catch(() => undefined);
+    if (!tenant) return 'Unknown or inactive tenant key';
+    const user = await authenticateUpgrade(req, tenant).catch(() => undefined);
+    if (!user) return 'Authentication required';
+    upgradeOwners.set(req, { tenantId: tenant.id, userId: user.id });
+    return undefined;
+  };
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: ({ req }, done) => {
+      verifyUpgrade(req).then((refusal) => (refusal ? done(false, 401, refusal) : done(true)));
+    },
+  });
+  const connectedClients = new Map<WebSocket, SocketOwner>();
   
-  wss.on('connection', (ws) => {
-    connectedClients.add(ws);
+  wss.on('connection', (ws, req) => {
+    const owner = upgradeOwners.get(req);
+    if (!owner) {
+      ws.close(1008, 'Authentication required');
+      return;
+    }
+
+    connectedClients.set(ws, owner);
     console.log('WebSocket client connected');
     
     ws.on('close', () => {
@@ -411,16 +582,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Broadcast function for real-time events
+  // Broadcast function for real-time events, limited to the current request's tenant
   const broadcastEvent = (event: any) => {
+    const tenantId = getCurrentTenant()?.id;
+    if (!tenantId) return;
     const message = JSON.stringify(event);
-    connectedClients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
+    connectedClients.forEach((socket, client) => {
+      if (socket.tenantId === tenantId && client.readyState === WebSocket.OPEN) {
         client.send(message);
       }
     });
   };
 
+  // Sends an event only to the current tenant's users that `canReceive` lets
+  // through. Users are re-read, so role and desk changes apply to open sockets.
+  const sendToUsers = async (event: any, canReceive: (user: Express.User) => Promise<boolean>) => {
+    const tenantId = getCurrentTenant()?.id;
+    if (!tenantId) return;
+    const message = JSON.stringify(event);
+    for (const [client, socket] of Array.from(connectedClients)) {
+      if (socket.tenantId !== tenantId || client.readyState !== WebSocket.OPEN) continue;
+      try {
+        const user = await storage.getUser(socket.userId);
+        if (user && await canReceive(user)) client.send(message);
+      } catch (error) {
+        console.error('WebSocket delivery failed:', error);
+      }
+    }
+  };
+
+  // Those who may co-sign this trader's overrides: the desk supervisor and admins
+  const canReviewOverridesOf = (traderId: string) => async (user: Express.User) =>
+    hasPermission(user.role, 'overrides.approve') && canAccessUser(user, traderId);
+
+  // Every status change reaches the dashboards, whichever endpoint caused it
+  assessmentLifecycle.onTransition((transition) => {
+    broadcastEvent({ type: 'assessment_status_changed', data: transition });
+  });
+
+  // Supervisors hear about a tilted trader whatever the verdict on the order
+  const broadcastTiltAlert = (alert: TiltAlert | undefined) => {
+    if (alert) broadcastEvent({ type: 'tilt_alert', data: alert });
+  };
+
   // Core TradePause API endpoints
   // Health check - lightweight endpoint for client-side verification
   app.get('/health', async (req, res) => {
@@ -433,8 +637,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/trade-pause/check-trade', async (req, res) => {
     try {
-      const userId = req.body.userId || 'demo-user'; // In production, get from auth
+      const userId = req.user!.id;
       const { orderContext, signals, fastMode = false } = checkTradeSchema.parse(req.body);
+      await assessmentLifecycle.expireStale(userId);
       // If running in fastMode and no useful signals were provided, create a placeholder
       // assessment and return a pending response instead of computing a full risk score.
       const hasSignals = !!(
@@ -451,91 +656,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Create a lightweight assessment record and return its id so the client can
         // continue with the interactive tests. The server will compute the final
         // score only when the client updates the assessment with real signals.
-        const policy = await storage.getDefaultPolicy();
-        const placeholderId = randomUUID();
-        const placeholder = await storage.createAssessment({
-          userId,
-          id: placeholderId,
-          policyId: policy.id,
-          orderContext,
-          quickCheckDurationMs: 0,
-          stroopTestResults: null,
-          selfReportStress: null,
-          behavioralMetrics: {},
-          voiceProsodyScore: null,
-          facialExpressionScore: null,
-          riskScore: null as any,
-          verdict: 'pending' as any,
-          reasonTags: [],
-        } as any);
-
-        // If storage didn't return an id, fall back to our generated id
-        const returnedId = placeholder && (placeholder as any).id ? (placeholder as any).id : placeholderId;
-
-        // Save a lightweight placeholder record in-memory so subsequent
-        // updates and GET requests in demo/test flows can find it.
-        placeholderAssessments.set(returnedId, {
-          id: returnedId,
+        const { policy } = await storage.resolvePolicy(userId);
+        const placeholder = await assessmentLifecycle.open({
           userId,
           policyId: policy.id,
-          orderContext,
+          policyVersion: policy.version,
+          orderContext: await tradingSessions.scoringContext(userId, orderContext),
           quickCheckDurationMs: 0,
-          stroopTestResults: null,
-          selfReportStress: null,
           behavioralMetrics: {},
-          voiceProsodyScore: null,
-          facialExpressionScore: null,
           riskScore: null,
           verdict: 'pending',
           reasonTags: [],
-          createdAt: new Date().toISOString(),
         });
 
-        return res.json({ assessmentId: returnedId, pending: true });
-      }
-
-      // For demo users we avoid running full scoring to prevent deterministic
-      // or demo numeric scores being persisted and displayed. Always return a
-      // pending placeholder so the client runs interactive tests locally.
-      if (userId === 'demo-user') {
-        const policy = await storage.getDefaultPolicy();
-        const placeholderId = randomUUID();
-        const placeholder = await storage.createAssessment({
-          userId,
-          id: placeholderId,
-          policyId: policy.id,
-          orderContext,
-          quickCheckDurationMs: 0,
-          stroopTestResults: null,
-          selfReportStress: null,
-          behavioralMetrics: {},
-          voiceProsodyScore: null,
-          facialExpressionScore: null,
-          riskScore: null as any,
-          verdict: 'pending' as any,
-          reasonTags: [],
-        } as any);
-
-        const returnedId = placeholder && (placeholder as any).id ? (placeholder as any).id : placeholderId;
-
-        placeholderAssessments.set(returnedId, {
-          id: returnedId,
-          userId,
-          policyId: policy.id,
-          orderContext,
-          quickCheckDurationMs: 0,
-          stroopTestResults: null,
-          selfReportStress: null,
-          behavioralMetrics: {},
-          voiceProsodyScore: null,
-          facialExpressionScore: null,
-          riskScore: null,
-          verdict: 'pending',
-          reasonTags: [],
-          createdAt: new Date().toISOString(),
-        });
-
-        return res.json({ assessmentId: returnedId, pending: true });
+        return res.json({ assessmentId: placeholder.id, status: placeholder.status, pending: true });
       }
 
       const result = await tradePause.checkBeforeTrade(userId, orderContext, signals, fastMode);
@@ -549,6 +683,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (typeof (result as any).riskScore === 'number') eventData.riskScore = (result as any).riskScore;
 
       broadcastEvent({ type: 'assessment_completed', data: eventData });
+      if ('tiltAlert' in result) broadcastTiltAlert(result.tiltAlert);
+
+      // Only a go verdict on a stored assessment earns a token for the order system
+      if (result.verdict === 'go' && !result.pending) {
+        const authorization = await tradeAuthorization.issue({ id: result.assessmentId, userId }, orderContext);
+        return res.json({ ...result, authorization });
+      }
 
       res.json(result);
     } catch (error) {
@@ -564,8 +705,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log('🧠 Full assessment request received');
     
     try {
-      const payload = fullAssessmentSchema.parse(req.body);
-      const { userId } = payload;
+      const userId = req.user!.id;
+      const payload = { ...fullAssessmentSchema.parse(req.body), userId };
+      await assessmentLifecycle.expireStale(userId);
 
       console.log(`🧠 Processing assessment for user ${userId}`);
 
@@ -587,6 +729,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ],
           cooldownSeconds: remainingSeconds,
           cooldownDurationMs: cooldownCheck.remainingMs,
+          cooldownStep: cooldownCheck.step,
           assessmentId: cooldownCheck.assessment?.id,
           error: 'COOLDOWN_ACTIVE',
           message: `You must complete the ${remainingSeconds}-second cooldown period before attempting another trade.`,
@@ -601,8 +744,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const [policy, baseline] = await Promise.all([
-        storage.getDefaultPolicy(),
+      const [{ policy }, baseline, tilt, sizeCheck] = await Promise.all([
+        storage.resolvePolicy(userId),
         storage
           .getUserBaseline(userId)
           .then((value) => value ?? null)
@@ -610,11 +753,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.warn('Baseline fetch failed, proceeding without baseline:', error);
             return null;
           }),
+        tiltDetector.assess(userId, payload.orderContext),
+        sizeAnomaly.check(userId, payload.orderContext),
       ]);
-
-      console.log('🧠 Running NEW evaluation engine...');
-      const response = newScoringEngine.evaluate(payload, { policy, baseline });
+      const overtradingCheck = await overtrading.check(userId, policy);
+
+      // Score with the engine the policy selects for the full assessment
+      const engine = scoringEngines.resolve(policy.fullAssessmentEngine, 'full_assessment');
+      console.log(`🧠 Running ${engine.id}@${engine.version}...`);
+      const scoringInput = {
+        request: payload,
+        policy,
+        baseline,
+        tilt,
+        overtrading: overtradingCheck,
+        sizeAnomaly: sizeCheck,
+      };
+      const response = engine.score(scoringInput);
       console.log(`🧠 Evaluation complete: ${response.decision} (${response.emotionalRiskScore}/100, ${Math.round(response.confidence * 100)}% confidence)`);
+      // A candidate engine scored in shadow is stored with the assessment but never decides
+      const shadow = shadowScoring.score(policy, scoringInput);
+      response.calibration = await riskCalibration
+        .calibrate(userId, response.emotionalRiskScore)
+        .catch((error) => {
+          console.warn('Risk calibration failed, proceeding without it:', error);
+          return undefined;
+        });
+
+      // Repeated holds climb the policy's cooldown ladder
+      let cooldownStep: number | undefined;
+      if (response.cooldownSeconds) {
+        const rung = await cooldownLadder.rungFor(userId, policy, response.cooldownSeconds);
+        cooldownStep = rung.step;
+        if (rung.seconds !== response.cooldownSeconds) {
+          response.cooldownSeconds = rung.seconds;
+          response.reasoning.push(`Cooldown extended to ${rung.seconds}s after ${rung.step} recent hold${rung.step === 1 ? '' : 's'}`);
+        }
+      }
       
       let assessmentId: string | undefined;
 
@@ -622,7 +797,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const insertPayload = {
           userId,
           policyId: policy.id,
-          orderContext: payload.orderContext,
+          policyVersion: policy.version,
+          orderContext: await tradingSessions.scoringContext(userId, payload.orderContext),
           quickCheckDurationMs: Math.round(payload.camera.durationMs),
           stroopTestResults: {
             impulseControl: payload.tests.impulseControl,
@@ -639,6 +815,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               reaction: response.diagnostics?.reactionScore ?? 0,
               composite: response.emotionalRiskScore,
             },
+            tilt,
+            orderVelocity: overtradingCheck.velocity,
+            sizeAnomaly: sizeCheck.anomaly,
           },
           facialMetrics: payload.camera,
           facialExpressionScore: Number((1 - payload.camera.stressLevel).toFixed(2)),
@@ -649,10 +828,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           cooldownDurationMs: response.cooldownSeconds
             ? response.cooldownSeconds * 1000
             : undefined,
-        } as const;
+          cooldownStep,
+          ...engineStamp(engine),
+          ...shadow,
+        };
 
-        const record = await storage.createAssessment(insertPayload as any);
+        const record = await assessmentLifecycle.open(insertPayload, 'rendered');
         assessmentId = record.id;
+        if (record.cooldownDurationMs) {
+          await assessmentLifecycle.transition(record, 'cooling_down');
+        }
 
         await storage.createAuditLog({
           userId,
@@ -663,6 +848,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             allowed: response.allowed,
             riskScore: response.emotionalRiskScore,
             confidence: response.confidence,
+            calibratedProbability: response.calibration?.probability,
+            engine: engineStamp(engine),
           },
         });
 
@@ -675,11 +862,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
             riskScore: response.emotionalRiskScore,
           },
         });
+        broadcastTiltAlert(await tiltDetector.alertIfTilted(userId, tilt, assessmentId));
+
+        if (response.allowed) {
+          const authorization = await tradeAuthorization.issue(record, payload.orderContext);
+          return res.json({ ...response, assessmentId, authorization });
+        }
       } catch (error) {
         console.error('Failed to persist assessment:', error);
       }
 
-      return res.json(response);
+      return res.json(assessmentId ? { ...response, assessmentId } : response);
     } catch (error) {
       if (error instanceof z.ZodError) {
         console.error('❌ Invalid payload:', error.errors);
@@ -708,14 +901,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Asked before opening the assessment gate: if the trader's last allow still
+  // covers this order under their policy, the order goes ahead on that verdict
+  app.post('/api/trade-pause/verdict-reuse', async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { orderContext } = verdictReuseSchema.parse(req.body);
+
+      const decision = await verdictReuse.reuse(userId, orderContext);
+      if (!decision.covered) {
+        return res.json(decision);
+      }
+
+      const authorization = await tradeAuthorization.issue(decision.assessment, orderContext);
+      broadcastEvent({
+        type: 'verdict_reused',
+        data: { userId, assessmentId: decision.assessment.id, ordersRemaining: decision.ordersRemaining },
+      });
+
+      res.json({
+        covered: true,
+        assessmentId: decision.assessment.id,
+        ordersRemaining: decision.ordersRemaining,
+        validUntil: decision.validUntil.toISOString(),
+        authorization,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Verdict reuse check failed:', error);
+      res.status(500).json({ message: 'Verdict reuse check failed' });
+    }
+  });
+
   app.post('/api/trade-pause/cooldown-completed', async (req, res) => {
     try {
       const { assessmentId, durationMs } = cooldownSchema.parse(req.body);
       
-      await tradePause.recordCooldownCompletion(assessmentId, durationMs);
+      await tradePause.recordCooldownCompletion(assessmentId, durationMs, req.user!.id);
       
       res.json({ success: true });
     } catch (error) {
+      if (error instanceof AssessmentTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Cooldown recording failed:', error);
       res.status(400).json({ 
         message: error instanceof Error ? error.message : 'Cooldown recording failed' 
@@ -727,7 +957,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { assessmentId, trigger, plan, entry } = journalSchema.parse(req.body);
       
-      await tradePause.recordJournalEntry(assessmentId, trigger, plan, entry);
+      await tradePause.recordJournalEntry(assessmentId, trigger, plan, entry, req.user!.id);
       
       // Analyze journal entry with NLP
       try {
@@ -748,12 +978,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Supervisors hear about frequent overriders as it happens
+  const broadcastOverrideAlert = (alert: OverrideFrequencyAlert | undefined) => {
+    if (alert) broadcastEvent({ type: 'override_alert', data: alert });
+  };
+
   app.post('/api/trade-pause/override', async (req, res) => {
     try {
-      const userId = req.body.userId || 'demo-user'; // In production, get from auth
+      const userId = req.user!.id;
       const { assessmentId, reason } = overrideSchema.parse(req.body);
       
-      await tradePause.recordOverride(assessmentId, reason, userId);
+      const outcome = await overrideGovernance.requestOverride(assessmentId, reason, userId);
+
+      // Block verdicts and high risk scores wait for a supervisor's co-sign
+      if (outcome.status === 'pending_approval') {
+        const { request } = outcome;
+        await sendToUsers({
+          type: 'override_approval_requested',
+          data: {
+            requestId: request.id,
+            userId,
+            assessmentId,
+            reason,
+            verdict: request.verdict,
+            riskScore: request.riskScore,
+            trigger: request.trigger,
+            expiresAt: request.expiresAt,
+          },
+        }, canReviewOverridesOf(userId));
+        return res.status(202).json({
+          success: false,
+          status: 'pending_approval',
+          requestId: request.id,
+          trigger: request.trigger,
+          expiresAt: request.expiresAt.toISOString(),
+        });
+      }
       
       // Broadcast override event
       broadcastEvent({
@@ -764,9 +1024,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           reason,
         }
       });
+      broadcastOverrideAlert(outcome.alert);
       
-      res.json({ success: true });
+      res.json({ success: true, status: 'applied' });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      if (error instanceof OverrideGovernanceError || error instanceof AssessmentTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Override recording failed:', error);
       res.status(400).json({ 
         message: error instanceof Error ? error.message : 'Override recording failed' 
@@ -774,6 +1041,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Override co-sign requests. Supervisors see those of the traders they
+  // supervise; a trader can follow their own.
+  app.get('/api/trade-pause/override-requests', authorize('overrides.approve'), async (req, res) => {
+    try {
+      const { status } = overrideRequestQuerySchema.parse(req.query);
+      await overrideGovernance.expireStaleRequests();
+      const visibleUserIds = await getVisibleUserIds(req.user!);
+      const requests = await storage.getOverrideRequests({ status: status ?? 'pending', userIds: visibleUserIds ?? undefined });
+      res.json(requests);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Failed to fetch override requests:', error);
+      res.status(500).json({ message: 'Failed to fetch override requests' });
+    }
+  });
+
+  app.get('/api/trade-pause/override-requests/:requestId', async (req, res) => {
+    try {
+      await overrideGovernance.expireStaleRequests();
+      const request = await storage.getOverrideRequest(req.params.requestId);
+      if (!request || !(await canAccessUser(req.user!, request.userId))) {
+        return res.status(404).json({ message: 'Override request not found' });
+      }
+      res.json(request);
+    } catch (error) {
+      console.error('Failed to fetch override request:', error);
+      res.status(500).json({ message: 'Failed to fetch override request' });
+    }
+  });
+
+  app.post('/api/trade-pause/override-requests/:requestId/:decision(approve|reject)', authorize('overrides.approve'), async (req, res) => {
+    const { requestId, decision } = req.params;
+    try {
+      const { note } = changeRequestReviewSchema.parse(req.body ?? {});
+      const pending = await storage.getOverrideRequest(requestId);
+      if (!pending) {
+        return res.status(404).json({ message: 'Override request not found' });
+      }
+      // Only the trader's own desk supervisor (or an admin) may co-sign
+      if (!(await canAccessUser(req.user!, pending.userId))) {
+        return denyAccess(req, res, { requestId, targetUserId: pending.userId });
+      }
+
+      const reviewed = decision === 'approve'
+        ? await overrideGovernance.approve(requestId, req.user!.id, note)
+        : { request: await overrideGovernance.reject(requestId, req.user!.id, note) };
+      const { request } = reviewed;
+
+      // The trader hears the outcome, as do the other supervisors who could have decided it
+      const canReview = canReviewOverridesOf(request.userId);
+      await sendToUsers({
+        type: 'override_approval_resolved',
+        data: {
+          requestId,
+          userId: request.userId,
+          assessmentId: request.assessmentId,
+          status: request.status,
+          reviewedBy: request.reviewedBy,
+        },
+      }, async (user) => user.id === request.userId || canReview(user));
+      if (request.status === 'approved') {
+        broadcastEvent({
+          type: 'override_used',
+          data: { userId: request.userId, assessmentId: request.assessmentId, reason: request.reason, approvedBy: request.reviewedBy },
+        });
+      }
+      if ('alert' in reviewed) broadcastOverrideAlert(reviewed.alert);
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      if (error instanceof OverrideGovernanceError) {
+        if (error.status === 403) return denyAccess(req, res, { requestId, reason: error.message });
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof AssessmentTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error(`Override request ${decision} failed:`, error);
+      res.status(500).json({ message: `Override request ${decision} failed` });
+    }
+  });
+
   app.post('/api/trade-pause/trade-outcome', async (req, res) => {
     try {
       // Validate payload and return 422 for client errors
@@ -790,10 +1144,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(422).json({ message: 'Missing assessmentId' });
       }
 
-      await tradePause.recordTradeOutcome(assessmentId, outcome);
+      await tradePause.recordTradeOutcome(assessmentId, outcome, req.user!.id);
 
       res.json({ success: true });
     } catch (error) {
+      if (error instanceof AssessmentTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Trade outcome recording failed:', error);
       res.status(400).json({ 
         message: error instanceof Error ? error.message : 'Trade outcome recording failed' 
@@ -801,8 +1158,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trading sessions: the ledger that scoring reads PnL and losses from
+  app.get('/api/trade-pause/sessions/current', async (req, res) => {
+    try {
+      const current = await tradingSessions.current(req.user!.id);
+      res.json(current ?? { session: null });
+    } catch (error) {
+      console.error('Failed to fetch trading session:', error);
+      res.status(500).json({ message: 'Failed to fetch trading session' });
+    }
+  });
+
+  app.get('/api/trade-pause/sessions', async (req, res) => {
+    try {
+      const { userId = req.user!.id, limit } = tradingSessionQuerySchema.parse(req.query);
+      if (!(await canAccessUser(req.user!, userId))) {
+        return denyAccess(req, res, { targetUserId: userId });
+      }
+      res.json(await storage.getTradingSessions(userId, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Failed to fetch trading sessions:', error);
+      res.status(500).json({ message: 'Failed to fetch trading sessions' });
+    }
+  });
+
+  app.post('/api/trade-pause/sessions/start', async (req, res) => {
+    try {
+      const session = await tradingSessions.start(req.user!.id);
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof TradingSessionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Failed to start trading session:', error);
+      res.status(500).json({ message: 'Failed to start trading session' });
+    }
+  });
+
+  app.post('/api/trade-pause/sessions/end', async (req, res) => {
+    try {
+      res.json(await tradingSessions.end(req.user!.id));
+    } catch (error) {
+      if (error instanceof TradingSessionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Failed to end trading session:', error);
+      res.status(500).json({ message: 'Failed to end trading session' });
+    }
+  });
+
+  // Called by order systems rather than traders: the tenant key selects the
+  // signing key and the token itself is the credential, so no session is needed
+  app.post('/api/trade-authorizations/verify', async (req, res) => {
+    try {
+      const { token, order, consume } = tradeAuthorizationVerifySchema.parse(req.body);
+      const { claims, consumedAt } = await tradeAuthorization.verify(token, { order, consume });
+
+      res.json({
+        valid: true,
+        authorizationId: claims.id,
+        userId: claims.userId,
+        assessmentId: claims.assessmentId,
+        order: claims.order,
+        expiresAt: new Date(claims.exp * 1000).toISOString(),
+        consumedAt,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      if (error instanceof TradeAuthorizationError) {
+        return res.status(error.status).json({ valid: false, message: error.message });
+      }
+      console.error('Trade authorization verification failed:', error);
+      res.status(500).json({ message: 'Trade authorization verification failed' });
+    }
+  });
+
   // Baseline management endpoints
-  app.get('/api/baselines/:userId', async (req, res) => {
+  app.get('/api/baselines/:userId', requireUserAccess, async (req, res) => {
     try {
       const userId = req.params.userId;
       const baseline = await storage.getUserBaseline(userId);
@@ -816,7 +1253,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/baselines/:userId', async (req, res) => {
+  app.post('/api/baselines/:userId', requireUserAccess, async (req, res) => {
     try {
       const userId = req.params.userId;
       const baselineData = baselineSchema.parse(req.body);
@@ -837,7 +1274,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Adaptive baseline learning endpoints
-  app.get('/api/baselines/:userId/optimization-analysis', async (req, res) => {
+  app.get('/api/baselines/:userId/optimization-analysis', requireUserAccess, async (req, res) => {
     try {
       const userId = req.params.userId;
       const optimization = await adaptiveLearning.analyzeAndOptimizeBaseline(userId);
@@ -851,7 +1288,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/baselines/:userId/adaptive-update', async (req, res) => {
+  app.post('/api/baselines/:userId/adaptive-update', requireUserAccess, async (req, res) => {
     try {
       const userId = req.params.userId;
       const updatedBaseline = await adaptiveLearning.updateBaselineFromLearning(userId);
@@ -889,12 +1326,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/policies/:policyId', async (req, res) => {
+  app.put('/api/policies/:policyId', authorize('policies.update'), async (req, res) => {
     try {
       const policyId = req.params.policyId;
-      const updates = policyUpdateSchema.parse(req.body);
+      const { reason, ...updates } = policyUpdateSchema.parse(req.body);
+      const current = await storage.getPolicy(policyId);
+      if (!current) {
+        return res.status(404).json({ message: 'Policy not found' });
+      }
+
+      if (updates.fullAssessmentEngine !== undefined || updates.scoringProfile !== undefined) {
+        scoringEngines.checkProfile(
+          updates.fullAssessmentEngine ?? current.fullAssessmentEngine,
+          updates.scoringProfile === undefined ? current.scoringProfile : updates.scoringProfile
+        );
+      }
+
+      // Sensitive edits to a live policy wait for a second reviewer
+      if (await policyApproval.requiresApproval(current, updates)) {
+        const request = await policyApproval.propose(current, { changes: updates, reason }, req.user!.id);
+        broadcastEvent({
+          type: 'policy_change_proposed',
+          data: { policyId, requestId: request.id, proposedBy: req.user!.id },
+        });
+        return res.status(202).json(request);
+      }
       
-      const updatedPolicy = await storage.updatePolicy(policyId, updates);
+      const updatedPolicy = await storage.updatePolicy(policyId, updates, { authorId: req.user!.id, reason });
+      if (!updatedPolicy) {
+        return res.status(404).json({ message: 'Policy not found' });
+      }
       
       // Broadcast policy update
       broadcastEvent({
@@ -914,8 +1375,451 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Policy revision history
+  app.get('/api/policies/:policyId/revisions', authorize('admin.view'), async (req, res) => {
+    try {
+      const revisions = await storage.getPolicyRevisions(req.params.policyId);
+      res.json(revisions);
+    } catch (error) {
+      console.error('Policy revision retrieval failed:', error);
+      res.status(500).json({ message: 'Policy revision retrieval failed' });
+    }
+  });
+
+  app.get('/api/policies/:policyId/revisions/:version', authorize('admin.view'), async (req, res) => {
+    try {
+      const revision = await storage.getPolicyRevision(req.params.policyId, Number(req.params.version));
+      if (!revision) {
+        return res.status(404).json({ message: 'Policy revision not found' });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error('Policy revision retrieval failed:', error);
+      res.status(500).json({ message: 'Policy revision retrieval failed' });
+    }
+  });
+
+  app.get('/api/policies/:policyId/diff', authorize('admin.view'), async (req, res) => {
+    try {
+      const { from, to } = policyDiffQuerySchema.parse(req.query);
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getPolicyRevision(req.params.policyId, from),
+        storage.getPolicyRevision(req.params.policyId, to),
+      ]);
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ message: 'Policy revision not found' });
+      }
+
+      res.json({
+        policyId: req.params.policyId,
+        from: fromRevision,
+        to: toRevision,
+        changes: diffPolicySettings(fromRevision.snapshot as PolicySettings, toRevision.snapshot as PolicySettings),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Policy diff failed:', error);
+      res.status(500).json({ message: 'Policy diff failed' });
+    }
+  });
+
+  app.post('/api/policies/:policyId/rollback', authorize('policies.update'), async (req, res) => {
+    try {
+      const policyId = req.params.policyId;
+      const { version, reason } = policyRollbackSchema.parse(req.body);
+      const [current, target] = await Promise.all([
+        storage.getPolicy(policyId),
+        storage.getPolicyRevision(policyId, version),
+      ]);
+      if (!current || !target) {
+        return res.status(404).json({ message: 'Policy revision not found' });
+      }
+
+      const changes = target.snapshot as Partial<InsertPolicy>;
+      if (await policyApproval.requiresApproval(current, changes)) {
+        const request = await policyApproval.propose(current, { changes, reason, restoredVersion: version }, req.user!.id);
+        broadcastEvent({
+          type: 'policy_change_proposed',
+          data: { policyId, requestId: request.id, proposedBy: req.user!.id, restoredVersion: version },
+        });
+        return res.status(202).json(request);
+      }
+
+      const updatedPolicy = await storage.rollbackPolicy(policyId, version, { authorId: req.user!.id, reason });
+      if (!updatedPolicy) {
+        return res.status(404).json({ message: 'Policy revision not found' });
+      }
+
+      broadcastEvent({
+        type: 'policy_updated',
+        data: {
+          policyId,
+          policy: updatedPolicy,
+          restoredVersion: version,
+        }
+      });
+
+      res.json(updatedPolicy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Policy rollback failed:', error);
+      res.status(500).json({ message: 'Policy rollback failed' });
+    }
+  });
+
+  // What-if: replay stored assessments under a candidate policy
+  app.post('/api/policies/simulate', authorize('policies.simulate'), async (req, res) => {
+    try {
+      const { basePolicyId, policy: overrides, from, to, deskId } = policySimulationSchema.parse(req.body);
+
+      const base = basePolicyId ? await storage.getPolicy(basePolicyId) : await storage.getDefaultPolicy();
+      if (!base) {
+        return res.status(404).json({ message: 'Policy not found' });
+      }
+      const candidate = {
+        ...base,
+        ...overrides,
+        enabledModes: { ...(base.enabledModes as object), ...overrides.enabledModes },
+      };
+
+      // Limit the replay to the desk asked for and to traders the caller may see
+      let userIds = await getVisibleUserIds(req.user!);
+      if (deskId) {
+        if (!(await storage.getTradingDesk(deskId))) {
+          return res.status(404).json({ message: 'Desk not found' });
+        }
+        const deskUserIds = (await storage.getUsers())
+          .filter((user) => user.deskId === deskId)
+          .map((user) => user.id);
+        userIds = userIds === null ? deskUserIds : deskUserIds.filter((id) => userIds!.includes(id));
+      }
+
+      const result = await policySimulator.simulate(candidate, { from, to, userIds: userIds ?? undefined });
+      res.json({ policy: candidate, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Policy simulation failed:', error);
+      res.status(500).json({ message: 'Policy simulation failed' });
+    }
+  });
+
+  // Sample traders scored with a candidate scoring profile, for the policy editor
+  app.post('/api/policies/scoring-profile/preview', authorize('policies.simulate'), async (req, res) => {
+    try {
+      const { basePolicyId, scoringProfile } = scoringProfilePreviewSchema.parse(req.body);
+
+      const base = basePolicyId ? await storage.getPolicy(basePolicyId) : await storage.getDefaultPolicy();
+      if (!base) {
+        return res.status(404).json({ message: 'Policy not found' });
+      }
+
+      scoringEngines.checkProfile(base.fullAssessmentEngine, scoringProfile);
+      res.json(scoringProfilePreview.preview(base, scoringProfile));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      if (error instanceof ScoringEngineError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Scoring profile preview failed:', error);
+      res.status(500).json({ message: 'Scoring profile preview failed' });
+    }
+  });
+
+  // Four-eyes approval of sensitive policy changes
+  app.get('/api/policies/change-requests', authorize('admin.view'), async (req, res) => {
+    try {
+      await policyApproval.expireStaleRequests();
+      const requests = await storage.getPolicyChangeRequests({
+        policyId: req.query.policyId as string | undefined,
+        status: req.query.status as string | undefined,
+      });
+      res.json(requests);
+    } catch (error) {
+      console.error('Failed to fetch policy change requests:', error);
+      res.status(500).json({ message: 'Failed to fetch policy change requests' });
+    }
+  });
+
+  app.post('/api/policies/change-requests/:requestId/approve', authorize('policies.approve'), async (req, res) => {
+    const { requestId } = req.params;
+    try {
+      const { note } = changeRequestReviewSchema.parse(req.body ?? {});
+      const { request, policy } = await policyApproval.approve(requestId, req.user!.id, note);
+
+      broadcastEvent({
+        type: 'policy_updated',
+        data: { policyId: policy.id, policy, requestId },
+      });
+
+      res.json({ request, policy });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      if (error instanceof PolicyApprovalError) {
+        if (error.status === 403) return denyAccess(req, res, { requestId, reason: error.message });
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Policy change approval failed:', error);
+      res.status(500).json({ message: 'Policy change approval failed' });
+    }
+  });
+
+  app.post('/api/policies/change-requests/:requestId/reject', authorize('policies.approve'), async (req, res) => {
+    const { requestId } = req.params;
+    try {
+      const { note } = changeRequestReviewSchema.parse(req.body ?? {});
+      const request = await policyApproval.reject(requestId, req.user!.id, note);
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      if (error instanceof PolicyApprovalError) {
+        if (error.status === 403) return denyAccess(req, res, { requestId, reason: error.message });
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Policy change rejection failed:', error);
+      res.status(500).json({ message: 'Policy change rejection failed' });
+    }
+  });
+
+  app.get('/api/policies', authorize('admin.view'), async (req, res) => {
+    try {
+      const policies = await storage.getPolicies();
+      res.json(policies);
+    } catch (error) {
+      console.error('Policy list retrieval failed:', error);
+      res.status(500).json({ message: 'Policy list retrieval failed' });
+    }
+  });
+
+  // Registered scoring engines, with the tenant's policies on each so an
+  // engine is only retired once nothing runs on it
+  app.get('/api/scoring-engines', authorize('admin.view'), async (req, res) => {
+    try {
+      const policies = await storage.getPolicies();
+      res.json(scoringEngines.list().map((engine) => ({
+        ...engine,
+        policyIds: policies
+          .filter((policy) => (engine.surface === 'quick_check'
+            ? policy.quickCheckEngine === engine.ref
+            : policy.fullAssessmentEngine === engine.ref || policy.shadowFullAssessmentEngine === engine.ref))
+          .map((policy) => policy.id),
+      })));
+    } catch (error) {
+      console.error('Scoring engine list retrieval failed:', error);
+      res.status(500).json({ message: 'Scoring engine list retrieval failed' });
+    }
+  });
+
+  // Trading desk management endpoints
+  // Desk and override references must point at rows in the caller's tenant;
+  // storage lookups are tenant-scoped, so a foreign id simply isn't found.
+  async function findInvalidReference(refs: { policyId?: string | null; supervisorId?: string | null; deskId?: string | null }) {
+    if (refs.policyId && !(await storage.getPolicy(refs.policyId))) {
+      return 'Unknown policy';
+    }
+    if (refs.supervisorId) {
+      const supervisor = await storage.getUser(refs.supervisorId);
+      if (!supervisor || supervisor.role === 'trader') {
+        return 'Desk supervisor must be an existing supervisor or admin';
+      }
+    }
+    if (refs.deskId && !(await storage.getTradingDesk(refs.deskId))) {
+      return 'Unknown desk';
+    }
+    return null;
+  }
+
+  app.get('/api/desks', authorize('desks.view'), async (req, res) => {
+    try {
+      const desks = await storage.getTradingDesks();
+      // Supervisors only see the desks they run
+      res.json(req.user!.role === 'admin'
+        ? desks
+        : desks.filter((desk) => desk.supervisorId === req.user!.id));
+    } catch (error) {
+      console.error('Failed to fetch trading desks:', error);
+      res.status(500).json({ message: 'Failed to fetch trading desks' });
+    }
+  });
+
+  app.post('/api/desks', authorize('desks.manage'), async (req, res) => {
+    try {
+      const validatedData = deskSchema.parse(req.body);
+      const invalid = await findInvalidReference(validatedData);
+      if (invalid) {
+        return res.status(422).json({ message: invalid });
+      }
+
+      const desk = await storage.createTradingDesk(validatedData);
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: 'desk_created',
+        details: { deskId: desk.id, ...validatedData },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      res.status(201).json(desk);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Failed to create trading desk:', error);
+      res.status(500).json({ message: 'Failed to create trading desk' });
+    }
+  });
+
+  app.patch('/api/desks/:deskId', authorize('desks.manage'), async (req, res) => {
+    try {
+      const { deskId } = req.params;
+      const validatedData = deskSchema.partial().parse(req.body);
+      if (!(await storage.getTradingDesk(deskId))) {
+        return res.status(404).json({ message: 'Desk not found' });
+      }
+      const invalid = await findInvalidReference(validatedData);
+      if (invalid) {
+        return res.status(422).json({ message: invalid });
+      }
+
+      const desk = await storage.updateTradingDesk(deskId, validatedData);
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: 'desk_updated',
+        details: { deskId, changes: validatedData },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      res.json(desk);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Failed to update trading desk:', error);
+      res.status(500).json({ message: 'Failed to update trading desk' });
+    }
+  });
+
+  app.delete('/api/desks/:deskId', authorize('desks.manage'), async (req, res) => {
+    try {
+      const { deskId } = req.params;
+      if (!(await storage.getTradingDesk(deskId))) {
+        return res.status(404).json({ message: 'Desk not found' });
+      }
+
+      await storage.deleteTradingDesk(deskId);
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: 'desk_deleted',
+        details: { deskId },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Failed to delete trading desk:', error);
+      res.status(500).json({ message: 'Failed to delete trading desk' });
+    }
+  });
+
+  app.get('/api/users', authorize('desks.view'), async (req, res) => {
+    try {
+      const [users, visibleUserIds] = await Promise.all([
+        storage.getUsers(),
+        getVisibleUserIds(req.user!),
+      ]);
+      const visible = visibleUserIds === null ? users : users.filter((user) => visibleUserIds.includes(user.id));
+      res.json(visible.map(toPublicUser));
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+      res.status(500).json({ message: 'Failed to fetch users' });
+    }
+  });
+
+  // Assign a trader to a desk (or remove them with deskId: null)
+  app.put('/api/users/:userId/desk', authorize('desks.manage'), async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { deskId } = deskAssignmentSchema.parse(req.body);
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const invalid = await findInvalidReference({ deskId });
+      if (invalid) {
+        return res.status(422).json({ message: invalid });
+      }
+
+      const user = await storage.updateUser(userId, { deskId });
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: 'user_desk_assigned',
+        details: { targetUserId: userId, deskId },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      res.json(toPublicUser(user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Desk assignment failed:', error);
+      res.status(500).json({ message: 'Desk assignment failed' });
+    }
+  });
+
+  // Per-trader policy override; policyId: null returns the trader to their desk/tenant policy
+  app.put('/api/users/:userId/policy', authorize('desks.manage'), async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { policyId } = policyOverrideSchema.parse(req.body);
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const invalid = await findInvalidReference({ policyId });
+      if (invalid) {
+        return res.status(422).json({ message: invalid });
+      }
+
+      const user = await storage.updateUser(userId, { policyId });
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: 'user_policy_override_set',
+        details: { targetUserId: userId, policyId },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      res.json(toPublicUser(user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Policy override failed:', error);
+      res.status(500).json({ message: 'Policy override failed' });
+    }
+  });
+
+  // The policy a trader's assessments will run under, and which level it came from
+  app.get('/api/users/:userId/policy', requireUserAccess, async (req, res) => {
+    try {
+      const resolved = await storage.resolvePolicy(req.params.userId);
+      res.json(resolved);
+    } catch (error) {
+      console.error('Policy resolution failed:', error);
+      res.status(500).json({ message: 'Policy resolution failed' });
+    }
+  });
+
   // Analytics endpoints
-  app.get('/api/analytics/stats', async (req, res) => {
+  app.get('/api/analytics/stats', authorize('analytics.team'), async (req, res) => {
     try {
       const timeframe = req.query.timeframe as 'day' | 'week' | 'month' || 'day';
       const stats = await storage.getAssessmentStats(timeframe);
@@ -929,12 +1833,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/analytics/recent-events', async (req, res) => {
+  // Agreement between each assessment's primary and shadow engine
+  app.get('/api/analytics/shadow-scoring', authorize('analytics.team'), async (req, res) => {
+    try {
+      const { from, to, deskId } = shadowScoringQuerySchema.parse(req.query);
+
+      let userIds = await getVisibleUserIds(req.user!);
+      if (deskId) {
+        if (!(await storage.getTradingDesk(deskId))) {
+          return res.status(404).json({ message: 'Desk not found' });
+        }
+        const deskUserIds = (await storage.getUsers())
+          .filter((user) => user.deskId === deskId)
+          .map((user) => user.id);
+        userIds = userIds === null ? deskUserIds : deskUserIds.filter((id) => userIds!.includes(id));
+      }
+
+      res.json(await shadowScoring.report({ from, to, userIds: userIds ?? undefined }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Shadow scoring report failed:', error);
+      res.status(500).json({ message: 'Shadow scoring report failed' });
+    }
+  });
+
+  // How well the full-assessment score predicts bad trades, per desk
+  app.get('/api/calibration', authorize('calibration.view'), async (req, res) => {
+    try {
+      res.json(await riskCalibration.report());
+    } catch (error) {
+      console.error('Calibration report failed:', error);
+      res.status(500).json({ message: 'Calibration report failed' });
+    }
+  });
+
+  app.get('/api/analytics/recent-events', authorize('analytics.team'), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const events = await storage.getRecentEvents(limit);
+      const visibleUserIds = await getVisibleUserIds(req.user!);
       
-      res.json(events);
+      // System events carry no userId and are visible to anyone with team analytics access
+      res.json(visibleUserIds === null
+        ? events
+        : events.filter((event) => !event.userId || visibleUserIds.includes(event.userId)));
     } catch (error) {
       console.error('Recent events retrieval failed:', error);
       res.status(500).json({ 
@@ -943,7 +1887,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/assessments/:userId', async (req, res) => {
+  app.get('/api/assessments/:userId', requireUserAccess, async (req, res) => {
     try {
       const userId = req.params.userId;
       const limit = parseInt(req.query.limit as string) || 50;
@@ -998,21 +1942,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         facialMetrics = sanitizedMetrics;
       }
 
+      if (!(await findOwnedAssessment(assessmentId, req.user!.id))) {
+        return res.status(404).json({ message: 'Assessment not found' });
+      }
+
       console.log('🔍 updateAssessmentFacialMetrics received:', { assessmentId, facialMetrics: !!facialMetrics, stressLevel, cognitiveResults: cognitiveResults?.length || 0 });
 
       await tradePause.updateAssessmentFacialMetrics(assessmentId, facialMetrics, stressLevel, cognitiveResults);
 
-      // If an in-memory placeholder exists for this assessment, mirror the update
-      if (placeholderAssessments.has(assessmentId)) {
-        const existing = placeholderAssessments.get(assessmentId);
-        const updated = { ...existing };
-        if (facialMetrics) updated.facialMetrics = facialMetrics;
-        if (stressLevel !== undefined) updated.selfReportStress = stressLevel;
-        placeholderAssessments.set(assessmentId, updated);
-      }
-
       res.json({ success: true });
     } catch (error) {
+      if (error instanceof AssessmentTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Facial metrics update failed:', error);
       res.status(400).json({ 
         message: error instanceof Error ? error.message : 'Facial metrics update failed' 
@@ -1023,13 +1965,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get specific assessment details
   app.get('/api/trade-pause/assessments/:id', async (req, res) => {
     try {
-      const assessmentId = req.params.id;
-      let assessment = await storage.getAssessment(assessmentId);
-
-      // Fallback to in-memory placeholder if persistent storage did not return the record
-      if (!assessment && placeholderAssessments.has(assessmentId)) {
-        assessment = placeholderAssessments.get(assessmentId);
-      }
+      const assessment = await findOwnedAssessment(req.params.id, req.user!.id);
 
       if (!assessment) {
         return res.status(404).json({ message: 'Assessment not found' });
@@ -1044,10 +1980,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/audit-logs', async (req, res) => {
+  app.get('/api/audit-logs', authorize('audit.read'), async (req, res) => {
     try {
+      const requestedUserId = req.query.userId as string | undefined;
+      const visibleUserIds = await getVisibleUserIds(req.user!);
+      if (requestedUserId && visibleUserIds !== null && !visibleUserIds.includes(requestedUserId)) {
+        return denyAccess(req, res, { targetUserId: requestedUserId });
+      }
+
       const filters = {
-        userId: req.query.userId as string,
+        userId: requestedUserId,
+        userIds: visibleUserIds ?? undefined,
         assessmentId: req.query.assessmentId as string,
         action: req.query.action as string,
         limit: parseInt(req.query.limit as string) || 100,
@@ -1064,6 +2007,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Enforce policy data retention now for the caller's tenant (also runs on a schedule)
+  app.post('/api/retention/run', authorize('retention.run'), async (req, res) => {
+    try {
+      const { dryRun } = retentionRunSchema.parse(req.body ?? {});
+      const report = await dataRetentionService.run({ dryRun, actorId: req.user!.id });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Retention run failed:', error);
+      res.status(500).json({ message: 'Retention run failed' });
+    }
+  });
+
   // Demo/testing endpoints
   app.get('/api/demo/mock-trader', async (req, res) => {
     try {
@@ -1169,7 +2127,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Performance Dashboard API endpoints
   app.get('/api/performance/metrics', async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'demo-user';
+      const userId = req.user!.id;
       const assessments = await storage.getUserAssessments(userId, 100);
       
       // Calculate comprehensive performance metrics
@@ -1204,7 +2162,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/performance/stress-correlations', async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'demo-user';
+      const userId = req.user!.id;
       const assessments = await storage.getUserAssessments(userId, 200);
       
       // Group assessments by stress level and calculate performance
@@ -1283,7 +2241,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/performance/sessions', async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'demo-user';
+      const userId = req.user!.id;
       const assessments = await storage.getUserAssessments(userId, 50);
       
       // Group assessments by date to create sessions
@@ -1320,7 +2278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/performance/team-overview', async (req, res) => {
+  app.get('/api/performance/team-overview', authorize('analytics.team'), async (req, res) => {
     try {
       // Get actual assessment statistics for team metrics
       const stats = await storage.getAssessmentStats();
@@ -1352,7 +2310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Stress Analytics API endpoints
   app.get('/api/analytics/stress-patterns', async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'demo-user';
+      const userId = req.user!.id;
       const assessments = await storage.getUserAssessments(userId, 100);
       const stats = await storage.getAssessmentStats();
       
@@ -1404,7 +2362,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/analytics/stress-trends', async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'demo-user';
+      const userId = req.user!.id;
       const assessments = await storage.getUserAssessments(userId, 200);
       const stats = await storage.getAssessmentStats();
       
@@ -1453,7 +2411,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/analytics/stress-triggers', async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'demo-user';
+      const userId = req.user!.id;
       const assessments = await storage.getUserAssessments(userId, 100);
       
       // Analyze common stress triggers based on trading environment
@@ -1509,9 +2467,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/analytics/individual-profiles', async (req, res) => {
+  app.get('/api/analytics/individual-profiles', authorize('analytics.team'), async (req, res) => {
     try {
-      const assessments = await storage.getUserAssessments('demo-user', 50);
+      const assessments = await storage.getUserAssessments(req.user!.id, 50);
       const stats = await storage.getAssessmentStats();
       
       // Generate individual trader stress profiles for demo
@@ -1737,7 +2695,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/monitoring/active-assessments', async (req, res) => {
     try {
-      const recentAssessments = await storage.getUserAssessments('demo-user', 20);
+      const recentAssessments = await storage.getUserAssessments(req.user!.id, 20);
       
       // Generate active assessments based on current system state
       const activeAssessments = [
@@ -1829,7 +2787,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ==========================================
 
   // Get all alert policies
-  app.get('/api/alerts/policies', async (req, res) => {
+  app.get('/api/alerts/policies', authorize('alerts.view'), async (req, res) => {
     try {
       const policies = await storage.getAlertPolicies();
       res.json(policies);
@@ -1840,7 +2798,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new alert policy
-  app.post('/api/alerts/policies', async (req, res) => {
+  app.post('/api/alerts/policies', authorize('alerts.manage'), async (req, res) => {
     try {
       const validatedData = alertPolicySchema.parse(req.body);
       const newPolicy = await storage.createAlertPolicy(validatedData);
@@ -1855,7 +2813,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update alert policy
-  app.put('/api/alerts/policies/:id', async (req, res) => {
+  app.put('/api/alerts/policies/:id', authorize('alerts.manage'), async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = alertPolicySchema.partial().parse(req.body);
@@ -1871,7 +2829,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete alert policy
-  app.delete('/api/alerts/policies/:id', async (req, res) => {
+  app.delete('/api/alerts/policies/:id', authorize('alerts.manage'), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteAlertPolicy(id);
@@ -1883,7 +2841,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get alert history with filtering and pagination
-  app.get('/api/alerts/history', async (req, res) => {
+  app.get('/api/alerts/history', authorize('alerts.view'), async (req, res) => {
     try {
       const { 
         page = 1, 
@@ -1893,11 +2851,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId, 
         timeframe = '24h' 
       } = req.query;
+
+      const visibleUserIds = await getVisibleUserIds(req.user!);
+      if (userId && visibleUserIds !== null && !visibleUserIds.includes(userId as string)) {
+        return denyAccess(req, res, { targetUserId: userId });
+      }
       
       const filters = {
         severity: severity as string,
         resolved: resolved ? resolved === 'true' : undefined,
         userId: userId as string,
+        userIds: visibleUserIds ?? undefined,
         limit: parseInt(limit as string),
         offset: (parseInt(page as string) - 1) * parseInt(limit as string)
       };
@@ -1920,10 +2884,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get active (unresolved) alerts
-  app.get('/api/alerts/active', async (req, res) => {
+  app.get('/api/alerts/active', authorize('alerts.view'), async (req, res) => {
     try {
       const activeAlerts = await storage.getActiveAlerts();
-      res.json(activeAlerts);
+      const visibleUserIds = await getVisibleUserIds(req.user!);
+      res.json(visibleUserIds === null
+        ? activeAlerts
+        : activeAlerts.filter((alert) => !!alert.userId && visibleUserIds.includes(alert.userId)));
     } catch (error) {
       console.error('Failed to fetch active alerts:', error);
       res.status(500).json({ message: 'Failed to fetch active alerts' });
@@ -1931,12 +2898,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Resolve an alert
-  app.post('/api/alerts/:id/resolve', async (req, res) => {
+  app.post('/api/alerts/:id/resolve', authorize('alerts.resolve'), async (req, res) => {
     try {
       const { id } = req.params;
       const { resolutionNote } = req.body;
+
+      const alert = await storage.getAlert(id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      const visibleUserIds = await getVisibleUserIds(req.user!);
+      if (visibleUserIds !== null && !(alert.userId && visibleUserIds.includes(alert.userId))) {
+        return denyAccess(req, res, { alertId: id, targetUserId: alert.userId });
+      }
       
-      const resolvedAlert = await storage.resolveAlert(id, 'current_user', resolutionNote);
+      const resolvedAlert = await storage.resolveAlert(id, req.user!.id, resolutionNote);
       res.json(resolvedAlert);
     } catch (error) {
       console.error('Failed to resolve alert:', error);
@@ -1945,7 +2921,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get alert analytics and statistics
-  app.get('/api/alerts/analytics', async (req, res) => {
+  app.get('/api/alerts/analytics', authorize('alerts.view'), async (req, res) => {
     try {
       const { timeframe = '24h' } = req.query;
       
@@ -1958,7 +2934,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manual alert trigger (for testing or manual intervention)
-  app.post('/api/alerts/trigger', async (req, res) => {
+  app.post('/api/alerts/trigger', authorize('alerts.trigger'), async (req, res) => {
     try {
       const validatedData = manualAlertSchema.parse(req.body);
       const { userId, severity, message, metadata } = validatedData;
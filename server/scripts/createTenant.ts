@@ -0,0 +1,54 @@
+import { parseArgs } from "node:util";
+import { randomBytes } from "node:crypto";
+import { dbReady } from "../db";
+import { storage } from "../storage";
+import { hashPassword } from "../auth";
+import { runWithTenant } from "../tenantContext";
+
+// Provisions a firm: its tenant row, the SDK key its clients send as
+// X-Tenant-Key, and a first admin to sign in with. The key and password are
+// printed once and not stored in the clear.
+//
+//   npm run tenant:create -- --name "Acme Capital" [--region eu] [--admin alice]
+
+const USAGE = 'Usage: npm run tenant:create -- --name <firm> [--region <region>] [--admin <username>]';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      region: { type: "string" },
+      admin: { type: "string", default: "admin" },
+    },
+  });
+  if (!values.name) throw new Error(USAGE);
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? "database" : "memory");
+  if (driver === "memory") {
+    throw new Error("Tenants are only kept by the database and embedded drivers; set DATABASE_URL or STORAGE_DRIVER=embedded");
+  }
+
+  await dbReady;
+  await storage.seedDefaults();
+
+  const apiKey = randomBytes(24).toString("base64url");
+  const tenant = await storage.createTenant({ name: values.name, apiKey, region: values.region ?? null });
+
+  const password = randomBytes(12).toString("base64url");
+  const admin = await runWithTenant(tenant, async () => {
+    const user = await storage.createUser({ username: values.admin!, role: "admin", passwordHash: await hashPassword(password) });
+    await storage.createAuditLog({ userId: user.id, action: "tenant_created", details: { tenantId: tenant.id, name: tenant.name } });
+    return user;
+  });
+
+  console.log(`Tenant ${tenant.name} (${tenant.id})`);
+  console.log(`  X-Tenant-Key: ${apiKey}`);
+  console.log(`  Admin: ${admin.username} / ${password}`);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
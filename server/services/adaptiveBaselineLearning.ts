@@ -1,5 +1,6 @@
 import type { Assessment, UserBaseline } from "@shared/schema";
 import { storage } from "../storage";
+import { currentTenantId } from "../tenantContext";
 
 export interface PerformanceMetrics {
   totalTrades: number;
@@ -479,6 +480,7 @@ export class AdaptiveBaselineLearningService {
   private getDefaultBaseline(): UserBaseline {
     return {
       id: 'default',
+      tenantId: currentTenantId(),
       userId: 'default',
       reactionTimeMs: 600,
       reactionTimeStdDev: 50,
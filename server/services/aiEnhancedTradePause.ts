@@ -6,11 +6,17 @@
  */
 
 import { aiDecisionLayer, AIDecisionResult } from './aiDecisionLayer';
-import { TradePauseService, AssessmentSignals, AssessmentResult } from './tradePause';
+import { TradePauseService, AssessmentSignals } from './tradePause';
+import { assessmentLifecycle } from './assessmentLifecycle';
+import { isAwaitingVerdict } from '@shared/assessmentLifecycle';
 import { storage } from '../storage';
+import { engineStamp, scoringEngines } from './scoringEngines';
 import type { UserBaseline, Policy } from '@shared/schema';
 import type { OrderContext } from '@shared/tradePauseAI';
 
+// The AI verdict replaces the base check's, so the assessment carries this engine's stamp
+const AI_DECISION_ENGINE = 'ai-decision-layer@1.0';
+
 export interface EnhancedAssessmentResult {
   assessmentId: string;
   
@@ -66,7 +72,7 @@ export class AIEnhancedTradePauseService {
     
     // Get user baseline and policy
   const baseline = await storage.getUserBaseline(userId);
-  const policy = await storage.getDefaultPolicy();
+  const { policy } = await storage.resolvePolicy(userId);
     
     // Run the AI decision layer
     const aiDecision: AIDecisionResult = await aiDecisionLayer.shouldAllowTrade(
@@ -78,7 +84,7 @@ export class AIEnhancedTradePauseService {
     );
     
     // Create the base assessment using existing TradePause service
-    const baseAssessment: AssessmentResult = await this.tradePause.checkBeforeTrade(
+    const baseAssessment = await this.tradePause.checkBeforeTrade(
       userId,
       orderContext,
       signals
@@ -95,13 +101,21 @@ export class AIEnhancedTradePauseService {
       aiDecision
     );
     
-    // Update the assessment with AI decision results
-    await storage.updateAssessment(assessmentId, {
+    // Update the assessment with AI decision results; if the base check left it
+    // without a verdict, the AI decision is what renders it
+    const aiVerdict = {
       riskScore: aiDecision.emotionalRiskScore,
       verdict: this.mapAIVerdictToDBVerdict(aiDecision.recommendedAction),
       reasonTags: aiDecision.blockingFactors.concat(aiDecision.primaryConcerns),
-      confidence: aiDecision.confidence
-    });
+      confidence: aiDecision.confidence,
+      ...engineStamp(scoringEngines.resolve(AI_DECISION_ENGINE, 'quick_check')),
+    };
+    const stored = await storage.getAssessment(assessmentId);
+    if (stored && isAwaitingVerdict(stored.status)) {
+      await assessmentLifecycle.transition(stored, 'rendered', aiVerdict);
+    } else {
+      await storage.updateAssessment(assessmentId, aiVerdict);
+    }
     
     // Create the enhanced result
     const result: EnhancedAssessmentResult = {
@@ -286,8 +300,8 @@ export class AIEnhancedTradePauseService {
   /**
    * Complete cooldown (delegated to base service)
    */
-  async completeCooldown(assessmentId: string, durationMs: number) {
-    return this.tradePause.recordCooldownCompletion(assessmentId, durationMs);
+  async completeCooldown(assessmentId: string, durationMs: number, userId: string) {
+    return this.tradePause.recordCooldownCompletion(assessmentId, durationMs, userId);
   }
   
   /**
@@ -297,9 +311,10 @@ export class AIEnhancedTradePauseService {
     assessmentId: string,
     trigger: string,
     plan: string,
-    entry?: string
+    entry: string | undefined,
+    userId: string
   ) {
-    return this.tradePause.recordJournalEntry(assessmentId, trigger, plan, entry);
+    return this.tradePause.recordJournalEntry(assessmentId, trigger, plan, entry, userId);
   }
   
   /**
@@ -1,4 +1,5 @@
 import type { AlertPolicy, AlertChannel, InsertAlertHistory } from "@shared/schema";
+import { currentTenantId } from "../tenantContext";
 
 export interface DeliveryResult {
   channelType: string;
@@ -119,6 +120,7 @@ export class AlertDeliveryService {
     if (filteredChannels.length === 0) {
       return [{
         id: 'default_dashboard',
+        tenantId: currentTenantId(),
         alertPolicyId: policyId,
         channelType: 'dashboard',
         severity: severity,
@@ -80,6 +80,21 @@ export class AlertSystemService {
     return { alertTriggered: false };
   }
 
+  /**
+   * Raise an alert found by pattern detection rather than a stress threshold,
+   * under the first active policy that applies to the user. Returns the alert
+   * ID, or undefined when no policy applies.
+   */
+  async raisePatternAlert(
+    context: AlertContext,
+    alertPolicies: AlertPolicy[],
+    alert: { severity: 'warning' | 'urgent' | 'critical'; threshold: number; message: string }
+  ): Promise<string | undefined> {
+    const [policy] = this.findApplicablePolicies(alertPolicies, context);
+    if (!policy) return undefined;
+    return this.generateAlert(context, policy, { ...alert, alertType: 'pattern_anomaly' });
+  }
+
   /**
    * Find alert policies that apply to the current user
    */
@@ -199,7 +214,7 @@ export class AlertSystemService {
   private async generateAlert(
     context: AlertContext,
     policy: AlertPolicy,
-    thresholdCheck: { severity: 'warning' | 'urgent' | 'critical'; threshold: number; message: string }
+    thresholdCheck: { severity: 'warning' | 'urgent' | 'critical'; threshold: number; message: string; alertType?: string }
   ): Promise<string> {
     // Import storage here to avoid circular dependency
     const { storage } = await import('../storage.js');
@@ -209,7 +224,7 @@ export class AlertSystemService {
       alertPolicyId: policy.id,
       userId: context.userId,
       assessmentId: context.assessment?.id,
-      alertType: 'threshold_breach',
+      alertType: thresholdCheck.alertType ?? 'threshold_breach',
       severity: thresholdCheck.severity,
       message: thresholdCheck.message,
       stressLevel: context.stressLevel,
@@ -294,4 +309,6 @@ export class AlertSystemService {
     // TODO: Find alerts past escalation delay and trigger escalation
     return 0;
   }
-}
\ No newline at end of file
+}
+
+export const alertSystem = new AlertSystemService();
@@ -0,0 +1,135 @@
+import type { Assessment, InsertAssessment } from "@shared/schema";
+import {
+  canTransition,
+  isAwaitingVerdict,
+  PENDING_ASSESSMENT_TTL_MS,
+  type AssessmentStatus,
+} from "@shared/assessmentLifecycle";
+import { storage } from "../storage";
+
+export class AssessmentTransitionError extends Error {
+  constructor(message: string, readonly status = 409) {
+    super(message);
+    this.name = 'AssessmentTransitionError';
+  }
+}
+
+export interface AssessmentTransition {
+  assessmentId: string;
+  userId: string;
+  from: AssessmentStatus | null; // null when the assessment was just opened
+  to: AssessmentStatus;
+  at: Date;
+}
+
+type TransitionListener = (transition: AssessmentTransition) => void;
+
+// Statuses an assessment may be created in; every later status is reached by a transition
+type OpeningStatus = Extract<AssessmentStatus, 'pending' | 'collecting' | 'rendered'>;
+
+const statusLabel = (status: AssessmentStatus) => status.replace('_', ' ');
+
+/**
+ * Assessment Lifecycle Service
+ * The only writer of assessments.status. Each change is checked against
+ * ASSESSMENT_TRANSITIONS, applied only if no concurrent request moved the
+ * assessment first, stored as an `assessment_status_changed` event and passed
+ * to listeners such as the WebSocket broadcaster.
+ */
+export class AssessmentLifecycleService {
+  private listeners = new Set<TransitionListener>();
+
+  /** Subscribes to every transition; returns the unsubscribe function. */
+  onTransition(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async open(assessment: Omit<InsertAssessment, 'status' | 'statusChangedAt'>, status: OpeningStatus = 'pending'): Promise<Assessment> {
+    const at = new Date();
+    const created = await storage.createAssessment({ ...assessment, status, statusChangedAt: at });
+    await this.record({ assessmentId: created.id, userId: created.userId, from: null, to: status, at });
+    return created;
+  }
+
+  /**
+   * Moves `assessment` to `to`, writing `updates` in the same step. Throws
+   * AssessmentTransitionError if the lifecycle does not allow the move or the
+   * assessment changed status since it was read.
+   */
+  async transition(assessment: Assessment, to: AssessmentStatus, updates: Partial<Assessment> = {}): Promise<Assessment> {
+    const current = await this.expireIfStale(assessment);
+    if (!canTransition(current.status, to)) {
+      throw new AssessmentTransitionError(`Assessment is ${statusLabel(current.status)} and cannot become ${statusLabel(to)}`);
+    }
+
+    const at = new Date();
+    const moved = await storage.transitionAssessment(current.id, current.status, { ...updates, status: to, statusChangedAt: at });
+    if (!moved) {
+      throw new AssessmentTransitionError('Assessment was changed by another request');
+    }
+    await this.record({ assessmentId: moved.id, userId: moved.userId, from: current.status, to, at });
+    return moved;
+  }
+
+  /**
+   * Stores signals for an assessment still awaiting its verdict. The first
+   * signals move it from pending to collecting; once it has a verdict or has
+   * expired it accepts none.
+   */
+  async acceptSignals(assessment: Assessment, updates: Partial<Assessment>): Promise<Assessment> {
+    const current = await this.expireIfStale(assessment);
+    if (current.status === 'pending') {
+      return this.transition(current, 'collecting', updates);
+    }
+    if (current.status !== 'collecting') {
+      throw new AssessmentTransitionError(`Assessment is ${statusLabel(current.status)} and no longer accepts signals`);
+    }
+    return storage.updateAssessment(current.id, updates);
+  }
+
+  /** Expires the assessment if it has waited longer than the TTL for a verdict. */
+  async expireIfStale(assessment: Assessment, now = new Date()): Promise<Assessment> {
+    if (!isAwaitingVerdict(assessment.status)) return assessment;
+    const openedAt = assessment.createdAt ? new Date(assessment.createdAt).getTime() : now.getTime();
+    if (now.getTime() - openedAt < PENDING_ASSESSMENT_TTL_MS) return assessment;
+
+    const expired = await storage.transitionAssessment(assessment.id, assessment.status, { status: 'expired', statusChangedAt: now });
+    if (!expired) {
+      // Someone else moved it first; report where it is now
+      return (await storage.getAssessment(assessment.id)) ?? assessment;
+    }
+    await this.record({ assessmentId: expired.id, userId: expired.userId, from: assessment.status, to: 'expired', at: now });
+    return expired;
+  }
+
+  /** Expires the user's abandoned assessments; run whenever they open a new one. */
+  async expireStale(userId: string): Promise<number> {
+    let expired = 0;
+    for (const assessment of await storage.getUserAssessments(userId)) {
+      if (isAwaitingVerdict(assessment.status) && (await this.expireIfStale(assessment)).status === 'expired') {
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  private async record(transition: AssessmentTransition): Promise<void> {
+    await storage.createEvent({
+      eventType: 'assessment_status_changed',
+      userId: transition.userId,
+      assessmentId: transition.assessmentId,
+      data: { from: transition.from, to: transition.to, at: transition.at.toISOString() },
+    });
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(transition);
+      } catch (error) {
+        console.error('Assessment transition listener failed:', error);
+      }
+    });
+  }
+}
+
+export const assessmentLifecycle = new AssessmentLifecycleService();
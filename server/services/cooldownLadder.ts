@@ -0,0 +1,86 @@
+import type { Assessment, Policy } from "@shared/schema";
+import { isAwaitingVerdict } from "@shared/assessmentLifecycle";
+import { storage } from "../storage";
+
+// How far back to look for earlier holds; a ladder never climbs past this many rungs
+const RECENT_ASSESSMENTS = 50;
+
+export type LadderPolicy = Pick<
+  Policy,
+  'cooldownLadderWindowMinutes' | 'cooldownLadderGrowthPct' | 'cooldownLadderMaxSeconds' | 'cooldownLadderResetAfter'
+>;
+
+export interface CooldownRung {
+  step: number; // earlier holds and blocks counted, 0 = base cooldown
+  baseSeconds: number;
+  seconds: number;
+}
+
+/**
+ * Counts the holds and blocks in `newestFirst` that fall within the policy's
+ * window and come after the last clean streak. Assessments without a verdict
+ * count for nothing.
+ */
+export function ladderStep(
+  newestFirst: Pick<Assessment, 'verdict' | 'status' | 'createdAt'>[],
+  policy: LadderPolicy,
+  now = new Date()
+): number {
+  if (policy.cooldownLadderWindowMinutes <= 0) return 0;
+  const since = now.getTime() - policy.cooldownLadderWindowMinutes * 60_000;
+
+  let step = 0;
+  let clean = 0;
+  for (const assessment of newestFirst) {
+    if (!assessment.createdAt || new Date(assessment.createdAt).getTime() < since) break;
+    if (isAwaitingVerdict(assessment.status) || assessment.status === 'expired') continue;
+
+    if (assessment.verdict === 'go') {
+      clean++;
+      // Everything before a long enough run of allows is forgiven
+      if (policy.cooldownLadderResetAfter > 0 && clean >= policy.cooldownLadderResetAfter) break;
+    } else {
+      step++;
+      clean = 0;
+    }
+  }
+  return step;
+}
+
+/** The cooldown for a given rung: the base grown once per step, capped by the policy but never below the base. */
+export function ladderSeconds(baseSeconds: number, step: number, policy: LadderPolicy): number {
+  if (step <= 0) return baseSeconds;
+  const grown = baseSeconds * Math.pow(1 + policy.cooldownLadderGrowthPct / 100, step);
+  return Math.round(Math.max(baseSeconds, Math.min(grown, policy.cooldownLadderMaxSeconds)));
+}
+
+/**
+ * Cooldown Ladder Service
+ * Turns the scoring engines' risk-based cooldown into a progressive one: a
+ * trader who keeps getting held sits out longer each time, until a run of
+ * clean verdicts or the policy window brings them back to the base.
+ */
+export class CooldownLadderService {
+
+  /**
+   * The cooldown for a new hold or block of `userId`. Pass `excludeId` when the
+   * assessment being held is already stored, so it does not count against itself.
+   */
+  async rungFor(
+    userId: string,
+    policy: LadderPolicy,
+    baseSeconds: number,
+    options: { excludeId?: string; now?: Date } = {}
+  ): Promise<CooldownRung> {
+    if (policy.cooldownLadderWindowMinutes <= 0) {
+      return { step: 0, baseSeconds, seconds: baseSeconds };
+    }
+
+    const history = (await storage.getUserAssessments(userId, RECENT_ASSESSMENTS))
+      .filter((assessment) => assessment.id !== options.excludeId);
+    const step = ladderStep(history, policy, options.now);
+    return { step, baseSeconds, seconds: ladderSeconds(baseSeconds, step, policy) };
+  }
+}
+
+export const cooldownLadder = new CooldownLadderService();
@@ -0,0 +1,230 @@
+import type { AlertHistory, Assessment, AuditLog, Policy, RealTimeEvent, Tenant } from "@shared/schema";
+import { storage } from "../storage";
+import { currentTenantId, runWithTenant } from "../tenantContext";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Audit entries compliance needs for as long as the audit trail itself. Once the
+// assessment they describe expires they are kept with only the decision fields;
+// every other entry tied to that assessment is deleted.
+export const RETAINED_AUDIT_ACTIONS = [
+  'assessment_completed',
+  'verdict_rendered',
+  'override_used',
+  'cooldown_completed',
+  'full_assessment_rendered',
+  'ai_decision_made',
+  'verdict_reused',
+  'override_rejected',
+  'override_cosign_approved',
+] as const;
+
+const RETAINED_AUDIT_FIELDS = [
+  'verdict',
+  'originalVerdict',
+  'decision',
+  'allowed',
+  'riskScore',
+  'confidence',
+  'reasonTags',
+  'orderContext',
+  'reason',
+  'rejection',
+  'approvedBy',
+  'durationMs',
+  'aiDecisionId',
+];
+
+// Biometric readings and trader free text; verdicts, scores, overrides and
+// trade outcomes stay so analytics and the simulator keep working
+const REDACTED_ASSESSMENT_FIELDS = {
+  quickCheckDurationMs: null,
+  stroopTestResults: null,
+  selfReportStress: null,
+  behavioralMetrics: null,
+  voiceProsodyScore: null,
+  facialExpressionScore: null,
+  facialMetrics: null,
+  journalEntry: null,
+  journalTrigger: null,
+  journalPlan: null,
+} satisfies Partial<Assessment>;
+
+export interface RetentionOptions {
+  dryRun?: boolean;
+  now?: Date;
+  actorId?: string; // user who asked for the run; scheduled runs have none
+}
+
+export interface RetentionReport {
+  tenantId: string;
+  dryRun: boolean;
+  ranAt: Date;
+  policies: Array<{ policyId: string; name: string; retentionDays: number; expiredAssessments: number }>;
+  assessmentsRedacted: number;
+  eventsDeleted: number;
+  alertsDeleted: number;
+  auditLogsRedacted: number;
+  auditLogsDeleted: number;
+}
+
+const isRetainedAudit = (log: AuditLog) => (RETAINED_AUDIT_ACTIONS as readonly string[]).includes(log.action);
+
+function redactAuditDetails(details: unknown, redactedAt: Date): Record<string, unknown> {
+  const source = details && typeof details === 'object' ? (details as Record<string, unknown>) : {};
+  const kept = Object.fromEntries(RETAINED_AUDIT_FIELDS.filter((field) => field in source).map((field) => [field, source[field]]));
+  return { ...kept, redacted: true, redactedAt: redactedAt.toISOString() };
+}
+
+/**
+ * Data Retention Service
+ * Enforces each policy's dataRetentionDays: assessments past their window are
+ * stripped of biometric and free-text data, their events and alerts are
+ * deleted, and their audit trail is reduced to redacted compliance entries.
+ * Every run, dry or not, leaves a `retention_purge` audit entry.
+ */
+export class DataRetentionService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Applies retention to the tenant in scope. With `dryRun` nothing is changed
+   * and the report says what a real run would do.
+   */
+  async run(options: RetentionOptions = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun ?? false;
+    const now = options.now ?? new Date();
+
+    const defaultPolicy = await storage.getDefaultPolicy();
+    const policies = new Map<string, Policy>([[defaultPolicy.id, defaultPolicy]]);
+    for (const policy of await storage.getPolicies()) policies.set(policy.id, policy);
+
+    // Assessments under a deleted policy fall back to the tenant default's window
+    const governingPolicy = (policyId: string) => policies.get(policyId) ?? defaultPolicy;
+    const cutoffFor = (policyId: string) =>
+      new Date(now.getTime() - governingPolicy(policyId).dataRetentionDays * DAY_MS);
+    const earliestCutoff = new Date(
+      now.getTime() - Math.min(...Array.from(policies.values(), (policy) => policy.dataRetentionDays)) * DAY_MS
+    );
+    const isExpired = (policyId: string, createdAt: Date | null) =>
+      !!createdAt && new Date(createdAt) < cutoffFor(policyId);
+
+    const candidates = await storage.getAssessmentsInRange({ from: new Date(0), to: earliestCutoff, redacted: false });
+    const expired = candidates.filter((assessment) => isExpired(assessment.policyId, assessment.createdAt));
+
+    // Events and alerts follow their assessment's policy, or else the user's current one
+    const assessmentPolicy = new Map<string, string | undefined>();
+    const userPolicy = new Map<string, string>();
+    const windowPolicyFor = async (row: { assessmentId: string | null; userId: string | null }) => {
+      if (row.assessmentId) {
+        if (!assessmentPolicy.has(row.assessmentId)) {
+          assessmentPolicy.set(row.assessmentId, (await storage.getAssessment(row.assessmentId))?.policyId);
+        }
+        const policyId = assessmentPolicy.get(row.assessmentId);
+        if (policyId) return policyId;
+      }
+      if (row.userId) {
+        if (!userPolicy.has(row.userId)) {
+          userPolicy.set(row.userId, (await storage.resolvePolicy(row.userId)).policy.id);
+        }
+        return userPolicy.get(row.userId)!;
+      }
+      return defaultPolicy.id;
+    };
+
+    const expiredEvents: RealTimeEvent[] = [];
+    for (const event of await storage.getEventsBefore(earliestCutoff)) {
+      if (isExpired(await windowPolicyFor(event), event.createdAt)) expiredEvents.push(event);
+    }
+    const expiredAlerts: AlertHistory[] = [];
+    for (const alert of await storage.getAlertHistoryBefore(earliestCutoff)) {
+      if (isExpired(await windowPolicyFor(alert), alert.createdAt)) expiredAlerts.push(alert);
+    }
+
+    const auditTrail = await storage.getAuditLogsForAssessments(expired.map((assessment) => assessment.id));
+    const auditToRedact = auditTrail.filter(isRetainedAudit);
+    const auditToDelete = auditTrail.filter((log) => !isRetainedAudit(log));
+
+    if (!dryRun) {
+      // Assessments go last: if the run stops midway, the next one finds them again
+      for (const log of auditToRedact) {
+        await storage.redactAuditLog(log.id, redactAuditDetails(log.details, now));
+      }
+      await storage.deleteAuditLogs(auditToDelete.map((log) => log.id));
+      await storage.deleteEvents(expiredEvents.map((event) => event.id));
+      await storage.deleteAlertHistory(expiredAlerts.map((alert) => alert.id));
+      for (const assessment of expired) {
+        await storage.updateAssessment(assessment.id, { ...REDACTED_ASSESSMENT_FIELDS, redactedAt: now });
+      }
+    }
+
+    const report: RetentionReport = {
+      tenantId: currentTenantId(),
+      dryRun,
+      ranAt: now,
+      policies: Array.from(policies.values(), (policy) => ({
+        policyId: policy.id,
+        name: policy.name,
+        retentionDays: policy.dataRetentionDays,
+        expiredAssessments: expired.filter((assessment) => governingPolicy(assessment.policyId) === policy).length,
+      })),
+      assessmentsRedacted: expired.length,
+      eventsDeleted: expiredEvents.length,
+      alertsDeleted: expiredAlerts.length,
+      auditLogsRedacted: auditToRedact.length,
+      auditLogsDeleted: auditToDelete.length,
+    };
+
+    await storage.createAuditLog({
+      userId: options.actorId,
+      action: 'retention_purge',
+      details: { ...report, ranAt: now.toISOString() },
+    });
+
+    return report;
+  }
+
+  /**
+   * Runs retention for every active tenant. A failing tenant is logged and
+   * skipped so it cannot hold back the others.
+   */
+  async runAllTenants(options: Omit<RetentionOptions, 'actorId'> = {}): Promise<RetentionReport[]> {
+    const defaultTenant = await storage.getDefaultTenant();
+    const tenants = new Map<string, Tenant>([[defaultTenant.id, defaultTenant]]);
+    for (const tenant of await storage.getTenants()) tenants.set(tenant.id, tenant);
+
+    const reports: RetentionReport[] = [];
+    for (const tenant of Array.from(tenants.values())) {
+      if (!tenant.isActive) continue;
+      try {
+        reports.push(await runWithTenant(tenant, () => this.run(options)));
+      } catch (error) {
+        console.error(`Retention run failed for tenant ${tenant.id}:`, error);
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Schedules `runAllTenants` every `intervalMs`. The timer does not keep the
+   * process alive.
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runAllTenants()
+        .then((reports) => {
+          const redacted = reports.reduce((sum, report) => sum + report.assessmentsRedacted, 0);
+          console.log(`🧹 Retention run complete: ${redacted} assessments redacted across ${reports.length} tenants`);
+        })
+        .catch((error) => console.error('Retention run failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+export const dataRetentionService = new DataRetentionService();
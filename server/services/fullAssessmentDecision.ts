@@ -27,6 +27,8 @@ export interface FullAssessmentEvaluation {
   reasons: string[];
 }
 
+export const DEFAULT_WEIGHTS: CompositeWeights = { camera: 0.35, impulse: 0.25, focus: 0.2, reaction: 0.2 };
+
 const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
 
 export class FullAssessmentDecisionEngine {
@@ -489,11 +491,13 @@ export class FullAssessmentDecisionEngine {
   }
 
   private resolveWeights(policy: Policy | null | undefined, availability: { hasCamera: boolean; hasImpulse: boolean; hasFocus: boolean; hasReaction: boolean; }): CompositeWeights {
+    // The policy's scoring profile weights, when it has them; this engine's curves stay its own
+    const profileWeights: CompositeWeights = { ...DEFAULT_WEIGHTS, ...policy?.scoringProfile?.weights };
     const baseWeights: CompositeWeights = {
-      camera: availability.hasCamera ? 0.35 : 0,
-      impulse: availability.hasImpulse ? 0.25 : 0,
-      focus: availability.hasFocus ? 0.2 : 0,
-      reaction: availability.hasReaction ? 0.2 : 0,
+      camera: availability.hasCamera ? profileWeights.camera : 0,
+      impulse: availability.hasImpulse ? profileWeights.impulse : 0,
+      focus: availability.hasFocus ? profileWeights.focus : 0,
+      reaction: availability.hasReaction ? profileWeights.reaction : 0,
     };
 
     const enabled = (policy?.enabledModes ?? {}) as Partial<Record<'cognitiveTest' | 'behavioralBiometrics' | 'selfReport' | 'voiceProsody' | 'facialExpression', boolean>>;
@@ -511,7 +515,7 @@ export class FullAssessmentDecisionEngine {
 
     const total = baseWeights.camera + baseWeights.impulse + baseWeights.focus + baseWeights.reaction;
     if (total === 0) {
-      return { camera: 0.35, impulse: 0.25, focus: 0.2, reaction: 0.2 };
+      return { ...profileWeights };
     }
 
     return {
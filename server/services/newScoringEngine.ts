@@ -1,5 +1,10 @@
-import { FullAssessmentRequest, FullAssessmentResponse, CameraSignals, ImpulseControlMetrics, FocusStabilityMetrics, ReactionConsistencyMetrics } from "@shared/tradePauseAI";
+import { FullAssessmentRequest, FullAssessmentResponse, CameraSignals, ImpulseControlMetrics, FocusStabilityMetrics, ReactionConsistencyMetrics, ScoreContribution } from "@shared/tradePauseAI";
 import type { Policy, UserBaseline } from "@shared/schema";
+import type { TiltAssessment } from "./tiltDetector";
+import { OVERTRADING_REASON_TAG, type OvertradingCheck } from "./overtrading";
+import { UNUSUAL_SIZE_REASON_TAG, type SizeAnomalyCheck } from "./sizeAnomaly";
+import { DEFAULT_SCORING_PROFILE, applyCurve, cognitiveFloor, type CurvePoint, type ScoringProfile } from "@shared/scoringProfile";
+import { fitParts, settleContributions, splitByShare, type AttributedScore, type ScorePart } from "./scoreAttribution";
 
 /**
  * BRAND NEW SCORING ENGINE v2.5 - CONFIDENCE OVERRIDE
@@ -19,6 +24,8 @@ interface ScoreComponents {
   reaction: number;    // 0-100
 }
 
+type ComponentAttribution = Record<keyof ScoreComponents, AttributedScore>;
+
 interface ConfidenceFactors {
   dataQuality: number;     // 0-1 (how good is the signal quality)
   dataQuantity: number;    // 0-1 (how much data do we have)
@@ -33,16 +40,42 @@ export class NewScoringEngine {
    */
   evaluate(
     request: FullAssessmentRequest,
-    options: { baseline?: UserBaseline | null; policy?: Policy | null } = {}
+    options: {
+      baseline?: UserBaseline | null;
+      policy?: Policy | null;
+      tilt?: TiltAssessment | null;
+      overtrading?: OvertradingCheck | null;
+      sizeAnomaly?: SizeAnomalyCheck | null;
+    } = {}
   ): FullAssessmentResponse {
     const { camera, tests } = request;
-    const { baseline, policy } = options;
-
-    // STEP 1: Calculate individual component scores (0-100 each)
-    const scores = this.calculateComponentScores(camera, tests, baseline);
+    const { baseline, policy, tilt, overtrading, sizeAnomaly } = options;
+    // Weights, curves and override rule: the policy's profile, or the built-in one
+    const profile = policy?.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+
+    // STEP 1: Calculate individual component scores (0-100 each), with the
+    // points each input added
+    const components = this.calculateComponentScores(camera, tests, baseline, profile.curves);
+    const scores: ScoreComponents = {
+      camera: components.camera.score,
+      impulse: components.impulse.score,
+      focus: components.focus.score,
+      reaction: components.reaction.score,
+    };
 
-    // STEP 2: Calculate composite risk score (weighted average with cognitive override)
-    const compositeRisk = this.calculateCompositeRisk(scores);
+    // STEP 2: Calculate composite risk score (weighted average with cognitive override),
+    // raised by any revenge trading or tilt on the trader's order timeline, by an
+    // abnormal burst of orders and by an order far larger than the trader's usual
+    const cognitiveComposite = this.calculateCompositeRisk(scores, profile);
+    const behaviourParts: ScorePart[] = [
+      { feature: 'behaviour.tilt', label: 'Tilt', value: tilt?.score ?? null, points: tilt?.riskAdjustment ?? 0 },
+      { feature: 'behaviour.overtrading', label: 'Overtrading', value: overtrading?.velocity.last5m ?? null, points: overtrading?.riskAdjustment ?? 0 },
+      { feature: 'behaviour.unusualSize', label: 'Unusual size', value: sizeAnomaly?.anomaly.sizePercentile ?? null, points: sizeAnomaly?.riskAdjustment ?? 0 },
+    ];
+    const compositeRisk = Math.min(
+      100,
+      cognitiveComposite + behaviourParts.reduce((total, part) => total + part.points, 0)
+    );
 
     // DEBUG: Log scoring details
     console.log('🎯 SCORING BREAKDOWN:', {
@@ -64,6 +97,15 @@ export class NewScoringEngine {
 
     // STEP 4: Make decision based on policy thresholds
     const decision = this.makeDecision(compositeRisk, confidence, policy);
+    for (const found of tilt?.evidence ?? []) {
+      decision.reasoning.push(`${found.reasonTag}: ${found.detail}`);
+    }
+    if (overtrading?.velocity.overtrading) {
+      decision.reasoning.push(OVERTRADING_REASON_TAG);
+    }
+    if (sizeAnomaly?.anomaly.unusual) {
+      decision.reasoning.push(UNUSUAL_SIZE_REASON_TAG);
+    }
 
     return {
       allowed: decision.allowed,
@@ -77,12 +119,43 @@ export class NewScoringEngine {
         impulseScore: Math.round(scores.impulse),
         focusScore: Math.round(scores.focus),
         reactionScore: Math.round(scores.reaction),
-        compositeWeights: { camera: 0.15, impulse: 0.35, focus: 0.30, reaction: 0.20 }, // Updated weights
+        compositeWeights: { ...profile.weights },
         signalQuality: Number((camera.signalQuality).toFixed(2)),
+        tiltScore: tilt?.score ?? 0,
+        orderVelocity: overtrading?.velocity,
+        sizeAnomaly: sizeAnomaly?.anomaly,
+        attribution: this.attributeScore(components, profile.weights, cognitiveComposite, behaviourParts, compositeRisk),
       },
     };
   }
 
+  /**
+   * SCORE ATTRIBUTION
+   * Each input's signed points in the final score: its points within its
+   * component times the component weight, then any cognitive override, the
+   * behaviour checks and the cap at 100. The contributions sum to the score.
+   */
+  private attributeScore(
+    components: ComponentAttribution,
+    weights: ScoreComponents,
+    cognitiveComposite: number,
+    behaviourParts: ScorePart[],
+    compositeRisk: number
+  ): ScoreContribution[] {
+    const weighted = (Object.keys(weights) as (keyof ScoreComponents)[]).flatMap((component) =>
+      components[component].parts.map((part) => ({ ...part, points: part.points * weights[component] }))
+    );
+    const baseComposite = weighted.reduce((total, part) => total + part.points, 0);
+    const uncapped = cognitiveComposite + behaviourParts.reduce((total, part) => total + part.points, 0);
+
+    return settleContributions([
+      ...weighted,
+      { feature: 'override.cognitive', label: 'Cognitive override', value: null, points: cognitiveComposite - baseComposite },
+      ...behaviourParts,
+      { feature: 'cap', label: 'Capped at 100', value: null, points: compositeRisk - uncapped },
+    ], Math.round(compositeRisk));
+  }
+
   /**
    * CALCULATE COMPONENT SCORES (0-100 scale)
    * Uses NON-LINEAR scaling to map real performance to intuitive scores
@@ -94,20 +167,21 @@ export class NewScoringEngine {
       focusStability: FocusStabilityMetrics;
       reactionConsistency: ReactionConsistencyMetrics;
     },
-    baseline?: UserBaseline | null
-  ): ScoreComponents {
+    baseline: UserBaseline | null | undefined,
+    curves: ScoringProfile['curves']
+  ): ComponentAttribution {
     
     // CAMERA RISK (0-100)
-    const cameraScore = this.scoreCameraRisk(camera);
+    const cameraScore = this.scoreCameraRisk(camera, curves.camera);
 
     // IMPULSE CONTROL RISK (0-100)
-    const impulseScore = this.scoreImpulseRisk(tests.impulseControl, baseline);
+    const impulseScore = this.scoreImpulseRisk(tests.impulseControl, curves.impulse, baseline);
 
     // FOCUS STABILITY RISK (0-100)
-    const focusScore = this.scoreFocusRisk(tests.focusStability);
+    const focusScore = this.scoreFocusRisk(tests.focusStability, curves.focus);
 
     // REACTION CONSISTENCY RISK (0-100)
-    const reactionScore = this.scoreReactionRisk(tests.reactionConsistency, baseline);
+    const reactionScore = this.scoreReactionRisk(tests.reactionConsistency, curves.reaction, baseline);
 
     return {
       camera: cameraScore,
@@ -121,128 +195,102 @@ export class NewScoringEngine {
    * CAMERA RISK SCORING
    * Maps stress/agitation/fatigue to 0-100 risk scale
    */
-  private scoreCameraRisk(camera: CameraSignals): number {
+  private scoreCameraRisk(camera: CameraSignals, curve: CurvePoint[]): AttributedScore {
     // Base stress calculation (0-1 scale)
-    const rawStress = 
-      camera.stressLevel * 0.50 +
-      camera.agitation * 0.25 +
-      (1 - camera.focus) * 0.15 +
-      camera.fatigue * 0.10;
-
-    // NON-LINEAR MAPPING to 0-100
-    // Low stress (0-0.2) → 0-25
-    // Medium stress (0.2-0.5) → 25-60
-    // High stress (0.5-0.8) → 60-85
-    // Extreme stress (0.8-1.0) → 85-100
-    let score = 0;
-    
-    if (rawStress < 0.2) {
-      score = rawStress * 125; // 0-25 range
-    } else if (rawStress < 0.5) {
-      score = 25 + (rawStress - 0.2) * 116.67; // 25-60 range
-    } else if (rawStress < 0.8) {
-      score = 60 + (rawStress - 0.5) * 83.33; // 60-85 range
-    } else {
-      score = 85 + (rawStress - 0.8) * 75; // 85-100 range
-    }
+    const terms = [
+      { feature: 'camera.stressLevel', label: 'Facial stress', value: camera.stressLevel, weight: camera.stressLevel * 0.50 },
+      { feature: 'camera.agitation', label: 'Agitation', value: camera.agitation, weight: camera.agitation * 0.25 },
+      { feature: 'camera.focus', label: 'Gaze focus', value: camera.focus, weight: (1 - camera.focus) * 0.15 },
+      { feature: 'camera.fatigue', label: 'Fatigue', value: camera.fatigue, weight: camera.fatigue * 0.10 },
+    ];
+    const rawStress = terms.reduce((total, term) => total + term.weight, 0);
+
+    // NON-LINEAR MAPPING to 0-100 along the profile's camera curve
+    // (built in: 0-0.2 → 0-25, 0.2-0.5 → 25-60, 0.5-0.8 → 60-85, 0.8-1.0 → 85-100)
+    const score = applyCurve(curve, rawStress);
+
+    const parts = splitByShare(score, terms);
 
     // Add penalties for specific indicators
     if (camera.raw.microExpressionTension > 0.7) {
-      score += 10;
+      parts.push({ feature: 'camera.microExpressionTension', label: 'Micro-expression tension', value: camera.raw.microExpressionTension, points: 10 });
     }
     if (camera.raw.headMovement > 0.6) {
-      score += 8;
+      parts.push({ feature: 'camera.headMovement', label: 'Head movement', value: camera.raw.headMovement, points: 8 });
     }
 
-    return Math.max(0, Math.min(100, score));
+    const total = parts.reduce((acc, part) => acc + part.points, 0);
+    return fitParts(parts, Math.max(0, Math.min(100, total)), terms.map((term) => term.feature));
   }
 
   /**
    * IMPULSE CONTROL RISK SCORING
    * Based on go/no-go accuracy - ENHANCED to be more aggressive for bad performance
    */
-  private scoreImpulseRisk(metrics: ImpulseControlMetrics, baseline?: UserBaseline | null): number {
+  private scoreImpulseRisk(metrics: ImpulseControlMetrics, curve: CurvePoint[], baseline?: UserBaseline | null): AttributedScore {
     // Combined accuracy (0-1 scale, 1 = perfect)
     const combinedAccuracy = (metrics.goAccuracy + metrics.noGoAccuracy) / 2;
 
-    // ENHANCED NON-LINEAR MAPPING - More aggressive for poor performance
-    // Excellent (>0.9) → 0-20
-    // Good (0.75-0.9) → 20-45
-    // Fair (0.6-0.75) → 45-70
-    // Poor (0.4-0.6) → 70-90
-    // Very Poor (<0.4) → 90-100  <-- CRITICAL: Really bad = really high score
-    let score = 0;
-
-    if (combinedAccuracy > 0.9) {
-      score = (1 - combinedAccuracy) * 200; // 0-20 range
-    } else if (combinedAccuracy > 0.75) {
-      score = 20 + (0.9 - combinedAccuracy) * 166.67; // 20-45 range
-    } else if (combinedAccuracy > 0.6) {
-      score = 45 + (0.75 - combinedAccuracy) * 166.67; // 45-70 range
-    } else if (combinedAccuracy > 0.4) {
-      score = 70 + (0.6 - combinedAccuracy) * 100; // 70-90 range (more aggressive)
-    } else {
-      // REALLY BAD PERFORMANCE - Scale heavily to 90-100
-      score = 90 + (0.4 - combinedAccuracy) * 25; // 90-100 for accuracy <40%
-    }
+    // ENHANCED NON-LINEAR MAPPING along the profile's impulse curve
+    // Built in: excellent (>0.9) → 0-20, good (0.75-0.9) → 20-45,
+    // fair (0.6-0.75) → 45-70, poor (0.4-0.6) → 70-90, very poor (<0.4) → 90-100
+    let score = applyCurve(curve, combinedAccuracy);
+
+    // Each accuracy carries the curve's points by how far it fell short of perfect
+    const accuracyTerms = [
+      { feature: 'impulse.goAccuracy', label: 'Go accuracy', value: metrics.goAccuracy, weight: 1 - metrics.goAccuracy },
+      { feature: 'impulse.noGoAccuracy', label: 'No-go accuracy', value: metrics.noGoAccuracy, weight: 1 - metrics.noGoAccuracy },
+    ];
+    const parts = splitByShare(score, accuracyTerms);
 
     // ENHANCED PENALTIES - More aggressive for poor performance
     // Reaction time penalty
-    if (metrics.avgReactionTimeMs > 1500) {
-      score += 20; // Very slow = major penalty
-    } else if (metrics.avgReactionTimeMs > 1000) {
-      score += 15;
-    } else if (metrics.avgReactionTimeMs > 800) {
-      score += 8;
+    const reactionPenalty =
+      metrics.avgReactionTimeMs > 1500 ? 20 : // Very slow = major penalty
+      metrics.avgReactionTimeMs > 1000 ? 15 :
+      metrics.avgReactionTimeMs > 800 ? 8 : 0;
+    if (reactionPenalty > 0) {
+      parts.push({ feature: 'impulse.avgReactionTimeMs', label: 'Go/no-go reaction time', value: metrics.avgReactionTimeMs, points: reactionPenalty });
     }
 
     // Baseline comparison - more aggressive penalty
     if (baseline?.accuracy && combinedAccuracy < baseline.accuracy - 0.15) {
-      score += 18; // Increased from 12
+      parts.push({ feature: 'impulse.baselineAccuracy', label: 'Accuracy below your baseline', value: baseline.accuracy, points: 18 }); // Increased from 12
     }
 
+    score = parts.reduce((total, part) => total + part.points, 0);
+
     // CRITICAL: If accuracy is VERY low, ensure high risk score
     if (combinedAccuracy < 0.3) {
       score = Math.max(score, 95); // Guarantee 95+ for terrible performance
     }
 
-    return Math.max(0, Math.min(100, score));
+    return fitParts(parts, Math.max(0, Math.min(100, score)), accuracyTerms.map((term) => term.feature));
   }
 
   /**
    * FOCUS STABILITY RISK SCORING - ENHANCED for poor performance
    */
-  private scoreFocusRisk(metrics: FocusStabilityMetrics): number {
+  private scoreFocusRisk(metrics: FocusStabilityMetrics, curve: CurvePoint[]): AttributedScore {
     const attentionScore = metrics.sustainedAttention; // 0-1, higher is better
 
-    // ENHANCED NON-LINEAR MAPPING - More aggressive for poor attention
-    // Excellent (>0.85) → 0-20
-    // Good (0.7-0.85) → 20-45
-    // Fair (0.5-0.7) → 45-75
-    // Poor (0.3-0.5) → 75-95
-    // Very Poor (<0.3) → 95-100
-    let score = 0;
-
-    if (attentionScore > 0.85) {
-      score = (1 - attentionScore) * 133.33; // 0-20 range
-    } else if (attentionScore > 0.7) {
-      score = 20 + (0.85 - attentionScore) * 166.67; // 20-45 range
-    } else if (attentionScore > 0.5) {
-      score = 45 + (0.7 - attentionScore) * 150; // 45-75 range
-    } else if (attentionScore > 0.3) {
-      score = 75 + (0.5 - attentionScore) * 100; // 75-95 range (more aggressive)
-    } else {
-      // TERRIBLE ATTENTION - guarantee high score
-      score = 95 + (0.3 - attentionScore) * 16.67; // 95-100
-    }
+    // ENHANCED NON-LINEAR MAPPING along the profile's focus curve
+    // Built in: excellent (>0.85) → 0-20, good (0.7-0.85) → 20-45,
+    // fair (0.5-0.7) → 45-75, poor (0.3-0.5) → 75-95, very poor (<0.3) → 95-100
+    let score = applyCurve(curve, attentionScore);
+
+    const parts: ScorePart[] = [
+      { feature: 'focus.sustainedAttention', label: 'Sustained attention', value: attentionScore, points: score },
+    ];
 
     // ENHANCED PENALTIES - More severe
-    if (metrics.missedMatches > 5) {
-      score += 25; // Many misses = major problem
-    } else if (metrics.missedMatches > 3) {
-      score += 15;
-    } else if (metrics.missedMatches > 1) {
-      score += 8;
+    const missedPenalty =
+      metrics.missedMatches > 5 ? 25 : // Many misses = major problem
+      metrics.missedMatches > 3 ? 15 :
+      metrics.missedMatches > 1 ? 8 : 0;
+    if (missedPenalty > 0) {
+      parts.push({ feature: 'focus.missedMatches', label: 'Missed matches', value: metrics.missedMatches, points: missedPenalty });
+      score += missedPenalty;
     }
 
     // CRITICAL: Very low attention = guarantee high risk
@@ -250,42 +298,38 @@ export class NewScoringEngine {
       score = Math.max(score, 98); // Guarantee 98+ for very poor attention
     }
 
-    return Math.max(0, Math.min(100, score));
+    return fitParts(parts, Math.max(0, Math.min(100, score)), ['focus.sustainedAttention']);
   }
 
   /**
    * REACTION CONSISTENCY RISK SCORING - ENHANCED
    */
-  private scoreReactionRisk(metrics: ReactionConsistencyMetrics, baseline?: UserBaseline | null): number {
+  private scoreReactionRisk(metrics: ReactionConsistencyMetrics, curve: CurvePoint[], baseline?: UserBaseline | null): AttributedScore {
     const stabilityScore = metrics.stabilityScore; // 0-1, higher is better
 
-    // ENHANCED NON-LINEAR MAPPING - More aggressive for poor stability
-    let score = 0;
-
-    if (stabilityScore > 0.8) {
-      score = (1 - stabilityScore) * 100; // 0-20 range
-    } else if (stabilityScore > 0.6) {
-      score = 20 + (0.8 - stabilityScore) * 125; // 20-45 range
-    } else if (stabilityScore > 0.4) {
-      score = 45 + (0.6 - stabilityScore) * 150; // 45-75 range
-    } else if (stabilityScore > 0.2) {
-      score = 75 + (0.4 - stabilityScore) * 100; // 75-95 range (more aggressive)
-    } else {
-      // TERRIBLE STABILITY
-      score = 95 + (0.2 - stabilityScore) * 25; // 95-100
-    }
+    // ENHANCED NON-LINEAR MAPPING along the profile's reaction curve
+    // Built in: >0.8 → 0-20, 0.6-0.8 → 20-45, 0.4-0.6 → 45-75, 0.2-0.4 → 75-95, <0.2 → 95-100
+    let score = applyCurve(curve, stabilityScore);
+
+    const parts: ScorePart[] = [
+      { feature: 'reaction.stabilityScore', label: 'Reaction stability', value: stabilityScore, points: score },
+    ];
 
     // ENHANCED PENALTIES - More severe
-    if (metrics.anticipations > 4) {
-      score += 20; // Many anticipations = major problem
-    } else if (metrics.anticipations > 2) {
-      score += 12;
+    const anticipationPenalty =
+      metrics.anticipations > 4 ? 20 : // Many anticipations = major problem
+      metrics.anticipations > 2 ? 12 : 0;
+    if (anticipationPenalty > 0) {
+      parts.push({ feature: 'reaction.anticipations', label: 'Anticipations', value: metrics.anticipations, points: anticipationPenalty });
+      score += anticipationPenalty;
     }
-    
-    if (metrics.lateResponses > 4) {
-      score += 18; // Many late responses = major problem
-    } else if (metrics.lateResponses > 2) {
-      score += 10;
+
+    const latePenalty =
+      metrics.lateResponses > 4 ? 18 : // Many late responses = major problem
+      metrics.lateResponses > 2 ? 10 : 0;
+    if (latePenalty > 0) {
+      parts.push({ feature: 'reaction.lateResponses', label: 'Late responses', value: metrics.lateResponses, points: latePenalty });
+      score += latePenalty;
     }
 
     // CRITICAL: Very low stability = guarantee high risk
@@ -293,21 +337,15 @@ export class NewScoringEngine {
       score = Math.max(score, 95);
     }
 
-    return Math.max(0, Math.min(100, score));
+    return fitParts(parts, Math.max(0, Math.min(100, score)), ['reaction.stabilityScore']);
   }
 
   /**
    * CALCULATE COMPOSITE RISK (weighted average)
    * CRITICAL FIX: Heavily prioritize cognitive tests - if ANY cognitive test shows high risk, BLOCK
    */
-  private calculateCompositeRisk(scores: ScoreComponents): number {
-    // REBALANCED WEIGHTS - Cognitive tests now dominate
-    const weights = {
-      camera: 0.15,      // Reduced further (camera is often fake)
-      impulse: 0.35,     // Increased - most important
-      focus: 0.30,       // Increased - critical indicator
-      reaction: 0.20     // Actual performance data
-    };
+  private calculateCompositeRisk(scores: ScoreComponents, profile: ScoringProfile): number {
+    const { weights } = profile;
 
     const baseComposite = (
       scores.camera * weights.camera +
@@ -316,53 +354,11 @@ export class NewScoringEngine {
       scores.reaction * weights.reaction
     );
 
-    // AGGRESSIVE COGNITIVE OVERRIDE - If ANY cognitive test is bad, composite MUST be high
-    const cognitiveMax = Math.max(scores.impulse, scores.focus, scores.reaction);
-    const cognitiveAverage = (scores.impulse + scores.focus + scores.reaction) / 3;
-    
-    // RULE 1: If ANY cognitive test is 95+, composite MUST be at least 85 (CRITICAL FAILURE)
-    if (cognitiveMax >= 95) {
-      return Math.max(baseComposite, 85);
-    }
-    
-    // RULE 2: If ANY cognitive test is 90+, composite MUST be at least 80
-    if (cognitiveMax >= 90) {
-      return Math.max(baseComposite, 80);
-    }
-    
-    // RULE 3: If ANY cognitive test is 80+, composite MUST be at least 72
-    if (cognitiveMax >= 80) {
-      return Math.max(baseComposite, 72);
-    }
-    
-    // RULE 4: If cognitive average is 75+, ensure composite is at least 70
-    if (cognitiveAverage >= 75) {
-      return Math.max(baseComposite, 70);
-    }
-    
-    // RULE 5: If cognitive average is 65+, ensure composite is at least 62
-    if (cognitiveAverage >= 65) {
-      return Math.max(baseComposite, 62);
-    }
-    
-    // RULE 6: If cognitive average is 55+, ensure composite is at least 52
-    if (cognitiveAverage >= 55) {
-      return Math.max(baseComposite, 52);
-    }
-
-    // RULE 7: If TWO or more cognitive tests are 75+, composite MUST be at least 72
-    const highRiskTests = [scores.impulse, scores.focus, scores.reaction].filter(s => s >= 75).length;
-    if (highRiskTests >= 2) {
-      return Math.max(baseComposite, 72);
-    }
-    
-    // RULE 8: If TWO or more cognitive tests are 85+, composite MUST be at least 80
-    const criticalTests = [scores.impulse, scores.focus, scores.reaction].filter(s => s >= 85).length;
-    if (criticalTests >= 2) {
-      return Math.max(baseComposite, 80);
-    }
-
-    return baseComposite;
+    // AGGRESSIVE COGNITIVE OVERRIDE - If ANY cognitive test is bad, composite MUST be high.
+    // Built in: any test 95+ → 85, 90+ → 80, 80+ → 72; test average 75+ → 70,
+    // 65+ → 62, 55+ → 52; two tests 75+ → 72
+    const floor = cognitiveFloor(profile.cognitiveOverride, scores);
+    return floor === undefined ? baseComposite : Math.max(baseComposite, floor);
   }
 
   /**
@@ -537,3 +533,16 @@ export class NewScoringEngine {
 }
 
 export const newScoringEngine = new NewScoringEngine();
+
+/** Maps the engine's decision onto the verdicts stored on assessments */
+export const mapDecisionToVerdict = (decision: 'allow' | 'cooldown' | 'block'): 'go' | 'hold' | 'block' => {
+  switch (decision) {
+    case 'allow':
+      return 'go';
+    case 'cooldown':
+      return 'hold';
+    case 'block':
+    default:
+      return 'block';
+  }
+};
@@ -0,0 +1,336 @@
+import type { Assessment, OverrideRequest, Policy } from "@shared/schema";
+import { canTransition } from "@shared/assessmentLifecycle";
+import { storage } from "../storage";
+import { alertSystem } from "./alertSystem";
+import { TradePauseService } from "./tradePause";
+
+// A co-sign has to come while the trader is still at the order ticket
+export const OVERRIDE_REQUEST_TTL_MS = 5 * 60 * 1000;
+
+export class OverrideGovernanceError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'OverrideGovernanceError';
+  }
+}
+
+// Why an override needed a supervisor
+export type CosignTrigger = 'block_verdict' | 'risk_score';
+
+// Why an override was refused; recorded on every `override_rejected` audit entry
+export type OverrideRejection =
+  | 'override_disabled'
+  | 'not_overridable'
+  | 'daily_limit'
+  | 'supervisor_rejected'
+  | 'cosign_expired';
+
+/**
+ * Raised when a trader's overrides within the policy's alert window reach its
+ * alert count, at most once per window.
+ */
+export interface OverrideFrequencyAlert {
+  userId: string;
+  assessmentId: string;
+  alertId?: string; // alert history entry, when an alert policy applies to the trader
+  overrides: number;
+  windowMinutes: number;
+}
+
+export type OverrideOutcome =
+  | { status: 'applied'; assessmentId: string; alert?: OverrideFrequencyAlert }
+  | { status: 'pending_approval'; request: OverrideRequest };
+
+const startOfUtcDay = (now: Date) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+/**
+ * Override Governance Service
+ * Applies the policy's override rules before a trader goes against a verdict:
+ * overrides must be allowed, stay within the daily budget, and carry a
+ * supervisor's co-sign for block verdicts and high risk scores. Every refusal
+ * is audited as `override_rejected`.
+ */
+export class OverrideGovernanceService {
+  private tradePause: TradePauseService;
+
+  constructor() {
+    this.tradePause = new TradePauseService();
+  }
+
+  /**
+   * Overrides the assessment right away, or opens a co-sign request when the
+   * policy needs a supervisor to approve it first.
+   */
+  async requestOverride(assessmentId: string, reason: string, userId: string, now = new Date()): Promise<OverrideOutcome> {
+    const assessment = await storage.getAssessment(assessmentId);
+    if (!assessment || assessment.userId !== userId) {
+      throw new OverrideGovernanceError('Assessment not found', 404);
+    }
+    const { policy } = await storage.resolvePolicy(userId);
+
+    if (!policy.overrideAllowed) {
+      return this.refuse(assessment, reason, 'override_disabled', 'Overrides are not allowed under this policy', 403);
+    }
+    if (!canTransition(assessment.status, 'overridden')) {
+      return this.refuse(assessment, reason, 'not_overridable', `A ${assessment.status} assessment cannot be overridden`, 409);
+    }
+
+    await this.expireStaleRequests(now);
+    const [pending] = await storage.getOverrideRequests({ status: 'pending', assessmentId });
+    if (pending) {
+      throw new OverrideGovernanceError('An override of this assessment is already waiting for a supervisor', 409);
+    }
+
+    if (policy.overrideDailyLimit > 0) {
+      // Requests still waiting for a co-sign count against the budget too
+      const [used, waiting] = await Promise.all([
+        storage.getAuditLogs({ userId, action: 'override_used', since: startOfUtcDay(now), limit: policy.overrideDailyLimit }),
+        storage.getOverrideRequests({ status: 'pending', userIds: [userId] }),
+      ]);
+      if (used.length + waiting.length >= policy.overrideDailyLimit) {
+        return this.refuse(
+          assessment,
+          reason,
+          'daily_limit',
+          `Daily override limit of ${policy.overrideDailyLimit} reached`,
+          429
+        );
+      }
+    }
+
+    const trigger = this.cosignTrigger(assessment, policy);
+    if (trigger) {
+      const request = await storage.createOverrideRequest({
+        assessmentId,
+        userId,
+        reason,
+        verdict: assessment.verdict,
+        riskScore: assessment.riskScore,
+        trigger,
+        status: 'pending',
+        expiresAt: new Date(now.getTime() + OVERRIDE_REQUEST_TTL_MS),
+      });
+      await storage.createAuditLog({
+        userId,
+        assessmentId,
+        action: 'override_cosign_requested',
+        details: { requestId: request.id, reason, trigger, verdict: assessment.verdict, riskScore: assessment.riskScore },
+      });
+      return { status: 'pending_approval', request };
+    }
+
+    await this.tradePause.recordOverride(assessmentId, reason, userId);
+    return { status: 'applied', assessmentId, alert: await this.checkFrequency(assessment, policy, now) };
+  }
+
+  /**
+   * Co-signs a pending request and applies the override for the trader
+   */
+  async approve(
+    requestId: string,
+    reviewerId: string,
+    note?: string,
+    now = new Date()
+  ): Promise<{ request: OverrideRequest; alert?: OverrideFrequencyAlert }> {
+    const pending = await this.getReviewableRequest(requestId, reviewerId, now);
+
+    // An assessment that has since moved on (taken, expired) cannot be
+    // overridden, so the request is left for the trader rather than claimed
+    const assessment = await storage.getAssessment(pending.assessmentId);
+    if (!assessment) {
+      throw new OverrideGovernanceError('Assessment not found', 404);
+    }
+    if (!canTransition(assessment.status, 'overridden')) {
+      throw new OverrideGovernanceError(`A ${assessment.status} assessment cannot be overridden`, 409);
+    }
+
+    // Settled before the override is applied: a request another supervisor has
+    // just rejected must never turn into an override
+    const request = await storage.reviewOverrideRequest(requestId, {
+      status: 'approved',
+      reviewedBy: reviewerId,
+      reviewNote: note ?? null,
+    });
+    if (!request) {
+      throw new OverrideGovernanceError('Override request has already been reviewed', 409);
+    }
+
+    try {
+      await this.tradePause.recordOverride(request.assessmentId, request.reason, request.userId, reviewerId);
+    } catch (error) {
+      await this.markFailed(request, reviewerId, error instanceof Error ? error.message : 'Override could not be applied');
+      throw error;
+    }
+
+    await storage.createAuditLog({
+      userId: reviewerId,
+      assessmentId: request.assessmentId,
+      action: 'override_cosign_approved',
+      details: { requestId, traderId: request.userId, trigger: request.trigger, note },
+    });
+
+    const { policy } = await storage.resolvePolicy(request.userId);
+    return { request, alert: await this.checkFrequency(assessment, policy, now) };
+  }
+
+  async reject(requestId: string, reviewerId: string, note?: string, now = new Date()): Promise<OverrideRequest> {
+    await this.getReviewableRequest(requestId, reviewerId, now);
+
+    const request = await storage.reviewOverrideRequest(requestId, {
+      status: 'rejected',
+      reviewedBy: reviewerId,
+      reviewNote: note ?? null,
+    });
+    if (!request) {
+      throw new OverrideGovernanceError('Override request has already been reviewed', 409);
+    }
+
+    await this.auditRejection(request.userId, request.assessmentId, 'supervisor_rejected', {
+      requestId,
+      reason: request.reason,
+      verdict: request.verdict,
+      riskScore: request.riskScore,
+      reviewedBy: reviewerId,
+      note,
+    });
+    return request;
+  }
+
+  /**
+   * Marks overdue pending requests as expired; an unanswered request is a
+   * refused override. Called before requests are listed or reviewed.
+   */
+  async expireStaleRequests(now = new Date()): Promise<OverrideRequest[]> {
+    const pending = await storage.getOverrideRequests({ status: 'pending' });
+    const expired: OverrideRequest[] = [];
+
+    for (const request of pending) {
+      if (request.expiresAt > now) continue;
+      const reviewed = await storage.reviewOverrideRequest(request.id, { status: 'expired' });
+      if (!reviewed) continue;
+
+      expired.push(reviewed);
+      await this.auditRejection(request.userId, request.assessmentId, 'cosign_expired', {
+        requestId: request.id,
+        reason: request.reason,
+        verdict: request.verdict,
+        riskScore: request.riskScore,
+        expiresAt: request.expiresAt,
+      });
+    }
+
+    return expired;
+  }
+
+  private cosignTrigger(assessment: Assessment, policy: Policy): CosignTrigger | undefined {
+    // Nobody overrides a block on their own say-so
+    if (assessment.verdict === 'block') return 'block_verdict';
+    if (policy.overrideCosignRiskScore !== null && (assessment.riskScore ?? 0) >= policy.overrideCosignRiskScore) {
+      return 'risk_score';
+    }
+    return undefined;
+  }
+
+  /**
+   * Raises a frequency alert once the trader's overrides within the policy's
+   * window reach its alert count, at most once per window: into alert history
+   * under the alert policy that applies to the trader, and the audit log.
+   */
+  private async checkFrequency(assessment: Assessment, policy: Policy, now: Date): Promise<OverrideFrequencyAlert | undefined> {
+    if (policy.overrideAlertCount <= 0) return undefined;
+
+    const userId = assessment.userId;
+    const windowMinutes = policy.overrideAlertWindowMinutes;
+    const since = new Date(now.getTime() - windowMinutes * 60_000);
+    const recent = await storage.getAuditLogs({ userId, action: 'override_used', since, limit: 1000 });
+    if (recent.length < policy.overrideAlertCount) return undefined;
+    const [raised] = await storage.getAuditLogs({ userId, action: 'override_alert_raised', since, limit: 1 });
+    if (raised) return undefined;
+
+    const user = await storage.getUser(userId);
+    const alertId = await alertSystem.raisePatternAlert(
+      {
+        userId,
+        userName: user?.username ?? userId,
+        userRole: user?.role ?? 'trader',
+        stressLevel: (assessment.riskScore ?? 0) / 10,
+        assessment,
+        metadata: { overrides: { count: recent.length, windowMinutes, alertCount: policy.overrideAlertCount } },
+      },
+      await storage.getAlertPolicies(),
+      {
+        severity: 'warning',
+        threshold: policy.overrideAlertCount,
+        message: `Trader overrode ${recent.length} verdicts in ${windowMinutes} minutes`,
+      }
+    );
+
+    const alert: OverrideFrequencyAlert = { userId, assessmentId: assessment.id, alertId, overrides: recent.length, windowMinutes };
+    await storage.createAuditLog({
+      userId,
+      assessmentId: assessment.id,
+      action: 'override_alert_raised',
+      details: { ...alert, alertCount: policy.overrideAlertCount, policyId: policy.id, policyVersion: policy.version },
+    });
+    return alert;
+  }
+
+  private async refuse(
+    assessment: Assessment,
+    reason: string,
+    rejection: OverrideRejection,
+    message: string,
+    status: number
+  ): Promise<never> {
+    await this.auditRejection(assessment.userId, assessment.id, rejection, {
+      reason,
+      verdict: assessment.verdict,
+      riskScore: assessment.riskScore,
+      message,
+    });
+    throw new OverrideGovernanceError(message, status);
+  }
+
+  private async auditRejection(
+    userId: string,
+    assessmentId: string,
+    rejection: OverrideRejection,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await storage.createAuditLog({
+      userId,
+      assessmentId,
+      action: 'override_rejected',
+      details: { rejection, ...details },
+    });
+  }
+
+  // The assessment moved on between the check and the claim
+  private async markFailed(request: OverrideRequest, reviewerId: string, failure: string): Promise<void> {
+    await storage.reviewOverrideRequest(request.id, { status: 'failed' }, 'approved');
+    await storage.createAuditLog({
+      userId: reviewerId,
+      assessmentId: request.assessmentId,
+      action: 'override_cosign_failed',
+      details: { requestId: request.id, traderId: request.userId, trigger: request.trigger, failure },
+    });
+  }
+
+  private async getReviewableRequest(requestId: string, reviewerId: string, now: Date): Promise<OverrideRequest> {
+    await this.expireStaleRequests(now);
+
+    const request = await storage.getOverrideRequest(requestId);
+    if (!request) {
+      throw new OverrideGovernanceError('Override request not found', 404);
+    }
+    if (request.status !== 'pending') {
+      throw new OverrideGovernanceError(`Override request is already ${request.status}`, 409);
+    }
+    if (request.userId === reviewerId) {
+      throw new OverrideGovernanceError('An override must be co-signed by someone other than the trader', 403);
+    }
+    return request;
+  }
+}
+
+export const overrideGovernance = new OverrideGovernanceService();
@@ -0,0 +1,108 @@
+import type { Policy } from "@shared/schema";
+import type { OrderVelocity } from "@shared/tradePauseAI";
+import { storage } from "../storage";
+
+const SHORT_WINDOW_MS = 5 * 60 * 1000;
+const LONG_WINDOW_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Earlier days the trader traded on before their usual rate means anything
+const MIN_HISTORY_DAYS = 3;
+// Rates of a few orders an hour barely vary; one order is the smallest spread
+// a burst is measured against
+const MIN_SPREAD = 1;
+// Added to the risk score for each window showing a burst
+const BURST_RISK = 10;
+
+export const OVERTRADING_REASON_TAG = 'overtrading';
+
+export type OvertradingPolicy = Pick<
+  Policy,
+  'overtradingLookbackDays' | 'overtradingZScore' | 'overtradingMinOrders5m' | 'overtradingMinOrders60m'
+>;
+
+export interface OvertradingCheck {
+  velocity: OrderVelocity;
+  riskAdjustment: number;
+}
+
+const utcDay = (at: number) => Math.floor(at / DAY_MS);
+
+function countIn(times: number[], end: number, windowMs: number): number {
+  return times.filter((time) => time > end - windowMs && time <= end).length;
+}
+
+function zScore(current: number, samples: number[]): number | null {
+  if (samples.length < MIN_HISTORY_DAYS) return null;
+  const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+  const variance = samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples.length;
+  return Number(((current - mean) / Math.max(Math.sqrt(variance), MIN_SPREAD)).toFixed(2));
+}
+
+const average = (samples: number[]) =>
+  samples.length === 0 ? 0 : Number((samples.reduce((sum, value) => sum + value, 0) / samples.length).toFixed(2));
+
+/**
+ * The current order's rate against the trader's own: for each earlier day in
+ * the lookback that the trader traded on, the orders in the same 5- and
+ * 60-minute windows at the same time of day. `earlier` must not include the
+ * current order.
+ */
+export function measureVelocity(earlier: Date[], policy: OvertradingPolicy, now = new Date()): OvertradingCheck {
+  const times = earlier.map((at) => at.getTime()).filter((time) => time <= now.getTime());
+  const last5m = countIn(times, now.getTime(), SHORT_WINDOW_MS) + 1;
+  const last60m = countIn(times, now.getTime(), LONG_WINDOW_MS) + 1;
+
+  const tradingDays = new Set(times.map(utcDay));
+  const samples5m: number[] = [];
+  const samples60m: number[] = [];
+  for (let day = 1; day <= policy.overtradingLookbackDays; day++) {
+    const sameTime = now.getTime() - day * DAY_MS;
+    if (!tradingDays.has(utcDay(sameTime))) continue;
+    samples5m.push(countIn(times, sameTime, SHORT_WINDOW_MS));
+    samples60m.push(countIn(times, sameTime, LONG_WINDOW_MS));
+  }
+
+  const z5m = zScore(last5m, samples5m);
+  const z60m = zScore(last60m, samples60m);
+  const burst5m = z5m !== null && z5m >= policy.overtradingZScore && last5m >= policy.overtradingMinOrders5m;
+  const burst60m = z60m !== null && z60m >= policy.overtradingZScore && last60m >= policy.overtradingMinOrders60m;
+
+  return {
+    velocity: {
+      last5m,
+      last60m,
+      expected5m: average(samples5m),
+      expected60m: average(samples60m),
+      z5m,
+      z60m,
+      overtrading: burst5m || burst60m,
+    },
+    riskAdjustment: (burst5m ? BURST_RISK : 0) + (burst60m ? BURST_RISK : 0),
+  };
+}
+
+/**
+ * Overtrading Service
+ * Counts the trader's calls to the gate, every assessment being an order
+ * about to go out, and flags bursts that are abnormal for that trader at that
+ * time of day rather than against a fixed firm-wide rate.
+ */
+export class OvertradingService {
+
+  async check(userId: string, policy: OvertradingPolicy, now = new Date()): Promise<OvertradingCheck> {
+    if (policy.overtradingLookbackDays <= 0) {
+      return measureVelocity([], policy, now);
+    }
+
+    const from = new Date(utcDay(now.getTime() - policy.overtradingLookbackDays * DAY_MS) * DAY_MS);
+    const earlier = await storage.getAssessmentsInRange({ from, to: now, userIds: [userId] });
+    return measureVelocity(
+      earlier.flatMap((assessment) => (assessment.createdAt ? [new Date(assessment.createdAt)] : [])),
+      policy,
+      now
+    );
+  }
+}
+
+export const overtrading = new OvertradingService();
@@ -0,0 +1,207 @@
+import type { InsertPolicy, Policy, PolicyChangeRequest } from "@shared/schema";
+import { sameSettingValue } from "@shared/policyRevisions";
+import { storage } from "../storage";
+
+// Settings that move the gate itself; changing them on a live policy needs a second reviewer
+export const APPROVAL_GATED_FIELDS = [
+  'riskThreshold',
+  'overrideAllowed',
+  'cooldownDuration',
+  'overrideDailyLimit',
+  'overrideCosignRiskScore',
+  'quickCheckEngine',
+  'fullAssessmentEngine',
+  'scoringProfile',
+] as const;
+
+// Pending requests lapse after this long so stale proposals cannot be approved later
+export const CHANGE_REQUEST_TTL_MS = 72 * 60 * 60 * 1000;
+
+export class PolicyApprovalError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'PolicyApprovalError';
+  }
+}
+
+export interface ProposedChange {
+  changes: Partial<InsertPolicy>;
+  reason: string;
+  restoredVersion?: number;
+}
+
+/**
+ * Policy Approval Service
+ * Four-eyes workflow for sensitive policy edits: proposals, approval by a
+ * different supervisor or admin, rejection and expiry, all audited.
+ */
+export class PolicyApprovalService {
+
+  /**
+   * Whether applying `changes` to `policy` must go through a change request
+   */
+  async requiresApproval(policy: Policy, changes: Partial<InsertPolicy>): Promise<boolean> {
+    const touchesGatedField = APPROVAL_GATED_FIELDS.some(
+      (field) => changes[field] !== undefined && !sameSettingValue(changes[field], policy[field])
+    );
+    if (!touchesGatedField) return false;
+    return storage.isPolicyInUse(policy.id);
+  }
+
+  async propose(policy: Policy, proposal: ProposedChange, proposedBy: string): Promise<PolicyChangeRequest> {
+    const request = await storage.createPolicyChangeRequest({
+      policyId: policy.id,
+      baseVersion: policy.version,
+      changes: proposal.changes,
+      reason: proposal.reason,
+      restoredVersion: proposal.restoredVersion ?? null,
+      status: 'pending',
+      proposedBy,
+      expiresAt: new Date(Date.now() + CHANGE_REQUEST_TTL_MS),
+    });
+
+    await storage.createAuditLog({
+      userId: proposedBy,
+      action: 'policy_change_proposed',
+      details: {
+        requestId: request.id,
+        policyId: policy.id,
+        baseVersion: policy.version,
+        changes: proposal.changes,
+        reason: proposal.reason,
+        restoredVersion: proposal.restoredVersion,
+      },
+    });
+
+    return request;
+  }
+
+  /**
+   * Applies a pending request as a new policy revision authored by the proposer.
+   * The request is claimed first, so a change another reviewer has just
+   * rejected never goes live; one that can no longer be applied is marked failed.
+   */
+  async approve(requestId: string, reviewerId: string, note?: string): Promise<{ request: PolicyChangeRequest; policy: Policy }> {
+    const request = await this.getReviewableRequest(requestId, reviewerId);
+
+    const policy = await storage.getPolicy(request.policyId);
+    if (!policy) {
+      throw new PolicyApprovalError('Policy not found', 404);
+    }
+    if (policy.version !== request.baseVersion) {
+      throw new PolicyApprovalError(
+        `Policy has moved from version ${request.baseVersion} to ${policy.version} since this change was proposed`,
+        409
+      );
+    }
+
+    const claimed = await storage.reviewPolicyChangeRequest(requestId, {
+      status: 'approved',
+      reviewedBy: reviewerId,
+      reviewNote: note ?? null,
+    });
+    if (!claimed) {
+      throw new PolicyApprovalError('Change request has already been reviewed', 409);
+    }
+
+    let updatedPolicy: Policy | undefined;
+    try {
+      updatedPolicy = await storage.updatePolicy(policy.id, request.changes as Partial<InsertPolicy>, {
+        authorId: request.proposedBy,
+        reason: request.reason,
+        restoredVersion: request.restoredVersion ?? undefined,
+        baseVersion: request.baseVersion,
+      });
+    } catch (error) {
+      await this.markFailed(claimed, reviewerId, error instanceof Error ? error.message : 'Policy update failed');
+      throw new PolicyApprovalError(error instanceof Error ? error.message : 'Policy update failed', 409);
+    }
+    if (!updatedPolicy) {
+      await this.markFailed(claimed, reviewerId, 'Policy not found');
+      throw new PolicyApprovalError('Policy not found', 404);
+    }
+
+    const appliedVersion = updatedPolicy.version;
+    const reviewed = await storage.reviewPolicyChangeRequest(requestId, { status: 'approved', appliedVersion }, 'approved');
+
+    await storage.createAuditLog({
+      userId: reviewerId,
+      action: 'policy_change_approved',
+      details: { requestId, policyId: policy.id, proposedBy: request.proposedBy, appliedVersion, note },
+    });
+
+    return { request: reviewed ?? { ...claimed, appliedVersion }, policy: updatedPolicy };
+  }
+
+  async reject(requestId: string, reviewerId: string, note?: string): Promise<PolicyChangeRequest> {
+    const request = await this.getReviewableRequest(requestId, reviewerId);
+
+    const reviewed = await storage.reviewPolicyChangeRequest(requestId, {
+      status: 'rejected',
+      reviewedBy: reviewerId,
+      reviewNote: note ?? null,
+    });
+    if (!reviewed) {
+      throw new PolicyApprovalError('Change request has already been reviewed', 409);
+    }
+
+    await storage.createAuditLog({
+      userId: reviewerId,
+      action: 'policy_change_rejected',
+      details: { requestId, policyId: request.policyId, proposedBy: request.proposedBy, note },
+    });
+
+    return reviewed;
+  }
+
+  /**
+   * Marks overdue pending requests as expired. Called before requests are
+   * listed or reviewed, so expiry needs no background job.
+   */
+  async expireStaleRequests(now = new Date()): Promise<PolicyChangeRequest[]> {
+    const pending = await storage.getPolicyChangeRequests({ status: 'pending' });
+    const expired: PolicyChangeRequest[] = [];
+
+    for (const request of pending) {
+      if (request.expiresAt > now) continue;
+      const reviewed = await storage.reviewPolicyChangeRequest(request.id, { status: 'expired' });
+      if (!reviewed) continue;
+
+      expired.push(reviewed);
+      await storage.createAuditLog({
+        userId: request.proposedBy,
+        action: 'policy_change_expired',
+        details: { requestId: request.id, policyId: request.policyId, expiresAt: request.expiresAt },
+      });
+    }
+
+    return expired;
+  }
+
+  private async markFailed(request: PolicyChangeRequest, reviewerId: string, failure: string): Promise<void> {
+    await storage.reviewPolicyChangeRequest(request.id, { status: 'failed' }, 'approved');
+    await storage.createAuditLog({
+      userId: reviewerId,
+      action: 'policy_change_failed',
+      details: { requestId: request.id, policyId: request.policyId, proposedBy: request.proposedBy, failure },
+    });
+  }
+
+  private async getReviewableRequest(requestId: string, reviewerId: string): Promise<PolicyChangeRequest> {
+    await this.expireStaleRequests();
+
+    const request = await storage.getPolicyChangeRequest(requestId);
+    if (!request) {
+      throw new PolicyApprovalError('Change request not found', 404);
+    }
+    if (request.status !== 'pending') {
+      throw new PolicyApprovalError(`Change request is already ${request.status}`, 409);
+    }
+    if (request.proposedBy === reviewerId) {
+      throw new PolicyApprovalError('A change request must be reviewed by someone other than its author', 403);
+    }
+    return request;
+  }
+}
+
+export const policyApproval = new PolicyApprovalService();
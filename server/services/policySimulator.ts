@@ -0,0 +1,198 @@
+import type { Assessment, Policy, UserBaseline } from "@shared/schema";
+import type { CameraSignals, FullAssessmentRequest, OrderContext } from "@shared/tradePauseAI";
+import { storage } from "../storage";
+import { determineVerdict } from "./tradePause";
+import { mapDecisionToVerdict } from "./newScoringEngine";
+import { scoringEngines } from "./scoringEngines";
+
+type Verdict = 'go' | 'hold' | 'block';
+
+// Replays are synchronous scoring work; cap them so one request cannot stall the server
+export const MAX_SIMULATED_ASSESSMENTS = 5000;
+
+export interface SimulationScope {
+  from: Date;
+  to: Date;
+  userIds?: string[]; // undefined = every trader in the tenant
+}
+
+export interface VerdictChange {
+  assessmentId: string;
+  userId: string;
+  createdAt: Date | null;
+  riskScore: number | null;
+  from: Verdict;
+  to: Verdict;
+  executed: boolean;
+  pnl: number | null;
+}
+
+export interface OutcomeSummary {
+  count: number;
+  executed: number; // trades that actually went through, so have an outcome
+  pnl: number;
+  winners: number;
+  losers: number;
+}
+
+export interface SimulationResult {
+  replayed: number;
+  skipped: number; // pending or unscorable assessments
+  truncated: boolean;
+  current: { blockRate: number; holdRate: number };
+  candidate: { blockRate: number; holdRate: number };
+  blockRateDelta: number;
+  holdRateDelta: number;
+  transitions: Record<string, number>; // "go->hold": 12
+  // Trades the candidate would have held or blocked that the recorded policy let through
+  newlyStopped: OutcomeSummary;
+  // Trades the recorded policy stopped that the candidate would have let through
+  newlyAllowed: OutcomeSummary;
+  changes: VerdictChange[];
+}
+
+const isStopped = (verdict: Verdict) => verdict !== 'go';
+
+const emptyOutcome = (): OutcomeSummary => ({ count: 0, executed: 0, pnl: 0, winners: 0, losers: 0 });
+
+/**
+ * Policy Simulator Service
+ * Replays stored assessments under a candidate policy and compares the result
+ * with the same replay under the policy revision each assessment was recorded
+ * with, so differences come from the policy alone.
+ */
+export class PolicySimulatorService {
+
+  async simulate(candidate: Policy, scope: SimulationScope): Promise<SimulationResult> {
+    const all = await storage.getAssessmentsInRange(scope);
+    const assessments = all.slice(0, MAX_SIMULATED_ASSESSMENTS);
+
+    const policies = new Map<string, Policy | undefined>();
+    const baselines = new Map<string, UserBaseline | null>();
+    const recordedPolicy = async (assessment: Assessment) => {
+      const key = `${assessment.policyId}:${assessment.policyVersion}`;
+      if (!policies.has(key)) {
+        policies.set(key, await storage.getPolicyAtVersion(assessment.policyId, assessment.policyVersion));
+      }
+      return policies.get(key);
+    };
+    // Historical baselines are not kept, so full assessments replay against the current one
+    const baselineFor = async (userId: string) => {
+      if (!baselines.has(userId)) {
+        baselines.set(userId, (await storage.getUserBaseline(userId)) ?? null);
+      }
+      return baselines.get(userId) ?? null;
+    };
+
+    const result: SimulationResult = {
+      replayed: 0,
+      skipped: 0,
+      truncated: all.length > assessments.length,
+      current: { blockRate: 0, holdRate: 0 },
+      candidate: { blockRate: 0, holdRate: 0 },
+      blockRateDelta: 0,
+      holdRateDelta: 0,
+      transitions: {},
+      newlyStopped: emptyOutcome(),
+      newlyAllowed: emptyOutcome(),
+      changes: [],
+    };
+    const counts = { currentBlock: 0, currentHold: 0, candidateBlock: 0, candidateHold: 0 };
+
+    for (const assessment of assessments) {
+      const recorded = await recordedPolicy(assessment);
+      if (assessment.verdict === 'pending' || !recorded) {
+        result.skipped++;
+        continue;
+      }
+
+      const baseline = await baselineFor(assessment.userId);
+      const before = this.replay(assessment, recorded, baseline);
+      const after = this.replay(assessment, candidate, baseline);
+      if (!before || !after) {
+        result.skipped++;
+        continue;
+      }
+
+      result.replayed++;
+      if (before === 'block') counts.currentBlock++;
+      if (before === 'hold') counts.currentHold++;
+      if (after === 'block') counts.candidateBlock++;
+      if (after === 'hold') counts.candidateHold++;
+      if (before === after) continue;
+
+      const transition = `${before}->${after}`;
+      result.transitions[transition] = (result.transitions[transition] ?? 0) + 1;
+
+      const outcome = (assessment.tradeOutcome ?? {}) as { executed?: boolean; pnl?: number };
+      const executed = !!(assessment.tradeExecuted || outcome.executed);
+      const pnl = typeof outcome.pnl === 'number' ? outcome.pnl : null;
+      result.changes.push({
+        assessmentId: assessment.id,
+        userId: assessment.userId,
+        createdAt: assessment.createdAt,
+        riskScore: assessment.riskScore,
+        from: before,
+        to: after,
+        executed,
+        pnl,
+      });
+
+      if (isStopped(before) !== isStopped(after)) {
+        this.addOutcome(isStopped(after) ? result.newlyStopped : result.newlyAllowed, executed, pnl);
+      }
+    }
+
+    const rate = (n: number) => (result.replayed > 0 ? n / result.replayed : 0);
+    result.current = { blockRate: rate(counts.currentBlock), holdRate: rate(counts.currentHold) };
+    result.candidate = { blockRate: rate(counts.candidateBlock), holdRate: rate(counts.candidateHold) };
+    result.blockRateDelta = result.candidate.blockRate - result.current.blockRate;
+    result.holdRateDelta = result.candidate.holdRate - result.current.holdRate;
+
+    return result;
+  }
+
+  /**
+   * Verdict for one stored assessment under `policy`. Full assessments are
+   * re-scored from their stored camera and test metrics by the policy's
+   * full-assessment engine; quick checks reuse
+   * their stored risk score. Returns null when neither is available.
+   */
+  private replay(assessment: Assessment, policy: Policy, baseline: UserBaseline | null): Verdict | null {
+    const request = this.toFullAssessmentRequest(assessment);
+    if (request) {
+      const engine = scoringEngines.resolve(policy.fullAssessmentEngine, 'full_assessment');
+      return mapDecisionToVerdict(engine.score({ request, policy, baseline }).decision);
+    }
+    if (typeof assessment.riskScore === 'number') {
+      return determineVerdict(assessment.riskScore, policy);
+    }
+    return null;
+  }
+
+  private toFullAssessmentRequest(assessment: Assessment): FullAssessmentRequest | null {
+    const tests = assessment.stroopTestResults as FullAssessmentRequest['tests'] | null;
+    const camera = assessment.facialMetrics as CameraSignals | null;
+    if (!tests?.impulseControl || !tests.focusStability || !tests.reactionConsistency) return null;
+    if (!camera || typeof camera.signalQuality !== 'number') return null;
+
+    return {
+      userId: assessment.userId,
+      orderContext: assessment.orderContext as OrderContext,
+      camera,
+      tests,
+    };
+  }
+
+  private addOutcome(summary: OutcomeSummary, executed: boolean, pnl: number | null) {
+    summary.count++;
+    if (!executed) return;
+    summary.executed++;
+    if (pnl === null) return;
+    summary.pnl += pnl;
+    if (pnl > 0) summary.winners++;
+    if (pnl < 0) summary.losers++;
+  }
+}
+
+export const policySimulator = new PolicySimulatorService();
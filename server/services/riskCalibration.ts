@@ -0,0 +1,240 @@
+import type { Assessment } from "@shared/schema";
+import type { RiskCalibration } from "@shared/tradePauseAI";
+import { storage } from "../storage";
+import { currentTenantId } from "../tenantContext";
+import { scoringEngines, stampedEngineRef } from "./scoringEngines";
+
+export const MIN_CALIBRATION_SAMPLES = 50; // labelled assessments a desk needs for its own mapping
+const LOOKBACK_DAYS = 180;
+const MODEL_TTL_MS = 6 * 60 * 60 * 1000;
+const FOLDS = 5; // Brier scores and reliability are out-of-fold, not fitted-on-itself
+const RELIABILITY_BINS = 10;
+
+/** A full-assessment score and whether the trade that followed went badly. */
+export interface CalibrationSample {
+  score: number; // 0-100
+  bad: boolean; // lost money or broke a rule
+}
+
+/** Points of the fitted mapping; probabilities are interpolated between them. */
+export interface CalibrationKnot {
+  score: number;
+  probability: number;
+}
+
+export interface ReliabilityBin {
+  from: number; // predicted probability range
+  to: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationFit {
+  deskId: string | null; // null = the whole firm
+  samples: number;
+  badRate: number;
+  status: 'fitted' | 'insufficient_samples';
+  knots: CalibrationKnot[];
+  // Raw reads score / 100 as a probability; calibrated is the fitted mapping
+  brier?: { raw: number; calibrated: number };
+  reliability?: { raw: ReliabilityBin[]; calibrated: ReliabilityBin[] };
+}
+
+export interface CalibrationReport {
+  method: 'isotonic';
+  minSamples: number;
+  lookbackDays: number;
+  fittedAt: Date;
+  firm: CalibrationFit;
+  desks: CalibrationFit[];
+}
+
+interface TenantModels {
+  fittedAt: Date;
+  firm: CalibrationFit;
+  desks: Map<string, CalibrationFit>;
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * The labelled sample an assessment gives, or undefined when it was not a
+ * full assessment or the trade's result was never reported.
+ */
+export function toCalibrationSample(assessment: Assessment): CalibrationSample | undefined {
+  const ref = stampedEngineRef(assessment);
+  if (assessment.riskScore === null || !ref || scoringEngines.get(ref)?.surface !== 'full_assessment') return undefined;
+
+  const outcome = assessment.tradeOutcome as { executed?: boolean; pnl?: number; ruleBreach?: boolean } | null;
+  if (!outcome?.executed || (typeof outcome.pnl !== 'number' && typeof outcome.ruleBreach !== 'boolean')) return undefined;
+  return { score: assessment.riskScore, bad: (outcome.pnl ?? 0) < 0 || outcome.ruleBreach === true };
+}
+
+/** Isotonic regression (pool adjacent violators): bad-trade rate, never falling as the score rises. */
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationKnot[] {
+  const blocks: { scoreSum: number; count: number; bad: number }[] = [];
+  for (const sample of [...samples].sort((a, b) => a.score - b.score)) {
+    const last = blocks[blocks.length - 1];
+    if (last && last.scoreSum / last.count === sample.score) {
+      last.scoreSum += sample.score;
+      last.count++;
+      last.bad += sample.bad ? 1 : 0;
+    } else {
+      blocks.push({ scoreSum: sample.score, count: 1, bad: sample.bad ? 1 : 0 });
+    }
+    // Pool while the newest block's rate is below the one before it
+    while (blocks.length > 1) {
+      const top = blocks[blocks.length - 1];
+      const below = blocks[blocks.length - 2];
+      if (below.bad / below.count <= top.bad / top.count) break;
+      blocks.splice(-2, 2, { scoreSum: below.scoreSum + top.scoreSum, count: below.count + top.count, bad: below.bad + top.bad });
+    }
+  }
+  return blocks.map((block) => ({ score: block.scoreSum / block.count, probability: block.bad / block.count }));
+}
+
+/** The fitted probability at `score`, linear between knots and flat past the ends. */
+export function calibratedProbability(knots: CalibrationKnot[], score: number): number {
+  const upper = knots.findIndex((knot) => knot.score >= score);
+  if (upper === -1) return knots[knots.length - 1].probability;
+  if (upper === 0) return knots[0].probability;
+  const low = knots[upper - 1];
+  const high = knots[upper];
+  return low.probability + ((score - low.score) / (high.score - low.score)) * (high.probability - low.probability);
+}
+
+function brierScore(predictions: { predicted: number; bad: boolean }[]): number {
+  return round(predictions.reduce((total, { predicted, bad }) => total + (predicted - (bad ? 1 : 0)) ** 2, 0) / predictions.length);
+}
+
+function reliabilityBins(predictions: { predicted: number; bad: boolean }[]): ReliabilityBin[] {
+  const bins = Array.from({ length: RELIABILITY_BINS }, (_, i) => ({ from: i / RELIABILITY_BINS, to: (i + 1) / RELIABILITY_BINS, count: 0, predicted: 0, bad: 0 }));
+  for (const { predicted, bad } of predictions) {
+    const bin = bins[Math.min(RELIABILITY_BINS - 1, Math.floor(predicted * RELIABILITY_BINS))];
+    bin.count++;
+    bin.predicted += predicted;
+    bin.bad += bad ? 1 : 0;
+  }
+  return bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => ({ from: bin.from, to: bin.to, count: bin.count, meanPredicted: round(bin.predicted / bin.count), observedRate: round(bin.bad / bin.count) }));
+}
+
+/**
+ * Fits the score-to-probability mapping for one desk (or the firm). Below the
+ * minimum sample count nothing is fitted. Brier scores and reliability bins
+ * come from predictions made by folds that did not see the sample.
+ */
+export function fitCalibration(deskId: string | null, samples: CalibrationSample[]): CalibrationFit {
+  const bad = samples.filter((sample) => sample.bad).length;
+  const fit = { deskId, samples: samples.length, badRate: samples.length > 0 ? round(bad / samples.length) : 0 };
+  if (samples.length < MIN_CALIBRATION_SAMPLES) {
+    return { ...fit, status: 'insufficient_samples', knots: [] };
+  }
+
+  const foldKnots = Array.from({ length: FOLDS }, (_, fold) => fitIsotonic(samples.filter((_, i) => i % FOLDS !== fold)));
+  const outOfFold = samples.map((sample, i) => ({
+    predicted: calibratedProbability(foldKnots[i % FOLDS], sample.score),
+    bad: sample.bad,
+  }));
+  const raw = samples.map((sample) => ({ predicted: Math.min(1, Math.max(0, sample.score / 100)), bad: sample.bad }));
+
+  return {
+    ...fit,
+    status: 'fitted',
+    knots: fitIsotonic(samples).map((knot) => ({ score: round(knot.score), probability: round(knot.probability) })),
+    brier: { raw: brierScore(raw), calibrated: brierScore(outOfFold) },
+    reliability: { raw: reliabilityBins(raw), calibrated: reliabilityBins(outOfFold) },
+  };
+}
+
+/**
+ * Risk Calibration Service
+ * Gives the full-assessment score an empirical meaning: the share of trades
+ * taken at that score that lost money or broke a rule. Each desk with enough
+ * reported outcomes gets its own mapping; the rest use the firm's.
+ */
+export class RiskCalibrationService {
+  private models = new Map<string, TenantModels>();
+  private refits = new Map<string, Promise<unknown>>(); // per tenant, at most one at a time
+
+  /** Refits every desk and the firm from recent outcomes. */
+  async report(): Promise<CalibrationReport> {
+    const models = await this.fit();
+    return {
+      method: 'isotonic',
+      minSamples: MIN_CALIBRATION_SAMPLES,
+      lookbackDays: LOOKBACK_DAYS,
+      fittedAt: models.fittedAt,
+      firm: models.firm,
+      desks: Array.from(models.desks.values()),
+    };
+  }
+
+  /**
+   * The calibrated probability of a bad trade at `score` for this trader, from
+   * their desk's mapping or the firm's. Undefined until one has been fitted.
+   * A missing or stale fit is refreshed in the background; the assessment is
+   * never held up by it and uses the previous fit meanwhile.
+   */
+  async calibrate(userId: string, score: number): Promise<RiskCalibration | undefined> {
+    const tenantId = currentTenantId();
+    const models = this.models.get(tenantId);
+    if (!models || Date.now() - models.fittedAt.getTime() >= MODEL_TTL_MS) {
+      this.refitInBackground(tenantId);
+    }
+    if (!models) return undefined;
+
+    const deskId = (await storage.getUser(userId))?.deskId;
+    const deskFit = deskId ? models.desks.get(deskId) : undefined;
+    const fit = deskFit?.status === 'fitted' ? deskFit : models.firm;
+    if (fit.status !== 'fitted') return undefined;
+
+    return {
+      probability: round(calibratedProbability(fit.knots, score)),
+      scope: fit.deskId ? 'desk' : 'firm',
+      deskId: fit.deskId,
+      samples: fit.samples,
+      fittedAt: models.fittedAt.toISOString(),
+    };
+  }
+
+  private refitInBackground(tenantId: string): void {
+    if (this.refits.has(tenantId)) return;
+    const refit = this.fit()
+      .catch((error) => console.error('Risk calibration refit failed:', error))
+      .finally(() => this.refits.delete(tenantId));
+    this.refits.set(tenantId, refit);
+  }
+
+  private async fit(): Promise<TenantModels> {
+    const to = new Date();
+    const from = new Date(to.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const [assessments, users, desks] = await Promise.all([
+      storage.getAssessmentsInRange({ from, to }),
+      storage.getUsers(),
+      storage.getTradingDesks(),
+    ]);
+    const deskOf = new Map(users.map((user) => [user.id, user.deskId]));
+
+    const firm: CalibrationSample[] = [];
+    const byDesk = new Map<string, CalibrationSample[]>(desks.map((desk) => [desk.id, []]));
+    for (const assessment of assessments) {
+      const sample = toCalibrationSample(assessment);
+      if (!sample) continue;
+      firm.push(sample);
+      byDesk.get(deskOf.get(assessment.userId) ?? '')?.push(sample);
+    }
+
+    const models: TenantModels = {
+      fittedAt: to,
+      firm: fitCalibration(null, firm),
+      desks: new Map(Array.from(byDesk, ([deskId, samples]) => [deskId, fitCalibration(deskId, samples)])),
+    };
+    this.models.set(currentTenantId(), models);
+    return models;
+  }
+}
+
+export const riskCalibration = new RiskCalibrationService();
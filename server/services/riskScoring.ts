@@ -600,6 +600,13 @@ export class RiskScoringService {
       contextRisk += 8;
     }
 
+    // Giving back a session's gains is a risk even while still in profit
+    if (orderContext.drawdown && orderContext.drawdown > 2000) {
+      contextRisk += 10; // Deep drawdown from the session high
+    } else if (orderContext.drawdown && orderContext.drawdown > 1000) {
+      contextRisk += 5;
+    }
+
     // Time of day considerations (late trading hours)
     const hour = new Date(orderContext.timeOfDay).getHours();
     if (hour < 6 || hour > 22) {
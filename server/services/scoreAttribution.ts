@@ -0,0 +1,73 @@
+import type { ScoreContribution } from "@shared/tradePauseAI";
+
+/** Points one input adds to a score; a component's parts sum to its score. */
+export interface ScorePart {
+  feature: string;
+  label: string;
+  value: number | null;
+  points: number;
+}
+
+export interface AttributedScore {
+  score: number;
+  parts: ScorePart[];
+}
+
+type Term = Omit<ScorePart, 'points'> & { weight: number };
+
+const sum = (parts: { points: number }[]) => parts.reduce((total, part) => total + part.points, 0);
+
+/**
+ * Splits `points` over the inputs that produced them, by each input's share
+ * of the combined value a curve was applied to.
+ */
+export function splitByShare(points: number, terms: Term[]): ScorePart[] {
+  const total = terms.reduce((acc, term) => acc + term.weight, 0);
+  return terms.map(({ weight, ...term }) => ({ ...term, points: total === 0 ? 0 : (points * weight) / total }));
+}
+
+/**
+ * Reconciles parts with the score a component actually returned once floors
+ * and clamps applied. A floor's raise goes to the `drivers` that triggered it,
+ * in proportion to their points; a cap scales every positive part down.
+ */
+export function fitParts(parts: ScorePart[], score: number, drivers: string[]): AttributedScore {
+  const diff = score - sum(parts);
+  if (Math.abs(diff) < 1e-9) return { score, parts };
+
+  if (diff > 0) {
+    const driving = parts.filter((part) => drivers.includes(part.feature));
+    const drivingPoints = sum(driving);
+    return {
+      score,
+      parts: parts.map((part) => {
+        if (!drivers.includes(part.feature)) return part;
+        const share = drivingPoints > 0 ? part.points / drivingPoints : 1 / driving.length;
+        return { ...part, points: part.points + diff * share };
+      }),
+    };
+  }
+
+  const positive = sum(parts.filter((part) => part.points > 0));
+  return {
+    score,
+    parts: parts.map((part) => (part.points > 0 ? { ...part, points: part.points + (diff * part.points) / positive } : part)),
+  };
+}
+
+/**
+ * Rounds contributions to hundredths so they sum exactly to `score`: the
+ * rounding left over goes to the largest contribution. Zero contributions are
+ * dropped.
+ */
+export function settleContributions(parts: ScorePart[], score: number): ScoreContribution[] {
+  const hundredths = parts.map((part) => Math.round(part.points * 100));
+  const residual = Math.round(score * 100) - hundredths.reduce((total, points) => total + points, 0);
+  if (residual !== 0 && hundredths.length > 0) {
+    const largest = hundredths.reduce((best, points, i) => (Math.abs(points) > Math.abs(hundredths[best]) ? i : best), 0);
+    hundredths[largest] += residual;
+  }
+  return parts
+    .map((part, i) => ({ feature: part.feature, label: part.label, value: part.value, points: hundredths[i] / 100 }))
+    .filter((contribution) => contribution.points !== 0);
+}
@@ -0,0 +1,193 @@
+import type { FullAssessmentRequest, FullAssessmentResponse, OrderContext } from "@shared/tradePauseAI";
+import type { Assessment, Policy, UserBaseline } from "@shared/schema";
+import { engineRef, unappliedProfileParts, type EngineScoringProfile, type ScoringEngineInfo, type ScoringSurface } from "@shared/scoringEngines";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "@shared/scoringProfile";
+import type { AssessmentSignals } from "./tradePause";
+import { RiskScoringService } from "./riskScoring";
+import { newScoringEngine } from "./newScoringEngine";
+import { DEFAULT_WEIGHTS as DECISION_ENGINE_WEIGHTS, fullAssessmentDecisionEngine } from "./fullAssessmentDecision";
+import { aiDecisionLayer } from "./aiDecisionLayer";
+import type { TiltAssessment } from "./tiltDetector";
+import type { OvertradingCheck } from "./overtrading";
+import type { SizeAnomalyCheck } from "./sizeAnomaly";
+
+export class ScoringEngineError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ScoringEngineError';
+  }
+}
+
+export interface QuickCheckInput {
+  signals: AssessmentSignals;
+  orderContext?: OrderContext;
+  baseline?: UserBaseline;
+  policy?: Policy;
+  userId?: string; // enables pattern analysis against the trader's history
+}
+
+// The policy, not the engine, turns the score into a verdict
+export interface QuickCheckScore {
+  riskScore: number; // 0-100, before tilt, overtrading and size
+  confidence: number; // 0-1
+  reasonTags: string[];
+}
+
+export interface FullAssessmentInput {
+  request: FullAssessmentRequest;
+  baseline?: UserBaseline | null;
+  policy?: Policy | null;
+  tilt?: TiltAssessment | null;
+  overtrading?: OvertradingCheck | null;
+  sizeAnomaly?: SizeAnomalyCheck | null;
+}
+
+interface EngineDefinition {
+  id: string;
+  version: string;
+  description: string;
+  retired?: boolean;
+}
+
+export interface QuickCheckEngine extends EngineDefinition {
+  surface: 'quick_check';
+  score(input: QuickCheckInput): Promise<QuickCheckScore>;
+}
+
+export interface FullAssessmentEngine extends EngineDefinition {
+  surface: 'full_assessment';
+  profile: EngineScoringProfile;
+  score(input: FullAssessmentInput): FullAssessmentResponse;
+}
+
+export type ScoringEngine = QuickCheckEngine | FullAssessmentEngine;
+
+/** What to stamp on an assessment scored by `engine`. */
+export const engineStamp = (engine: ScoringEngine) => ({ engineId: engine.id, engineVersion: engine.version });
+
+/** The engine an assessment was scored with, or undefined when it predates engine stamps. */
+export function stampedEngineRef(assessment: Pick<Assessment, 'engineId' | 'engineVersion'>): string | undefined {
+  return assessment.engineId && assessment.engineVersion ? engineRef(assessment.engineId, assessment.engineVersion) : undefined;
+}
+
+/**
+ * Scoring Engine Registry
+ * Every scorer behind the gate, keyed by engine ID and version. Policies pick
+ * an engine per surface and each assessment records the engine that scored it,
+ * so a result can be reproduced and an engine retired once no policy is on it.
+ */
+export class ScoringEngineRegistry {
+  private engines = new Map<string, ScoringEngine>();
+
+  register(engine: ScoringEngine): void {
+    const ref = engineRef(engine.id, engine.version);
+    if (this.engines.has(ref)) {
+      throw new Error(`Scoring engine ${ref} is already registered`);
+    }
+    this.engines.set(ref, engine);
+  }
+
+  get(ref: string): ScoringEngine | undefined {
+    return this.engines.get(ref);
+  }
+
+  resolve(ref: string, surface: 'quick_check'): QuickCheckEngine;
+  resolve(ref: string, surface: 'full_assessment'): FullAssessmentEngine;
+  resolve(ref: string, surface: ScoringSurface): ScoringEngine {
+    const engine = this.engines.get(ref);
+    if (!engine) {
+      throw new ScoringEngineError(`Unknown scoring engine ${ref}`, 400);
+    }
+    if (engine.surface !== surface) {
+      throw new ScoringEngineError(`Scoring engine ${ref} does not score the ${surface.replace('_', ' ')}`, 400);
+    }
+    return engine;
+  }
+
+  /** Whether a policy may switch to `ref` for `surface`: registered, on that surface and not retired. */
+  isSelectable(ref: string, surface: ScoringSurface): boolean {
+    const engine = this.engines.get(ref);
+    return !!engine && engine.surface === surface && !engine.retired;
+  }
+
+  /** Rejects a scoring profile that edits parts the full-assessment engine `ref` does not apply. */
+  checkProfile(ref: string, scoringProfile: ScoringProfile | null): void {
+    const unapplied = unappliedProfileParts(this.resolve(ref, 'full_assessment').profile, scoringProfile);
+    if (unapplied.length > 0) {
+      throw new ScoringEngineError(`Scoring engine ${ref} does not apply scoring profile ${unapplied.join(' or ')}; leave them as built in`, 400);
+    }
+  }
+
+  list(): ScoringEngineInfo[] {
+    return Array.from(this.engines.entries(), ([ref, engine]) => ({
+      id: engine.id,
+      version: engine.version,
+      ref,
+      surface: engine.surface,
+      description: engine.description,
+      retired: engine.retired ?? false,
+      profile: engine.surface === 'full_assessment' ? engine.profile : undefined,
+    }));
+  }
+}
+
+const riskScoring = new RiskScoringService();
+
+export const scoringEngines = new ScoringEngineRegistry();
+
+scoringEngines.register({
+  id: 'risk-scoring',
+  version: '1.0',
+  surface: 'quick_check',
+  description: 'Weighted cognitive, behavioural, self-report, voice and facial risk with historical pattern analysis',
+  async score({ signals, orderContext, baseline, policy, userId }) {
+    const result = await riskScoring.calculateRiskScore(signals, baseline, orderContext, policy, userId);
+    const reasonTags: string[] = [];
+    if (result.reactionTimeElevated) reasonTags.push('Reaction time elevated');
+    if (result.accuracyLow) reasonTags.push('Accuracy below baseline');
+    if (signals.stressLevel && signals.stressLevel >= 7) reasonTags.push('Self-report high stress');
+    if (result.behavioralAnomalies) reasonTags.push('Behavioral anomalies detected');
+    if (result.voiceStressDetected) reasonTags.push('Voice stress indicators');
+    if (result.facialStressDetected) reasonTags.push('Facial stress indicators');
+    return { riskScore: result.riskScore, confidence: result.confidence, reasonTags };
+  },
+});
+
+scoringEngines.register({
+  id: 'ai-decision-layer',
+  version: '1.0',
+  surface: 'quick_check',
+  description: 'AI scoring of stress and cognitive signals with conservative blocking factors',
+  async score({ signals, orderContext, baseline, policy, userId }) {
+    const decision = await aiDecisionLayer.shouldAllowTrade(signals, orderContext, baseline, policy, userId);
+    return {
+      riskScore: decision.emotionalRiskScore,
+      confidence: decision.confidence / 100,
+      reasonTags: [...decision.blockingFactors, ...decision.primaryConcerns],
+    };
+  },
+});
+
+scoringEngines.register({
+  id: 'new-scoring-engine',
+  version: '2.5',
+  surface: 'full_assessment',
+  description: 'Non-linear component scores with cognitive override and dynamic confidence',
+  profile: { parts: ['weights', 'curves', 'cognitiveOverride'], builtIn: DEFAULT_SCORING_PROFILE },
+  score({ request, ...options }) {
+    return newScoringEngine.evaluate(request, options);
+  },
+});
+
+scoringEngines.register({
+  id: 'full-assessment-decision',
+  version: '1.0',
+  surface: 'full_assessment',
+  // Predates the behaviour checks: tilt, overtrading and size do not move its score
+  description: 'Per-component evaluation with availability-weighted composite',
+  // Its component evaluations are its own; only the weights are configurable
+  profile: { parts: ['weights'], builtIn: { ...DEFAULT_SCORING_PROFILE, weights: DECISION_ENGINE_WEIGHTS } },
+  score({ request, baseline, policy }) {
+    return fullAssessmentDecisionEngine.evaluate(request, { baseline, policy }).response;
+  },
+});
@@ -0,0 +1,103 @@
+import type { Policy } from "@shared/schema";
+import type { FullAssessmentRequest, FullAssessmentResponse } from "@shared/tradePauseAI";
+import type { ScoringProfile } from "@shared/scoringProfile";
+import { scoringEngines } from "./scoringEngines";
+
+type Request = Pick<FullAssessmentRequest, 'camera' | 'tests'>;
+
+export interface ScoringSample {
+  id: string;
+  label: string;
+  request: Request;
+}
+
+export interface PreviewScore {
+  emotionalRiskScore: number;
+  decision: FullAssessmentResponse['decision'];
+  components: { camera: number; impulse: number; focus: number; reaction: number };
+}
+
+export interface ScoringProfilePreview {
+  engine: string; // the policy's full-assessment engine, which scores both sides
+  samples: { id: string; label: string; current: PreviewScore; candidate: PreviewScore }[];
+}
+
+const camera = (stress: number, focus: number, tension = 0.2, headMovement = 0.1): Request['camera'] => ({
+  stressLevel: stress, agitation: stress * 0.8, focus, fatigue: 0.2, confidence: 0.9, signalQuality: 0.9,
+  durationMs: 10_000, samples: 200, stressScore: Math.round(stress * 100), isHighStress: stress >= 0.7,
+  raw: { blinkRate: 16, browTension: stress, gazeStability: focus, headMovement, microExpressionTension: tension },
+});
+
+const tests = (accuracy: number, attention: number, stability: number, slips: number): Request['tests'] => ({
+  impulseControl: {
+    totalTrials: 40, goAccuracy: Math.min(1, accuracy + 0.05), noGoAccuracy: Math.max(0, accuracy - 0.05),
+    avgReactionTimeMs: 420 + slips * 120, reactionStdDevMs: 60 + slips * 20,
+    impulsiveErrors: slips * 2, responseConsistency: stability, prematureResponses: slips,
+  },
+  focusStability: {
+    totalStimuli: 30, matchesPresented: 10, correctMatches: 10 - slips, missedMatches: slips, falseAlarms: slips,
+    avgReactionTimeMs: 520, reactionStdDevMs: 80, sustainedAttention: attention,
+  },
+  reactionConsistency: {
+    trials: 10, averageMs: 300, bestMs: 250, worstMs: 360 + slips * 40, variability: 1 - stability, stabilityScore: stability,
+    anticipations: slips, lateResponses: Math.floor(slips / 2),
+  },
+});
+
+const SAMPLE_ORDER: FullAssessmentRequest['orderContext'] = {
+  instrument: 'EUR/USD',
+  size: 100_000,
+  orderType: 'market',
+  side: 'buy',
+  timeOfDay: '2025-01-01T10:00:00.000Z',
+};
+
+// Fixed traders the preview scores, from calm to clearly impaired
+export const SCORING_SAMPLES: ScoringSample[] = [
+  { id: 'calm', label: 'Calm and sharp', request: { camera: camera(0.15, 0.9), tests: tests(0.95, 0.92, 0.9, 0) } },
+  { id: 'stressed', label: 'Stressed on camera, tests fine', request: { camera: camera(0.75, 0.5, 0.8, 0.7), tests: tests(0.9, 0.85, 0.85, 1) } },
+  { id: 'impulsive', label: 'Impulsive', request: { camera: camera(0.35, 0.75), tests: tests(0.62, 0.78, 0.65, 3) } },
+  { id: 'distracted', label: 'Distracted', request: { camera: camera(0.3, 0.6), tests: tests(0.85, 0.55, 0.7, 4) } },
+  { id: 'impaired', label: 'Clearly impaired', request: { camera: camera(0.6, 0.4, 0.75), tests: tests(0.45, 0.35, 0.3, 6) } },
+];
+
+const toPreview = (response: FullAssessmentResponse): PreviewScore => ({
+  emotionalRiskScore: response.emotionalRiskScore,
+  decision: response.decision,
+  components: {
+    camera: response.diagnostics.cameraScore,
+    impulse: response.diagnostics.impulseScore,
+    focus: response.diagnostics.focusScore,
+    reaction: response.diagnostics.reactionScore,
+  },
+});
+
+/**
+ * Scoring Profile Preview
+ * Scores the sample traders under a policy as it stands and with a candidate
+ * scoring profile, so an edit can be judged before it is saved.
+ */
+export class ScoringProfilePreviewService {
+
+  preview(policy: Policy, scoringProfile: ScoringProfile | null): ScoringProfilePreview {
+    const engine = scoringEngines.resolve(policy.fullAssessmentEngine, 'full_assessment');
+    const candidate = { ...policy, scoringProfile };
+    const score = (sample: ScoringSample, scoredPolicy: Policy) =>
+      toPreview(engine.score({
+        request: { userId: `sample-${sample.id}`, orderContext: SAMPLE_ORDER, ...sample.request },
+        policy: scoredPolicy,
+      }));
+
+    return {
+      engine: policy.fullAssessmentEngine,
+      samples: SCORING_SAMPLES.map((sample) => ({
+        id: sample.id,
+        label: sample.label,
+        current: score(sample, policy),
+        candidate: score(sample, candidate),
+      })),
+    };
+  }
+}
+
+export const scoringProfilePreview = new ScoringProfilePreviewService();
@@ -0,0 +1,115 @@
+import type { Assessment, Policy } from "@shared/schema";
+import type { FullAssessmentResponse } from "@shared/tradePauseAI";
+import { engineRef } from "@shared/scoringEngines";
+import { storage } from "../storage";
+import { scoringEngines, stampedEngineRef, type FullAssessmentInput } from "./scoringEngines";
+
+type Decision = FullAssessmentResponse['decision'];
+
+const DECISIONS: Decision[] = ['allow', 'cooldown', 'block'];
+const LARGEST_GAPS = 10;
+
+/** Shadow fields stored on the assessment next to the primary score. */
+export interface ShadowScore {
+  shadowEngineId: string;
+  shadowEngineVersion: string;
+  shadowRiskScore: number;
+  shadowDecision: Decision;
+}
+
+export interface ShadowGap {
+  assessmentId: string;
+  userId: string;
+  createdAt: Date | null;
+  primaryEngine: string | null; // null for assessments scored before engines were stamped
+  shadowEngine: string;
+  primaryScore: number;
+  shadowScore: number;
+  gap: number; // shadow minus primary
+  primaryDecision: Decision;
+  shadowDecision: Decision;
+}
+
+export interface ShadowReport {
+  compared: number;
+  agreementRate: number; // share of assessments where both engines reached the same decision
+  confusion: Record<Decision, Record<Decision, number>>; // primary decision -> shadow decision -> count
+  largestGaps: ShadowGap[];
+}
+
+const PRIMARY_DECISIONS: Record<string, Decision> = { go: 'allow', hold: 'cooldown', block: 'block' };
+
+/**
+ * Agreement between the primary and shadow engines over assessments that
+ * carry both scores. Assessments without a shadow score are left out.
+ */
+export function compareShadow(assessments: Assessment[]): ShadowReport {
+  const confusion = Object.fromEntries(
+    DECISIONS.map((primary) => [primary, Object.fromEntries(DECISIONS.map((shadow) => [shadow, 0]))])
+  ) as ShadowReport['confusion'];
+  const gaps: ShadowGap[] = [];
+
+  for (const assessment of assessments) {
+    const primaryDecision = PRIMARY_DECISIONS[assessment.verdict];
+    const { shadowDecision, shadowRiskScore, riskScore } = assessment;
+    if (!primaryDecision || !shadowDecision || shadowRiskScore === null || riskScore === null) continue;
+
+    confusion[primaryDecision][shadowDecision]++;
+    gaps.push({
+      assessmentId: assessment.id,
+      userId: assessment.userId,
+      createdAt: assessment.createdAt,
+      primaryEngine: stampedEngineRef(assessment) ?? null,
+      shadowEngine: engineRef(assessment.shadowEngineId ?? '', assessment.shadowEngineVersion ?? ''),
+      primaryScore: riskScore,
+      shadowScore: shadowRiskScore,
+      gap: shadowRiskScore - riskScore,
+      primaryDecision,
+      shadowDecision,
+    });
+  }
+
+  const agreed = DECISIONS.reduce((sum, decision) => sum + confusion[decision][decision], 0);
+  return {
+    compared: gaps.length,
+    agreementRate: gaps.length > 0 ? Number((agreed / gaps.length).toFixed(4)) : 0,
+    confusion,
+    largestGaps: gaps.sort((a, b) => Math.abs(b.gap) - Math.abs(a.gap)).slice(0, LARGEST_GAPS),
+  };
+}
+
+/**
+ * Shadow Scoring Service
+ * Runs a policy's candidate full-assessment engine on live traffic next to the
+ * primary one, so a desk can be moved to a new engine on evidence. The shadow
+ * result is stored for comparison only and never reaches the verdict.
+ */
+export class ShadowScoringService {
+
+  /**
+   * The shadow engine's score for `input`, or undefined when the policy runs no
+   * shadow. A failing shadow engine is logged and skipped, never thrown.
+   */
+  score(policy: Policy, input: FullAssessmentInput): ShadowScore | undefined {
+    if (!policy.shadowFullAssessmentEngine) return undefined;
+    try {
+      const engine = scoringEngines.resolve(policy.shadowFullAssessmentEngine, 'full_assessment');
+      const response = engine.score(input);
+      return {
+        shadowEngineId: engine.id,
+        shadowEngineVersion: engine.version,
+        shadowRiskScore: response.emotionalRiskScore,
+        shadowDecision: response.decision,
+      };
+    } catch (error) {
+      console.error(`Shadow engine ${policy.shadowFullAssessmentEngine} failed:`, error);
+      return undefined;
+    }
+  }
+
+  async report(scope: { from: Date; to: Date; userIds?: string[] }): Promise<ShadowReport> {
+    return compareShadow(await storage.getAssessmentsInRange(scope));
+  }
+}
+
+export const shadowScoring = new ShadowScoringService();
@@ -0,0 +1,102 @@
+import type { Assessment } from "@shared/schema";
+import type { OrderContext, SizeAnomaly } from "@shared/tradePauseAI";
+import { isAwaitingVerdict } from "@shared/assessmentLifecycle";
+import { storage } from "../storage";
+
+const RECENT_ASSESSMENTS = 200;
+
+// Earlier orders on the instrument before the trader's own distribution means anything
+const MIN_SAMPLES = 10;
+// An order is unusual when it is both far above the trader's mean and larger
+// than nearly all of their earlier orders on the instrument
+const UNUSUAL_Z = 3;
+const UNUSUAL_PERCENTILE = 95;
+// A trader who always sends the same size has no spread; a tenth of their mean
+// is the smallest spread an order is measured against
+const MIN_SPREAD_SHARE = 0.1;
+// Added to the risk score for each of size and leverage that is unusual
+const UNUSUAL_RISK = 10;
+
+export const UNUSUAL_SIZE_REASON_TAG = 'unusual_size';
+
+export type SizedOrder = Pick<OrderContext, 'instrument' | 'size' | 'leverage'>;
+
+export interface SizeAnomalyCheck {
+  anomaly: SizeAnomaly;
+  riskAdjustment: number;
+}
+
+function percentile(value: number, samples: number[]): number | null {
+  if (samples.length < MIN_SAMPLES) return null;
+  return Math.round((samples.filter((sample) => sample <= value).length / samples.length) * 100);
+}
+
+function zScore(value: number, samples: number[]): number | null {
+  if (samples.length < MIN_SAMPLES) return null;
+  const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+  const variance = samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / samples.length;
+  const spread = Math.max(Math.sqrt(variance), mean * MIN_SPREAD_SHARE);
+  if (spread <= 0) return null;
+  return Number(((value - mean) / spread).toFixed(2));
+}
+
+const isUnusual = (z: number | null, pct: number | null) =>
+  z !== null && pct !== null && z >= UNUSUAL_Z && pct >= UNUSUAL_PERCENTILE;
+
+/**
+ * Scores the current order's size and leverage by where they fall among the
+ * trader's earlier orders on the same instrument. Only orders above the
+ * trader's usual count; an unusually small order carries no extra risk.
+ */
+export function scoreSizeAnomaly(earlier: SizedOrder[], current: SizedOrder): SizeAnomalyCheck {
+  const sameInstrument = earlier.filter((order) => order.instrument === current.instrument);
+  const sizes = sameInstrument.map((order) => order.size);
+  const leverages = sameInstrument.flatMap((order) => (typeof order.leverage === 'number' ? [order.leverage] : []));
+  const hasLeverage = typeof current.leverage === 'number';
+
+  const sizePercentile = percentile(current.size, sizes);
+  const sizeZ = zScore(current.size, sizes);
+  const leveragePercentile = hasLeverage ? percentile(current.leverage!, leverages) : null;
+  const leverageZ = hasLeverage ? zScore(current.leverage!, leverages) : null;
+  const unusualSize = isUnusual(sizeZ, sizePercentile);
+  const unusualLeverage = isUnusual(leverageZ, leveragePercentile);
+
+  return {
+    anomaly: {
+      instrument: current.instrument,
+      samples: sizes.length,
+      sizePercentile,
+      sizeZ,
+      leveragePercentile,
+      leverageZ,
+      unusual: unusualSize || unusualLeverage,
+    },
+    riskAdjustment: (unusualSize ? UNUSUAL_RISK : 0) + (unusualLeverage ? UNUSUAL_RISK : 0),
+  };
+}
+
+/** The order an assessment was for, or undefined for one that never reached a verdict. */
+export function toSizedOrder(assessment: Assessment): SizedOrder | undefined {
+  if (isAwaitingVerdict(assessment.status) || assessment.status === 'expired') return undefined;
+  const order = (assessment.orderContext ?? {}) as Partial<OrderContext>;
+  if (!order.instrument || typeof order.size !== 'number') return undefined;
+  return { instrument: order.instrument, size: order.size, leverage: order.leverage };
+}
+
+/**
+ * Size Anomaly Service
+ * Judges order size and leverage against the trader's own history on the
+ * instrument rather than in absolute terms: the same order can be routine for
+ * one trader and reckless for another.
+ */
+export class SizeAnomalyService {
+
+  async check(userId: string, current: SizedOrder): Promise<SizeAnomalyCheck> {
+    const earlier = (await storage.getUserAssessments(userId, RECENT_ASSESSMENTS))
+      .map(toSizedOrder)
+      .filter((order): order is SizedOrder => !!order);
+    return scoreSizeAnomaly(earlier, current);
+  }
+}
+
+export const sizeAnomaly = new SizeAnomalyService();
@@ -0,0 +1,245 @@
+import type { Assessment } from "@shared/schema";
+import type { OrderContext } from "@shared/tradePauseAI";
+import { isAwaitingVerdict } from "@shared/assessmentLifecycle";
+import { storage } from "../storage";
+import { alertSystem } from "./alertSystem";
+
+// Orders older than this say nothing about the trader's state now
+const TILT_WINDOW_MS = 60 * 60 * 1000;
+const RECENT_ASSESSMENTS = 50;
+
+// Pattern thresholds
+const REENTRY_WINDOW_MS = 5 * 60 * 1000;
+const SIZE_ESCALATION_RATIO = 1.5;
+const SIDE_FLIPS = 2;
+const INTERVAL_ORDERS = 4; // three gaps, each shorter than the last
+
+// A tilt score adds up to this share of itself to the risk score
+const TILT_RISK_WEIGHT = 0.3;
+export const TILT_ALERT_SCORE = 60;
+const TILT_URGENT_SCORE = 80;
+const TILT_ALERT_COOLDOWN_MS = 15 * 60 * 1000;
+
+export type TiltPattern = 'rapid_reentry' | 'size_escalation' | 'side_flipping' | 'shrinking_intervals';
+
+const PATTERN_POINTS: Record<TiltPattern, number> = {
+  rapid_reentry: 30,
+  size_escalation: 30,
+  side_flipping: 20,
+  shrinking_intervals: 20,
+};
+
+/** An earlier order on the trader's timeline, with its PnL once the trade was reported. */
+export interface TiltOrder {
+  assessmentId: string;
+  at: Date;
+  instrument: string;
+  side: string;
+  size: number;
+  pnl?: number; // executed trades only
+  reportedAt?: Date; // when the PnL came in; outcomes stored without it count from `at`
+}
+
+export interface TiltEvidence {
+  pattern: TiltPattern;
+  points: number;
+  reasonTag: string;
+  detail: string;
+  assessmentIds: string[];
+}
+
+export interface TiltAssessment {
+  score: number; // 0-100
+  riskAdjustment: number; // added to the risk score
+  evidence: TiltEvidence[];
+}
+
+export interface TiltAlert {
+  userId: string;
+  assessmentId?: string;
+  alertId?: string; // alert history entry, when an alert policy applies to the trader
+  score: number;
+  patterns: TiltPattern[];
+}
+
+type CurrentOrder = Pick<OrderContext, 'instrument' | 'side' | 'size'>;
+
+const minutes = (ms: number) => Math.max(0, Math.round(ms / 60_000));
+
+// Re-entry counts from when the loss was reported, which can be long after the order
+function rapidReentry(newestFirst: TiltOrder[], now: Date): TiltEvidence | undefined {
+  const reported = (order: TiltOrder) => (order.reportedAt ?? order.at).getTime();
+  const [last] = newestFirst
+    .filter((order) => typeof order.pnl === 'number' && reported(order) <= now.getTime())
+    .sort((a, b) => reported(b) - reported(a));
+  if (!last || (last.pnl ?? 0) >= 0) return undefined;
+  const since = now.getTime() - reported(last);
+  if (since > REENTRY_WINDOW_MS) return undefined;
+
+  return {
+    pattern: 'rapid_reentry',
+    points: PATTERN_POINTS.rapid_reentry,
+    reasonTag: 'Rapid re-entry after a loss',
+    detail: `Back in ${minutes(since)} min after a ${last.pnl} loss on ${last.instrument}`,
+    assessmentIds: [last.assessmentId],
+  };
+}
+
+function sizeEscalation(trades: TiltOrder[], current: CurrentOrder): TiltEvidence | undefined {
+  const losses: TiltOrder[] = [];
+  for (const trade of trades) {
+    if ((trade.pnl ?? 0) >= 0) break;
+    losses.push(trade);
+  }
+  if (losses.length === 0 || losses[0].size <= 0) return undefined;
+
+  const ratio = current.size / losses[0].size;
+  if (ratio < SIZE_ESCALATION_RATIO) return undefined;
+
+  return {
+    pattern: 'size_escalation',
+    points: PATTERN_POINTS.size_escalation,
+    reasonTag: 'Size escalating after losses',
+    detail: `Order is ${ratio.toFixed(1)}x the size of the last losing trade, after ${losses.length} loss${losses.length === 1 ? '' : 'es'} in a row`,
+    assessmentIds: losses.map((trade) => trade.assessmentId),
+  };
+}
+
+function sideFlipping(orders: TiltOrder[], current: CurrentOrder): TiltEvidence | undefined {
+  const sameInstrument = orders.filter((order) => order.instrument === current.instrument);
+  let flips = 0;
+  let side: string = current.side;
+  const flipped: string[] = [];
+  for (const order of sameInstrument) {
+    if (order.side !== side) {
+      flips++;
+      flipped.push(order.assessmentId);
+    }
+    side = order.side;
+  }
+  if (flips < SIDE_FLIPS) return undefined;
+
+  return {
+    pattern: 'side_flipping',
+    points: PATTERN_POINTS.side_flipping,
+    reasonTag: 'Flipping sides on the same instrument',
+    detail: `${flips} changes of direction on ${current.instrument} within the hour`,
+    assessmentIds: flipped,
+  };
+}
+
+function shrinkingIntervals(orders: TiltOrder[], now: Date): TiltEvidence | undefined {
+  const times = [now, ...orders.map((order) => order.at)].slice(0, INTERVAL_ORDERS).map((at) => at.getTime());
+  if (times.length < INTERVAL_ORDERS) return undefined;
+
+  // Gaps newest first: each must be shorter than the one before it
+  const gaps = times.slice(1).map((time, i) => times[i] - time);
+  const shrinking = gaps.every((gap, i) => i === 0 || gaps[i - 1] < gap);
+  if (!shrinking || gaps[0] * 2 > gaps[gaps.length - 1]) return undefined;
+
+  return {
+    pattern: 'shrinking_intervals',
+    points: PATTERN_POINTS.shrinking_intervals,
+    reasonTag: 'Orders coming faster and faster',
+    detail: `Time between orders fell from ${minutes(gaps[gaps.length - 1])} min to ${minutes(gaps[0])} min`,
+    assessmentIds: orders.slice(0, INTERVAL_ORDERS - 1).map((order) => order.assessmentId),
+  };
+}
+
+/**
+ * Scores the current order against the trader's earlier orders in the window
+ * (newest first). Each pattern found adds its points and its evidence.
+ */
+export function detectTilt(newestFirst: TiltOrder[], current: CurrentOrder, now = new Date()): TiltAssessment {
+  const since = now.getTime() - TILT_WINDOW_MS;
+  const orders = newestFirst.filter((order) => order.at.getTime() >= since && order.at <= now);
+  const trades = orders.filter((order) => typeof order.pnl === 'number');
+
+  const evidence = [
+    rapidReentry(newestFirst, now),
+    sizeEscalation(trades, current),
+    sideFlipping(orders, current),
+    shrinkingIntervals(orders, now),
+  ].filter((found): found is TiltEvidence => !!found);
+
+  const score = Math.min(100, evidence.reduce((sum, found) => sum + found.points, 0));
+  return { score, riskAdjustment: Math.round(score * TILT_RISK_WEIGHT), evidence };
+}
+
+/** The order an assessment was for, or undefined for one that never reached a verdict. */
+export function toTiltOrder(assessment: Assessment): TiltOrder | undefined {
+  if (isAwaitingVerdict(assessment.status) || assessment.status === 'expired' || !assessment.createdAt) return undefined;
+  const order = (assessment.orderContext ?? {}) as Partial<OrderContext>;
+  if (!order.instrument || !order.side || typeof order.size !== 'number') return undefined;
+
+  const outcome = assessment.tradeOutcome as { executed?: boolean; pnl?: number; reportedAt?: string } | null;
+  return {
+    assessmentId: assessment.id,
+    at: new Date(assessment.createdAt),
+    instrument: order.instrument,
+    side: order.side,
+    size: order.size,
+    pnl: outcome?.executed && typeof outcome.pnl === 'number' ? outcome.pnl : undefined,
+    reportedAt: outcome?.reportedAt ? new Date(outcome.reportedAt) : undefined,
+  };
+}
+
+/**
+ * Tilt Detector Service
+ * Reads revenge trading and tilt from the trader's own order and outcome
+ * timeline: jumping back in after a loss, sizing up to win it back, flipping
+ * direction, and trading faster and faster. The score feeds both scoring
+ * engines, and a high one alerts supervisors whatever the verdict.
+ */
+export class TiltDetectorService {
+
+  async assess(userId: string, current: CurrentOrder, now = new Date()): Promise<TiltAssessment> {
+    const history = (await storage.getUserAssessments(userId, RECENT_ASSESSMENTS))
+      .map(toTiltOrder)
+      .filter((order): order is TiltOrder => !!order);
+    return detectTilt(history, current, now);
+  }
+
+  /**
+   * Raises a tilt alert when the score reaches the alert level, at most once per
+   * trader every 15 minutes: into alert history under the alert policy that
+   * applies to the trader, and the audit log. Returns the alert for the caller
+   * to broadcast.
+   */
+  async alertIfTilted(userId: string, tilt: TiltAssessment, assessmentId?: string, now = new Date()): Promise<TiltAlert | undefined> {
+    if (tilt.score < TILT_ALERT_SCORE) return undefined;
+
+    const since = new Date(now.getTime() - TILT_ALERT_COOLDOWN_MS);
+    const [recent] = await storage.getAuditLogs({ userId, action: 'tilt_alert_raised', since, limit: 1 });
+    if (recent) return undefined;
+
+    const user = await storage.getUser(userId);
+    const alertId = await alertSystem.raisePatternAlert(
+      {
+        userId,
+        userName: user?.username ?? userId,
+        userRole: user?.role ?? 'trader',
+        stressLevel: tilt.score / 10,
+        assessment: assessmentId ? await storage.getAssessment(assessmentId) : undefined,
+        metadata: { tilt: { score: tilt.score, evidence: tilt.evidence } },
+      },
+      await storage.getAlertPolicies(),
+      {
+        severity: tilt.score >= TILT_URGENT_SCORE ? 'urgent' : 'warning',
+        threshold: TILT_ALERT_SCORE,
+        message: `Trader on tilt (score ${tilt.score}): ${tilt.evidence.map((found) => found.reasonTag).join('; ')}`,
+      }
+    );
+
+    const alert: TiltAlert = { userId, assessmentId, alertId, score: tilt.score, patterns: tilt.evidence.map((found) => found.pattern) };
+    await storage.createAuditLog({
+      userId,
+      assessmentId,
+      action: 'tilt_alert_raised',
+      details: { score: tilt.score, evidence: tilt.evidence, alertId },
+    });
+    return alert;
+  }
+}
+
+export const tiltDetector = new TiltDetectorService();
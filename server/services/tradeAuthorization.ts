@@ -0,0 +1,172 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import type { Assessment } from "@shared/schema";
+import type { AuthorizedOrder, TradeAuthorizationGrant } from "@shared/tradePauseAI";
+import { storage } from "../storage";
+import { currentTenantId } from "../tenantContext";
+
+// Tokens look like `mdt1.<claims>.<signature>`, both parts base64url. The
+// signature is HMAC-SHA256 over `mdt1.<claims>` with the tenant's token key.
+export const TRADE_TOKEN_PREFIX = 'mdt1';
+
+const DEFAULT_TTL_SECONDS = 60;
+
+export class TradeAuthorizationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TradeAuthorizationError';
+  }
+}
+
+/** What a token asserts. Times are Unix seconds. */
+export interface TradeAuthorizationClaims {
+  id: string;
+  tenantId: string;
+  userId: string;
+  assessmentId: string;
+  order: AuthorizedOrder;
+  iat: number;
+  exp: number;
+}
+
+export interface VerifiedTradeAuthorization {
+  claims: TradeAuthorizationClaims;
+  consumedAt: Date | null;
+}
+
+function resolveTokenSecret(): string {
+  if (process.env.TRADE_TOKEN_SECRET) return process.env.TRADE_TOKEN_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TRADE_TOKEN_SECRET must be set in production');
+  }
+  console.warn('⚠️  TRADE_TOKEN_SECRET not set - using an ephemeral secret (issued trade tokens stop verifying on restart)');
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Per-tenant signing key, so an order system holding one firm's key can
+ * neither verify nor mint another firm's tokens. The key is the raw digest;
+ * the README's openssl recipe prints it hex-encoded.
+ */
+export function tradeTokenKeyFor(secret: string, tenantId: string): Buffer {
+  return createHmac('sha256', secret).update(`trade-authorization:${tenantId}`).digest();
+}
+
+const sign = (key: Buffer, signed: string) => createHmac('sha256', key).update(signed).digest();
+
+export function signTradeToken(claims: TradeAuthorizationClaims, key: Buffer): string {
+  const signed = `${TRADE_TOKEN_PREFIX}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${signed}.${sign(key, signed).toString('base64url')}`;
+}
+
+/**
+ * Checks a token's signature and expiry without touching storage; this is the
+ * check an order system runs offline. Does not tell whether the token was
+ * already used - only the verification endpoint knows that.
+ */
+export function verifyTradeToken(token: string, key: Buffer, now = new Date()): TradeAuthorizationClaims {
+  const [prefix, payload, signature, ...rest] = token.split('.');
+  if (prefix !== TRADE_TOKEN_PREFIX || !payload || !signature || rest.length > 0) {
+    throw new TradeAuthorizationError('Malformed trade authorization token', 401);
+  }
+
+  const expected = sign(key, `${prefix}.${payload}`);
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new TradeAuthorizationError('Invalid trade authorization token', 401);
+  }
+
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TradeAuthorizationClaims;
+  if (claims.exp * 1000 <= now.getTime()) {
+    throw new TradeAuthorizationError('Trade authorization has expired', 410);
+  }
+  return claims;
+}
+
+const sameOrder = (a: AuthorizedOrder, b: AuthorizedOrder) =>
+  a.instrument === b.instrument && a.side === b.side && a.size === b.size;
+
+/**
+ * Trade Authorization Service
+ * Issues short-lived signed tokens for allowed trades, bound to the trader,
+ * the assessment and the order, and redeems them for order systems. Each
+ * token can be consumed once.
+ */
+export class TradeAuthorizationService {
+  private readonly secret = resolveTokenSecret();
+  private readonly ttlSeconds = Number(process.env.TRADE_TOKEN_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+  async issue(assessment: Pick<Assessment, 'id' | 'userId'>, order: AuthorizedOrder, now = new Date()): Promise<TradeAuthorizationGrant> {
+    const tenantId = currentTenantId();
+    const iat = Math.floor(now.getTime() / 1000);
+    const claims: TradeAuthorizationClaims = {
+      id: randomUUID(),
+      tenantId,
+      userId: assessment.userId,
+      assessmentId: assessment.id,
+      order: { instrument: order.instrument, side: order.side, size: order.size },
+      iat,
+      exp: iat + this.ttlSeconds,
+    };
+    const expiresAt = new Date(claims.exp * 1000);
+
+    await storage.createTradeAuthorization({
+      id: claims.id,
+      userId: claims.userId,
+      assessmentId: claims.assessmentId,
+      ...claims.order,
+      expiresAt,
+    });
+    await storage.createAuditLog({
+      userId: claims.userId,
+      assessmentId: claims.assessmentId,
+      action: 'trade_authorization_issued',
+      details: { authorizationId: claims.id, order: claims.order, expiresAt: expiresAt.toISOString() },
+    });
+
+    return {
+      token: signTradeToken(claims, tradeTokenKeyFor(this.secret, tenantId)),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Verifies a token for the tenant in scope and, unless `consume` is false,
+   * marks it used. When `order` is given it must match the order the token was
+   * issued for.
+   */
+  async verify(
+    token: string,
+    options: { order?: AuthorizedOrder; consume?: boolean; now?: Date } = {}
+  ): Promise<VerifiedTradeAuthorization> {
+    const now = options.now ?? new Date();
+    // A token from another tenant fails here: it was signed with that tenant's key
+    const claims = verifyTradeToken(token, tradeTokenKeyFor(this.secret, currentTenantId()), now);
+
+    if (options.order && !sameOrder(options.order, claims.order)) {
+      throw new TradeAuthorizationError('Order does not match the authorized order', 422);
+    }
+
+    const stored = await storage.getTradeAuthorization(claims.id);
+    if (!stored) {
+      throw new TradeAuthorizationError('Invalid trade authorization token', 401);
+    }
+    if (options.consume === false) {
+      if (stored.consumedAt) throw new TradeAuthorizationError('Trade authorization has already been used', 409);
+      return { claims, consumedAt: null };
+    }
+
+    const consumed = await storage.consumeTradeAuthorization(claims.id, now);
+    if (!consumed) {
+      throw new TradeAuthorizationError('Trade authorization has already been used', 409);
+    }
+    await storage.createAuditLog({
+      userId: claims.userId,
+      assessmentId: claims.assessmentId,
+      action: 'trade_authorization_consumed',
+      details: { authorizationId: claims.id, order: claims.order },
+    });
+    return { claims, consumedAt: consumed.consumedAt };
+  }
+}
+
+export const tradeAuthorization = new TradeAuthorizationService();
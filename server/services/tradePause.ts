@@ -1,9 +1,17 @@
 import { storage } from "../storage";
-import { RiskScoringService } from "./riskScoring";
 import { PredictiveStressIndicatorsService } from "./predictiveStressIndicators";
 import { IntelligentInterventionsService } from "./intelligentInterventions";
-import type { OrderContext } from "@shared/tradePauseAI";
+import type { OrderContext, SizeAnomaly } from "@shared/tradePauseAI";
 import type { Assessment, InsertAssessment, Policy, UserBaseline } from "@shared/schema";
+import type { AssessmentStatus } from "@shared/assessmentLifecycle";
+import { assessmentLifecycle } from "./assessmentLifecycle";
+import { cooldownLadder } from "./cooldownLadder";
+import { tradingSessions } from "./tradingSessions";
+import { tiltDetector, type TiltAlert } from "./tiltDetector";
+import { overtrading, OVERTRADING_REASON_TAG } from "./overtrading";
+import { sizeAnomaly, UNUSUAL_SIZE_REASON_TAG } from "./sizeAnomaly";
+import { engineStamp, scoringEngines, stampedEngineRef } from "./scoringEngines";
+import { DEFAULT_QUICK_CHECK_ENGINE } from "@shared/scoringEngines";
 
 export interface AssessmentSignals {
   // Quick check signals
@@ -50,12 +58,16 @@ export interface AssessmentSignals {
 
 export interface AssessmentResult {
   assessmentId: string;
+  status: AssessmentStatus;
   riskScore: number; // 0-100
   verdict: 'go' | 'hold' | 'block';
   reasonTags: string[];
   confidence: number;
   recommendedAction: string;
   cooldownDuration?: number;
+  tiltScore?: number;
+  tiltAlert?: TiltAlert; // set when this order's tilt score alerted supervisors
+  sizeAnomaly?: SizeAnomaly;
   // Intelligent intervention recommendations
   interventionRecommendations?: {
     immediate: Array<{
@@ -84,13 +96,29 @@ export interface AssessmentResult {
   };
 }
 
+/** No verdict yet: the client should collect signals and send them for the assessment */
+export interface PendingAssessmentResult {
+  assessmentId: string;
+  status: AssessmentStatus;
+  pending: true;
+  verdict: 'pending';
+  reasonTags: string[];
+  confidence: number;
+  recommendedAction: string;
+}
+
+/** Quick-check verdict for a risk score under a policy; shared with the policy simulator */
+export function determineVerdict(riskScore: number, policy: Pick<Policy, 'riskThreshold'>): 'go' | 'hold' | 'block' {
+  if (riskScore >= 80) return 'block';
+  if (riskScore >= policy.riskThreshold) return 'hold';
+  return 'go';
+}
+
 export class TradePauseService {
-  private riskScoring: RiskScoringService;
   private predictiveStressIndicators: PredictiveStressIndicatorsService;
   private intelligentInterventions: IntelligentInterventionsService;
 
   constructor() {
-    this.riskScoring = new RiskScoringService();
     this.predictiveStressIndicators = new PredictiveStressIndicatorsService(storage);
     this.intelligentInterventions = new IntelligentInterventionsService(storage);
   }
@@ -100,7 +128,10 @@ export class TradePauseService {
     orderContext: OrderContext,
     signals: AssessmentSignals,
     fastMode = false
-  ): Promise<AssessmentResult> {
+  ): Promise<AssessmentResult | PendingAssessmentResult> {
+    // PnL and losses come from the session ledger, not from the client
+    orderContext = await tradingSessions.scoringContext(userId, orderContext);
+
     // If no meaningful signals were provided, avoid computing a final score
     // which can produce misleading demo values. Create a placeholder
     // assessment and return a pending response so the client can collect
@@ -116,39 +147,31 @@ export class TradePauseService {
 
     if (!hasSignals) {
       // Create lightweight placeholder assessment and return pending status
-      const policy = await storage.getDefaultPolicy();
-      const placeholder = await storage.createAssessment({
+      const { policy } = await storage.resolvePolicy(userId);
+      const placeholder = await assessmentLifecycle.open({
         userId,
         policyId: policy.id,
+        policyVersion: policy.version,
         orderContext,
         quickCheckDurationMs: 0,
-        stroopTestResults: null,
-        selfReportStress: null,
         behavioralMetrics: {},
-        voiceProsodyScore: null,
-        facialExpressionScore: null,
-        riskScore: null as any,
-        verdict: 'pending' as any,
+        riskScore: null,
+        verdict: 'pending',
         reasonTags: [],
-      } as any);
+      });
 
-      return {
-        assessmentId: placeholder.id,
-        // Mark as pending to ensure callers don't treat this as a final numeric score
-        pending: true as any,
-        verdict: 'pending' as any,
-        reasonTags: [],
-        confidence: 0,
-        recommendedAction: 'Assessment pending',
-        cooldownDuration: undefined,
-        interventionRecommendations: undefined,
-      } as any;
+      return this.pendingResult(placeholder, 0);
     }
     // Get user baseline and policy
-    const [baseline, policy] = await Promise.all([
+    // Tilt, order velocity and size are read from the orders before this one, so
+    // they are assessed before the assessment for this order is stored
+    const [baseline, { policy }, tilt, sizeCheck] = await Promise.all([
       storage.getUserBaseline(userId),
-      storage.getDefaultPolicy() // In production, this would be user/desk-specific
+      storage.resolvePolicy(userId),
+      tiltDetector.assess(userId, orderContext),
+      sizeAnomaly.check(userId, orderContext),
     ]);
+    const overtradingCheck = await overtrading.check(userId, policy);
 
     // Generate predictive stress analysis
     let stressPrediction = null;
@@ -208,10 +231,11 @@ export class TradePauseService {
       }
     }
 
-    // Create assessment record
-    const assessment = await storage.createAssessment({
+    // Create assessment record; it stays collecting until a verdict is rendered
+    let assessment = await assessmentLifecycle.open({
       userId,
       policyId: policy.id,
+      policyVersion: policy.version,
       orderContext,
       quickCheckDurationMs: this.calculateQuickCheckDuration(signals),
       stroopTestResults: signals.stroopTrials || null,
@@ -230,7 +254,7 @@ export class TradePauseService {
       riskScore: null,
       verdict: 'pending',
       reasonTags: [],
-    });
+    }, 'collecting');
 
     // Calculate risk score with intelligent pattern analysis
     // Enhance signals with predictive stress insights
@@ -245,49 +269,56 @@ export class TradePauseService {
       } : null
     };
 
-    const riskResult = await this.riskScoring.calculateRiskScore(
-      enhancedSignals,
+    // Score with the engine the policy selects for the quick check
+    const engine = scoringEngines.resolve(policy.quickCheckEngine, 'quick_check');
+    const riskResult = await engine.score({
+      signals: enhancedSignals,
       baseline,
       orderContext,
       policy,
-      userId  // Enable intelligent pattern recognition
-    );
+      userId, // Enable intelligent pattern recognition
+    });
 
     // If the scoring confidence is very low, treat this as a pending assessment
     // so we don't provide misleading numeric results based on weak/contextual data.
     if ((riskResult.confidence || 0) < 0.25) {
-      // mark assessment as pending and avoid returning a numeric score
-      await storage.updateAssessment(assessment.id, {
-        riskScore: null as any,
-        verdict: 'pending' as any,
-      });
-
-      return {
-        assessmentId: assessment.id,
-        // indicate pending; do NOT include a numeric riskScore so clients won't display a false score
-        pending: true as any,
-        verdict: 'pending' as any,
-        reasonTags: [],
-        confidence: riskResult.confidence,
-        recommendedAction: 'Assessment pending',
-        cooldownDuration: undefined,
-        interventionRecommendations: undefined,
-      } as any;
+      // Leave it collecting and do NOT return a numeric riskScore so clients won't display a false score
+      return this.pendingResult(assessment, riskResult.confidence);
     }
 
-    // Determine verdict based on risk score and policy
-    const verdict = this.determineVerdict(riskResult.riskScore, policy);
-    const reasonTags = this.generateReasonTags(riskResult, signals, baseline);
+    // Determine verdict based on risk score (raised by any tilt, overtrading or
+    // unusual size) and policy
+    const riskScore = Math.min(
+      100,
+      riskResult.riskScore + tilt.riskAdjustment + overtradingCheck.riskAdjustment + sizeCheck.riskAdjustment
+    );
+    const verdict = determineVerdict(riskScore, policy);
+    const reasonTags = [
+      ...riskResult.reasonTags,
+      ...tilt.evidence.map((found) => found.reasonTag),
+      ...(overtradingCheck.velocity.overtrading ? [OVERTRADING_REASON_TAG] : []),
+      ...(sizeCheck.anomaly.unusual ? [UNUSUAL_SIZE_REASON_TAG] : []),
+    ];
 
     // Update assessment with results
     // Only update with valid risk scores
-    if (typeof riskResult.riskScore === 'number' && !isNaN(riskResult.riskScore)) {
-      await storage.updateAssessment(assessment.id, {
-        riskScore: riskResult.riskScore,
+    if (typeof riskScore === 'number' && !isNaN(riskScore)) {
+      assessment = await assessmentLifecycle.transition(assessment, 'rendered', {
+        riskScore,
         verdict,
         reasonTags,
         confidence: riskResult.confidence || 0,
+        ...engineStamp(engine),
       });
+      // A hold sends the trader into the policy's cooldown, longer for each
+      // recent hold when the policy sets a cooldown ladder
+      if (verdict === 'hold') {
+        const rung = await cooldownLadder.rungFor(userId, policy, policy.cooldownDuration, { excludeId: assessment.id });
+        assessment = await assessmentLifecycle.transition(assessment, 'cooling_down', {
+          cooldownDurationMs: rung.seconds * 1000,
+          cooldownStep: rung.step,
+        });
+      }
     } else {
       console.error('Invalid risk score received:', riskResult);
       throw new Error('Invalid risk score calculated');
@@ -300,10 +331,14 @@ export class TradePauseService {
         assessmentId: assessment.id,
         action: 'assessment_completed',
         details: {
-          riskScore: riskResult.riskScore,
+          riskScore,
           verdict,
           reasonTags,
           orderContext,
+          engine: engineStamp(engine),
+          tilt: tilt.evidence.length > 0 ? tilt : undefined,
+          orderVelocity: overtradingCheck.velocity,
+          sizeAnomaly: sizeCheck.anomaly,
         },
       }),
       storage.createEvent({
@@ -312,11 +347,12 @@ export class TradePauseService {
         assessmentId: assessment.id,
         data: {
           verdict,
-          riskScore: riskResult.riskScore,
+          riskScore,
           reasonTags,
         },
       })
     ]);
+    const tiltAlert = await tiltDetector.alertIfTilted(userId, tilt, assessment.id);
 
     // Generate intelligent intervention recommendations
     let interventionRecommendations = undefined;
@@ -376,26 +412,34 @@ export class TradePauseService {
 
     return {
       assessmentId: assessment.id,
-      riskScore: riskResult.riskScore,
+      status: assessment.status,
+      riskScore,
       verdict,
       reasonTags,
       confidence: riskResult.confidence,
-      recommendedAction: this.getRecommendedAction(verdict, riskResult.riskScore),
-      cooldownDuration: verdict === 'hold' ? policy.cooldownDuration : undefined,
+      recommendedAction: this.getRecommendedAction(verdict, riskScore),
+      cooldownDuration: assessment.cooldownDurationMs ? Math.round(assessment.cooldownDurationMs / 1000) : undefined,
+      tiltScore: tilt.score,
+      tiltAlert,
+      sizeAnomaly: sizeCheck.anomaly,
       interventionRecommendations,
     };
   }
 
   async recordCooldownCompletion(
     assessmentId: string,
-    durationMs: number
+    durationMs: number,
+    userId: string
   ): Promise<void> {
-    await storage.updateAssessment(assessmentId, {
+    const assessment = await this.getOwnedAssessment(assessmentId, userId);
+
+    await assessmentLifecycle.transition(assessment, 'completed', {
       cooldownCompleted: true,
       cooldownDurationMs: durationMs,
     });
 
     await storage.createAuditLog({
+      userId,
       assessmentId,
       action: 'cooldown_completed',
       details: { durationMs },
@@ -406,8 +450,11 @@ export class TradePauseService {
     assessmentId: string,
     trigger: string,
     plan: string,
-    entry?: string
+    entry: string | undefined,
+    userId: string
   ): Promise<void> {
+    await this.getOwnedAssessment(assessmentId, userId);
+
     await storage.updateAssessment(assessmentId, {
       journalTrigger: trigger,
       journalPlan: plan,
@@ -415,6 +462,7 @@ export class TradePauseService {
     });
 
     await storage.createAuditLog({
+      userId,
       assessmentId,
       action: 'journal_entry_saved',
       details: { trigger, plan, entry },
@@ -497,7 +545,11 @@ export class TradePauseService {
     }
 
     // Update the assessment with new data
-    await storage.updateAssessment(assessmentId, updateData);
+    const existing = await storage.getAssessment(assessmentId);
+    if (!existing) {
+      throw new Error('Assessment not found');
+    }
+    await assessmentLifecycle.acceptSignals(existing, updateData);
 
     // CRITICAL: Recalculate risk score only if we have a valid assessment and
     // the update contains meaningful information (stressLevel or facial metrics)
@@ -515,18 +567,33 @@ export class TradePauseService {
         };
         
         const baseline = await storage.getUserBaseline(assessment.userId);
-        const policy = await storage.getPolicy(assessment.policyId);
+        // Rescore under the revision the assessment was opened with, not the latest edit
+        const policy = await storage.getPolicyAtVersion(assessment.policyId, assessment.policyVersion);
         
-        const riskResult = await this.riskScoring.calculateRiskScore(
-          signals,
-          baseline || undefined,
-          (assessment.orderContext as any) || undefined,
-          policy || undefined
+        // The ledger may have moved since the assessment was opened
+        const orderContext = assessment.orderContext
+          ? await tradingSessions.scoringContext(assessment.userId, assessment.orderContext as OrderContext)
+          : undefined;
+        // Rescore with the engine that scored it, so the result stays reproducible;
+        // assessments scored before engines were stamped, or by a full-assessment
+        // engine, fall back to the policy's quick-check engine
+        const stamped = stampedEngineRef(assessment);
+        const engine = scoringEngines.resolve(
+          stamped && scoringEngines.get(stamped)?.surface === 'quick_check'
+            ? stamped
+            : policy?.quickCheckEngine ?? DEFAULT_QUICK_CHECK_ENGINE,
+          'quick_check'
         );
+        const riskResult = await engine.score({
+          signals,
+          baseline: baseline || undefined,
+          orderContext,
+          policy: policy || undefined,
+        });
         
         // Validate risk score before updating
         if (typeof riskResult.riskScore === 'number' && isFinite(riskResult.riskScore)) {
-          await storage.updateAssessment(assessmentId, { riskScore: riskResult.riskScore });
+          await storage.updateAssessment(assessmentId, { riskScore: riskResult.riskScore, ...engineStamp(engine) });
           console.log('🔍 Recalculated risk score after update:', riskResult.riskScore);
         } else {
           console.error('Invalid risk score calculated:', riskResult.riskScore);
@@ -628,15 +695,20 @@ export class TradePauseService {
     };
   }
 
+  /**
+   * Applies an override. Policy rules (daily budget, co-sign) are enforced by
+   * the override governance service, which calls this once they pass;
+   * `approvedBy` names the supervisor who co-signed, if one had to.
+   */
   async recordOverride(
     assessmentId: string,
     reason: string,
-    userId: string
+    userId: string,
+    approvedBy?: string
   ): Promise<void> {
-    const assessment = await storage.getAssessment(assessmentId);
-    if (!assessment) throw new Error('Assessment not found');
+    const assessment = await this.getOwnedAssessment(assessmentId, userId);
 
-    await storage.updateAssessment(assessmentId, {
+    await assessmentLifecycle.transition(assessment, 'overridden', {
       overrideUsed: true,
       overrideReason: reason,
       supervisorNotified: true,
@@ -646,7 +718,7 @@ export class TradePauseService {
       userId,
       assessmentId,
       action: 'override_used',
-      details: { reason, originalVerdict: assessment.verdict },
+      details: { reason, originalVerdict: assessment.verdict, approvedBy },
     });
 
     await storage.createEvent({
@@ -657,6 +729,7 @@ export class TradePauseService {
         reason,
         originalVerdict: assessment.verdict,
         riskScore: assessment.riskScore,
+        approvedBy,
       },
     });
   }
@@ -669,12 +742,42 @@ export class TradePauseService {
       duration?: number;
       maxFavorableExcursion?: number;
       maxAdverseExcursion?: number;
-    }
+      ruleBreach?: boolean;
+    },
+    userId: string
   ): Promise<void> {
-    await storage.updateAssessment(assessmentId, {
-      tradeExecuted: outcome.executed,
-      tradeOutcome: outcome,
-    });
+    const assessment = await this.getOwnedAssessment(assessmentId, userId);
+    const recorded = { tradeExecuted: outcome.executed, tradeOutcome: { ...outcome, reportedAt: new Date().toISOString() } };
+
+    // Reporting the trade closes out a verdict that needed no cooldown; in any
+    // other status the outcome is stored without moving the assessment
+    if (assessment.status === 'rendered') {
+      await assessmentLifecycle.transition(assessment, 'completed', recorded);
+    } else {
+      await storage.updateAssessment(assessmentId, recorded);
+    }
+    await tradingSessions.recordTrade(userId, assessmentId, outcome);
+  }
+
+  private pendingResult(assessment: Assessment, confidence: number): PendingAssessmentResult {
+    return {
+      assessmentId: assessment.id,
+      status: assessment.status,
+      // Mark as pending to ensure callers don't treat this as a final numeric score
+      pending: true,
+      verdict: 'pending',
+      reasonTags: [],
+      confidence,
+      recommendedAction: 'Assessment pending',
+    };
+  }
+
+  // Assessments belonging to another trader are reported as missing so that
+  // callers cannot probe for other users' assessment ids.
+  private async getOwnedAssessment(assessmentId: string, userId: string): Promise<Assessment> {
+    const assessment = await storage.getAssessment(assessmentId);
+    if (!assessment || assessment.userId !== userId) throw new Error('Assessment not found');
+    return assessment;
   }
 
   private calculateQuickCheckDuration(signals: AssessmentSignals): number {
@@ -753,29 +856,6 @@ export class TradePauseService {
     return score;
   }
 
-  private determineVerdict(riskScore: number, policy: Policy): 'go' | 'hold' | 'block' {
-    if (riskScore >= 80) return 'block';
-    if (riskScore >= policy.riskThreshold) return 'hold';
-    return 'go';
-  }
-
-  private generateReasonTags(
-    riskResult: any,
-    signals: AssessmentSignals,
-    baseline?: UserBaseline
-  ): string[] {
-    const tags: string[] = [];
-    
-    if (riskResult.reactionTimeElevated) tags.push('Reaction time elevated');
-    if (riskResult.accuracyLow) tags.push('Accuracy below baseline');
-    if (signals.stressLevel && signals.stressLevel >= 7) tags.push('Self-report high stress');
-    if (riskResult.behavioralAnomalies) tags.push('Behavioral anomalies detected');
-    if (riskResult.voiceStressDetected) tags.push('Voice stress indicators');
-    if (riskResult.facialStressDetected) tags.push('Facial stress indicators');
-    
-    return tags;
-  }
-
   private getRecommendedAction(verdict: 'go' | 'hold' | 'block', riskScore: number): string {
     switch (verdict) {
       case 'go':
@@ -0,0 +1,119 @@
+import type { SessionTrade, TradingSession } from "@shared/schema";
+import type { OrderContext, SessionLossContext } from "@shared/tradePauseAI";
+import { storage } from "../storage";
+
+export class TradingSessionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TradingSessionError';
+  }
+}
+
+const NO_TRADES: SessionLossContext = { realizedPnl: 0, lossStreak: 0, drawdown: 0, trades: 0 };
+
+/**
+ * Walks the ledger oldest first: the running PnL, how many trades in a row
+ * have lost up to the latest one, and how far the running PnL sits below its
+ * high for the session (which starts at zero).
+ */
+export function lossContext(oldestFirst: Pick<SessionTrade, 'pnl'>[]): SessionLossContext {
+  let realizedPnl = 0;
+  let peak = 0;
+  let lossStreak = 0;
+
+  for (const trade of oldestFirst) {
+    realizedPnl += trade.pnl;
+    peak = Math.max(peak, realizedPnl);
+    lossStreak = trade.pnl < 0 ? lossStreak + 1 : 0;
+  }
+
+  return { realizedPnl, lossStreak, drawdown: peak - realizedPnl, trades: oldestFirst.length };
+}
+
+/**
+ * Trading Session Service
+ * Keeps each trader's session ledger from the trade outcomes they report, and
+ * gives scoring the PnL, loss streak and drawdown from it in place of the
+ * figures on the order.
+ */
+export class TradingSessionService {
+
+  async start(userId: string, now = new Date()): Promise<TradingSession> {
+    if (await storage.getOpenTradingSession(userId)) {
+      throw new TradingSessionError('A trading session is already open', 409);
+    }
+    return this.open(userId, now, 'trader');
+  }
+
+  async end(userId: string, now = new Date()): Promise<{ session: TradingSession; context: SessionLossContext }> {
+    const open = await storage.getOpenTradingSession(userId);
+    if (!open) {
+      throw new TradingSessionError('No trading session is open', 404);
+    }
+
+    const session = await storage.endTradingSession(open.id, now);
+    if (!session) {
+      throw new TradingSessionError('Trading session has already ended', 409);
+    }
+
+    const context = lossContext(await storage.getSessionTrades(session.id));
+    await storage.createAuditLog({
+      userId,
+      action: 'trading_session_ended',
+      details: { sessionId: session.id, ...context },
+    });
+    return { session, context };
+  }
+
+  async current(userId: string): Promise<{ session: TradingSession; trades: SessionTrade[]; context: SessionLossContext } | null> {
+    const session = await storage.getOpenTradingSession(userId);
+    if (!session) return null;
+
+    const trades = await storage.getSessionTrades(session.id);
+    return { session, trades, context: lossContext(trades) };
+  }
+
+  /**
+   * Books an executed trade with a PnL into the trader's open session. A trade
+   * reported with no session open starts one, so the ledger never misses it.
+   */
+  async recordTrade(userId: string, assessmentId: string, outcome: { executed: boolean; pnl?: number }, now = new Date()): Promise<void> {
+    if (!outcome.executed || typeof outcome.pnl !== 'number') return;
+
+    const session = (await storage.getOpenTradingSession(userId)) ?? await this.open(userId, now, 'trade_outcome');
+    await storage.addSessionTrade({ sessionId: session.id, userId, assessmentId, pnl: outcome.pnl, recordedAt: now });
+  }
+
+  async lossContextFor(userId: string): Promise<SessionLossContext> {
+    const session = await storage.getOpenTradingSession(userId);
+    if (!session) return NO_TRADES;
+    return lossContext(await storage.getSessionTrades(session.id));
+  }
+
+  /**
+   * The order as scoring should see it: PnL, recent losses and drawdown from
+   * the session ledger. Without an open session the trader has no losses on
+   * record, whatever the order claims.
+   */
+  async scoringContext(userId: string, orderContext: OrderContext): Promise<OrderContext> {
+    const context = await this.lossContextFor(userId);
+    return {
+      ...orderContext,
+      currentPnL: context.realizedPnl,
+      recentLosses: context.lossStreak,
+      drawdown: context.drawdown,
+    };
+  }
+
+  private async open(userId: string, now: Date, startedBy: 'trader' | 'trade_outcome'): Promise<TradingSession> {
+    const session = await storage.createTradingSession({ userId, startedAt: now });
+    await storage.createAuditLog({
+      userId,
+      action: 'trading_session_started',
+      details: { sessionId: session.id, startedBy },
+    });
+    return session;
+  }
+}
+
+export const tradingSessions = new TradingSessionService();
@@ -0,0 +1,100 @@
+import type { Assessment } from "@shared/schema";
+import type { OrderContext } from "@shared/tradePauseAI";
+import { isAwaitingVerdict, type AssessmentStatus } from "@shared/assessmentLifecycle";
+import { storage } from "../storage";
+
+// An allow still stands once rendered, and after the trader reported the trade it covered
+const STANDING_STATUSES: readonly AssessmentStatus[] = ['rendered', 'completed'];
+
+// How far back to look for the trader's latest verdict
+const RECENT_ASSESSMENTS = 20;
+
+export type VerdictReuseDecision =
+  | { covered: true; assessment: Assessment; ordersRemaining: number; validUntil: Date }
+  | { covered: false; reason: string };
+
+const notCovered = (reason: string): VerdictReuseDecision => ({ covered: false, reason });
+
+/**
+ * Verdict Reuse Service
+ * Lets one allow cover a trader's next few orders when their policy sets a
+ * reuse window, so scaling into a position does not mean a full assessment
+ * per order. Only the trader's latest verdict counts: a hold or block after
+ * the allow ends reuse.
+ */
+export class VerdictReuseService {
+
+  /** Finds the allow covering `order` without counting the order against it. */
+  async findCover(userId: string, order: OrderContext, now = new Date()): Promise<VerdictReuseDecision> {
+    const { policy } = await storage.resolvePolicy(userId);
+    if (policy.verdictReuseMinutes <= 0 || policy.verdictReuseOrders <= 0) {
+      return notCovered('Verdict reuse is off under this policy');
+    }
+
+    if ((await storage.getActiveCooldown(userId)).isInCooldown) {
+      return notCovered('A cooldown is active');
+    }
+
+    const latest = (await storage.getUserAssessments(userId, RECENT_ASSESSMENTS))
+      .find((assessment) => !isAwaitingVerdict(assessment.status) && assessment.status !== 'expired');
+    if (!latest || latest.verdict !== 'go' || latest.overrideUsed || !STANDING_STATUSES.includes(latest.status)) {
+      return notCovered('The latest assessment did not allow trading');
+    }
+
+    const validUntil = new Date((latest.createdAt ? new Date(latest.createdAt).getTime() : 0) + policy.verdictReuseMinutes * 60_000);
+    if (now >= validUntil) {
+      return notCovered('The latest allow is older than the reuse window');
+    }
+    if (latest.reuseCount >= policy.verdictReuseOrders) {
+      return notCovered('The latest allow has covered as many orders as the policy permits');
+    }
+
+    const assessed = latest.orderContext as Partial<OrderContext>;
+    if (assessed.instrument !== order.instrument || assessed.side !== order.side) {
+      return notCovered('The order is not in the assessed instrument and direction');
+    }
+    const headroom = 1 + policy.verdictReuseMarginPct / 100;
+    if (order.size > (assessed.size ?? 0) * headroom) {
+      return notCovered('The order is larger than the assessed size allows');
+    }
+    if ((order.leverage ?? 1) > (assessed.leverage ?? 1) * headroom) {
+      return notCovered('The order uses more leverage than the assessed order allows');
+    }
+
+    return {
+      covered: true,
+      assessment: latest,
+      ordersRemaining: policy.verdictReuseOrders - latest.reuseCount,
+      validUntil,
+    };
+  }
+
+  /** Covers `order` with the latest allow if the policy permits, counting it against that allow. */
+  async reuse(userId: string, order: OrderContext, now = new Date()): Promise<VerdictReuseDecision> {
+    const decision = await this.findCover(userId, order, now);
+    if (!decision.covered) return decision;
+
+    const { policy } = await storage.resolvePolicy(userId);
+    // Conditional increment: two orders racing for the last slot cannot both take it
+    const claimed = await storage.claimAssessmentReuse(decision.assessment.id, policy.verdictReuseOrders);
+    if (!claimed) {
+      return notCovered('The latest allow has covered as many orders as the policy permits');
+    }
+
+    await storage.createAuditLog({
+      userId,
+      assessmentId: claimed.id,
+      action: 'verdict_reused',
+      details: { orderContext: order, reuseCount: claimed.reuseCount, policyId: policy.id, policyVersion: policy.version },
+    });
+
+    return {
+      covered: true,
+      assessment: claimed,
+      ordersRemaining: policy.verdictReuseOrders - claimed.reuseCount,
+      validUntil: decision.validUntil,
+    };
+  }
+}
+
+export const verdictReuse = new VerdictReuseService();
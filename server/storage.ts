@@ -1,7 +1,11 @@
-import { and, avg, asc, count, desc, eq, gte, sql } from 'drizzle-orm';
+import { and, avg, asc, count, desc, eq, gte, inArray, isNotNull, isNull, lt, lte, sql } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
 import {
+  tenants,
   users,
   policies,
+  policyRevisions,
+  policyChangeRequests,
   assessments,
   userBaselines,
   auditLogs,
@@ -10,10 +14,21 @@ import {
   alertPolicies,
   alertChannels,
   alertHistory,
+  tradeAuthorizations,
+  idempotencyKeys,
+  overrideRequests,
+  tradingSessions,
+  sessionTrades,
+  type Tenant,
+  type InsertTenant,
   type User,
   type InsertUser,
   type Policy,
   type InsertPolicy,
+  type PolicyRevision,
+  type PolicyChangeRequest,
+  type InsertPolicyChangeRequest,
+  type PolicySettings,
   type Assessment,
   type InsertAssessment,
   type UserBaseline,
@@ -23,35 +38,119 @@ import {
   type RealTimeEvent,
   type InsertRealTimeEvent,
   type TradingDesk,
+  type InsertTradingDesk,
   type AlertPolicy,
   type InsertAlertPolicy,
   type AlertChannel,
   type InsertAlertChannel,
   type AlertHistory,
   type InsertAlertHistory,
+  type TradeAuthorization,
+  type InsertTradeAuthorization,
+  type IdempotencyKey,
+  type InsertIdempotencyKey,
+  type OverrideRequest,
+  type InsertOverrideRequest,
+  type TradingSession,
+  type InsertTradingSession,
+  type SessionTrade,
+  type InsertSessionTrade,
 } from "@shared/schema";
+import type { AssessmentStatus } from "@shared/assessmentLifecycle";
+import { pickPolicySettings } from "@shared/policyRevisions";
 import { db } from "./db";
+import { currentTenantId, getCurrentTenant, runWithTenant } from "./tenantContext";
+import { MemoryStorage } from "./memoryStorage";
+import {
+  DEFAULT_TENANT_ID,
+  alertAnalyticsSince,
+  assessmentStatsSince,
+  defaultPolicyFor,
+  defaultTenant,
+  findActiveCooldown,
+  policyAtVersion,
+  resolvePolicyFor,
+  rollbackPolicyTo,
+  summarizeAlerts,
+} from "./storageShared";
+
+// Every read, update and delete below is confined to the tenant of the current
+// request, and every insert is stamped with it. Outside a tenant scope
+// currentTenantId() throws, so storage fails closed.
+const inTenant = (column: AnyPgColumn) => eq(column, currentTenantId());
+
+export { DEFAULT_TENANT_ID };
+
+// Where a trader's effective policy came from, most specific first
+export type PolicySource = 'user' | 'desk' | 'tenant';
+
+export interface ResolvedPolicy {
+  policy: Policy;
+  source: PolicySource;
+}
+
+// Who changed a policy and why; recorded on the revision the change creates
+export interface PolicyChange {
+  authorId: string | null;
+  reason: string;
+  restoredVersion?: number;
+  baseVersion?: number; // the version the change was made against; the update fails if the policy has moved on
+}
 
 export interface IStorage {
+  // Tenant operations (not tenant-scoped: used to resolve the tenant itself)
+  // Writes the default tenant and its default policy if they are missing; run at startup
+  seedDefaults(): Promise<void>;
+  createTenant(tenant: InsertTenant): Promise<Tenant>;
+  getTenantByApiKey(apiKey: string): Promise<Tenant | undefined>;
+  getDefaultTenant(): Promise<Tenant>;
+  getTenants(): Promise<Tenant[]>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<Pick<InsertUser, 'deskId' | 'policyId'>>): Promise<User | undefined>;
+  getSupervisedUserIds(supervisorId: string): Promise<string[]>;
   
   // Policy operations
   getPolicy(id: string): Promise<Policy | undefined>;
+  getPolicies(): Promise<Policy[]>;
   getDefaultPolicy(): Promise<Policy>;
-  createPolicy(policy: InsertPolicy): Promise<Policy>;
-  updatePolicy(id: string, policy: Partial<InsertPolicy>): Promise<Policy>;
+  resolvePolicy(userId: string): Promise<ResolvedPolicy>;
+  createPolicy(policy: InsertPolicy, change: PolicyChange): Promise<Policy>;
+  updatePolicy(id: string, policy: Partial<InsertPolicy>, change: PolicyChange): Promise<Policy | undefined>;
+  getPolicyRevisions(policyId: string): Promise<PolicyRevision[]>;
+  getPolicyRevision(policyId: string, version: number): Promise<PolicyRevision | undefined>;
+  getPolicyAtVersion(policyId: string, version: number | null): Promise<Policy | undefined>;
+  rollbackPolicy(policyId: string, version: number, change: PolicyChange): Promise<Policy | undefined>;
+  isPolicyInUse(policyId: string): Promise<boolean>;
+  
+  // Policy change request (four-eyes approval) operations
+  createPolicyChangeRequest(request: InsertPolicyChangeRequest): Promise<PolicyChangeRequest>;
+  getPolicyChangeRequest(id: string): Promise<PolicyChangeRequest | undefined>;
+  getPolicyChangeRequests(filters: { policyId?: string; status?: string }): Promise<PolicyChangeRequest[]>;
+  reviewPolicyChangeRequest(
+    id: string,
+    review: Pick<PolicyChangeRequest, 'status'> & Partial<Pick<PolicyChangeRequest, 'reviewedBy' | 'reviewNote' | 'appliedVersion'>>,
+    from?: string
+  ): Promise<PolicyChangeRequest | undefined>;
   
   // Assessment operations
   createAssessment(assessment: InsertAssessment): Promise<Assessment>;
   getAssessment(id: string): Promise<Assessment | undefined>;
   updateAssessment(id: string, updates: Partial<Assessment>): Promise<Assessment>;
+  // Applies `updates` only while the assessment is still in status `from`; undefined once it has moved on
+  transitionAssessment(id: string, from: AssessmentStatus, updates: Partial<Assessment>): Promise<Assessment | undefined>;
+  // Counts one more order against an allow; undefined once it has covered maxOrders
+  claimAssessmentReuse(id: string, maxOrders: number): Promise<Assessment | undefined>;
   getUserAssessments(userId: string, limit?: number): Promise<Assessment[]>;
+  getAssessmentsInRange(filters: { from: Date; to: Date; userIds?: string[]; redacted?: boolean }): Promise<Assessment[]>;
   getActiveCooldown(userId: string): Promise<{ 
     isInCooldown: boolean; 
     remainingMs: number; 
+    step: number; // cooldown ladder rung of the held assessment
     assessment?: Assessment 
   }>;
   getAssessmentStats(timeframe?: 'day' | 'week' | 'month'): Promise<{
@@ -70,8 +169,10 @@ export interface IStorage {
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogs(filters: {
     userId?: string;
+    userIds?: string[];
     assessmentId?: string;
     action?: string;
+    since?: Date;
     limit?: number;
   }): Promise<AuditLog[]>;
   
@@ -82,7 +183,22 @@ export interface IStorage {
   
   // Analytics
   getRecentEvents(limit?: number): Promise<RealTimeEvent[]>;
+  
+  // Retention operations (unbounded reads: used by the retention job only)
+  getEventsBefore(before: Date): Promise<RealTimeEvent[]>;
+  deleteEvents(ids: string[]): Promise<void>;
+  getAlertHistoryBefore(before: Date): Promise<AlertHistory[]>;
+  deleteAlertHistory(ids: string[]): Promise<void>;
+  getAuditLogsForAssessments(assessmentIds: string[]): Promise<AuditLog[]>;
+  redactAuditLog(id: string, details: Record<string, unknown>): Promise<void>;
+  deleteAuditLogs(ids: string[]): Promise<void>;
+  
+  // Trading desk operations
   getTradingDesks(): Promise<TradingDesk[]>;
+  getTradingDesk(id: string): Promise<TradingDesk | undefined>;
+  createTradingDesk(desk: InsertTradingDesk): Promise<TradingDesk>;
+  updateTradingDesk(id: string, desk: Partial<InsertTradingDesk>): Promise<TradingDesk>;
+  deleteTradingDesk(id: string): Promise<void>;
   
   // Alert Policy operations
   getAlertPolicies(): Promise<AlertPolicy[]>;
@@ -99,14 +215,17 @@ export interface IStorage {
   
   // Alert History operations
   createAlertHistory(alert: InsertAlertHistory): Promise<AlertHistory>;
+  updateAlertHistory(id: string, updates: Partial<InsertAlertHistory>): Promise<AlertHistory>;
   getAlertHistory(filters: {
     policyId?: string;
     userId?: string;
+    userIds?: string[];
     severity?: string;
     resolved?: boolean;
     limit?: number;
     offset?: number;
   }): Promise<{ alerts: AlertHistory[]; total: number }>;
+  getAlert(id: string): Promise<AlertHistory | undefined>;
   getActiveAlerts(): Promise<AlertHistory[]>;
   resolveAlert(id: string, resolvedBy: string, resolutionNote?: string): Promise<AlertHistory>;
   getAlertAnalytics(timeframe?: string): Promise<{
@@ -119,6 +238,42 @@ export interface IStorage {
     topTriggers: Array<{ trigger: string; count: number }>;
     channelEffectiveness: Record<string, { delivered: number; success_rate: number }>;
   }>;
+
+  // Trade authorization operations
+  createTradeAuthorization(authorization: InsertTradeAuthorization): Promise<TradeAuthorization>;
+  getTradeAuthorization(id: string): Promise<TradeAuthorization | undefined>;
+  // Marks the authorization consumed unless it already was; undefined if it was
+  consumeTradeAuthorization(id: string, consumedAt: Date): Promise<TradeAuthorization | undefined>;
+
+  // Idempotency key operations
+  // Claims the key for its user; undefined if the user already holds that key
+  reserveIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyKey | undefined>;
+  getIdempotencyKey(userId: string, key: string): Promise<IdempotencyKey | undefined>;
+  completeIdempotencyKey(id: string, response: Pick<IdempotencyKey, 'statusCode' | 'responseBody'>): Promise<void>;
+  deleteIdempotencyKey(id: string): Promise<void>;
+  deleteIdempotencyKeysBefore(before: Date): Promise<void>;
+
+  // Override co-sign request operations
+  createOverrideRequest(request: InsertOverrideRequest): Promise<OverrideRequest>;
+  getOverrideRequest(id: string): Promise<OverrideRequest | undefined>;
+  getOverrideRequests(filters: { status?: string; userIds?: string[]; assessmentId?: string }): Promise<OverrideRequest[]>;
+  // Settles a request still in `from` (pending unless given); undefined if it had moved on
+  reviewOverrideRequest(
+    id: string,
+    review: Pick<OverrideRequest, 'status'> & Partial<Pick<OverrideRequest, 'reviewedBy' | 'reviewNote'>>,
+    from?: string
+  ): Promise<OverrideRequest | undefined>;
+
+  // Trading session operations
+  createTradingSession(session: InsertTradingSession): Promise<TradingSession>;
+  getOpenTradingSession(userId: string): Promise<TradingSession | undefined>;
+  getTradingSessions(userId: string, limit?: number): Promise<TradingSession[]>;
+  // Closes an open session; undefined if it had already ended
+  endTradingSession(id: string, endedAt: Date): Promise<TradingSession | undefined>;
+  // Books the trade and adds its PnL to the session; undefined if the assessment is already booked
+  addSessionTrade(trade: InsertSessionTrade): Promise<SessionTrade | undefined>;
+  // Oldest first, in the order the trades were booked
+  getSessionTrades(sessionId: string): Promise<SessionTrade[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -129,71 +284,254 @@ export class DatabaseStorage implements IStorage {
   };
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+  // Rows other tables reference by foreign key but that no request ever writes.
+  // Migration 0001 inserts the same rows; a schema applied with db:push has neither.
+  async seedDefaults(): Promise<void> {
+    const tenant = defaultTenant();
+    await db.insert(tenants).values(tenant).onConflictDoNothing();
+    const policy = await runWithTenant(tenant, () => defaultPolicyFor(this));
+    await db.insert(policies).values(policy).onConflictDoNothing();
+  }
+
+  async createTenant(tenant: InsertTenant): Promise<Tenant> {
+    const [created] = await db.insert(tenants).values(tenant).returning();
+    return created;
+  }
+
+  async getTenantByApiKey(apiKey: string): Promise<Tenant | undefined> {
+    const [tenant] = await db.select().from(tenants).where(eq(tenants.apiKey, apiKey));
+    return tenant;
+  }
+
+  async getDefaultTenant(): Promise<Tenant> {
+    return defaultTenant();
+  }
+
+  async getTenants(): Promise<Tenant[]> {
+    return db.select().from(tenants).orderBy(asc(tenants.createdAt));
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await db.select().from(users).where(and(eq(users.id, id), inTenant(users.tenantId)));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.username, username), inTenant(users.tenantId)));
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).where(inTenant(users.tenantId)).orderBy(asc(users.username));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const [user] = await db.insert(users).values({ ...insertUser, tenantId: currentTenantId() }).returning();
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<Pick<InsertUser, 'deskId' | 'policyId'>>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(users.id, id), inTenant(users.tenantId)))
+      .returning();
+    return user;
+  }
+
+  async getSupervisedUserIds(supervisorId: string): Promise<string[]> {
+    const desks: Array<{ id: string }> = await db
+      .select({ id: tradingDesks.id })
+      .from(tradingDesks)
+      .where(and(eq(tradingDesks.supervisorId, supervisorId), inTenant(tradingDesks.tenantId)));
+    if (desks.length === 0) return [];
+
+    const members: Array<{ id: string }> = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(inArray(users.deskId, desks.map((desk) => desk.id)), inTenant(users.tenantId)));
+    return members.map((member) => member.id);
+  }
+
   async getPolicy(id: string): Promise<Policy | undefined> {
-    const [policy] = await db.select().from(policies).where(eq(policies.id, id));
+    const [policy] = await db.select().from(policies).where(and(eq(policies.id, id), inTenant(policies.tenantId)));
     return policy;
   }
 
+  async getPolicies(): Promise<Policy[]> {
+    return db.select().from(policies).where(inTenant(policies.tenantId)).orderBy(asc(policies.name));
+  }
+
+  async resolvePolicy(userId: string): Promise<ResolvedPolicy> {
+    return resolvePolicyFor(this, userId);
+  }
+
   async getDefaultPolicy(): Promise<Policy> {
-    // Use static default policy to avoid database query entirely
-    return {
-      id: '3a22961e-4d52-4251-aa73-2dd0d5169812',
-      name: 'Default Standard Policy',
-      strictnessLevel: 'standard' as const,
-      riskThreshold: 65,
-      cooldownDuration: 30,
-      enabledModes: {
-        cognitiveTest: true,
-        behavioralBiometrics: true,
-        selfReport: true,
-        voiceProsody: false,
-        facialExpression: false
-      },
-      overrideAllowed: true,
-      supervisorNotification: true,
-      dataRetentionDays: 30,
-      version: 1,
-      createdAt: new Date('2025-09-26T00:00:00Z'),
-      updatedAt: new Date('2025-09-26T00:00:00Z')
-    };
+    return defaultPolicyFor(this);
   }
 
-  async createPolicy(policy: InsertPolicy): Promise<Policy> {
-    const [newPolicy] = await db.insert(policies).values(policy).returning();
+  async createPolicy(policy: InsertPolicy, change: PolicyChange): Promise<Policy> {
+    const [newPolicy] = await db
+      .insert(policies)
+      .values({ ...policy, version: 1, tenantId: currentTenantId() })
+      .returning();
+    await this.createPolicyRevision(newPolicy, change);
     return newPolicy;
   }
 
-  async updatePolicy(id: string, policy: Partial<InsertPolicy>): Promise<Policy> {
+  // Policy rows are never edited without a matching revision: each update bumps
+  // the version and records the resulting settings, so any past version can be
+  // reconstructed exactly.
+  async updatePolicy(id: string, policy: Partial<InsertPolicy>, change: PolicyChange): Promise<Policy | undefined> {
+    const current = await this.getPolicy(id);
+    if (!current) return undefined;
+
+    // Policies that predate revision history get their current settings recorded first
+    if (!(await this.getPolicyRevision(id, current.version))) {
+      await this.createPolicyRevision(current, { authorId: null, reason: 'Recorded before revision history' });
+    }
+
+    if (change.baseVersion !== undefined && change.baseVersion !== current.version) {
+      throw new Error(`Policy has moved from version ${change.baseVersion} to ${current.version}; reload and try again`);
+    }
+
+    const version = current.version + 1;
     const [updatedPolicy] = await db
       .update(policies)
-      .set({ ...policy, updatedAt: new Date() })
-      .where(eq(policies.id, id))
+      .set({ ...policy, version, updatedAt: new Date() })
+      // Matching on the version makes a concurrent edit fail instead of silently overwriting
+      .where(and(eq(policies.id, id), eq(policies.version, current.version), inTenant(policies.tenantId)))
       .returning();
+    if (!updatedPolicy) {
+      throw new Error('Policy was modified concurrently; reload and try again');
+    }
+
+    await this.createPolicyRevision({ ...current, ...policy, version } as Policy, change);
     return updatedPolicy;
   }
 
+  async getPolicyRevisions(policyId: string): Promise<PolicyRevision[]> {
+    return db
+      .select()
+      .from(policyRevisions)
+      .where(and(eq(policyRevisions.policyId, policyId), inTenant(policyRevisions.tenantId)))
+      .orderBy(desc(policyRevisions.version));
+  }
+
+  async getPolicyRevision(policyId: string, version: number): Promise<PolicyRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(policyRevisions)
+      .where(and(
+        eq(policyRevisions.policyId, policyId),
+        eq(policyRevisions.version, version),
+        inTenant(policyRevisions.tenantId),
+      ));
+    return revision;
+  }
+
+  async getPolicyAtVersion(policyId: string, version: number | null): Promise<Policy | undefined> {
+    return policyAtVersion(this, policyId, version);
+  }
+
+  async rollbackPolicy(policyId: string, version: number, change: PolicyChange): Promise<Policy | undefined> {
+    return rollbackPolicyTo(this, policyId, version, change);
+  }
+
+  async isPolicyInUse(policyId: string): Promise<boolean> {
+    // Live if it is the tenant default, a desk's policy, or any trader's override
+    if (getCurrentTenant()?.defaultPolicyId === policyId) return true;
+
+    const [desk] = await db
+      .select()
+      .from(tradingDesks)
+      .where(and(eq(tradingDesks.policyId, policyId), inTenant(tradingDesks.tenantId)))
+      .limit(1);
+    if (desk) return true;
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.policyId, policyId), inTenant(users.tenantId)))
+      .limit(1);
+    return !!user;
+  }
+
+  async createPolicyChangeRequest(request: InsertPolicyChangeRequest): Promise<PolicyChangeRequest> {
+    const [newRequest] = await db
+      .insert(policyChangeRequests)
+      .values({ ...request, tenantId: currentTenantId() })
+      .returning();
+    return newRequest;
+  }
+
+  async getPolicyChangeRequest(id: string): Promise<PolicyChangeRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(policyChangeRequests)
+      .where(and(eq(policyChangeRequests.id, id), inTenant(policyChangeRequests.tenantId)));
+    return request;
+  }
+
+  async getPolicyChangeRequests(filters: { policyId?: string; status?: string }): Promise<PolicyChangeRequest[]> {
+    const conditions = [inTenant(policyChangeRequests.tenantId)];
+    if (filters.policyId) conditions.push(eq(policyChangeRequests.policyId, filters.policyId));
+    if (filters.status) conditions.push(eq(policyChangeRequests.status, filters.status));
+
+    return db
+      .select()
+      .from(policyChangeRequests)
+      .where(and(...conditions))
+      .orderBy(desc(policyChangeRequests.createdAt));
+  }
+
+  async reviewPolicyChangeRequest(
+    id: string,
+    review: Pick<PolicyChangeRequest, 'status'> & Partial<Pick<PolicyChangeRequest, 'reviewedBy' | 'reviewNote' | 'appliedVersion'>>,
+    from = 'pending'
+  ): Promise<PolicyChangeRequest | undefined> {
+    // Only a request still in `from` (pending unless given) is updated, so two reviewers cannot both settle it
+    const [request] = await db
+      .update(policyChangeRequests)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(and(
+        eq(policyChangeRequests.id, id),
+        eq(policyChangeRequests.status, from),
+        inTenant(policyChangeRequests.tenantId),
+      ))
+      .returning();
+    return request;
+  }
+
+  private async createPolicyRevision(policy: Policy, change: PolicyChange): Promise<PolicyRevision> {
+    const [revision] = await db
+      .insert(policyRevisions)
+      .values({
+        policyId: policy.id,
+        version: policy.version,
+        snapshot: pickPolicySettings(policy),
+        authorId: change.authorId,
+        reason: change.reason,
+        restoredVersion: change.restoredVersion ?? null,
+        tenantId: currentTenantId(),
+      })
+      .returning();
+    return revision;
+  }
+
   async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
-    const [newAssessment] = await db.insert(assessments).values(assessment).returning();
+    const [newAssessment] = await db.insert(assessments).values({ ...assessment, tenantId: currentTenantId() }).returning();
     return newAssessment;
   }
 
   async getAssessment(id: string): Promise<Assessment | undefined> {
-    const [assessment] = await db.select().from(assessments).where(eq(assessments.id, id));
+    const [assessment] = await db
+      .select()
+      .from(assessments)
+      .where(and(eq(assessments.id, id), inTenant(assessments.tenantId)));
     return assessment;
   }
 
@@ -201,11 +539,49 @@ export class DatabaseStorage implements IStorage {
     const [updatedAssessment] = await db
       .update(assessments)
       .set(updates)
-      .where(eq(assessments.id, id))
+      .where(and(eq(assessments.id, id), inTenant(assessments.tenantId)))
       .returning();
     return updatedAssessment;
   }
 
+  async transitionAssessment(id: string, from: AssessmentStatus, updates: Partial<Assessment>): Promise<Assessment | undefined> {
+    const [transitioned] = await db
+      .update(assessments)
+      .set(updates)
+      .where(and(eq(assessments.id, id), eq(assessments.status, from), inTenant(assessments.tenantId)))
+      .returning();
+    return transitioned;
+  }
+
+  async claimAssessmentReuse(id: string, maxOrders: number): Promise<Assessment | undefined> {
+    const [claimed] = await db
+      .update(assessments)
+      .set({ reuseCount: sql`${assessments.reuseCount} + 1` })
+      .where(and(eq(assessments.id, id), lt(assessments.reuseCount, maxOrders), inTenant(assessments.tenantId)))
+      .returning();
+    return claimed;
+  }
+
+  async getAssessmentsInRange(filters: { from: Date; to: Date; userIds?: string[]; redacted?: boolean }): Promise<Assessment[]> {
+    if (filters.userIds && filters.userIds.length === 0) return [];
+
+    const conditions = [
+      inTenant(assessments.tenantId),
+      gte(assessments.createdAt, filters.from),
+      lte(assessments.createdAt, filters.to),
+    ];
+    if (filters.userIds) conditions.push(inArray(assessments.userId, filters.userIds));
+    if (filters.redacted !== undefined) {
+      conditions.push(filters.redacted ? isNotNull(assessments.redactedAt) : isNull(assessments.redactedAt));
+    }
+
+    return db
+      .select()
+      .from(assessments)
+      .where(and(...conditions))
+      .orderBy(asc(assessments.createdAt));
+  }
+
   async getUserAssessments(userId: string, limit = 50): Promise<Assessment[]> {
     // Some database adapters return a query result instead of a query builder
     // that supports .limit chaining. Read all matching rows ordered by
@@ -213,7 +589,7 @@ export class DatabaseStorage implements IStorage {
     const rows = await db
       .select()
       .from(assessments)
-      .where(eq(assessments.userId, userId))
+      .where(and(eq(assessments.userId, userId), inTenant(assessments.tenantId)))
       .orderBy(desc(assessments.createdAt));
 
     return rows.slice(0, limit);
@@ -222,6 +598,7 @@ export class DatabaseStorage implements IStorage {
   async getActiveCooldown(userId: string): Promise<{ 
     isInCooldown: boolean; 
     remainingMs: number; 
+    step: number; // cooldown ladder rung of the held assessment
     assessment?: Assessment 
   }> {
     // Find the most recent assessment with a cooldown that hasn't been completed
@@ -231,51 +608,17 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(assessments.userId, userId),
-          eq(assessments.cooldownCompleted, false)
+          eq(assessments.cooldownCompleted, false),
+          inTenant(assessments.tenantId)
         )
       )
       .orderBy(desc(assessments.createdAt));
 
-    // Check each assessment to see if it has an active cooldown
-    for (const assessment of recentAssessments) {
-      if (assessment.cooldownDurationMs && assessment.cooldownDurationMs > 0) {
-        const assessmentTime = new Date(assessment.createdAt!).getTime();
-        const now = Date.now();
-        const elapsedMs = now - assessmentTime;
-        const remainingMs = assessment.cooldownDurationMs - elapsedMs;
-
-        if (remainingMs > 0) {
-          // User is still in cooldown period
-          console.log(`🚫 User ${userId} is in active cooldown: ${Math.round(remainingMs / 1000)}s remaining`);
-          return {
-            isInCooldown: true,
-            remainingMs,
-            assessment
-          };
-        }
-      }
-    }
-
-    // No active cooldown found
-    return {
-      isInCooldown: false,
-      remainingMs: 0
-    };
+    return findActiveCooldown(userId, recentAssessments);
   }
 
   async getAssessmentStats(timeframe: 'day' | 'week' | 'month' = 'day') {
-    const since = new Date();
-    switch (timeframe) {
-      case 'day':
-        since.setDate(since.getDate() - 1);
-        break;
-      case 'week':
-        since.setDate(since.getDate() - 7);
-        break;
-      case 'month':
-        since.setMonth(since.getMonth() - 1);
-        break;
-    }
+    const since = assessmentStatsSince(timeframe);
 
     const stats = await db.select({
       totalAssessments: count(assessments.id),
@@ -284,7 +627,7 @@ export class DatabaseStorage implements IStorage {
       overrideCount: count(sql<number>`CASE WHEN ${assessments.overrideUsed} = true THEN 1 END`),
       averageRiskScore: avg(assessments.riskScore)
     }).from(assessments)
-      .where(gte(assessments.createdAt, since));
+      .where(and(gte(assessments.createdAt, since), inTenant(assessments.tenantId)));
 
     const result = stats[0] || {
       totalAssessments: 0,
@@ -316,8 +659,9 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
 
-    // Check cache first for real users
-    const cached = this.cache.userBaselines.get(userId);
+    // Check cache first for real users (keyed per tenant so entries never leak across tenants)
+    const cacheKey = `${currentTenantId()}:${userId}`;
+    const cached = this.cache.userBaselines.get(cacheKey);
     if (cached && (Date.now() - cached.timestamp) < this.CACHE_TTL) {
       return cached.data;
     }
@@ -325,12 +669,12 @@ export class DatabaseStorage implements IStorage {
     const [baseline] = await db
       .select()
       .from(userBaselines)
-      .where(eq(userBaselines.userId, userId))
+      .where(and(eq(userBaselines.userId, userId), inTenant(userBaselines.tenantId)))
       .limit(1);
     
     // Cache the result
     if (baseline) {
-      this.cache.userBaselines.set(userId, { data: baseline, timestamp: Date.now() });
+      this.cache.userBaselines.set(cacheKey, { data: baseline, timestamp: Date.now() });
     }
     
     return baseline;
@@ -338,7 +682,7 @@ export class DatabaseStorage implements IStorage {
 
   async createOrUpdateBaseline(baseline: InsertUserBaseline): Promise<UserBaseline> {
     // Clear cache for this user to ensure fresh data
-    this.cache.userBaselines.delete(baseline.userId);
+    this.cache.userBaselines.delete(`${currentTenantId()}:${baseline.userId}`);
     
     const existing = await this.getUserBaseline(baseline.userId);
     
@@ -346,34 +690,41 @@ export class DatabaseStorage implements IStorage {
       const [updated] = await db
         .update(userBaselines)
         .set({ ...baseline, updatedAt: new Date() })
-        .where(eq(userBaselines.id, existing.id))
+        .where(and(eq(userBaselines.id, existing.id), inTenant(userBaselines.tenantId)))
         .returning();
       return updated;
     } else {
-      const [created] = await db.insert(userBaselines).values(baseline).returning();
+      const [created] = await db.insert(userBaselines).values({ ...baseline, tenantId: currentTenantId() }).returning();
       return created;
     }
   }
 
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
-    const [auditLog] = await db.insert(auditLogs).values(log).returning();
+    const [auditLog] = await db.insert(auditLogs).values({ ...log, tenantId: currentTenantId() }).returning();
     return auditLog;
   }
 
   async getAuditLogs(filters: {
     userId?: string;
+    userIds?: string[];
     assessmentId?: string;
     action?: string;
+    since?: Date;
     limit?: number;
   }): Promise<AuditLog[]> {
     try {
       let query = db.select().from(auditLogs);
       
-      const conditions = [];
+      const conditions = [inTenant(auditLogs.tenantId)];
       if (filters.userId) {
         if (typeof filters.userId !== 'string') throw new Error('Invalid userId filter');
         conditions.push(eq(auditLogs.userId, filters.userId));
       }
+      if (filters.userIds) {
+        // An empty scope matches nothing rather than everything
+        if (filters.userIds.length === 0) return [];
+        conditions.push(inArray(auditLogs.userId, filters.userIds));
+      }
       if (filters.assessmentId) {
         if (typeof filters.assessmentId !== 'string') throw new Error('Invalid assessmentId filter');
         conditions.push(eq(auditLogs.assessmentId, filters.assessmentId));
@@ -382,11 +733,12 @@ export class DatabaseStorage implements IStorage {
         if (typeof filters.action !== 'string') throw new Error('Invalid action filter');
         conditions.push(eq(auditLogs.action, filters.action));
       }
-      
-      if (conditions.length > 0) {
-        query = query.where(and(...conditions));
+      if (filters.since) {
+        conditions.push(gte(auditLogs.timestamp, filters.since));
       }
       
+      query = query.where(and(...conditions));
+      
       const limit = Math.min(Math.max(1, filters.limit || 100), 1000); // Ensure limit is between 1-1000
       
       return await query
@@ -399,7 +751,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createEvent(event: InsertRealTimeEvent): Promise<RealTimeEvent> {
-    const [newEvent] = await db.insert(realTimeEvents).values(event).returning();
+    const [newEvent] = await db.insert(realTimeEvents).values({ ...event, tenantId: currentTenantId() }).returning();
     return newEvent;
   }
 
@@ -407,7 +759,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(realTimeEvents)
-      .where(eq(realTimeEvents.processed, false))
+      .where(and(eq(realTimeEvents.processed, false), inTenant(realTimeEvents.tenantId)))
       .orderBy(realTimeEvents.createdAt);
   }
 
@@ -415,7 +767,7 @@ export class DatabaseStorage implements IStorage {
     await db
       .update(realTimeEvents)
       .set({ processed: true, updatedAt: new Date() })
-      .where(eq(realTimeEvents.id, id));
+      .where(and(eq(realTimeEvents.id, id), inTenant(realTimeEvents.tenantId)));
   }
 
   async getRecentEvents(limit = 50): Promise<RealTimeEvent[]> {
@@ -425,13 +777,89 @@ export class DatabaseStorage implements IStorage {
     const rows = await db
       .select()
       .from(realTimeEvents)
+      .where(inTenant(realTimeEvents.tenantId))
       .orderBy(desc(realTimeEvents.createdAt));
 
     return rows.slice(0, limit);
   }
 
+  async getEventsBefore(before: Date): Promise<RealTimeEvent[]> {
+    return db
+      .select()
+      .from(realTimeEvents)
+      .where(and(lt(realTimeEvents.createdAt, before), inTenant(realTimeEvents.tenantId)))
+      .orderBy(asc(realTimeEvents.createdAt));
+  }
+
+  async deleteEvents(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(realTimeEvents).where(and(inArray(realTimeEvents.id, ids), inTenant(realTimeEvents.tenantId)));
+  }
+
+  async getAlertHistoryBefore(before: Date): Promise<AlertHistory[]> {
+    return db
+      .select()
+      .from(alertHistory)
+      .where(and(lt(alertHistory.createdAt, before), inTenant(alertHistory.tenantId)))
+      .orderBy(asc(alertHistory.createdAt));
+  }
+
+  async deleteAlertHistory(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(alertHistory).where(and(inArray(alertHistory.id, ids), inTenant(alertHistory.tenantId)));
+  }
+
+  async getAuditLogsForAssessments(assessmentIds: string[]): Promise<AuditLog[]> {
+    if (assessmentIds.length === 0) return [];
+    return db
+      .select()
+      .from(auditLogs)
+      .where(and(inArray(auditLogs.assessmentId, assessmentIds), inTenant(auditLogs.tenantId)))
+      .orderBy(asc(auditLogs.timestamp));
+  }
+
+  async redactAuditLog(id: string, details: Record<string, unknown>): Promise<void> {
+    await db.update(auditLogs).set({ details }).where(and(eq(auditLogs.id, id), inTenant(auditLogs.tenantId)));
+  }
+
+  async deleteAuditLogs(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(auditLogs).where(and(inArray(auditLogs.id, ids), inTenant(auditLogs.tenantId)));
+  }
+
   async getTradingDesks(): Promise<TradingDesk[]> {
-    return db.select().from(tradingDesks);
+    return db.select().from(tradingDesks).where(inTenant(tradingDesks.tenantId));
+  }
+
+  async getTradingDesk(id: string): Promise<TradingDesk | undefined> {
+    const [desk] = await db
+      .select()
+      .from(tradingDesks)
+      .where(and(eq(tradingDesks.id, id), inTenant(tradingDesks.tenantId)));
+    return desk;
+  }
+
+  async createTradingDesk(desk: InsertTradingDesk): Promise<TradingDesk> {
+    const [newDesk] = await db.insert(tradingDesks).values({ ...desk, tenantId: currentTenantId() }).returning();
+    return newDesk;
+  }
+
+  async updateTradingDesk(id: string, desk: Partial<InsertTradingDesk>): Promise<TradingDesk> {
+    const [updatedDesk] = await db
+      .update(tradingDesks)
+      .set(desk)
+      .where(and(eq(tradingDesks.id, id), inTenant(tradingDesks.tenantId)))
+      .returning();
+    return updatedDesk;
+  }
+
+  async deleteTradingDesk(id: string): Promise<void> {
+    // Unassign the desk's traders first so they fall back to the tenant default policy
+    await db
+      .update(users)
+      .set({ deskId: null, updatedAt: new Date() })
+      .where(and(eq(users.deskId, id), inTenant(users.tenantId)));
+    await db.delete(tradingDesks).where(and(eq(tradingDesks.id, id), inTenant(tradingDesks.tenantId)));
   }
 
   // ==========================================
@@ -440,16 +868,23 @@ export class DatabaseStorage implements IStorage {
 
   // Alert Policy operations
   async getAlertPolicies(): Promise<AlertPolicy[]> {
-    return db.select().from(alertPolicies).orderBy(desc(alertPolicies.createdAt));
+    return db
+      .select()
+      .from(alertPolicies)
+      .where(inTenant(alertPolicies.tenantId))
+      .orderBy(desc(alertPolicies.createdAt));
   }
 
   async getAlertPolicy(id: string): Promise<AlertPolicy | undefined> {
-    const [policy] = await db.select().from(alertPolicies).where(eq(alertPolicies.id, id));
+    const [policy] = await db
+      .select()
+      .from(alertPolicies)
+      .where(and(eq(alertPolicies.id, id), inTenant(alertPolicies.tenantId)));
     return policy;
   }
 
   async createAlertPolicy(policy: InsertAlertPolicy): Promise<AlertPolicy> {
-    const [newPolicy] = await db.insert(alertPolicies).values(policy).returning();
+    const [newPolicy] = await db.insert(alertPolicies).values({ ...policy, tenantId: currentTenantId() }).returning();
     return newPolicy;
   }
 
@@ -457,13 +892,13 @@ export class DatabaseStorage implements IStorage {
     const [updated] = await db
       .update(alertPolicies)
       .set({ ...policy, updatedAt: new Date() })
-      .where(eq(alertPolicies.id, id))
+      .where(and(eq(alertPolicies.id, id), inTenant(alertPolicies.tenantId)))
       .returning();
     return updated;
   }
 
   async deleteAlertPolicy(id: string): Promise<void> {
-    await db.delete(alertPolicies).where(eq(alertPolicies.id, id));
+    await db.delete(alertPolicies).where(and(eq(alertPolicies.id, id), inTenant(alertPolicies.tenantId)));
   }
 
   // Alert Channel operations
@@ -471,12 +906,12 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(alertChannels)
-      .where(eq(alertChannels.alertPolicyId, policyId))
+      .where(and(eq(alertChannels.alertPolicyId, policyId), inTenant(alertChannels.tenantId)))
       .orderBy(alertChannels.channelType);
   }
 
   async createAlertChannel(channel: InsertAlertChannel): Promise<AlertChannel> {
-    const [newChannel] = await db.insert(alertChannels).values(channel).returning();
+    const [newChannel] = await db.insert(alertChannels).values({ ...channel, tenantId: currentTenantId() }).returning();
     return newChannel;
   }
 
@@ -484,18 +919,18 @@ export class DatabaseStorage implements IStorage {
     const [updated] = await db
       .update(alertChannels)
       .set(channel)
-      .where(eq(alertChannels.id, id))
+      .where(and(eq(alertChannels.id, id), inTenant(alertChannels.tenantId)))
       .returning();
     return updated;
   }
 
   async deleteAlertChannel(id: string): Promise<void> {
-    await db.delete(alertChannels).where(eq(alertChannels.id, id));
+    await db.delete(alertChannels).where(and(eq(alertChannels.id, id), inTenant(alertChannels.tenantId)));
   }
 
   // Alert History operations
   async createAlertHistory(alert: InsertAlertHistory): Promise<AlertHistory> {
-    const [newAlert] = await db.insert(alertHistory).values(alert).returning();
+    const [newAlert] = await db.insert(alertHistory).values({ ...alert, tenantId: currentTenantId() }).returning();
     return newAlert;
   }
 
@@ -503,7 +938,7 @@ export class DatabaseStorage implements IStorage {
     const [updated] = await db
       .update(alertHistory)
       .set({ ...updates, updatedAt: new Date() } as any)
-      .where(eq(alertHistory.id, id))
+      .where(and(eq(alertHistory.id, id), inTenant(alertHistory.tenantId)))
       .returning();
     return updated;
   }
@@ -511,6 +946,7 @@ export class DatabaseStorage implements IStorage {
   async getAlertHistory(filters: {
     policyId?: string;
     userId?: string;
+    userIds?: string[];
     severity?: string;
     resolved?: boolean;
     limit?: number;
@@ -519,16 +955,18 @@ export class DatabaseStorage implements IStorage {
     let query = db.select().from(alertHistory);
     let countQuery = db.select({ count: sql<number>`count(*)` }).from(alertHistory);
     
-    const conditions = [];
+    const conditions = [inTenant(alertHistory.tenantId)];
     if (filters.policyId) conditions.push(eq(alertHistory.alertPolicyId, filters.policyId));
     if (filters.userId) conditions.push(eq(alertHistory.userId, filters.userId));
+    if (filters.userIds) {
+      if (filters.userIds.length === 0) return { alerts: [], total: 0 };
+      conditions.push(inArray(alertHistory.userId, filters.userIds));
+    }
     if (filters.severity) conditions.push(eq(alertHistory.severity, filters.severity));
     if (filters.resolved !== undefined) conditions.push(eq(alertHistory.resolved, filters.resolved));
     
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
-      countQuery = countQuery.where(and(...conditions));
-    }
+    query = query.where(and(...conditions));
+    countQuery = countQuery.where(and(...conditions));
     
     const [alerts, [{ count }]] = await Promise.all([
       query
@@ -541,11 +979,19 @@ export class DatabaseStorage implements IStorage {
     return { alerts, total: count };
   }
 
+  async getAlert(id: string): Promise<AlertHistory | undefined> {
+    const [alert] = await db
+      .select()
+      .from(alertHistory)
+      .where(and(eq(alertHistory.id, id), inTenant(alertHistory.tenantId)));
+    return alert;
+  }
+
   async getActiveAlerts(): Promise<AlertHistory[]> {
     return db
       .select()
       .from(alertHistory)
-      .where(eq(alertHistory.resolved, false))
+      .where(and(eq(alertHistory.resolved, false), inTenant(alertHistory.tenantId)))
       .orderBy(desc(alertHistory.createdAt));
   }
 
@@ -559,7 +1005,7 @@ export class DatabaseStorage implements IStorage {
         resolutionNote,
         responseTime: sql<number>`EXTRACT(EPOCH FROM (NOW() - created_at))::integer`
       })
-      .where(eq(alertHistory.id, id))
+      .where(and(eq(alertHistory.id, id), inTenant(alertHistory.tenantId)))
       .returning();
     return resolved;
   }
@@ -574,69 +1020,220 @@ export class DatabaseStorage implements IStorage {
     topTriggers: Array<{ trigger: string; count: number }>;
     channelEffectiveness: Record<string, { delivered: number; success_rate: number }>;
   }> {
-    // Calculate timeframe filter
-    const hoursAgo = timeframe === '24h' ? 24 : timeframe === '7d' ? 168 : 720; // 30d
-    const cutoffTime = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
-    
-    // Get all alerts in timeframe
     const alerts = await db
       .select()
       .from(alertHistory)
-      .where(gte(alertHistory.createdAt, cutoffTime));
-    
-    // Calculate analytics
-    const totalAlerts = alerts.length;
-  const resolvedAlerts = alerts.filter((a: AlertHistory) => a.resolved);
-  const escalatedAlerts = alerts.filter((a: AlertHistory) => a.escalated);
-    
-    // Group by severity
-    const bySeverity = alerts.reduce((acc: Record<string, number>, alert: AlertHistory) => {
-      acc[alert.severity] = (acc[alert.severity] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    // Group by status
-    const byStatus = {
-      resolved: resolvedAlerts.length,
-      active: totalAlerts - resolvedAlerts.length,
-      escalated: escalatedAlerts.length
-    };
-    
-    // Calculate rates
-    const resolutionRate = totalAlerts > 0 ? resolvedAlerts.length / totalAlerts : 0;
-    const escalationRate = totalAlerts > 0 ? escalatedAlerts.length / totalAlerts : 0;
-    
-    // Calculate average response time (for resolved alerts)
-    const avgResponseTime = resolvedAlerts.length > 0 
-      ? resolvedAlerts.reduce((sum: number, alert: AlertHistory) => sum + (alert.responseTime || 0), 0) / resolvedAlerts.length
-      : 0;
-    
-    // Mock data for other analytics (would need more complex queries in production)
-    const topTriggers = [
-      { trigger: 'High trading volume', count: Math.floor(totalAlerts * 0.3) },
-      { trigger: 'Market volatility spike', count: Math.floor(totalAlerts * 0.25) },
-      { trigger: 'Recent losses', count: Math.floor(totalAlerts * 0.2) },
-      { trigger: 'Extended session time', count: Math.floor(totalAlerts * 0.15) }
-    ];
-    
-    const channelEffectiveness = {
-      dashboard: { delivered: totalAlerts, success_rate: 1.0 },
-      email: { delivered: Math.floor(totalAlerts * 0.8), success_rate: 0.97 },
-      sms: { delivered: Math.floor(totalAlerts * 0.3), success_rate: 0.92 },
-      webhook: { delivered: Math.floor(totalAlerts * 0.2), success_rate: 0.88 }
-    };
-    
-    return {
-      totalAlerts,
-      bySeverity,
-      byStatus,
-      avgResponseTime,
-      resolutionRate,
-      escalationRate,
-      topTriggers,
-      channelEffectiveness
-    };
+      .where(and(gte(alertHistory.createdAt, alertAnalyticsSince(timeframe)), inTenant(alertHistory.tenantId)));
+
+    return summarizeAlerts(alerts);
+  }
+
+  async createTradeAuthorization(authorization: InsertTradeAuthorization): Promise<TradeAuthorization> {
+    const [created] = await db
+      .insert(tradeAuthorizations)
+      .values({ ...authorization, tenantId: currentTenantId() })
+      .returning();
+    return created;
+  }
+
+  async getTradeAuthorization(id: string): Promise<TradeAuthorization | undefined> {
+    const [authorization] = await db
+      .select()
+      .from(tradeAuthorizations)
+      .where(and(eq(tradeAuthorizations.id, id), inTenant(tradeAuthorizations.tenantId)));
+    return authorization;
+  }
+
+  async consumeTradeAuthorization(id: string, consumedAt: Date): Promise<TradeAuthorization | undefined> {
+    // Matching on consumed_at IS NULL lets only one of two concurrent redemptions win
+    const [consumed] = await db
+      .update(tradeAuthorizations)
+      .set({ consumedAt })
+      .where(and(
+        eq(tradeAuthorizations.id, id),
+        isNull(tradeAuthorizations.consumedAt),
+        inTenant(tradeAuthorizations.tenantId),
+      ))
+      .returning();
+    return consumed;
+  }
+
+  async reserveIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    const [reserved] = await db
+      .insert(idempotencyKeys)
+      .values({ ...record, tenantId: currentTenantId() })
+      .onConflictDoNothing({ target: [idempotencyKeys.tenantId, idempotencyKeys.userId, idempotencyKeys.key] })
+      .returning();
+    return reserved;
+  }
+
+  async getIdempotencyKey(userId: string, key: string): Promise<IdempotencyKey | undefined> {
+    const [record] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key), inTenant(idempotencyKeys.tenantId)));
+    return record;
+  }
+
+  async completeIdempotencyKey(id: string, response: Pick<IdempotencyKey, 'statusCode' | 'responseBody'>): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set(response)
+      .where(and(eq(idempotencyKeys.id, id), inTenant(idempotencyKeys.tenantId)));
+  }
+
+  async deleteIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(and(eq(idempotencyKeys.id, id), inTenant(idempotencyKeys.tenantId)));
+  }
+
+  async deleteIdempotencyKeysBefore(before: Date): Promise<void> {
+    await db.delete(idempotencyKeys).where(and(lt(idempotencyKeys.createdAt, before), inTenant(idempotencyKeys.tenantId)));
+  }
+
+  async createOverrideRequest(request: InsertOverrideRequest): Promise<OverrideRequest> {
+    const [newRequest] = await db
+      .insert(overrideRequests)
+      .values({ ...request, tenantId: currentTenantId() })
+      .returning();
+    return newRequest;
+  }
+
+  async getOverrideRequest(id: string): Promise<OverrideRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(overrideRequests)
+      .where(and(eq(overrideRequests.id, id), inTenant(overrideRequests.tenantId)));
+    return request;
+  }
+
+  async getOverrideRequests(filters: { status?: string; userIds?: string[]; assessmentId?: string }): Promise<OverrideRequest[]> {
+    // An empty scope matches nothing rather than everything
+    if (filters.userIds && filters.userIds.length === 0) return [];
+
+    const conditions = [inTenant(overrideRequests.tenantId)];
+    if (filters.status) conditions.push(eq(overrideRequests.status, filters.status));
+    if (filters.userIds) conditions.push(inArray(overrideRequests.userId, filters.userIds));
+    if (filters.assessmentId) conditions.push(eq(overrideRequests.assessmentId, filters.assessmentId));
+
+    return db
+      .select()
+      .from(overrideRequests)
+      .where(and(...conditions))
+      .orderBy(desc(overrideRequests.createdAt));
+  }
+
+  async reviewOverrideRequest(
+    id: string,
+    review: Pick<OverrideRequest, 'status'> & Partial<Pick<OverrideRequest, 'reviewedBy' | 'reviewNote'>>,
+    from = 'pending'
+  ): Promise<OverrideRequest | undefined> {
+    // Only a request still in `from` (pending unless given) is updated, so two supervisors cannot both decide it
+    const [request] = await db
+      .update(overrideRequests)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(and(
+        eq(overrideRequests.id, id),
+        eq(overrideRequests.status, from),
+        inTenant(overrideRequests.tenantId),
+      ))
+      .returning();
+    return request;
+  }
+
+  async createTradingSession(session: InsertTradingSession): Promise<TradingSession> {
+    const [newSession] = await db
+      .insert(tradingSessions)
+      .values({ ...session, tenantId: currentTenantId() })
+      .returning();
+    return newSession;
+  }
+
+  async getOpenTradingSession(userId: string): Promise<TradingSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(tradingSessions)
+      .where(and(
+        eq(tradingSessions.userId, userId),
+        isNull(tradingSessions.endedAt),
+        inTenant(tradingSessions.tenantId),
+      ))
+      .orderBy(desc(tradingSessions.startedAt))
+      .limit(1);
+    return session;
+  }
+
+  async getTradingSessions(userId: string, limit = 20): Promise<TradingSession[]> {
+    return db
+      .select()
+      .from(tradingSessions)
+      .where(and(eq(tradingSessions.userId, userId), inTenant(tradingSessions.tenantId)))
+      .orderBy(desc(tradingSessions.startedAt))
+      .limit(limit);
+  }
+
+  async endTradingSession(id: string, endedAt: Date): Promise<TradingSession | undefined> {
+    const [session] = await db
+      .update(tradingSessions)
+      .set({ endedAt })
+      .where(and(
+        eq(tradingSessions.id, id),
+        isNull(tradingSessions.endedAt),
+        inTenant(tradingSessions.tenantId),
+      ))
+      .returning();
+    return session;
+  }
+
+  async addSessionTrade(trade: InsertSessionTrade): Promise<SessionTrade | undefined> {
+    const [booked] = await db
+      .insert(sessionTrades)
+      .values({ ...trade, tenantId: currentTenantId() })
+      .onConflictDoNothing({ target: [sessionTrades.sessionId, sessionTrades.assessmentId] })
+      .returning();
+    if (!booked) return undefined;
+
+    // Added in SQL so two outcomes reported at once both count
+    await db
+      .update(tradingSessions)
+      .set({
+        realizedPnl: sql`${tradingSessions.realizedPnl} + ${booked.pnl}`,
+        tradeCount: sql`${tradingSessions.tradeCount} + 1`,
+      })
+      .where(and(eq(tradingSessions.id, booked.sessionId), inTenant(tradingSessions.tenantId)));
+    return booked;
+  }
+
+  async getSessionTrades(sessionId: string): Promise<SessionTrade[]> {
+    return db
+      .select()
+      .from(sessionTrades)
+      .where(and(eq(sessionTrades.sessionId, sessionId), inTenant(sessionTrades.tenantId)))
+      .orderBy(asc(sessionTrades.recordedAt));
+  }
+}
+
+export type StorageDriver = 'database' | 'embedded' | 'memory';
+
+// STORAGE_DRIVER selects the backend. Without it, a configured DATABASE_URL
+// means Postgres and anything else runs in memory. The embedded driver is
+// Postgres too (see ./embeddedDb), so it shares DatabaseStorage; ./db swaps in
+// its client. Asking for the database driver without DATABASE_URL is a
+// startup error rather than a quiet fall back to ./db's mock client.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? 'database' : 'memory');
+  switch (driver) {
+    case 'database':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('STORAGE_DRIVER "database" requires DATABASE_URL');
+      }
+      return new DatabaseStorage();
+    case 'embedded':
+      return new DatabaseStorage();
+    case 'memory':
+      return new MemoryStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"; expected "database", "embedded" or "memory"`);
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = createStorage();
@@ -0,0 +1,223 @@
+import type { AlertHistory, Assessment, Policy, PolicySettings, Tenant, InsertPolicy } from "@shared/schema";
+import { DEFAULT_FULL_ASSESSMENT_ENGINE, DEFAULT_QUICK_CHECK_ENGINE } from "@shared/scoringEngines";
+import type { IStorage, PolicyChange, ResolvedPolicy } from "./storage";
+import { currentTenantId, getCurrentTenant } from "./tenantContext";
+
+// Behaviour every IStorage backend shares: the static defaults an unconfigured
+// tenant runs on, and rules defined in terms of other storage calls rather than
+// a particular query language.
+
+// Tenant for requests that carry no SDK key (single-firm installs)
+export const DEFAULT_TENANT_ID = 'a4f1b6c2-5e0d-4c8a-9b7e-3d2f1a0c9e8b';
+
+export type ActiveCooldown = Awaited<ReturnType<IStorage['getActiveCooldown']>>;
+export type AlertAnalytics = Awaited<ReturnType<IStorage['getAlertAnalytics']>>;
+
+export function defaultTenant(): Tenant {
+  // Static like the default policy, so an unconfigured deployment needs no tenant rows
+  return {
+    id: DEFAULT_TENANT_ID,
+    name: 'Default Tenant',
+    apiKey: 'default',
+    region: null,
+    defaultPolicyId: null,
+    isActive: true,
+    createdAt: new Date('2025-09-26T00:00:00Z'),
+  };
+}
+
+export async function defaultPolicyFor(store: IStorage): Promise<Policy> {
+  // A tenant may point at its own default policy
+  const defaultPolicyId = getCurrentTenant()?.defaultPolicyId;
+  if (defaultPolicyId) {
+    const tenantDefault = await store.getPolicy(defaultPolicyId);
+    if (tenantDefault) return tenantDefault;
+  }
+
+  // Otherwise use the static default policy to avoid a storage round trip entirely
+  return {
+    id: '3a22961e-4d52-4251-aa73-2dd0d5169812',
+    tenantId: currentTenantId(),
+    name: 'Default Standard Policy',
+    strictnessLevel: 'standard' as const,
+    riskThreshold: 65,
+    cooldownDuration: 30,
+    enabledModes: {
+      cognitiveTest: true,
+      behavioralBiometrics: true,
+      selfReport: true,
+      voiceProsody: false,
+      facialExpression: false
+    },
+    overrideAllowed: true,
+    supervisorNotification: true,
+    dataRetentionDays: 30,
+    verdictReuseMinutes: 0,
+    verdictReuseOrders: 0,
+    verdictReuseMarginPct: 0,
+    overrideDailyLimit: 0,
+    overrideCosignRiskScore: null,
+    overrideAlertCount: 0,
+    overrideAlertWindowMinutes: 60,
+    cooldownLadderWindowMinutes: 0,
+    cooldownLadderGrowthPct: 100,
+    cooldownLadderMaxSeconds: 600,
+    cooldownLadderResetAfter: 3,
+    overtradingLookbackDays: 14,
+    overtradingZScore: 3,
+    overtradingMinOrders5m: 4,
+    overtradingMinOrders60m: 15,
+    quickCheckEngine: DEFAULT_QUICK_CHECK_ENGINE,
+    fullAssessmentEngine: DEFAULT_FULL_ASSESSMENT_ENGINE,
+    shadowFullAssessmentEngine: null,
+    scoringProfile: null,
+    version: 1,
+    createdAt: new Date('2025-09-26T00:00:00Z'),
+    updatedAt: new Date('2025-09-26T00:00:00Z')
+  };
+}
+
+export async function resolvePolicyFor(store: IStorage, userId: string): Promise<ResolvedPolicy> {
+  // A trader's own override wins, then their desk's policy, then the tenant default.
+  // Dangling references (deleted policy or desk) fall through to the next level.
+  const user = await store.getUser(userId);
+  if (user?.policyId) {
+    const policy = await store.getPolicy(user.policyId);
+    if (policy) return { policy, source: 'user' };
+  }
+
+  if (user?.deskId) {
+    const desk = await store.getTradingDesk(user.deskId);
+    const policy = desk?.policyId ? await store.getPolicy(desk.policyId) : undefined;
+    if (policy) return { policy, source: 'desk' };
+  }
+
+  return { policy: await store.getDefaultPolicy(), source: 'tenant' };
+}
+
+export async function policyAtVersion(store: IStorage, policyId: string, version: number | null): Promise<Policy | undefined> {
+  const policy = await store.getPolicy(policyId);
+  if (!policy || version === null || version === policy.version) return policy;
+  const revision = await store.getPolicyRevision(policyId, version);
+  return revision ? { ...policy, ...(revision.snapshot as PolicySettings), version } : policy;
+}
+
+export async function rollbackPolicyTo(
+  store: IStorage,
+  policyId: string,
+  version: number,
+  change: PolicyChange
+): Promise<Policy | undefined> {
+  // A rollback is a new revision carrying the old settings; history is never rewritten
+  const target = await store.getPolicyRevision(policyId, version);
+  if (!target) return undefined;
+  return store.updatePolicy(policyId, target.snapshot as Partial<InsertPolicy>, { ...change, restoredVersion: version });
+}
+
+/**
+ * First assessment, newest first, whose cooldown is still running. Expects the
+ * user's assessments with an uncompleted cooldown.
+ */
+export function findActiveCooldown(userId: string, newestFirst: Assessment[]): ActiveCooldown {
+  for (const assessment of newestFirst) {
+    if (assessment.cooldownDurationMs && assessment.cooldownDurationMs > 0) {
+      const assessmentTime = new Date(assessment.createdAt!).getTime();
+      const now = Date.now();
+      const elapsedMs = now - assessmentTime;
+      const remainingMs = assessment.cooldownDurationMs - elapsedMs;
+
+      if (remainingMs > 0) {
+        // User is still in cooldown period
+        console.log(`🚫 User ${userId} is in active cooldown: ${Math.round(remainingMs / 1000)}s remaining`);
+        return {
+          isInCooldown: true,
+          remainingMs,
+          step: assessment.cooldownStep ?? 0,
+          assessment
+        };
+      }
+    }
+  }
+
+  // No active cooldown found
+  return {
+    isInCooldown: false,
+    remainingMs: 0,
+    step: 0
+  };
+}
+
+export function assessmentStatsSince(timeframe: 'day' | 'week' | 'month'): Date {
+  const since = new Date();
+  switch (timeframe) {
+    case 'day':
+      since.setDate(since.getDate() - 1);
+      break;
+    case 'week':
+      since.setDate(since.getDate() - 7);
+      break;
+    case 'month':
+      since.setMonth(since.getMonth() - 1);
+      break;
+  }
+  return since;
+}
+
+export function alertAnalyticsSince(timeframe: string): Date {
+  const hoursAgo = timeframe === '24h' ? 24 : timeframe === '7d' ? 168 : 720; // 30d
+  return new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+}
+
+export function summarizeAlerts(alerts: AlertHistory[]): AlertAnalytics {
+  const totalAlerts = alerts.length;
+  const resolvedAlerts = alerts.filter((a) => a.resolved);
+  const escalatedAlerts = alerts.filter((a) => a.escalated);
+
+  // Group by severity
+  const bySeverity = alerts.reduce((acc: Record<string, number>, alert) => {
+    acc[alert.severity] = (acc[alert.severity] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Group by status
+  const byStatus = {
+    resolved: resolvedAlerts.length,
+    active: totalAlerts - resolvedAlerts.length,
+    escalated: escalatedAlerts.length
+  };
+
+  // Calculate rates
+  const resolutionRate = totalAlerts > 0 ? resolvedAlerts.length / totalAlerts : 0;
+  const escalationRate = totalAlerts > 0 ? escalatedAlerts.length / totalAlerts : 0;
+
+  // Calculate average response time (for resolved alerts)
+  const avgResponseTime = resolvedAlerts.length > 0
+    ? resolvedAlerts.reduce((sum, alert) => sum + (alert.responseTime || 0), 0) / resolvedAlerts.length
+    : 0;
+
+  // Mock data for other analytics (would need more complex queries in production)
+  const topTriggers = [
+    { trigger: 'High trading volume', count: Math.floor(totalAlerts * 0.3) },
+    { trigger: 'Market volatility spike', count: Math.floor(totalAlerts * 0.25) },
+    { trigger: 'Recent losses', count: Math.floor(totalAlerts * 0.2) },
+    { trigger: 'Extended session time', count: Math.floor(totalAlerts * 0.15) }
+  ];
+
+  const channelEffectiveness = {
+    dashboard: { delivered: totalAlerts, success_rate: 1.0 },
+    email: { delivered: Math.floor(totalAlerts * 0.8), success_rate: 0.97 },
+    sms: { delivered: Math.floor(totalAlerts * 0.3), success_rate: 0.92 },
+    webhook: { delivered: Math.floor(totalAlerts * 0.2), success_rate: 0.88 }
+  };
+
+  return {
+    totalAlerts,
+    bySeverity,
+    byStatus,
+    avgResponseTime,
+    resolutionRate,
+    escalationRate,
+    topTriggers,
+    channelEffectiveness
+  };
+}
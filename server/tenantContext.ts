@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { Tenant } from "@shared/schema";
+
+/**
+ * Per-request tenant scope. `DatabaseStorage` reads the current tenant from
+ * here for every query and insert, so a handler (or any service it calls)
+ * cannot read or write another tenant's rows by accident.
+ */
+const tenantStore = new AsyncLocalStorage<Tenant>();
+
+export const TENANT_KEY_HEADER = "x-tenant-key";
+export const TENANT_REGION_HEADER = "x-tenant-region";
+
+declare global {
+  namespace Express {
+    interface Request {
+      tenant?: Tenant;
+    }
+  }
+}
+
+export function runWithTenant<T>(tenant: Tenant, fn: () => T): T {
+  return tenantStore.run(tenant, fn);
+}
+
+export function getCurrentTenant(): Tenant | undefined {
+  return tenantStore.getStore();
+}
+
+/** Throws when called outside a tenant scope; storage relies on this to fail closed. */
+export function currentTenantId(): string {
+  const tenant = tenantStore.getStore();
+  if (!tenant) {
+    throw new Error("No tenant in scope - storage access must happen within a tenant-resolved request");
+  }
+  return tenant.id;
+}
+
+/**
+ * Re-enters the tenant scope resolved earlier in the chain. Middleware that
+ * completes through pooled callbacks (session stores, database drivers) can
+ * drop the async context, so this is installed again after them.
+ */
+export function bindTenantContext(req: Request, _res: Response, next: NextFunction) {
+  if (!req.tenant) return next();
+  runWithTenant(req.tenant, next);
+}
@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Tenant } from "@shared/schema";
+import { storage } from "./storage";
+import { runWithTenant, TENANT_KEY_HEADER, TENANT_REGION_HEADER } from "./tenantContext";
+
+/**
+ * Maps an SDK tenant key to its tenant. Requests without a key belong to the
+ * deployment's default tenant so single-firm installs keep working; an
+ * unknown or deactivated key never falls back.
+ */
+export async function resolveTenantKey(tenantKey: string | null | undefined): Promise<Tenant | undefined> {
+  const tenant = tenantKey ? await storage.getTenantByApiKey(tenantKey) : await storage.getDefaultTenant();
+  return tenant && tenant.isActive ? tenant : undefined;
+}
+
+/** Resolves the tenant for every API request and runs the rest of the chain inside its scope. */
+export async function resolveTenant(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenant = await resolveTenantKey(req.get(TENANT_KEY_HEADER));
+    if (!tenant) {
+      return res.status(401).json({ message: "Unknown or inactive tenant key" });
+    }
+
+    // Refuse to serve a tenant from a region its data is not allowed to leave
+    const region = req.get(TENANT_REGION_HEADER);
+    if (region && tenant.region && region !== tenant.region) {
+      return res.status(403).json({ message: `Tenant is not served in region ${region}` });
+    }
+
+    req.tenant = tenant;
+    runWithTenant(tenant, next);
+  } catch (error) {
+    console.error("Tenant resolution failed:", error);
+    res.status(500).json({ message: "Tenant resolution failed" });
+  }
+}
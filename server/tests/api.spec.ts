@@ -1,39 +1,204 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import bodyParser from 'body-parser';
+import { WebSocket } from 'ws';
 import { registerRoutes } from '../routes';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { runWithTenant } from '../tenantContext';
+import { tradeAuthorization } from '../services/tradeAuthorization';
+import { policyApproval } from '../services/policyApproval';
+import type { InsertAssessment, InsertPolicy, Policy, TradingDesk, User } from '@shared/schema';
 
-let app: express.Express;
+// Suites run against the in-memory backend (see vitest.config.ts), so every
+// request below reads and writes real rows in the default tenant.
 let server: any;
 let serverInstance: any;
+let agent: ReturnType<typeof request.agent>;
+
+const PASSWORD = 'correct-horse-battery';
+
+let trader: User;
+let otherTrader: User;
+let supervisor: User;
+let admin: User;
+// carol supervises the FX desk only
+let fxDesk: TradingDesk;
+let ratesDesk: TradingDesk;
+
+const inDefaultTenant = async <T>(fn: () => Promise<T>): Promise<T> =>
+  runWithTenant(await storage.getDefaultTenant(), fn);
+
+const createPolicy = (settings: Partial<InsertPolicy> = {}) =>
+  inDefaultTenant(() => storage.createPolicy(
+    { name: 'Test policy', ...settings },
+    { authorId: admin.id, reason: 'Created for test' },
+  ));
+
+async function loginAs(user: User) {
+  const session = request.agent(serverInstance);
+  const res = await session.post('/api/auth/login').send({ username: user.username, password: PASSWORD });
+  expect(res.status).toBe(200);
+  return session;
+}
+
+// Opens a realtime socket with the user's session cookie and collects the
+// types of the events it receives
+async function openSocket(user: User) {
+  const login = await request(serverInstance).post('/api/auth/login').send({ username: user.username, password: PASSWORD });
+  const cookie = (login.headers['set-cookie'] as unknown as string[]).map((c) => c.split(';')[0]).join('; ');
+  const socket = new WebSocket(`ws://127.0.0.1:${serverInstance.address().port}/ws`, { headers: { cookie } });
+  const events: string[] = [];
+  socket.on('message', (data) => events.push(JSON.parse(String(data)).type));
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+  return { socket, events };
+}
+
+const orderContext = { instrument: 'EUR/USD', size: 1, orderType: 'market', side: 'buy', timeOfDay: new Date().toISOString() };
 
 beforeAll(async () => {
-  app = express();
+  const passwordHash = await hashPassword(PASSWORD);
+  await inDefaultTenant(async () => {
+    supervisor = await storage.createUser({ username: 'carol', role: 'supervisor', passwordHash });
+    admin = await storage.createUser({ username: 'dave', role: 'admin', passwordHash });
+    fxDesk = await storage.createTradingDesk({ name: 'FX', supervisorId: supervisor.id });
+    ratesDesk = await storage.createTradingDesk({ name: 'Rates' });
+    trader = await storage.createUser({ username: 'alice', role: 'trader', deskId: fxDesk.id, passwordHash });
+    otherTrader = await storage.createUser({ username: 'bob', role: 'trader', deskId: ratesDesk.id, passwordHash });
+  });
+
+  const app = express();
   app.use(bodyParser.json());
   // register routes returns an http.Server but does not start listening.
   server = await registerRoutes(app);
   // Start the server on a random available port for isolation in tests.
   serverInstance = server.listen(0);
+
+  agent = await loginAs(trader);
 });
 
 afterAll(async () => {
   try { serverInstance && serverInstance.close(); } catch (e) { /* ignore */ }
 });
 
+describe('Authentication', () => {
+  it('rejects trade-pause calls without a session', async () => {
+    const res = await request(serverInstance)
+      .post('/api/trade-pause/check-trade')
+      .send({ orderContext, fastMode: true, signals: {} });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects admin reads without a session', async () => {
+    for (const path of ['/api/scoring-engines', '/api/calibration']) {
+      expect((await request(serverInstance).get(path)).status).toBe(401);
+    }
+  });
+
+  it('rejects a wrong password', async () => {
+    const res = await request(serverInstance)
+      .post('/api/auth/login')
+      .send({ username: trader.username, password: 'not-the-password' });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns the session user without the password hash', async () => {
+    const res = await agent.get('/api/auth/me');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id: trader.id, username: trader.username });
+    expect(res.body).not.toHaveProperty('passwordHash');
+  });
+
+  it('ignores a client-supplied userId and records the session user', async () => {
+    const res = await agent
+      .post('/api/trade-pause/check-trade')
+      .send({ userId: 'someone-else', orderContext, fastMode: true, signals: {} });
+
+    expect(res.status).toBe(200);
+    const assessment = await agent.get(`/api/trade-pause/assessments/${res.body.assessmentId}`);
+    expect(assessment.status).toBe(200);
+    expect(assessment.body.userId).toBe(trader.id);
+  });
+
+  it("refuses access to another user's baseline", async () => {
+    const res = await agent.get('/api/baselines/someone-else');
+
+    expect(res.status).toBe(403);
+  });
+});
+
 describe('TradePause API', () => {
   it('returns pending when no signals provided (fastMode)', async () => {
-    const res = await request(serverInstance)
+    const res = await agent
       .post('/api/trade-pause/check-trade')
-      .send({ orderContext: { instrument: 'EUR/USD', size: 1, orderType: 'market', side: 'buy', timeOfDay: new Date().toISOString() }, fastMode: true, signals: {} });
+      .send({ orderContext, fastMode: true, signals: {} });
 
     expect(res.status).toBe(200);
     expect(res.body).toHaveProperty('pending', true);
     expect(res.body).toHaveProperty('assessmentId');
   });
 
+  it('stores the pending assessment and the metrics sent for it', async () => {
+    const check = await agent
+      .post('/api/trade-pause/check-trade')
+      .send({ orderContext, fastMode: true, signals: {} });
+
+    const update = await agent
+      .put(`/api/trade-pause/assessments/${check.body.assessmentId}/facial-metrics`)
+      .send({ facialMetrics: { isPresent: true, blinkRate: 15, eyeAspectRatio: 0.25, jawOpenness: 0.1, browFurrow: 0.2, gazeStability: 0.8 }, stressLevel: 5 });
+    expect(update.status).toBe(200);
+
+    const stored = await agent.get(`/api/trade-pause/assessments/${check.body.assessmentId}`);
+    expect(stored.status).toBe(200);
+    expect(stored.body).toMatchObject({ id: check.body.assessmentId, userId: trader.id, facialMetrics: { blinkRate: 15 } });
+  });
+
+  it('moves the assessment from pending to collecting when signals arrive', async () => {
+    const check = await agent
+      .post('/api/trade-pause/check-trade')
+      .send({ orderContext, fastMode: true, signals: {} });
+    expect(check.body.status).toBe('pending');
+
+    await agent
+      .put(`/api/trade-pause/assessments/${check.body.assessmentId}/facial-metrics`)
+      .send({ stressLevel: 4 });
+
+    const stored = await agent.get(`/api/trade-pause/assessments/${check.body.assessmentId}`);
+    expect(stored.body).toMatchObject({ status: 'collecting', verdict: 'pending' });
+  });
+
+  it('refuses to override an assessment that has no verdict yet', async () => {
+    const check = await agent
+      .post('/api/trade-pause/check-trade')
+      .send({ orderContext, fastMode: true, signals: {} });
+
+    const res = await agent
+      .post('/api/trade-pause/override')
+      .send({ assessmentId: check.body.assessmentId, reason: 'Closing a hedge' });
+
+    expect(res.status).toBe(409);
+    const stored = await agent.get(`/api/trade-pause/assessments/${check.body.assessmentId}`);
+    expect(stored.body).toMatchObject({ status: 'pending', overrideUsed: false });
+  });
+
+  it("hides another trader's assessment", async () => {
+    const check = await agent
+      .post('/api/trade-pause/check-trade')
+      .send({ orderContext, fastMode: true, signals: {} });
+    const otherAgent = await loginAs(otherTrader);
+
+    expect((await otherAgent.get(`/api/trade-pause/assessments/${check.body.assessmentId}`)).status).toBe(404);
+  });
+
   it('rejects facial-metrics update with missing assessmentId', async () => {
-    const res = await request(serverInstance)
+    const res = await agent
       .put('/api/trade-pause/assessments/undefined/facial-metrics')
       .send({ facialMetrics: { isPresent: false, blinkRate: 0 } });
 
@@ -41,3 +206,556 @@ describe('TradePause API', () => {
     expect(res.body).toHaveProperty('message');
   });
 });
+
+describe('Role-based access', () => {
+  it('forbids traders from changing policies and audits the attempt', async () => {
+    const res = await agent.put('/api/policies/some-policy').send({ riskThreshold: 10 });
+
+    expect(res.status).toBe(403);
+    const denials = await inDefaultTenant(() => storage.getAuditLogs({ userId: trader.id, action: 'access_denied' }));
+    expect(denials).toContainEqual(expect.objectContaining({
+      details: expect.objectContaining({ permission: 'policies.update', role: 'trader' }),
+    }));
+  });
+
+  it('forbids traders from reading audit logs, monitoring and alerts', async () => {
+    for (const path of ['/api/audit-logs', '/api/monitoring/team-metrics', '/api/alerts/active']) {
+      const res = await agent.get(path);
+      expect(res.status, path).toBe(403);
+    }
+  });
+
+  it('lets supervisors see traders on their desks only', async () => {
+    const supervisorAgent = await loginAs(supervisor);
+
+    expect((await supervisorAgent.get(`/api/assessments/${trader.id}`)).status).toBe(200);
+    expect((await supervisorAgent.get(`/api/assessments/${otherTrader.id}`)).status).toBe(403);
+    expect((await supervisorAgent.get(`/api/audit-logs?userId=${otherTrader.id}`)).status).toBe(403);
+    expect((await supervisorAgent.get('/api/alerts/active')).status).toBe(200);
+  });
+
+  it('keeps alert policy management admin-only', async () => {
+    const supervisorAgent = await loginAs(supervisor);
+    const adminAgent = await loginAs(admin);
+    const alertPolicy = await inDefaultTenant(() => storage.createAlertPolicy({ name: 'Desk stress' }));
+
+    expect((await supervisorAgent.delete(`/api/alerts/policies/${alertPolicy.id}`)).status).toBe(403);
+    expect((await adminAgent.delete(`/api/alerts/policies/${alertPolicy.id}`)).status).toBe(204);
+    expect(await inDefaultTenant(() => storage.getAlertPolicy(alertPolicy.id))).toBeUndefined();
+    expect((await adminAgent.get(`/api/assessments/${otherTrader.id}`)).status).toBe(200);
+  });
+});
+
+describe('Desk policy resolution', () => {
+  let deskPolicy: Policy;
+  let overridePolicy: Policy;
+
+  beforeAll(async () => {
+    deskPolicy = await createPolicy({ name: 'FX desk' });
+    overridePolicy = await createPolicy({ name: 'Alice override' });
+    await inDefaultTenant(() => storage.updateTradingDesk(fxDesk.id, { policyId: deskPolicy.id }));
+  });
+
+  afterAll(async () => {
+    await inDefaultTenant(async () => {
+      await storage.updateTradingDesk(fxDesk.id, { policyId: null });
+      await storage.updateUser(trader.id, { policyId: null });
+    });
+  });
+
+  it('prefers the user override, then the desk policy, then the tenant default', async () => {
+    const resolve = (userId: string) => inDefaultTenant(() => storage.resolvePolicy(userId));
+
+    expect(await resolve(trader.id)).toMatchObject({ source: 'desk', policy: { id: deskPolicy.id } });
+    expect(await resolve(otherTrader.id)).toMatchObject({ source: 'tenant' });
+
+    await inDefaultTenant(() => storage.updateUser(trader.id, { policyId: overridePolicy.id }));
+    expect(await resolve(trader.id)).toMatchObject({ source: 'user', policy: { id: overridePolicy.id } });
+    await inDefaultTenant(() => storage.updateUser(trader.id, { policyId: null }));
+  });
+
+  it('records the resolved policy on the assessment', async () => {
+    const res = await agent
+      .post('/api/trade-pause/check-trade')
+      .send({ orderContext, fastMode: true, signals: {} });
+
+    expect(res.status).toBe(200);
+    const assessment = await agent.get(`/api/trade-pause/assessments/${res.body.assessmentId}`);
+    expect(assessment.body).toMatchObject({ userId: trader.id, policyId: deskPolicy.id, policyVersion: 1 });
+  });
+
+  it('keeps desk management admin-only and validates references', async () => {
+    const adminAgent = await loginAs(admin);
+
+    expect((await agent.post('/api/desks').send({ name: 'Rates' })).status).toBe(403);
+    expect((await adminAgent.post('/api/desks').send({ name: 'Rates', policyId: 'no-such-policy' })).status).toBe(422);
+    expect((await adminAgent.post('/api/desks').send({ name: 'Rates', supervisorId: otherTrader.id })).status).toBe(422);
+    const created = await adminAgent.post('/api/desks').send({ name: 'Rates 2', policyId: deskPolicy.id });
+    expect(created.status).toBe(201);
+
+    const spareTrader = await inDefaultTenant(() => storage.createUser({ username: 'erin' }));
+    expect((await adminAgent.put(`/api/users/${spareTrader.id}/desk`).send({ deskId: 'no-such-desk' })).status).toBe(422);
+    expect((await adminAgent.put(`/api/users/${spareTrader.id}/desk`).send({ deskId: created.body.id })).status).toBe(200);
+    expect(await inDefaultTenant(() => storage.resolvePolicy(spareTrader.id))).toMatchObject({ source: 'desk' });
+
+    expect((await adminAgent.delete('/api/desks/no-such-desk')).status).toBe(404);
+    expect((await adminAgent.delete(`/api/desks/${created.body.id}`)).status).toBe(204);
+    expect(await inDefaultTenant(() => storage.getUser(spareTrader.id))).toMatchObject({ deskId: null });
+  });
+});
+
+describe('Policy revisions', () => {
+  let policy: Policy;
+
+  // Version 1 has a lower threshold and voice prosody on; version 2 reverts both
+  beforeEach(async () => {
+    policy = await createPolicy({ name: 'Rates', riskThreshold: 50, enabledModes: { cognitiveTest: true, voiceProsody: true } });
+    policy = (await inDefaultTenant(() => storage.updatePolicy(
+      policy.id,
+      { riskThreshold: 65, enabledModes: { cognitiveTest: true, voiceProsody: false } },
+      { authorId: admin.id, reason: 'change 2' },
+    )))!;
+  });
+
+  it('requires a change reason', async () => {
+    const adminAgent = await loginAs(admin);
+
+    const res = await adminAgent.put(`/api/policies/${policy.id}`).send({ riskThreshold: 80 });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('records each update as a new revision with its author and reason', async () => {
+    const adminAgent = await loginAs(admin);
+
+    const res = await adminAgent
+      .put(`/api/policies/${policy.id}`)
+      .send({ riskThreshold: 80, reason: 'Tighten after volatility review' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ version: 3, riskThreshold: 80 });
+    const revisions = await adminAgent.get(`/api/policies/${policy.id}/revisions`);
+    expect(revisions.body.map((r: any) => r.version)).toEqual([3, 2, 1]);
+    expect(revisions.body[0]).toMatchObject({
+      authorId: admin.id,
+      reason: 'Tighten after volatility review',
+      snapshot: expect.objectContaining({ riskThreshold: 80 }),
+    });
+  });
+
+  it('diffs two revisions field by field', async () => {
+    const adminAgent = await loginAs(admin);
+
+    const res = await adminAgent.get(`/api/policies/${policy.id}/diff?from=1&to=2`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.changes).toEqual([
+      { field: 'riskThreshold', from: 50, to: 65 },
+      { field: 'enabledModes.voiceProsody', from: true, to: false },
+    ]);
+    expect((await adminAgent.get(`/api/policies/${policy.id}/diff?from=1&to=9`)).status).toBe(404);
+  });
+
+  it('rolls back by writing the old settings as a new revision', async () => {
+    const adminAgent = await loginAs(admin);
+
+    expect((await agent.post(`/api/policies/${policy.id}/rollback`).send({ version: 1, reason: 'revert' })).status).toBe(403);
+
+    const res = await adminAgent.post(`/api/policies/${policy.id}/rollback`).send({ version: 1, reason: 'revert' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ version: 3, riskThreshold: 50 });
+    const latest = await inDefaultTenant(() => storage.getPolicyRevision(policy.id, 3));
+    expect(latest).toMatchObject({ authorId: admin.id, reason: 'revert', restoredVersion: 1 });
+  });
+});
+
+describe('Policy change approval', () => {
+  let livePolicy: Policy;
+
+  const propose = async () => {
+    const adminAgent = await loginAs(admin);
+    const res = await adminAgent.put(`/api/policies/${livePolicy.id}`).send({ riskThreshold: 50, reason: 'Loosen for month end' });
+    expect(res.status).toBe(202);
+    return res.body;
+  };
+
+  // A policy is live once a desk uses it
+  beforeEach(async () => {
+    livePolicy = await createPolicy({ name: 'Live' });
+    await inDefaultTenant(() => storage.updateTradingDesk(ratesDesk.id, { policyId: livePolicy.id }));
+  });
+
+  afterAll(async () => {
+    await inDefaultTenant(() => storage.updateTradingDesk(ratesDesk.id, { policyId: null }));
+  });
+
+  it('holds sensitive edits to a live policy for approval', async () => {
+    const adminAgent = await loginAs(admin);
+
+    const held = await propose();
+    expect(held).toMatchObject({ status: 'pending', baseVersion: 1, proposedBy: admin.id });
+    expect(await inDefaultTenant(() => storage.getPolicy(livePolicy.id))).toMatchObject({ version: 1, riskThreshold: 65 });
+    const proposals = await inDefaultTenant(() => storage.getAuditLogs({ userId: admin.id, action: 'policy_change_proposed' }));
+    expect(proposals).toContainEqual(expect.objectContaining({ details: expect.objectContaining({ requestId: held.id }) }));
+
+    const direct = await adminAgent.put(`/api/policies/${livePolicy.id}`).send({ name: 'Renamed', reason: 'Clearer name' });
+    expect(direct.status).toBe(200);
+    expect(direct.body).toMatchObject({ version: 2, name: 'Renamed' });
+  });
+
+  it('refuses to let the proposer approve their own change', async () => {
+    const adminAgent = await loginAs(admin);
+    const held = await propose();
+
+    const res = await adminAgent.post(`/api/policies/change-requests/${held.id}/approve`).send({});
+
+    expect(res.status).toBe(403);
+    expect(await inDefaultTenant(() => storage.getPolicyChangeRequest(held.id))).toMatchObject({ status: 'pending' });
+    const denials = await inDefaultTenant(() => storage.getAuditLogs({ userId: admin.id, action: 'access_denied' }));
+    expect(denials.length).toBeGreaterThan(0);
+  });
+
+  it('applies the change as the proposer once a second reviewer approves', async () => {
+    const supervisorAgent = await loginAs(supervisor);
+    const held = await propose();
+
+    expect((await agent.post(`/api/policies/change-requests/${held.id}/approve`).send({})).status).toBe(403);
+
+    const res = await supervisorAgent.post(`/api/policies/change-requests/${held.id}/approve`).send({ note: 'OK for month end' });
+
+    expect(res.status).toBe(200);
+    expect(await inDefaultTenant(() => storage.getPolicy(livePolicy.id))).toMatchObject({ version: 2, riskThreshold: 50 });
+    expect(await inDefaultTenant(() => storage.getPolicyRevision(livePolicy.id, 2))).toMatchObject({ authorId: admin.id });
+    expect(await inDefaultTenant(() => storage.getPolicyChangeRequest(held.id)))
+      .toMatchObject({ status: 'approved', reviewedBy: supervisor.id, appliedVersion: 2 });
+    expect((await supervisorAgent.post(`/api/policies/change-requests/${held.id}/reject`).send({})).status).toBe(409);
+  });
+
+  it('rejects approval when the policy moved on since the proposal', async () => {
+    const supervisorAgent = await loginAs(supervisor);
+    const held = await propose();
+    await inDefaultTenant(() => storage.updatePolicy(livePolicy.id, { name: 'Moved on' }, { authorId: admin.id, reason: 'rename' }));
+
+    const res = await supervisorAgent.post(`/api/policies/change-requests/${held.id}/approve`).send({});
+
+    expect(res.status).toBe(409);
+  });
+
+  it('never applies a change that was rejected while it was being approved', async () => {
+    const held = await propose();
+
+    const [approval, rejection] = await Promise.allSettled([
+      inDefaultTenant(() => policyApproval.approve(held.id, supervisor.id)),
+      inDefaultTenant(() => policyApproval.reject(held.id, otherTrader.id)),
+    ]);
+
+    expect([approval.status, rejection.status].sort()).toEqual(['fulfilled', 'rejected']);
+    const settled = await inDefaultTenant(() => storage.getPolicyChangeRequest(held.id));
+    const live = await inDefaultTenant(() => storage.getPolicy(livePolicy.id));
+    if (settled!.status === 'approved') {
+      expect(live).toMatchObject({ version: 2, riskThreshold: 50 });
+      expect(settled!.appliedVersion).toBe(2);
+    } else {
+      expect(settled!.status).toBe('rejected');
+      expect(live).toMatchObject({ version: 1, riskThreshold: 65 });
+    }
+  });
+
+  it('refuses a policy update made against an older version', async () => {
+    await inDefaultTenant(() => storage.updatePolicy(livePolicy.id, { name: 'Moved on' }, { authorId: admin.id, reason: 'rename' }));
+
+    await expect(inDefaultTenant(() => storage.updatePolicy(
+      livePolicy.id,
+      { riskThreshold: 50 },
+      { authorId: admin.id, reason: 'Loosen for month end', baseVersion: 1 },
+    ))).rejects.toThrow('Policy has moved from version 1 to 2');
+    expect(await inDefaultTenant(() => storage.getPolicy(livePolicy.id))).toMatchObject({ version: 2, riskThreshold: 65 });
+  });
+
+  it('expires stale requests instead of approving them', async () => {
+    const supervisorAgent = await loginAs(supervisor);
+    const stale = await inDefaultTenant(() => storage.createPolicyChangeRequest({
+      policyId: livePolicy.id,
+      baseVersion: 1,
+      changes: { riskThreshold: 50 },
+      reason: 'Loosen for month end',
+      proposedBy: admin.id,
+      expiresAt: new Date(Date.now() - 1000),
+    }));
+
+    const res = await supervisorAgent.post(`/api/policies/change-requests/${stale.id}/approve`).send({});
+
+    expect(res.status).toBe(409);
+    expect(await inDefaultTenant(() => storage.getPolicyChangeRequest(stale.id))).toMatchObject({ status: 'expired' });
+    const expiries = await inDefaultTenant(() => storage.getAuditLogs({ action: 'policy_change_expired' }));
+    expect(expiries).toContainEqual(expect.objectContaining({ details: expect.objectContaining({ requestId: stale.id }) }));
+  });
+});
+
+describe('Policy what-if simulation', () => {
+  const range = () => ({ from: new Date(Date.now() - 86_400_000).toISOString(), to: new Date(Date.now() + 60_000).toISOString() });
+
+  // Quick checks scored under a 65 threshold, each with a realised trade outcome
+  beforeAll(async () => {
+    const recorded = await createPolicy({ name: 'Recorded', riskThreshold: 65 });
+    const scored = (userId: string, riskScore: number, pnl: number): InsertAssessment => ({
+      userId,
+      policyId: recorded.id,
+      policyVersion: recorded.version,
+      orderContext,
+      riskScore,
+      verdict: riskScore >= 80 ? 'block' : riskScore >= 65 ? 'hold' : 'go',
+      reasonTags: [],
+      tradeExecuted: true,
+      tradeOutcome: { executed: true, pnl },
+    });
+    await inDefaultTenant(async () => {
+      await storage.createAssessment(scored(trader.id, 40, 120));
+      await storage.createAssessment(scored(trader.id, 60, -300));
+      await storage.createAssessment(scored(trader.id, 70, -50));
+      await storage.createAssessment(scored(otherTrader.id, 58, 75));
+    });
+  });
+
+  it('is not available to traders', async () => {
+    const res = await agent.post('/api/policies/simulate').send({ policy: { riskThreshold: 55 }, ...range() });
+    expect(res.status).toBe(403);
+  });
+
+  it('reports verdicts and PnL a lower threshold would have changed', async () => {
+    const adminAgent = await loginAs(admin);
+
+    const res = await adminAgent.post('/api/policies/simulate').send({ policy: { riskThreshold: 55 }, deskId: fxDesk.id, ...range() });
+
+    expect(res.status).toBe(200);
+    expect(res.body.policy.riskThreshold).toBe(55);
+    expect(res.body.replayed).toBe(3);
+    expect(res.body.transitions).toEqual({ 'go->hold': 1 });
+    expect(res.body.holdRateDelta).toBeCloseTo(1 / 3);
+    expect(res.body.newlyStopped).toEqual({ count: 1, executed: 1, pnl: -300, winners: 0, losers: 1 });
+    expect(res.body.changes).toEqual([expect.objectContaining({ userId: trader.id, riskScore: 60, from: 'go', to: 'hold' })]);
+  });
+
+  it('limits the replay to the traders a supervisor can see', async () => {
+    const supervisorAgent = await loginAs(supervisor);
+
+    const res = await supervisorAgent.post('/api/policies/simulate').send({ policy: { riskThreshold: 55 }, ...range() });
+
+    expect(res.status).toBe(200);
+    expect(res.body.changes.map((change: any) => change.userId)).toEqual([trader.id]);
+  });
+
+  it('rejects an unknown desk and an inverted range', async () => {
+    const adminAgent = await loginAs(admin);
+    const { from, to } = range();
+
+    const unknownDesk = await adminAgent.post('/api/policies/simulate').send({ policy: {}, deskId: 'desk-missing', from, to });
+    expect(unknownDesk.status).toBe(404);
+
+    const inverted = await adminAgent.post('/api/policies/simulate').send({ policy: {}, from: to, to: from });
+    expect(inverted.status).toBe(400);
+  });
+});
+
+describe('Data retention', () => {
+  it('is limited to admins', async () => {
+    const supervisorAgent = await loginAs(supervisor);
+
+    const res = await supervisorAgent.post('/api/retention/run').send({});
+
+    expect(res.status).toBe(403);
+  });
+
+  it('defaults to a dry run and records who ran it', async () => {
+    const adminAgent = await loginAs(admin);
+
+    const res = await adminAgent.post('/api/retention/run').send({});
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ dryRun: true, assessmentsRedacted: 0 });
+    const [summary] = await inDefaultTenant(() => storage.getAuditLogs({ action: 'retention_purge', limit: 1 }));
+    expect(summary).toMatchObject({ userId: admin.id, details: expect.objectContaining({ dryRun: true }) });
+  });
+});
+
+describe('Trade authorization', () => {
+  const order = { instrument: orderContext.instrument, side: orderContext.side as 'buy', size: orderContext.size };
+  const issue = () => inDefaultTenant(async () => {
+    const policy = await storage.getDefaultPolicy();
+    const assessment = await storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext, verdict: 'go', riskScore: 20 });
+    return tradeAuthorization.issue(assessment, order);
+  });
+
+  it('lets an order system redeem a token once, without a session', async () => {
+    const { token } = await issue();
+    const oms = request(serverInstance);
+
+    const first = await oms.post('/api/trade-authorizations/verify').send({ token, order });
+    expect(first.status).toBe(200);
+    expect(first.body).toMatchObject({ valid: true, userId: trader.id, order });
+    expect(first.body.consumedAt).toBeTruthy();
+
+    const replay = await oms.post('/api/trade-authorizations/verify').send({ token, order });
+    expect(replay.status).toBe(409);
+    expect(replay.body).toMatchObject({ valid: false });
+  });
+
+  it('rejects tampered tokens and orders other than the authorized one', async () => {
+    const { token } = await issue();
+    const oms = request(serverInstance);
+
+    const [prefix, claims, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(claims, 'base64url').toString()), order: { ...order, size: 1_000_000 } })).toString('base64url');
+    expect((await oms.post('/api/trade-authorizations/verify').send({ token: `${prefix}.${forged}.${signature}` })).status).toBe(401);
+
+    const larger = await oms.post('/api/trade-authorizations/verify').send({ token, order: { ...order, size: order.size * 10 } });
+    expect(larger.status).toBe(422);
+
+    // A rejected order does not use the token up
+    expect((await oms.post('/api/trade-authorizations/verify').send({ token, order })).status).toBe(200);
+  });
+});
+
+describe('Idempotency keys', () => {
+  it('replays the first response to a retried request instead of running it again', async () => {
+    const key = `retry-${Date.now()}`;
+    const before = await inDefaultTenant(() => storage.getUserAssessments(trader.id, 1000));
+
+    const first = await agent.post('/api/trade-pause/check-trade').set('Idempotency-Key', key).send({ orderContext, fastMode: true, signals: {} });
+    const retry = await agent.post('/api/trade-pause/check-trade').set('Idempotency-Key', key).send({ orderContext, fastMode: true, signals: {} });
+
+    expect(retry.status).toBe(first.status);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    const after = await inDefaultTenant(() => storage.getUserAssessments(trader.id, 1000));
+    expect(after).toHaveLength(before.length + 1);
+  });
+
+  it('refuses to reuse a key for a different request', async () => {
+    const key = `reuse-${Date.now()}`;
+    await agent.post('/api/trade-pause/check-trade').set('Idempotency-Key', key).send({ orderContext, fastMode: true, signals: {} });
+
+    const res = await agent
+      .post('/api/trade-pause/check-trade')
+      .set('Idempotency-Key', key)
+      .send({ orderContext: { ...orderContext, size: 5 }, fastMode: true, signals: {} });
+
+    expect(res.status).toBe(422);
+  });
+
+  it('keeps keys per user', async () => {
+    const key = `shared-${Date.now()}`;
+    const otherAgent = await loginAs(otherTrader);
+
+    const mine = await agent.post('/api/trade-pause/check-trade').set('Idempotency-Key', key).send({ orderContext, fastMode: true, signals: {} });
+    const theirs = await otherAgent.post('/api/trade-pause/check-trade').set('Idempotency-Key', key).send({ orderContext, fastMode: true, signals: {} });
+
+    expect(theirs.status).toBe(200);
+    expect(theirs.body.assessmentId).not.toBe(mine.body.assessmentId);
+  });
+});
+
+describe('Verdict reuse', () => {
+  afterAll(async () => {
+    await inDefaultTenant(() => storage.updateUser(trader.id, { policyId: null }));
+  });
+
+  it('covers the next order with the latest allow when the policy sets a reuse window', async () => {
+    const order = { ...orderContext, instrument: 'USD/JPY' };
+    expect((await agent.post('/api/trade-pause/verdict-reuse').send({ orderContext: order })).body)
+      .toMatchObject({ covered: false, reason: 'Verdict reuse is off under this policy' });
+
+    const policy = await createPolicy({ name: 'Scaling in', verdictReuseMinutes: 5, verdictReuseOrders: 3 });
+    const allow = await inDefaultTenant(async () => {
+      await storage.updateUser(trader.id, { policyId: policy.id });
+      return storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext: order, verdict: 'go', status: 'rendered', riskScore: 25 });
+    });
+
+    const res = await agent.post('/api/trade-pause/verdict-reuse').send({ orderContext: order });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ covered: true, assessmentId: allow.id, ordersRemaining: 2 });
+    const redeemed = await request(serverInstance)
+      .post('/api/trade-authorizations/verify')
+      .send({ token: res.body.authorization.token, order: { instrument: order.instrument, side: order.side, size: order.size } });
+    expect(redeemed.body).toMatchObject({ valid: true, assessmentId: allow.id });
+  });
+});
+
+describe('Override governance', () => {
+  afterAll(async () => {
+    await inDefaultTenant(() => storage.updateUser(trader.id, { policyId: null }));
+  });
+
+  it('holds an override of a block verdict until the desk supervisor co-signs it', async () => {
+    const policy = await createPolicy({ name: 'Co-signed overrides' });
+    const block = await inDefaultTenant(async () => {
+      await storage.updateUser(trader.id, { policyId: policy.id });
+      return storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext, verdict: 'block', status: 'rendered', riskScore: 88 });
+    });
+
+    const res = await agent.post('/api/trade-pause/override').send({ assessmentId: block.id, reason: 'Closing a hedge' });
+
+    expect(res.status).toBe(202);
+    expect(res.body).toMatchObject({ success: false, status: 'pending_approval', trigger: 'block_verdict' });
+    expect((await agent.get(`/api/trade-pause/override-requests/${res.body.requestId}`)).body).toMatchObject({ status: 'pending' });
+    expect((await agent.post(`/api/trade-pause/override-requests/${res.body.requestId}/approve`).send({})).status).toBe(403);
+
+    const adminAgent = await loginAs(admin);
+    const supervisorAgent = await loginAs(supervisor);
+    expect((await supervisorAgent.get('/api/trade-pause/override-requests')).body.map((r: { id: string }) => r.id))
+      .toContain(res.body.requestId);
+
+    const approved = await supervisorAgent.post(`/api/trade-pause/override-requests/${res.body.requestId}/approve`).send({ note: 'Hedge confirmed' });
+    expect(approved.status).toBe(200);
+    expect(approved.body).toMatchObject({ status: 'approved', reviewedBy: supervisor.id });
+    expect((await adminAgent.post(`/api/trade-pause/override-requests/${res.body.requestId}/reject`).send({})).status).toBe(409);
+    expect((await agent.get(`/api/trade-pause/assessments/${block.id}`)).body).toMatchObject({ status: 'overridden', overrideUsed: true });
+  });
+
+  it('sends co-sign requests over the WebSocket only to the supervisors who may decide them', async () => {
+    const refused = await new Promise<number | undefined>((resolve) => {
+      const anonymous = new WebSocket(`ws://127.0.0.1:${serverInstance.address().port}/ws`);
+      anonymous.once('unexpected-response', (_req, res) => resolve(res.statusCode));
+      anonymous.once('open', () => resolve(undefined));
+    });
+    expect(refused).toBe(401);
+
+    const policy = await createPolicy({ name: 'Realtime co-sign' });
+    const { outsider, block } = await inDefaultTenant(async () => {
+      await storage.updateUser(trader.id, { policyId: policy.id });
+      return {
+        // A supervisor without a desk cannot co-sign alice's overrides
+        outsider: await storage.createUser({ username: 'frank', role: 'supervisor', passwordHash: await hashPassword(PASSWORD) }),
+        block: await storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext, verdict: 'block', status: 'rendered', riskScore: 90 }),
+      };
+    });
+    const sockets = {
+      trader: await openSocket(trader),
+      otherTrader: await openSocket(otherTrader),
+      supervisor: await openSocket(supervisor),
+      admin: await openSocket(admin),
+      outsider: await openSocket(outsider),
+    };
+
+    try {
+      const res = await agent.post('/api/trade-pause/override').send({ assessmentId: block.id, reason: 'Closing a hedge' });
+      expect(res.status).toBe(202);
+      await vi.waitFor(() => expect(sockets.admin.events).toContain('override_approval_requested'));
+
+      const supervisorAgent = await loginAs(supervisor);
+      expect((await supervisorAgent.post(`/api/trade-pause/override-requests/${res.body.requestId}/reject`).send({})).status).toBe(200);
+      await vi.waitFor(() => expect(sockets.trader.events).toContain('override_approval_resolved'));
+
+      const received = (events: string[]) => events.filter((type) => type.startsWith('override_approval_'));
+      expect(received(sockets.supervisor.events)).toEqual(['override_approval_requested', 'override_approval_resolved']);
+      await vi.waitFor(() => expect(received(sockets.admin.events)).toEqual(['override_approval_requested', 'override_approval_resolved']));
+      expect(received(sockets.trader.events)).toEqual(['override_approval_resolved']);
+      expect(received(sockets.otherTrader.events)).toEqual([]);
+      expect(received(sockets.outsider.events)).toEqual([]);
+    } finally {
+      Object.values(sockets).forEach(({ socket }) => socket.close());
+    }
+  });
+});
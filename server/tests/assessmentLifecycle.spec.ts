@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Assessment, Tenant, User } from '@shared/schema';
+import { PENDING_ASSESSMENT_TTL_MS } from '@shared/assessmentLifecycle';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { assessmentLifecycle, AssessmentTransitionError, type AssessmentTransition } from '../services/assessmentLifecycle';
+
+describe('AssessmentLifecycleService', () => {
+  let tenant: Tenant;
+  let trader: User;
+  let policyId: string;
+  const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+  const open = (status?: 'pending' | 'collecting' | 'rendered') =>
+    inTenant(() => assessmentLifecycle.open({ userId: trader.id, policyId, orderContext: {}, verdict: 'pending' }, status));
+
+  beforeEach(async () => {
+    tenant = await (storage as MemoryStorage).createTenant({ name: 'Lifecycle', apiKey: `lifecycle-${randomUUID()}` });
+    await inTenant(async () => {
+      trader = await storage.createUser({ username: 'alice' });
+      policyId = (await storage.getDefaultPolicy()).id;
+    });
+  });
+
+  it('walks an assessment to a verdict, recording and announcing each step', async () => {
+    const seen: AssessmentTransition[] = [];
+    const unsubscribe = assessmentLifecycle.onTransition((transition) => seen.push(transition));
+
+    let assessment = await open();
+    assessment = await inTenant(() => assessmentLifecycle.acceptSignals(assessment, { selfReportStress: 6 }));
+    assessment = await inTenant(() => assessmentLifecycle.transition(assessment, 'rendered', { verdict: 'hold', riskScore: 74 }));
+    assessment = await inTenant(() => assessmentLifecycle.transition(assessment, 'cooling_down'));
+    unsubscribe();
+
+    expect(assessment).toMatchObject({ status: 'cooling_down', verdict: 'hold', riskScore: 74, selfReportStress: 6 });
+    expect(seen.map(({ from, to }) => [from, to])).toEqual([
+      [null, 'pending'],
+      ['pending', 'collecting'],
+      ['collecting', 'rendered'],
+      ['rendered', 'cooling_down'],
+    ]);
+
+    const events = await inTenant(() => storage.getRecentEvents());
+    expect(events.filter((event) => event.eventType === 'assessment_status_changed')).toHaveLength(4);
+  });
+
+  it('rejects transitions the lifecycle does not allow and ones that lost a race', async () => {
+    const pending = await open();
+    await expect(inTenant(() => assessmentLifecycle.transition(pending, 'overridden')))
+      .rejects.toThrow(AssessmentTransitionError);
+
+    const rendered = await inTenant(() => assessmentLifecycle.transition(pending, 'rendered', { verdict: 'go' }));
+    await expect(inTenant(() => assessmentLifecycle.acceptSignals(rendered, { selfReportStress: 3 })))
+      .rejects.toThrow('no longer accepts signals');
+
+    // Two requests read the same rendered row; only the first one may move it
+    await inTenant(() => assessmentLifecycle.transition(rendered, 'completed'));
+    await expect(inTenant(() => assessmentLifecycle.transition(rendered, 'overridden')))
+      .rejects.toMatchObject({ status: 409 });
+    expect(await inTenant(() => storage.getAssessment(rendered.id))).toMatchObject({ status: 'completed', overrideUsed: false });
+  });
+
+  it('expires assessments left without a verdict past the TTL', async () => {
+    const abandoned = await open('collecting');
+    const later = new Date(Date.now() + PENDING_ASSESSMENT_TTL_MS + 1000);
+
+    const expired = await inTenant(() => assessmentLifecycle.expireIfStale(abandoned, later));
+    expect(expired.status).toBe('expired');
+
+    const decided: Assessment = await open('rendered');
+    expect((await inTenant(() => assessmentLifecycle.expireIfStale(decided, later))).status).toBe('rendered');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Policy, Tenant, User } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { cooldownLadder, ladderSeconds, ladderStep, type LadderPolicy } from '../services/cooldownLadder';
+
+const ladder: LadderPolicy = {
+  cooldownLadderWindowMinutes: 60,
+  cooldownLadderGrowthPct: 100,
+  cooldownLadderMaxSeconds: 300,
+  cooldownLadderResetAfter: 2,
+};
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000);
+const verdict = (v: string, minutes: number, status: 'rendered' | 'pending' = 'rendered') =>
+  ({ verdict: v, status, createdAt: minutesAgo(minutes) });
+
+describe('Cooldown ladder', () => {
+  it('climbs with each hold or block in the window and stops at a clean streak', () => {
+    expect(ladderStep([verdict('hold', 1), verdict('block', 5), verdict('hold', 10)], ladder)).toBe(3);
+    // Outside the window, or still waiting for a verdict
+    expect(ladderStep([verdict('hold', 1), verdict('pending', 2, 'pending'), verdict('hold', 90)], ladder)).toBe(1);
+    // Two allows in a row forgive everything before them; one does not
+    expect(ladderStep([verdict('go', 1), verdict('go', 2), verdict('hold', 3)], ladder)).toBe(0);
+    expect(ladderStep([verdict('hold', 1), verdict('go', 2), verdict('hold', 3)], ladder)).toBe(2);
+    expect(ladderStep([verdict('hold', 1)], { ...ladder, cooldownLadderWindowMinutes: 0 })).toBe(0);
+  });
+
+  it('grows the base cooldown per step up to the cap, never below the base', () => {
+    expect([0, 1, 2, 3, 4].map((step) => ladderSeconds(30, step, ladder))).toEqual([30, 60, 120, 240, 300]);
+    expect(ladderSeconds(30, 2, { ...ladder, cooldownLadderGrowthPct: 50 })).toBe(68);
+    expect(ladderSeconds(400, 3, ladder)).toBe(400);
+  });
+
+  describe('with stored assessments', () => {
+    let tenant: Tenant;
+    let trader: User;
+    let policy: Policy;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Ladder', apiKey: `ladder-${randomUUID()}` });
+      await inTenant(async () => {
+        trader = await storage.createUser({ username: 'alice' });
+        policy = await storage.createPolicy({ name: 'Ladder', ...ladder }, { authorId: trader.id, reason: 'test' });
+      });
+    });
+
+    it('lengthens the next cooldown and reports the rung through the active cooldown', async () => {
+      const hold = (cooldownDurationMs?: number, cooldownStep?: number) => inTenant(() => storage.createAssessment({
+        userId: trader.id, policyId: policy.id, orderContext: {}, verdict: 'hold', status: 'cooling_down', riskScore: 80,
+        cooldownDurationMs, cooldownStep,
+      }));
+
+      await hold();
+      const current = await hold();
+      const rung = await inTenant(() => cooldownLadder.rungFor(trader.id, policy, 30, { excludeId: current.id }));
+      expect(rung).toEqual({ step: 1, baseSeconds: 30, seconds: 60 });
+
+      await hold(rung.seconds * 1000, rung.step);
+      const active = await inTenant(() => storage.getActiveCooldown(trader.id));
+      expect(active).toMatchObject({ isInCooldown: true, step: 1 });
+      expect(active.remainingMs).toBeGreaterThan(55_000);
+    });
+  });
+});
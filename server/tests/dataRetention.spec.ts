@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Assessment, Tenant, User } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { dataRetentionService } from '../services/dataRetention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+// Rows are created now and the job is run at a later `now`, so they look that old
+describe('DataRetentionService', () => {
+  let tenant: Tenant;
+  let trader: User;
+  let longLived: Assessment; // default policy: 30 days
+  let shortLived: Assessment; // 7-day policy
+  const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+  beforeEach(async () => {
+    tenant = await (storage as MemoryStorage).createTenant({ name: 'Retention', apiKey: `retention-${randomUUID()}` });
+    await inTenant(async () => {
+      trader = await storage.createUser({ username: 'alice' });
+      const defaultPolicy = await storage.getDefaultPolicy();
+      const weekPolicy = await storage.createPolicy(
+        { name: 'Short retention', dataRetentionDays: 7 },
+        { authorId: trader.id, reason: 'test' },
+      );
+
+      const biometrics = {
+        userId: trader.id,
+        orderContext: { instrument: 'EUR/USD' },
+        verdict: 'hold',
+        riskScore: 72,
+        facialMetrics: { blinkRate: 31 },
+        behavioralMetrics: { mouseStability: 0.4 },
+        journalEntry: 'Revenge trading after the CPI print',
+      };
+      longLived = await storage.createAssessment({ ...biometrics, policyId: defaultPolicy.id });
+      shortLived = await storage.createAssessment({ ...biometrics, policyId: weekPolicy.id });
+
+      await storage.createAuditLog({
+        userId: trader.id,
+        assessmentId: longLived.id,
+        action: 'override_used',
+        details: { reason: 'Closing a hedge', originalVerdict: 'hold', stressLevel: 8 },
+      });
+      await storage.createAuditLog({
+        userId: trader.id,
+        assessmentId: longLived.id,
+        action: 'journal_entry_saved',
+        details: { entry: 'Revenge trading after the CPI print' },
+      });
+      await storage.createEvent({ eventType: 'verdict_rendered', userId: trader.id, assessmentId: longLived.id, data: {} });
+
+      const alertPolicy = await storage.createAlertPolicy({ name: 'Stress' });
+      await storage.createAlertHistory({
+        alertPolicyId: alertPolicy.id,
+        userId: trader.id,
+        alertType: 'threshold_breach',
+        severity: 'critical',
+        message: 'Stress above threshold',
+        stressLevel: 8,
+        triggerThreshold: 75,
+      });
+    });
+  });
+
+  it('applies each policy its own window and changes nothing on a dry run', async () => {
+    const report = await inTenant(() => dataRetentionService.run({ dryRun: true, now: daysFromNow(10) }));
+
+    expect(report).toMatchObject({ dryRun: true, assessmentsRedacted: 1, eventsDeleted: 0, alertsDeleted: 0 });
+    expect(report.policies.find((policy) => policy.retentionDays === 7)).toMatchObject({ expiredAssessments: 1 });
+    expect(await inTenant(() => storage.getAssessment(shortLived.id))).toMatchObject({ redactedAt: null, facialMetrics: { blinkRate: 31 } });
+
+    const [summary] = await inTenant(() => storage.getAuditLogs({ action: 'retention_purge' }));
+    expect(summary.details).toMatchObject({ dryRun: true, assessmentsRedacted: 1 });
+  });
+
+  it('redacts expired assessments, drops their events and alerts and keeps redacted compliance entries', async () => {
+    const now = daysFromNow(40);
+    const report = await inTenant(() => dataRetentionService.run({ now }));
+
+    expect(report).toMatchObject({
+      assessmentsRedacted: 2,
+      eventsDeleted: 1,
+      alertsDeleted: 1,
+      auditLogsRedacted: 1,
+      auditLogsDeleted: 1,
+    });
+
+    const redacted = await inTenant(() => storage.getAssessment(longLived.id));
+    expect(redacted).toMatchObject({
+      verdict: 'hold',
+      riskScore: 72,
+      facialMetrics: null,
+      behavioralMetrics: null,
+      journalEntry: null,
+      redactedAt: now,
+    });
+
+    const trail = await inTenant(() => storage.getAuditLogs({ assessmentId: longLived.id }));
+    expect(trail).toHaveLength(1);
+    expect(trail[0].action).toBe('override_used');
+    expect(trail[0].details).toEqual({
+      reason: 'Closing a hedge',
+      originalVerdict: 'hold',
+      redacted: true,
+      redactedAt: now.toISOString(),
+    });
+    expect(await inTenant(() => storage.getRecentEvents())).toEqual([]);
+    expect((await inTenant(() => storage.getAlertHistory({}))).total).toBe(0);
+
+    // Already redacted rows are not picked up again
+    const rerun = await inTenant(() => dataRetentionService.run({ now }));
+    expect(rerun.assessmentsRedacted).toBe(0);
+  });
+
+  it('runs for every active tenant', async () => {
+    const paused = await (storage as MemoryStorage).createTenant({ name: 'Paused', apiKey: `paused-${randomUUID()}`, isActive: false });
+
+    const reports = await dataRetentionService.runAllTenants({ dryRun: true });
+    const tenantIds = reports.map((report) => report.tenantId);
+
+    expect(tenantIds).toContain(tenant.id);
+    expect(tenantIds).toContain((await storage.getDefaultTenant()).id);
+    expect(tenantIds).not.toContain(paused.id);
+  });
+});
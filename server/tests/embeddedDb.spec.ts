@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseStorage, DEFAULT_TENANT_ID } from '../storage';
+import { openEmbeddedDb } from '../embeddedDb';
+import { defaultTenant } from '../storageShared';
+import { runWithTenant } from '../tenantContext';
+
+// DatabaseStorage reads `db` from ../db; point it at whichever embedded client the test opened
+const current = vi.hoisted(() => ({ db: undefined as unknown }));
+vi.mock('../db', () => ({
+  get db() {
+    return current.db;
+  },
+  dbReady: Promise.resolve(),
+}));
+
+describe('embedded database', () => {
+  const store = new DatabaseStorage();
+  const inDefaultTenant = <T>(fn: () => Promise<T>) => runWithTenant(defaultTenant(), fn);
+  let dataDir: string;
+
+  const open = async () => {
+    const embedded = await openEmbeddedDb(dataDir);
+    current.db = embedded.db;
+    return embedded.client;
+  };
+
+  beforeAll(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mindefender-embedded-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('migrates a fresh directory, runs the SQL storage paths and keeps data across restarts', async () => {
+    const first = await open();
+    const { user, assessment } = await inDefaultTenant(async () => {
+      const user = await store.createUser({ username: 'alice' });
+      const policy = await store.getDefaultPolicy();
+      const assessment = await store.createAssessment({
+        userId: user.id,
+        policyId: policy.id,
+        orderContext: {},
+        verdict: 'hold',
+        riskScore: 80,
+        cooldownDurationMs: 60_000,
+      });
+      return { user, assessment };
+    });
+
+    expect(user.tenantId).toBe(DEFAULT_TENANT_ID);
+    await expect(inDefaultTenant(() => store.createUser({ username: 'alice' }))).rejects.toThrow();
+    expect(await inDefaultTenant(() => store.getActiveCooldown(user.id)))
+      .toMatchObject({ isInCooldown: true, assessment: { id: assessment.id } });
+    expect(await inDefaultTenant(() => store.getAssessmentStats('day')))
+      .toMatchObject({ totalAssessments: 1, triggerRate: 100, averageRiskScore: 80 });
+    await first.close();
+
+    // Reopening re-runs the migrator, which must skip what is already applied
+    const second = await open();
+    expect(await inDefaultTenant(() => store.getUserByUsername('alice'))).toMatchObject({ id: user.id });
+    expect(await inDefaultTenant(() => store.getAssessment(assessment.id))).toMatchObject({ verdict: 'hold', riskScore: 80 });
+    await second.close();
+  }, 60_000);
+
+  it('seeds the default tenant and policy on a schema without them, and provisions tenants', async () => {
+    const client = await open();
+    // As a schema applied with db:push: every table, none of migration 0001's rows
+    await client.exec('DELETE FROM assessments; DELETE FROM users; DELETE FROM policies; DELETE FROM tenants;');
+
+    await store.seedDefaults();
+    await store.seedDefaults();
+    expect(await store.getTenants()).toEqual([expect.objectContaining({ id: DEFAULT_TENANT_ID })]);
+    await inDefaultTenant(async () => {
+      const user = await store.createUser({ username: 'bob' });
+      const policy = await store.getDefaultPolicy();
+      await store.createAssessment({ userId: user.id, policyId: policy.id, orderContext: {}, verdict: 'go' });
+    });
+
+    const firm = await store.createTenant({ name: 'Acme Capital', apiKey: 'acme-key' });
+    expect(await store.getTenantByApiKey('acme-key')).toMatchObject({ id: firm.id, isActive: true });
+    await client.close();
+  }, 60_000);
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Server } from 'node:http';
+import request from 'supertest';
+import express from 'express';
+import type { Tenant, User } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { idempotent } from '../idempotency';
+
+const HANDLER_MS = 300;
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Idempotency middleware', () => {
+  let server: Server;
+  let runs = 0;
+  let failing = false;
+
+  beforeAll(async () => {
+    const tenant: Tenant = await (storage as MemoryStorage).createTenant({ name: 'Retries', apiKey: `retries-${randomUUID()}` });
+    const user: User = await runWithTenant(tenant, () => storage.createUser({ username: 'alice' }));
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.tenant = tenant;
+      req.user = user;
+      runWithTenant(tenant, next);
+    });
+    app.post('/orders', idempotent(60_000), async (_req, res) => {
+      const run = ++runs;
+      await wait(HANDLER_MS);
+      if (failing) return res.status(503).json({ message: 'Unavailable' });
+      res.json({ run });
+    });
+    server = app.listen(0);
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const post = (key: string) => request(server).post('/orders').set('Idempotency-Key', key).send({ size: 1 });
+
+  it('keeps the key reserved when the client hangs up mid-request', async () => {
+    const key = `abort-${randomUUID()}`;
+    const before = runs;
+
+    await expect(post(key).timeout(50)).rejects.toThrow();
+    expect((await post(key)).status).toBe(409);
+
+    await wait(HANDLER_MS + 100);
+    const retry = await post(key);
+    expect(retry.status).toBe(200);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(runs).toBe(before + 1);
+    expect(retry.body).toEqual({ run: runs });
+  });
+
+  it('releases the key after a server error so the retry runs again', async () => {
+    const key = `error-${randomUUID()}`;
+    const before = runs;
+
+    failing = true;
+    expect((await post(key)).status).toBe(503);
+    failing = false;
+    expect((await post(key)).status).toBe(200);
+    expect(runs).toBe(before + 2);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { InsertAssessment, Tenant } from '@shared/schema';
+import { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+
+const makeTenant = (id: string): Tenant => ({
+  id,
+  name: id,
+  apiKey: `key-${id}`,
+  region: null,
+  defaultPolicyId: null,
+  isActive: true,
+  createdAt: new Date(),
+});
+
+const tenantA = makeTenant('tenant-a');
+const tenantB = makeTenant('tenant-b');
+
+const assessment = (overrides: Partial<InsertAssessment> = {}): InsertAssessment => ({
+  userId: 'u1',
+  policyId: 'p1',
+  orderContext: {},
+  verdict: 'go',
+  ...overrides,
+});
+
+describe('MemoryStorage', () => {
+  let store: MemoryStorage;
+  const inA = <T>(fn: () => Promise<T>) => runWithTenant(tenantA, fn);
+  const inB = <T>(fn: () => Promise<T>) => runWithTenant(tenantB, fn);
+
+  beforeEach(() => {
+    store = new MemoryStorage();
+  });
+
+  it('confines reads, updates and deletes to the current tenant', async () => {
+    const created = await inA(() => store.createAssessment(assessment()));
+
+    expect(created.tenantId).toBe(tenantA.id);
+    expect(await inB(() => store.getAssessment(created.id))).toBeUndefined();
+    expect(await inB(() => store.updateAssessment(created.id, { verdict: 'block' }))).toBeUndefined();
+    expect(await inA(() => store.getAssessment(created.id))).toMatchObject({ verdict: 'go' });
+    await expect(store.getAssessment(created.id)).rejects.toThrow(/No tenant in scope/);
+  });
+
+  it('fills column defaults and hands out copies', async () => {
+    const created = await inA(() => store.createAssessment(assessment()));
+
+    expect(created).toMatchObject({ riskScore: null, reasonTags: [], cooldownCompleted: false, overrideUsed: false });
+    expect(created.createdAt).toBeInstanceOf(Date);
+
+    (created.reasonTags as string[]).push('mutated');
+    expect((await inA(() => store.getAssessment(created.id)))!.reasonTags).toEqual([]);
+  });
+
+  it('reports a cooldown until it runs out or is completed', async () => {
+    const cooling = await inA(() => store.createAssessment(assessment({ cooldownDurationMs: 60_000 })));
+    await inA(() => store.createAssessment(assessment({ userId: 'u2', cooldownDurationMs: 60_000 })));
+
+    const active = await inA(() => store.getActiveCooldown('u1'));
+    expect(active).toMatchObject({ isInCooldown: true, assessment: { id: cooling.id } });
+    expect(active.remainingMs).toBeGreaterThan(59_000);
+    expect(await inB(() => store.getActiveCooldown('u1'))).toEqual({ isInCooldown: false, remainingMs: 0, step: 0 });
+
+    await inA(() => store.updateAssessment(cooling.id, { cooldownCompleted: true }));
+    expect(await inA(() => store.getActiveCooldown('u1'))).toEqual({ isInCooldown: false, remainingMs: 0, step: 0 });
+  });
+
+  it('computes assessment stats like the SQL aggregate', async () => {
+    await inA(async () => {
+      await store.createAssessment(assessment({ riskScore: 40, verdict: 'go' }));
+      await store.createAssessment(assessment({ riskScore: 70, verdict: 'hold', overrideUsed: true }));
+      await store.createAssessment(assessment({ riskScore: 90, verdict: 'block' }));
+      await store.createAssessment(assessment({ verdict: 'pending' }));
+    });
+
+    const stats = await inA(() => store.getAssessmentStats('day'));
+
+    expect(stats).toEqual({
+      totalAssessments: 4,
+      triggerRate: 50,
+      blockRate: 25,
+      overrideRate: 25,
+      averageRiskScore: 200 / 3,
+    });
+  });
+
+  it('filters, orders and limits audit logs', async () => {
+    await inA(async () => {
+      await store.createAuditLog({ userId: 'u1', action: 'override_used', details: { n: 1 } });
+      await store.createAuditLog({ userId: 'u2', action: 'override_used', details: { n: 2 } });
+      await store.createAuditLog({ userId: 'u1', assessmentId: 'a1', action: 'verdict_rendered', details: { n: 3 } });
+    });
+    await inB(() => store.createAuditLog({ userId: 'u1', action: 'override_used', details: { n: 4 } }));
+
+    const details = (logs: Array<{ details: unknown }>) => logs.map((log) => (log.details as { n: number }).n);
+    expect(details(await inA(() => store.getAuditLogs({})))).toEqual([3, 2, 1]);
+    expect(details(await inA(() => store.getAuditLogs({ userId: 'u1' })))).toEqual([3, 1]);
+    expect(details(await inA(() => store.getAuditLogs({ action: 'override_used', userIds: ['u1', 'u2'] })))).toEqual([2, 1]);
+    expect(details(await inA(() => store.getAuditLogs({ assessmentId: 'a1' })))).toEqual([3]);
+    expect(details(await inA(() => store.getAuditLogs({ limit: 1 })))).toEqual([3]);
+    expect(await inA(() => store.getAuditLogs({ userIds: [] }))).toEqual([]);
+  });
+
+  it('tracks alert resolution in history and analytics', async () => {
+    const policy = await inA(() => store.createAlertPolicy({ name: 'Desk stress' }));
+    const alert = (severity: string) => ({
+      alertPolicyId: policy.id,
+      userId: 'u1',
+      alertType: 'threshold_breach',
+      severity,
+      message: 'Stress above threshold',
+      stressLevel: 8,
+      triggerThreshold: 75,
+    });
+    const [urgent] = await inA(async () => [
+      await store.createAlertHistory(alert('urgent')),
+      await store.createAlertHistory(alert('critical')),
+      await store.createAlertHistory(alert('critical')),
+    ]);
+
+    const resolved = await inA(() => store.resolveAlert(urgent.id, 'supervisor-1', 'Spoke to trader'));
+    expect(resolved).toMatchObject({ resolved: true, resolvedBy: 'supervisor-1', responseTime: 0 });
+    expect(await inA(() => store.getActiveAlerts())).toHaveLength(2);
+    expect(await inA(() => store.getAlertHistory({ severity: 'critical', limit: 1 })))
+      .toMatchObject({ total: 2, alerts: [expect.objectContaining({ severity: 'critical' })] });
+
+    const analytics = await inA(() => store.getAlertAnalytics('24h'));
+    expect(analytics).toMatchObject({
+      totalAlerts: 3,
+      bySeverity: { urgent: 1, critical: 2 },
+      byStatus: { resolved: 1, active: 2, escalated: 0 },
+      resolutionRate: 1 / 3,
+    });
+    expect((await inB(() => store.getAlertAnalytics('24h'))).totalAlerts).toBe(0);
+  });
+
+  it('enforces per-tenant unique usernames', async () => {
+    await inA(() => store.createUser({ username: 'alice' }));
+
+    await expect(inA(() => store.createUser({ username: 'alice' }))).rejects.toThrow(/unique/);
+    await expect(inB(() => store.createUser({ username: 'alice' }))).resolves.toMatchObject({ tenantId: tenantB.id });
+  });
+});
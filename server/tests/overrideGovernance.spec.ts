@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { InsertPolicy, Tenant, User } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { overrideGovernance, OVERRIDE_REQUEST_TTL_MS } from '../services/overrideGovernance';
+
+const order = { instrument: 'EUR/USD', side: 'buy', size: 100_000 };
+const REASON = 'Closing out a hedge before the fix';
+
+describe('OverrideGovernanceService', () => {
+  let tenant: Tenant;
+  let trader: User;
+  let supervisor: User;
+  const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+  const usePolicy = (settings: Partial<InsertPolicy>) => inTenant(async () => {
+    const policy = await storage.createPolicy({ name: 'Overrides', ...settings }, { authorId: supervisor.id, reason: 'test' });
+    await storage.updateUser(trader.id, { policyId: policy.id });
+    return policy;
+  });
+  const assess = (verdict: string, riskScore: number) => inTenant(async () => {
+    const { policy } = await storage.resolvePolicy(trader.id);
+    return storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext: order, verdict, status: 'rendered', riskScore });
+  });
+  const override = (assessmentId: string, now?: Date) =>
+    inTenant(() => overrideGovernance.requestOverride(assessmentId, REASON, trader.id, now));
+  const rejections = () => inTenant(() => storage.getAuditLogs({ action: 'override_rejected' }));
+
+  beforeEach(async () => {
+    tenant = await (storage as MemoryStorage).createTenant({ name: 'Governance', apiKey: `governance-${randomUUID()}` });
+    await inTenant(async () => {
+      supervisor = await storage.createUser({ username: 'carol', role: 'supervisor' });
+      trader = await storage.createUser({ username: 'alice' });
+    });
+  });
+
+  it('holds traders to the daily override budget and audits the refusal', async () => {
+    await usePolicy({ overrideDailyLimit: 2 });
+
+    for (let i = 0; i < 2; i++) {
+      expect(await override((await assess('hold', 50)).id)).toMatchObject({ status: 'applied' });
+    }
+    const third = await assess('hold', 50);
+    await expect(override(third.id)).rejects.toMatchObject({ status: 429 });
+
+    expect(await inTenant(() => storage.getAssessment(third.id))).toMatchObject({ status: 'rendered', overrideUsed: false });
+    const [audit] = await rejections();
+    expect(audit).toMatchObject({ userId: trader.id, assessmentId: third.id, details: expect.objectContaining({ rejection: 'daily_limit', reason: REASON }) });
+  });
+
+  it('sends block verdicts and high risk scores to a supervisor instead of applying them', async () => {
+    await usePolicy({ overrideCosignRiskScore: 80 });
+    const block = await assess('block', 40);
+    const risky = await assess('hold', 85);
+
+    expect(await override(block.id)).toMatchObject({ status: 'pending_approval', request: { trigger: 'block_verdict' } });
+    expect(await override(risky.id)).toMatchObject({ status: 'pending_approval', request: { trigger: 'risk_score' } });
+    expect(await override((await assess('hold', 60)).id)).toMatchObject({ status: 'applied' });
+    expect(await inTenant(() => storage.getAssessment(block.id))).toMatchObject({ overrideUsed: false });
+
+    // A trader cannot co-sign their own override
+    const [blockRequest] = await inTenant(() => storage.getOverrideRequests({ assessmentId: block.id }));
+    await expect(inTenant(() => overrideGovernance.approve(blockRequest.id, trader.id))).rejects.toMatchObject({ status: 403 });
+
+    const { request } = await inTenant(() => overrideGovernance.approve(blockRequest.id, supervisor.id, 'Hedge confirmed'));
+    expect(request).toMatchObject({ status: 'approved', reviewedBy: supervisor.id });
+    expect(await inTenant(() => storage.getAssessment(block.id))).toMatchObject({ status: 'overridden', overrideUsed: true });
+    const [used] = await inTenant(() => storage.getAuditLogs({ action: 'override_used', assessmentId: block.id }));
+    expect(used.details).toMatchObject({ approvedBy: supervisor.id });
+  });
+
+  it('audits supervisor rejections and unanswered requests as rejected overrides', async () => {
+    await usePolicy({});
+    const rejected = await assess('block', 90);
+    const unanswered = await assess('block', 90);
+
+    const first = await override(rejected.id);
+    const second = await override(unanswered.id);
+    if (first.status !== 'pending_approval' || second.status !== 'pending_approval') throw new Error('expected co-sign requests');
+
+    await inTenant(() => overrideGovernance.reject(first.request.id, supervisor.id, 'Not today'));
+    const later = new Date(Date.now() + OVERRIDE_REQUEST_TTL_MS + 1000);
+    await inTenant(() => overrideGovernance.expireStaleRequests(later));
+
+    await expect(inTenant(() => overrideGovernance.approve(second.request.id, supervisor.id, undefined, later)))
+      .rejects.toMatchObject({ status: 409 });
+    expect((await rejections()).map((log) => (log.details as { rejection: string }).rejection).sort())
+      .toEqual(['cosign_expired', 'supervisor_rejected']);
+    expect(await inTenant(() => storage.getAssessment(rejected.id))).toMatchObject({ overrideUsed: false });
+  });
+
+  it('leaves the request pending when the assessment can no longer be overridden', async () => {
+    await usePolicy({});
+    const block = await assess('block', 90);
+    const outcome = await override(block.id);
+    if (outcome.status !== 'pending_approval') throw new Error('expected a co-sign request');
+    await inTenant(() => storage.updateAssessment(block.id, { status: 'completed' }));
+
+    await expect(inTenant(() => overrideGovernance.approve(outcome.request.id, supervisor.id)))
+      .rejects.toMatchObject({ status: 409 });
+    expect(await inTenant(() => storage.getOverrideRequest(outcome.request.id))).toMatchObject({ status: 'pending' });
+    expect(await inTenant(() => storage.getAuditLogs({ action: 'override_cosign_approved' }))).toHaveLength(0);
+  });
+
+  it('marks an approved request failed when the override cannot be applied', async () => {
+    await usePolicy({});
+    const block = await assess('block', 90);
+    const outcome = await override(block.id);
+    if (outcome.status !== 'pending_approval') throw new Error('expected a co-sign request');
+
+    // The trader's order goes through between the supervisor's check and their claim
+    const claim = storage.reviewOverrideRequest.bind(storage);
+    const spy = vi.spyOn(storage, 'reviewOverrideRequest').mockImplementationOnce(async (...args) => {
+      await storage.updateAssessment(block.id, { status: 'completed' });
+      return claim(...args);
+    });
+    try {
+      await expect(inTenant(() => overrideGovernance.approve(outcome.request.id, supervisor.id)))
+        .rejects.toMatchObject({ status: 409 });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(await inTenant(() => storage.getOverrideRequest(outcome.request.id))).toMatchObject({ status: 'failed' });
+    expect(await inTenant(() => storage.getAuditLogs({ action: 'override_cosign_approved' }))).toHaveLength(0);
+    const [failed] = await inTenant(() => storage.getAuditLogs({ action: 'override_cosign_failed' }));
+    expect(failed).toMatchObject({ userId: supervisor.id, assessmentId: block.id, details: expect.objectContaining({ requestId: outcome.request.id }) });
+  });
+
+  it('raises an alert once overrides within the window reach the alert count, once per window', async () => {
+    await usePolicy({ overrideAlertCount: 2, overrideAlertWindowMinutes: 30 });
+    await inTenant(() => storage.createAlertPolicy({ name: 'Desk stress' }));
+
+    expect(await override((await assess('hold', 50)).id)).toMatchObject({ status: 'applied', alert: undefined });
+    const second = await override((await assess('hold', 50)).id);
+    expect(second).toMatchObject({ status: 'applied', alert: { userId: trader.id, overrides: 2, windowMinutes: 30 } });
+    expect(await override((await assess('hold', 50)).id)).toMatchObject({ status: 'applied', alert: undefined });
+
+    const [alert] = await inTenant(() => storage.getAuditLogs({ action: 'override_alert_raised' }));
+    expect(alert.details).toMatchObject({ overrides: 2, alertCount: 2 });
+    expect(await inTenant(() => storage.getAuditLogs({ action: 'override_alert_raised' }))).toHaveLength(1);
+
+    const alertId = second.status === 'applied' ? second.alert?.alertId : undefined;
+    const { alerts } = await inTenant(() => storage.getAlertHistory({ userId: trader.id }));
+    expect(alerts).toEqual([expect.objectContaining({ id: alertId, alertType: 'pattern_anomaly', severity: 'warning' })]);
+  });
+});
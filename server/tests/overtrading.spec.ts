@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Tenant, User } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { measureVelocity, overtrading, type OvertradingPolicy } from '../services/overtrading';
+
+const policy: OvertradingPolicy = {
+  overtradingLookbackDays: 14,
+  overtradingZScore: 3,
+  overtradingMinOrders5m: 4,
+  overtradingMinOrders60m: 15,
+};
+const now = new Date('2026-03-02T14:00:00Z');
+const at = (daysAgo: number, minutesAgo: number) => new Date(now.getTime() - daysAgo * 86_400_000 - minutesAgo * 60_000);
+
+// One order around this time on each of the last `days` days
+const usualDays = (days: number) => Array.from({ length: days }, (_, i) => at(i + 1, 2));
+// `count` orders within the last few minutes, before the current one
+const burst = (count: number) => Array.from({ length: count }, (_, i) => at(0, i * 0.5));
+
+describe('Overtrading', () => {
+  it('flags a burst against the trader’s own rate at this time of day', () => {
+    const check = measureVelocity([...usualDays(5), ...burst(5)], policy, now);
+    expect(check.velocity).toMatchObject({ last5m: 6, last60m: 6, expected5m: 1, expected60m: 1, z5m: 5, overtrading: true });
+    // Only the 5-minute window has enough orders to count
+    expect(check.riskAdjustment).toBe(10);
+
+    // The same pace is normal for a trader who always trades like this
+    const busyDays = Array.from({ length: 5 }, (_, day) => Array.from({ length: 6 }, (_, i) => at(day + 1, i * 0.5))).flat();
+    expect(measureVelocity([...busyDays, ...burst(5)], policy, now).velocity.overtrading).toBe(false);
+  });
+
+  it('needs enough history and enough orders before calling a burst', () => {
+    const newTrader = measureVelocity(burst(10), policy, now);
+    expect(newTrader.velocity).toMatchObject({ last5m: 11, z5m: null, z60m: null, overtrading: false });
+
+    const fewOrders = measureVelocity([...usualDays(5), ...burst(5)], { ...policy, overtradingMinOrders5m: 8 }, now);
+    expect(fewOrders.velocity).toMatchObject({ z5m: 5, overtrading: false });
+
+    expect(measureVelocity([...usualDays(5), ...burst(5)], { ...policy, overtradingZScore: 6 }, now).velocity.overtrading).toBe(false);
+  });
+
+  describe('with stored assessments', () => {
+    let tenant: Tenant;
+    let trader: User;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Overtrading', apiKey: `overtrading-${randomUUID()}` });
+      await inTenant(async () => {
+        trader = await storage.createUser({ username: 'alice' });
+      });
+    });
+
+    it('counts the trader’s gate calls over the lookback, and nothing when it is off', async () => {
+      await inTenant(async () => {
+        const { policy: stored } = await storage.resolvePolicy(trader.id);
+        for (const createdAt of [...usualDays(5), ...burst(5)]) {
+          const assessment = await storage.createAssessment({ userId: trader.id, policyId: stored.id, orderContext: {}, verdict: 'go', status: 'rendered' });
+          await storage.updateAssessment(assessment.id, { createdAt });
+        }
+      });
+
+      expect((await inTenant(() => overtrading.check(trader.id, policy, now))).velocity.overtrading).toBe(true);
+      expect(await inTenant(() => overtrading.check(trader.id, { ...policy, overtradingLookbackDays: 0 }, now)))
+        .toMatchObject({ velocity: { overtrading: false }, riskAdjustment: 0 });
+    });
+  });
+});
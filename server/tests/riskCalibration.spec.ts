@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Tenant, TradingDesk, User } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import {
+  MIN_CALIBRATION_SAMPLES,
+  calibratedProbability,
+  fitCalibration,
+  fitIsotonic,
+  riskCalibration,
+  type CalibrationSample,
+} from '../services/riskCalibration';
+
+// Scores spread over 0-99; one trade in four goes badly above 50, almost none below
+const samples = (count: number): CalibrationSample[] =>
+  Array.from({ length: count }, (_, i) => {
+    const score = (i * 37) % 100;
+    return { score, bad: score >= 50 ? i % 4 === 0 : i % 20 === 0 };
+  });
+
+describe('Risk calibration', () => {
+  it('fits a bad-trade rate that never falls as the score rises', () => {
+    const knots = fitIsotonic([
+      { score: 10, bad: false },
+      { score: 20, bad: true },
+      { score: 30, bad: false }, // pooled with 20
+      { score: 80, bad: true },
+      { score: 80, bad: true },
+    ]);
+
+    expect(knots).toEqual([
+      { score: 10, probability: 0 },
+      { score: 25, probability: 0.5 },
+      { score: 80, probability: 1 },
+    ]);
+    expect(calibratedProbability(knots, 5)).toBe(0);
+    expect(calibratedProbability(knots, 52.5)).toBeCloseTo(0.75);
+    expect(calibratedProbability(knots, 95)).toBe(1);
+  });
+
+  it('only fits with enough samples, and beats the raw score on a miscalibrated desk', () => {
+    expect(fitCalibration('desk', samples(MIN_CALIBRATION_SAMPLES - 1))).toMatchObject({ status: 'insufficient_samples', knots: [] });
+
+    const fit = fitCalibration('desk', samples(200));
+    expect(fit.status).toBe('fitted');
+    expect(fit.brier!.calibrated).toBeLessThan(fit.brier!.raw);
+    expect(fit.reliability!.calibrated.reduce((total, bin) => total + bin.count, 0)).toBe(200);
+    // Raw scores of 90+ read as 90%+ bad, but only about a quarter of those trades were
+    const top = fit.reliability!.raw[fit.reliability!.raw.length - 1];
+    expect(top.meanPredicted).toBeGreaterThan(0.9);
+    expect(top.observedRate).toBeLessThan(0.5);
+  });
+
+  describe('with reported outcomes', () => {
+    let tenant: Tenant;
+    let fxTrader: User;
+    let ratesTrader: User;
+    let fx: TradingDesk;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Calibration', apiKey: `calibration-${randomUUID()}` });
+      await inTenant(async () => {
+        fx = await storage.createTradingDesk({ name: 'FX' });
+        const rates = await storage.createTradingDesk({ name: 'Rates' });
+        fxTrader = await storage.createUser({ username: 'alice', deskId: fx.id });
+        ratesTrader = await storage.createUser({ username: 'bob', deskId: rates.id });
+
+        const { policy } = await storage.resolvePolicy(fxTrader.id);
+        const scored = { policyId: policy.id, orderContext: {}, status: 'completed' as const, verdict: 'go', engineId: 'new-scoring-engine', engineVersion: '2.5' };
+        for (const sample of samples(80)) {
+          await storage.createAssessment({
+            ...scored,
+            userId: fxTrader.id,
+            riskScore: sample.score,
+            tradeExecuted: true,
+            tradeOutcome: { executed: true, pnl: sample.bad ? -100 : 100 },
+          });
+        }
+        await storage.createAssessment({ ...scored, userId: ratesTrader.id, riskScore: 70, tradeOutcome: { executed: true, ruleBreach: true } });
+        // Quick checks and unreported trades are not labelled samples
+        await storage.createAssessment({ ...scored, userId: fxTrader.id, riskScore: 90, engineId: 'risk-scoring', engineVersion: '1.0', tradeOutcome: { executed: true, pnl: -5 } });
+        await storage.createAssessment({ ...scored, userId: fxTrader.id, riskScore: 90 });
+      });
+    });
+
+    it('fits in the background instead of holding up the assessment', async () => {
+      expect(await inTenant(() => riskCalibration.calibrate(fxTrader.id, 95))).toBeUndefined();
+      await vi.waitFor(async () => {
+        expect(await inTenant(() => riskCalibration.calibrate(fxTrader.id, 95))).toMatchObject({ scope: 'desk', samples: 80 });
+      });
+    });
+
+    it('calibrates per desk and falls back to the firm below the sample guard', async () => {
+      const report = await inTenant(() => riskCalibration.report());
+      expect(report.firm).toMatchObject({ deskId: null, samples: 81, status: 'fitted' });
+      expect(report.desks.find((desk) => desk.deskId === fx.id)).toMatchObject({ samples: 80, status: 'fitted' });
+      expect(report.desks.find((desk) => desk.deskId === ratesTrader.deskId)).toMatchObject({ samples: 1, status: 'insufficient_samples' });
+
+      const fxCalibration = await inTenant(() => riskCalibration.calibrate(fxTrader.id, 95));
+      expect(fxCalibration).toMatchObject({ scope: 'desk', deskId: fx.id, samples: 80 });
+      expect(fxCalibration!.probability).toBeLessThan(0.5);
+      expect(await inTenant(() => riskCalibration.calibrate(ratesTrader.id, 95))).toMatchObject({ scope: 'firm', deskId: null, samples: 81 });
+    });
+  });
+});
@@ -2,15 +2,26 @@ import request from 'supertest';
 import express from 'express';
 import bodyParser from 'body-parser';
 import { registerRoutes } from '../routes';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { runWithTenant } from '../tenantContext';
 
 async function run() {
   const app = express();
   app.use(bodyParser.json());
   const server = await registerRoutes(app);
   const instance = server.listen(0);
-  const agent = request(instance as any);
+  const agent = request.agent(instance as any);
 
   try {
+    // Seed a trader in the default tenant (in memory unless DATABASE_URL is set) and sign in
+    const password = 'integration-password';
+    const username = `integration-${Date.now()}`;
+    await runWithTenant(await storage.getDefaultTenant(), async () =>
+      storage.createUser({ username, passwordHash: await hashPassword(password) }));
+    const loginRes = await agent.post('/api/auth/login').send({ username, password });
+    console.log('login', loginRes.status);
+
     // check-trade pending
     const checkRes = await agent.post('/api/trade-pause/check-trade').send({ orderContext: { instrument: 'EUR/USD', size: 1, orderType: 'market', side: 'buy', timeOfDay: new Date().toISOString() }, fastMode: true, signals: {} });
     console.log('check-trade', checkRes.status, checkRes.body);
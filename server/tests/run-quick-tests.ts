@@ -2,6 +2,12 @@ import express from 'express';
 import bodyParser from 'body-parser';
 import fetch from 'node-fetch';
 import { registerRoutes } from '../routes';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { runWithTenant } from '../tenantContext';
+
+const USERNAME = 'quick-test-trader';
+const PASSWORD = 'quick-test-password';
 
 async function run() {
   const app = express();
@@ -17,9 +23,28 @@ async function run() {
   let failed = false;
 
   try {
-    const res1 = await fetch(base + '/api/trade-pause/check-trade', {
+    // Without DATABASE_URL this runs on the in-memory backend, so seed a trader to sign in as
+    await runWithTenant(await storage.getDefaultTenant(), async () => {
+      if (!(await storage.getUserByUsername(USERNAME))) {
+        await storage.createUser({ username: USERNAME, passwordHash: await hashPassword(PASSWORD) });
+      }
+    });
+    const login = await fetch(base + '/api/auth/login', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: USERNAME, password: PASSWORD })
+    });
+    const cookie = (login.headers.get('set-cookie') ?? '').split(';')[0];
+    console.log('login status', login.status);
+    if (login.status !== 200) {
+      console.error('login failed');
+      failed = true;
+    }
+    const headers = { 'Content-Type': 'application/json', Cookie: cookie };
+
+    const res1 = await fetch(base + '/api/trade-pause/check-trade', {
+      method: 'POST',
+      headers,
       body: JSON.stringify({ orderContext: { instrument: 'EUR/USD', size: 1, orderType: 'market', side: 'buy', timeOfDay: new Date().toISOString() }, fastMode: true, signals: {} })
     });
     const body1 = await res1.json();
@@ -34,20 +59,20 @@ async function run() {
     // Now attempt to update the placeholder with valid facial metrics and a stress level
     const updateRes = await fetch(base + `/api/trade-pause/assessments/${assessmentId}/facial-metrics`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       body: JSON.stringify({ facialMetrics: { isPresent: true, blinkRate: 15, eyeAspectRatio: 0.25, jawOpenness: 0.1, browFurrow: 0.2, gazeStability: 0.8 }, stressLevel: 5 })
     });
     const updateBody = await updateRes.json();
     console.log('update placeholder status', updateRes.status, updateBody);
 
     // Fetch assessment to see what's stored
-    const getRes = await fetch(base + `/api/trade-pause/assessments/${assessmentId}`);
+    const getRes = await fetch(base + `/api/trade-pause/assessments/${assessmentId}`, { headers });
     const getBody = await getRes.json();
     console.log('fetched assessment', getRes.status, getBody && { id: getBody.id, riskScore: getBody.riskScore, verdict: getBody.verdict });
 
     const res2 = await fetch(base + '/api/trade-pause/assessments/undefined/facial-metrics', {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       body: JSON.stringify({ facialMetrics: { isPresent: false, blinkRate: 0 } })
     });
     const body2 = await res2.json();
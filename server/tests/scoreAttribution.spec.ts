@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import type { FullAssessmentRequest, ScoreContribution } from '@shared/tradePauseAI';
+import { fitParts, settleContributions } from '../services/scoreAttribution';
+import { newScoringEngine } from '../services/newScoringEngine';
+
+const request: FullAssessmentRequest = {
+  userId: 'trader',
+  orderContext: { instrument: 'EUR/USD', size: 100_000, orderType: 'market', side: 'buy', timeOfDay: new Date().toISOString() },
+  camera: {
+    stressLevel: 0.6, agitation: 0.4, focus: 0.6, fatigue: 0.3, confidence: 0.9, signalQuality: 0.9,
+    durationMs: 10_000, samples: 200, stressScore: 55, isHighStress: false,
+    raw: { blinkRate: 16, browTension: 0.5, gazeStability: 0.7, headMovement: 0.7, microExpressionTension: 0.3 },
+  },
+  tests: {
+    impulseControl: {
+      totalTrials: 40, goAccuracy: 0.85, noGoAccuracy: 0.7, avgReactionTimeMs: 900, reactionStdDevMs: 120,
+      impulsiveErrors: 6, responseConsistency: 0.7, prematureResponses: 3,
+    },
+    focusStability: {
+      totalStimuli: 30, matchesPresented: 10, correctMatches: 7, missedMatches: 3, falseAlarms: 2,
+      avgReactionTimeMs: 560, reactionStdDevMs: 110, sustainedAttention: 0.75,
+    },
+    reactionConsistency: {
+      trials: 10, averageMs: 320, bestMs: 240, worstMs: 480, variability: 0.25, stabilityScore: 0.7,
+      anticipations: 3, lateResponses: 1,
+    },
+  },
+};
+
+const total = (contributions: ScoreContribution[]) =>
+  Math.round(contributions.reduce((sum, contribution) => sum + contribution.points * 100, 0)) / 100;
+
+describe('Score attribution', () => {
+  it('gives floors to the inputs that triggered them and scales caps down', () => {
+    const parts = [
+      { feature: 'accuracy', label: 'Accuracy', value: 0.2, points: 60 },
+      { feature: 'speed', label: 'Speed', value: 1600, points: 20 },
+    ];
+
+    const floored = fitParts(parts, 95, ['accuracy']);
+    expect(floored.parts.map((part) => part.points)).toEqual([75, 20]);
+
+    const capped = fitParts([...parts, { feature: 'history', label: 'History', value: null, points: 40 }], 100, []);
+    expect(capped.parts.map((part) => part.points)).toEqual([50, 50 / 3, 100 / 3]);
+  });
+
+  it('rounds contributions so they still sum to the score', () => {
+    const settled = settleContributions([
+      { feature: 'a', label: 'A', value: null, points: 10 / 3 },
+      { feature: 'b', label: 'B', value: null, points: 10 / 3 },
+      { feature: 'c', label: 'C', value: null, points: 10 / 3 },
+      { feature: 'd', label: 'D', value: null, points: 0 },
+    ], 10);
+
+    expect(settled.map((contribution) => contribution.feature)).toEqual(['a', 'b', 'c']);
+    expect(total(settled)).toBe(10);
+  });
+
+  it('breaks the full assessment score down by input, including behaviour checks', () => {
+    const tilt = { score: 40, riskAdjustment: 8, evidence: [] };
+    const response = newScoringEngine.evaluate(request, { tilt });
+    const attribution = response.diagnostics.attribution!;
+
+    expect(total(attribution)).toBe(response.emotionalRiskScore);
+    expect(attribution.map((contribution) => contribution.feature)).toEqual(expect.arrayContaining([
+      'camera.stressLevel',
+      'camera.headMovement',
+      'impulse.noGoAccuracy',
+      'impulse.avgReactionTimeMs',
+      'focus.missedMatches',
+      'reaction.anticipations',
+      'behaviour.tilt',
+    ]));
+    expect(attribution.find((contribution) => contribution.feature === 'behaviour.tilt')).toMatchObject({ value: 40, points: 8 });
+
+    // A terrible go/no-go run trips the cognitive floor; it shows up as its own step
+    const failing = newScoringEngine.evaluate({
+      ...request,
+      tests: { ...request.tests, impulseControl: { ...request.tests.impulseControl, goAccuracy: 0.2, noGoAccuracy: 0.2 } },
+    });
+    expect(total(failing.diagnostics.attribution!)).toBe(failing.emotionalRiskScore);
+    expect(failing.diagnostics.attribution!.some((contribution) => contribution.feature === 'override.cognitive')).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Tenant, User } from '@shared/schema';
+import type { OrderContext } from '@shared/tradePauseAI';
+import { DEFAULT_FULL_ASSESSMENT_ENGINE, DEFAULT_QUICK_CHECK_ENGINE } from '@shared/scoringEngines';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { ScoringEngineRegistry, scoringEngines, type QuickCheckEngine } from '../services/scoringEngines';
+import { TradePauseService } from '../services/tradePause';
+
+const fixedScore = (version: string, retired = false): QuickCheckEngine => ({
+  id: 'fixed-score',
+  version,
+  surface: 'quick_check',
+  description: 'Always scores 90',
+  retired,
+  async score() {
+    return { riskScore: 90, confidence: 0.9, reasonTags: ['Fixed score'] };
+  },
+});
+
+const order: OrderContext = {
+  instrument: 'EUR/USD',
+  size: 100_000,
+  orderType: 'market',
+  side: 'buy',
+  timeOfDay: new Date().toISOString(),
+};
+
+describe('Scoring engine registry', () => {
+  it('resolves engines by ID, version and surface', () => {
+    const registry = new ScoringEngineRegistry();
+    registry.register(fixedScore('1.0'));
+    registry.register(fixedScore('2.0'));
+
+    expect(registry.resolve('fixed-score@2.0', 'quick_check').version).toBe('2.0');
+    expect(() => registry.resolve('fixed-score@3.0', 'quick_check')).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => registry.resolve('fixed-score@1.0', 'full_assessment')).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => registry.register(fixedScore('1.0'))).toThrow('already registered');
+  });
+
+  it('registers every scorer and keeps retired engines off new policies', () => {
+    expect(scoringEngines.list().map((engine) => engine.ref)).toEqual([
+      'risk-scoring@1.0',
+      'ai-decision-layer@1.0',
+      'new-scoring-engine@2.5',
+      'full-assessment-decision@1.0',
+    ]);
+    expect(scoringEngines.resolve(DEFAULT_QUICK_CHECK_ENGINE, 'quick_check').id).toBe('risk-scoring');
+    expect(scoringEngines.resolve(DEFAULT_FULL_ASSESSMENT_ENGINE, 'full_assessment').id).toBe('new-scoring-engine');
+
+    const registry = new ScoringEngineRegistry();
+    registry.register(fixedScore('1.0', true));
+    expect(registry.isSelectable('fixed-score@1.0', 'quick_check')).toBe(false);
+    // A policy already on it still scores
+    expect(registry.resolve('fixed-score@1.0', 'quick_check').retired).toBe(true);
+  });
+
+  describe('with a policy on a registered engine', () => {
+    let tenant: Tenant;
+    let trader: User;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Engines', apiKey: `engines-${randomUUID()}` });
+      if (!scoringEngines.get('fixed-score@1.0')) scoringEngines.register(fixedScore('1.0'));
+      await inTenant(async () => {
+        const author = await storage.createUser({ username: 'admin', role: 'admin' });
+        const policy = await storage.createPolicy(
+          { name: 'Fixed', quickCheckEngine: 'fixed-score@1.0' },
+          { authorId: author.id, reason: 'test' }
+        );
+        trader = await storage.createUser({ username: 'alice', policyId: policy.id });
+      });
+    });
+
+    it('scores the quick check with the policy’s engine and stamps it on the assessment', async () => {
+      const result = await inTenant(() => new TradePauseService().checkBeforeTrade(trader.id, order, { stressLevel: 3 }, true));
+      expect(result).toMatchObject({ riskScore: 90, verdict: 'block', reasonTags: ['Fixed score'] });
+
+      const stored = await inTenant(() => storage.getAssessment(result.assessmentId));
+      expect(stored).toMatchObject({ engineId: 'fixed-score', engineVersion: '1.0' });
+    });
+  });
+});
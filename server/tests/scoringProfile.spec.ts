@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { Policy, PolicySettings } from '@shared/schema';
+import type { FullAssessmentRequest } from '@shared/tradePauseAI';
+import { DEFAULT_SCORING_PROFILE, applyCurve, cognitiveFloor, scoringProfileSchema, type ScoringProfile } from '@shared/scoringProfile';
+import { diffPolicySettings } from '@shared/policyRevisions';
+import { newScoringEngine } from '../services/newScoringEngine';
+import { fullAssessmentDecisionEngine } from '../services/fullAssessmentDecision';
+import { SCORING_SAMPLES, scoringProfilePreview } from '../services/scoringProfilePreview';
+import { scoringEngines } from '../services/scoringEngines';
+
+const request: FullAssessmentRequest = {
+  userId: 'trader',
+  orderContext: { instrument: 'EUR/USD', size: 100_000, orderType: 'market', side: 'buy', timeOfDay: new Date().toISOString() },
+  ...SCORING_SAMPLES.find((sample) => sample.id === 'impulsive')!.request,
+};
+
+// Impulse control is all that counts, and a poor go/no-go run blocks outright
+const scalper: ScoringProfile = {
+  ...DEFAULT_SCORING_PROFILE,
+  weights: { camera: 0, impulse: 1, focus: 0, reaction: 0 },
+  cognitiveOverride: [{ measure: 'max', atLeast: 50, floor: 90 }],
+};
+
+const policy = { fullAssessmentEngine: 'new-scoring-engine@2.5', riskThreshold: 60, cooldownDuration: 30, scoringProfile: null } as Policy;
+
+describe('Scoring profiles', () => {
+  it('reads curves linearly, applies the first matching override rule and validates profiles', () => {
+    expect(applyCurve(DEFAULT_SCORING_PROFILE.curves.impulse, 0.95)).toBeCloseTo(10);
+    expect(applyCurve(DEFAULT_SCORING_PROFILE.curves.camera, 0.35)).toBeCloseTo(42.5);
+    expect(applyCurve(DEFAULT_SCORING_PROFILE.curves.focus, 1.2)).toBe(0);
+
+    const rules = DEFAULT_SCORING_PROFILE.cognitiveOverride;
+    expect(cognitiveFloor(rules, { impulse: 96, focus: 10, reaction: 10 })).toBe(85);
+    expect(cognitiveFloor(rules, { impulse: 78, focus: 76, reaction: 10 })).toBe(72);
+    expect(cognitiveFloor(rules, { impulse: 40, focus: 40, reaction: 40 })).toBeUndefined();
+
+    expect(scoringProfileSchema.safeParse(DEFAULT_SCORING_PROFILE).success).toBe(true);
+    expect(scoringProfileSchema.safeParse({ ...scalper, weights: { ...scalper.weights, camera: 0.2 } }).success).toBe(false);
+    expect(scoringProfileSchema.safeParse({
+      ...scalper,
+      curves: { ...scalper.curves, focus: [{ x: 0, risk: 100 }, { x: 0.8, risk: 20 }, { x: 0.5, risk: 40 }, { x: 1, risk: 0 }] },
+    }).success).toBe(false);
+  });
+
+  it('scores with the policy’s profile, and the decision engine takes its weights', () => {
+    const builtIn = newScoringEngine.evaluate(request, { policy });
+    const profiled = newScoringEngine.evaluate(request, { policy: { ...policy, scoringProfile: scalper } });
+
+    expect(builtIn.diagnostics.compositeWeights).toEqual(DEFAULT_SCORING_PROFILE.weights);
+    expect(profiled.diagnostics.compositeWeights).toEqual(scalper.weights);
+    expect(profiled.emotionalRiskScore).toBe(90);
+    expect(profiled.emotionalRiskScore).toBeGreaterThan(builtIn.emotionalRiskScore);
+
+    const decision = fullAssessmentDecisionEngine.evaluate(request, { policy: { ...policy, scoringProfile: scalper } });
+    expect(decision.response.diagnostics.compositeWeights).toEqual(scalper.weights);
+  });
+
+  it('keeps the decision engine to its own built-in profile and rejects parts it does not apply', () => {
+    const decisionPolicy = { ...policy, fullAssessmentEngine: 'full-assessment-decision@1.0' };
+    const { profile } = scoringEngines.list().find((engine) => engine.ref === decisionPolicy.fullAssessmentEngine)!;
+    expect(profile!.parts).toEqual(['weights']);
+
+    const builtIn = fullAssessmentDecisionEngine.evaluate(request, { policy: decisionPolicy });
+    const asBuiltIn = fullAssessmentDecisionEngine.evaluate(request, { policy: { ...decisionPolicy, scoringProfile: profile!.builtIn } });
+    expect(asBuiltIn.response.emotionalRiskScore).toBe(builtIn.response.emotionalRiskScore);
+
+    expect(() => scoringEngines.checkProfile(decisionPolicy.fullAssessmentEngine, { ...profile!.builtIn, weights: scalper.weights })).not.toThrow();
+    expect(() => scoringEngines.checkProfile(decisionPolicy.fullAssessmentEngine, scalper)).toThrow(/cognitiveOverride/);
+    expect(() => scoringEngines.checkProfile(policy.fullAssessmentEngine, scalper)).not.toThrow();
+  });
+
+  it('previews the sample traders and diffs profile edits by part', () => {
+    const preview = scoringProfilePreview.preview(policy, scalper);
+    expect(preview.engine).toBe('new-scoring-engine@2.5');
+    expect(preview.samples.map((sample) => sample.id)).toEqual(SCORING_SAMPLES.map((sample) => sample.id));
+    const impulsive = preview.samples.find((sample) => sample.id === 'impulsive')!;
+    expect(impulsive.candidate.emotionalRiskScore).toBeGreaterThan(impulsive.current.emotionalRiskScore);
+
+    const before = { scoringProfile: DEFAULT_SCORING_PROFILE } as PolicySettings;
+    const after = { scoringProfile: structuredClone(scalper) } as PolicySettings;
+    expect(diffPolicySettings(before, { scoringProfile: structuredClone(DEFAULT_SCORING_PROFILE) } as PolicySettings)).toEqual([]);
+    // Keys in another order, as jsonb hands them back
+    const reordered = JSON.parse(JSON.stringify(DEFAULT_SCORING_PROFILE, (_, value) =>
+      value && typeof value === 'object' && !Array.isArray(value) ? Object.fromEntries(Object.entries(value).reverse()) : value));
+    expect(diffPolicySettings(before, { scoringProfile: reordered } as PolicySettings)).toEqual([]);
+    expect(diffPolicySettings(before, after).map((change) => change.field)).toEqual([
+      'scoringProfile.weights.camera',
+      'scoringProfile.weights.impulse',
+      'scoringProfile.weights.focus',
+      'scoringProfile.weights.reaction',
+      'scoringProfile.cognitiveOverride',
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Assessment, Policy, Tenant, User } from '@shared/schema';
+import type { FullAssessmentRequest } from '@shared/tradePauseAI';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { compareShadow, shadowScoring } from '../services/shadowScoring';
+
+const request: FullAssessmentRequest = {
+  userId: 'trader',
+  orderContext: { instrument: 'EUR/USD', size: 100_000, orderType: 'market', side: 'buy', timeOfDay: new Date().toISOString() },
+  camera: {
+    stressLevel: 0.3, agitation: 0.2, focus: 0.8, fatigue: 0.2, confidence: 0.9, signalQuality: 0.9,
+    durationMs: 10_000, samples: 200, stressScore: 25, isHighStress: false,
+    raw: { blinkRate: 16, browTension: 0.2, gazeStability: 0.85, headMovement: 0.1, microExpressionTension: 0.2 },
+  },
+  tests: {
+    impulseControl: {
+      totalTrials: 40, goAccuracy: 0.95, noGoAccuracy: 0.9, avgReactionTimeMs: 420, reactionStdDevMs: 60,
+      impulsiveErrors: 2, responseConsistency: 0.85, prematureResponses: 1,
+    },
+    focusStability: {
+      totalStimuli: 30, matchesPresented: 10, correctMatches: 9, missedMatches: 1, falseAlarms: 1,
+      avgReactionTimeMs: 520, reactionStdDevMs: 80, sustainedAttention: 0.85,
+    },
+    reactionConsistency: {
+      trials: 10, averageMs: 300, bestMs: 250, worstMs: 360, variability: 0.12, stabilityScore: 0.85,
+      anticipations: 0, lateResponses: 0,
+    },
+  },
+};
+
+const row = (verdict: string, riskScore: number, shadow?: { decision: 'allow' | 'cooldown' | 'block'; score: number }) => ({
+  id: randomUUID(),
+  userId: 'trader',
+  verdict,
+  riskScore,
+  engineId: 'new-scoring-engine',
+  engineVersion: '2.5',
+  shadowEngineId: shadow ? 'full-assessment-decision' : null,
+  shadowEngineVersion: shadow ? '1.0' : null,
+  shadowRiskScore: shadow?.score ?? null,
+  shadowDecision: shadow?.decision ?? null,
+  createdAt: new Date(),
+}) as Assessment;
+
+describe('Shadow scoring', () => {
+  it('reports agreement, confusion and the largest score gaps', () => {
+    const report = compareShadow([
+      row('go', 20, { decision: 'allow', score: 25 }),
+      row('go', 30, { decision: 'cooldown', score: 70 }),
+      row('hold', 75, { decision: 'cooldown', score: 72 }),
+      row('block', 90, { decision: 'allow', score: 35 }),
+      row('go', 10), // no shadow score
+    ]);
+
+    expect(report.compared).toBe(4);
+    expect(report.agreementRate).toBe(0.5);
+    expect(report.confusion.allow).toEqual({ allow: 1, cooldown: 1, block: 0 });
+    expect(report.confusion.block).toEqual({ allow: 1, cooldown: 0, block: 0 });
+    expect(report.largestGaps.map((gap) => gap.gap)).toEqual([-55, 40, 5, -3]);
+    expect(report.largestGaps[0]).toMatchObject({
+      primaryEngine: 'new-scoring-engine@2.5',
+      shadowEngine: 'full-assessment-decision@1.0',
+      primaryDecision: 'block',
+      shadowDecision: 'allow',
+    });
+  });
+
+  it('scores with the policy’s shadow engine and never throws', () => {
+    const policy = { shadowFullAssessmentEngine: 'full-assessment-decision@1.0' } as Policy;
+    expect(shadowScoring.score({ ...policy, shadowFullAssessmentEngine: null }, { request, policy })).toBeUndefined();
+
+    const shadow = shadowScoring.score(policy, { request, policy });
+    expect(shadow).toMatchObject({ shadowEngineId: 'full-assessment-decision', shadowEngineVersion: '1.0' });
+    expect(['allow', 'cooldown', 'block']).toContain(shadow!.shadowDecision);
+    expect(shadow!.shadowRiskScore).toBeGreaterThanOrEqual(0);
+
+    // An engine that is no longer registered is skipped, not thrown
+    expect(shadowScoring.score({ ...policy, shadowFullAssessmentEngine: 'gone@0.1' }, { request, policy })).toBeUndefined();
+  });
+
+  describe('with stored assessments', () => {
+    let tenant: Tenant;
+    let trader: User;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Shadow', apiKey: `shadow-${randomUUID()}` });
+      await inTenant(async () => {
+        trader = await storage.createUser({ username: 'alice' });
+      });
+    });
+
+    it('compares the traders and time range asked for', async () => {
+      await inTenant(async () => {
+        const { policy } = await storage.resolvePolicy(trader.id);
+        const stored = { userId: trader.id, policyId: policy.id, orderContext: {}, status: 'rendered' as const };
+        await storage.createAssessment({ ...stored, verdict: 'go', riskScore: 20, shadowRiskScore: 60, shadowDecision: 'cooldown' });
+        await storage.createAssessment({ ...stored, verdict: 'hold', riskScore: 70, shadowRiskScore: 68, shadowDecision: 'cooldown' });
+      });
+
+      const from = new Date(Date.now() - 60_000);
+      const to = new Date(Date.now() + 60_000);
+      expect(await inTenant(() => shadowScoring.report({ from, to, userIds: [trader.id] })))
+        .toMatchObject({ compared: 2, agreementRate: 0.5 });
+      expect(await inTenant(() => shadowScoring.report({ from, to, userIds: ['someone-else'] })))
+        .toMatchObject({ compared: 0, agreementRate: 0 });
+    });
+  });
+});
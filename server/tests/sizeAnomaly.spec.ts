@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Tenant, User } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { scoreSizeAnomaly, sizeAnomaly, type SizedOrder } from '../services/sizeAnomaly';
+
+const orders = (count: number, fields: Partial<SizedOrder> = {}): SizedOrder[] =>
+  Array.from({ length: count }, () => ({ instrument: 'EUR/USD', size: 100_000, ...fields }));
+// 90k, 100k and 110k, four of each
+const varied = (fields: Partial<SizedOrder> = {}) =>
+  [90_000, 100_000, 110_000].flatMap((size) => orders(4, { size, ...fields }));
+
+describe('Size anomaly', () => {
+  it('judges the same order against each trader’s own sizes', () => {
+    const routine = scoreSizeAnomaly(orders(12), { instrument: 'EUR/USD', size: 100_000 });
+    expect(routine).toMatchObject({ anomaly: { samples: 12, sizePercentile: 100, sizeZ: 0, unusual: false }, riskAdjustment: 0 });
+
+    const reckless = scoreSizeAnomaly(orders(12, { size: 10_000 }), { instrument: 'EUR/USD', size: 100_000 });
+    expect(reckless).toMatchObject({ anomaly: { sizePercentile: 100, sizeZ: 90, unusual: true }, riskAdjustment: 10 });
+
+    // Orders on another instrument are a different distribution
+    expect(scoreSizeAnomaly(orders(12, { instrument: 'GBP/USD', size: 10_000 }), { instrument: 'EUR/USD', size: 100_000 }).anomaly)
+      .toMatchObject({ samples: 0, sizePercentile: null, sizeZ: null, unusual: false });
+  });
+
+  it('scores leverage apart from size and waits for enough orders', () => {
+    const levered = scoreSizeAnomaly(varied({ leverage: 2 }), { instrument: 'EUR/USD', size: 100_000, leverage: 10 });
+    expect(levered.anomaly).toMatchObject({ sizePercentile: 67, sizeZ: 0, leveragePercentile: 100, leverageZ: 40, unusual: true });
+    expect(levered.riskAdjustment).toBe(10);
+
+    // No leverage on the order, nothing to compare
+    expect(scoreSizeAnomaly(varied({ leverage: 2 }), { instrument: 'EUR/USD', size: 100_000 }).anomaly)
+      .toMatchObject({ leveragePercentile: null, leverageZ: null });
+    // An unusually small order is no risk
+    expect(scoreSizeAnomaly(varied(), { instrument: 'EUR/USD', size: 1_000 }).anomaly).toMatchObject({ sizePercentile: 0, unusual: false });
+    expect(scoreSizeAnomaly(orders(9, { size: 10_000 }), { instrument: 'EUR/USD', size: 100_000 }).anomaly)
+      .toMatchObject({ samples: 9, sizePercentile: null, unusual: false });
+  });
+
+  describe('with stored assessments', () => {
+    let tenant: Tenant;
+    let trader: User;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Size', apiKey: `size-${randomUUID()}` });
+      await inTenant(async () => {
+        trader = await storage.createUser({ username: 'alice' });
+      });
+    });
+
+    it('builds the distribution from the trader’s past orders', async () => {
+      await inTenant(async () => {
+        const { policy } = await storage.resolvePolicy(trader.id);
+        for (const order of varied()) {
+          await storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext: order, verdict: 'go', status: 'rendered' });
+        }
+        // Waiting on signals: not an order the distribution counts
+        await storage.createAssessment({
+          userId: trader.id, policyId: policy.id, orderContext: { instrument: 'EUR/USD', size: 1_000_000 }, verdict: 'pending', status: 'collecting',
+        });
+      });
+
+      const check = await inTenant(() => sizeAnomaly.check(trader.id, { instrument: 'EUR/USD', size: 500_000 }));
+      expect(check.anomaly).toMatchObject({ samples: 12, sizePercentile: 100, sizeZ: 40, unusual: true });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import bodyParser from 'body-parser';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import type { Tenant, User } from '@shared/schema';
+import { storage, DatabaseStorage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { registerRoutes } from '../routes';
+import { hashPassword } from '../auth';
+
+// Record every query DatabaseStorage builds so the tenant predicate on each one can be inspected.
+const recorder = vi.hoisted(() => {
+  type Call = { op: string; where?: unknown; values?: any };
+  const calls: Call[] = [];
+  const builder = (op: string, projected = false) => {
+    const call: Call = { op };
+    calls.push(call);
+    const chain: any = {
+      from: () => chain,
+      where: (condition: unknown) => { call.where = condition; return chain; },
+      orderBy: () => chain,
+      limit: () => chain,
+      offset: () => chain,
+      values: (values: any) => { call.values = values; return chain; },
+      set: (values: any) => { call.values = values; return chain; },
+      returning: async () => [call.values ?? {}],
+      // Projected selects are aggregates or id lists; a zero row keeps callers happy
+      then: (resolve: any, reject: any) => Promise.resolve(projected ? [{ count: 0 }] : []).then(resolve, reject),
+    };
+    return chain;
+  };
+  const db = {
+    select: (projection?: unknown) => builder('select', projection !== undefined),
+    insert: () => builder('insert'),
+    update: () => builder('update'),
+    delete: () => builder('delete'),
+  };
+  return { calls, db };
+});
+
+vi.mock('../db', () => ({ db: recorder.db }));
+
+const makeTenant = (id: string, apiKey: string, region: string | null = null): Tenant => ({
+  id,
+  name: id,
+  apiKey,
+  region,
+  defaultPolicyId: null,
+  isActive: true,
+  createdAt: new Date(),
+});
+
+const tenantA = makeTenant('tenant-a', 'key-a', 'eu');
+const tenantB = makeTenant('tenant-b', 'key-b');
+const dialect = new PgDialect();
+
+const render = (condition: unknown) => dialect.sqlToQuery(condition as SQL);
+
+describe('DatabaseStorage tenant scoping', () => {
+  const dbStorage = new DatabaseStorage();
+
+  beforeEach(() => {
+    recorder.calls.length = 0;
+  });
+
+  const scopedReads: Array<[string, () => Promise<unknown>]> = [
+    ['getUser', () => dbStorage.getUser('u1')],
+    ['getUserByUsername', () => dbStorage.getUserByUsername('alice')],
+    ['getSupervisedUserIds', () => dbStorage.getSupervisedUserIds('s1')],
+    ['getPolicy', () => dbStorage.getPolicy('p1')],
+    ['getPolicyRevisions', () => dbStorage.getPolicyRevisions('p1')],
+    ['getPolicyRevision', () => dbStorage.getPolicyRevision('p1', 1)],
+    ['getAssessment', () => dbStorage.getAssessment('a1')],
+    ['updateAssessment', () => dbStorage.updateAssessment('a1', { verdict: 'go' })],
+    ['getUserAssessments', () => dbStorage.getUserAssessments('u1')],
+    ['getActiveCooldown', () => dbStorage.getActiveCooldown('u1')],
+    ['getAssessmentStats', () => dbStorage.getAssessmentStats('day')],
+    ['getUserBaseline', () => dbStorage.getUserBaseline('u1')],
+    ['getAuditLogs', () => dbStorage.getAuditLogs({})],
+    ['getRecentEvents', () => dbStorage.getRecentEvents()],
+    ['getTradingDesks', () => dbStorage.getTradingDesks()],
+    ['getTradingDesk', () => dbStorage.getTradingDesk('d1')],
+    ['deleteTradingDesk', () => dbStorage.deleteTradingDesk('d1')],
+    ['getAlertPolicies', () => dbStorage.getAlertPolicies()],
+    ['deleteAlertPolicy', () => dbStorage.deleteAlertPolicy('ap1')],
+    ['getAlertChannels', () => dbStorage.getAlertChannels('ap1')],
+    ['getAlertHistory', () => dbStorage.getAlertHistory({})],
+    ['getActiveAlerts', () => dbStorage.getActiveAlerts()],
+    ['resolveAlert', () => dbStorage.resolveAlert('al1', 'u1')],
+    ['getAlertAnalytics', () => dbStorage.getAlertAnalytics()],
+  ];
+
+  it.each(scopedReads)('%s filters on the current tenant', async (_name, call) => {
+    await runWithTenant(tenantA, call);
+
+    const filtered = recorder.calls.filter((c) => c.op !== 'insert');
+    expect(filtered.length).toBeGreaterThan(0);
+    for (const c of filtered) {
+      expect(c.where, `${c.op} without a where clause`).toBeDefined();
+      const { sql, params } = render(c.where);
+      expect(sql).toContain('"tenant_id" = ');
+      expect(params).toContain(tenantA.id);
+      expect(params).not.toContain(tenantB.id);
+    }
+  });
+
+  it('stamps inserts with the current tenant', async () => {
+    await runWithTenant(tenantB, async () => {
+      await dbStorage.createUser({ username: 'bob' });
+      await dbStorage.createAssessment({ userId: 'u1', policyId: 'p1', orderContext: {}, verdict: 'go' });
+      await dbStorage.createAuditLog({ action: 'test', details: {} });
+      await dbStorage.createAlertPolicy({ name: 'p' });
+    });
+
+    const inserts = recorder.calls.filter((c) => c.op === 'insert');
+    expect(inserts).toHaveLength(4);
+    inserts.forEach((c) => expect(c.values.tenantId).toBe(tenantB.id));
+  });
+
+  it('refuses storage access outside a tenant scope', async () => {
+    await expect(dbStorage.getAssessment('a1')).rejects.toThrow(/No tenant in scope/);
+    await expect(dbStorage.createAuditLog({ action: 'test', details: {} })).rejects.toThrow(/No tenant in scope/);
+  });
+});
+
+describe('Tenant resolution over HTTP', () => {
+  let serverInstance: any;
+  const PASSWORD = 'correct-horse-battery';
+  let firmA: Tenant;
+  let firmB: Tenant;
+  let alice: User;
+
+  beforeAll(async () => {
+    // The suite runs on the in-memory backend, so tenants and users are real rows
+    const memory = storage as MemoryStorage;
+    firmA = await memory.createTenant({ name: 'Firm A', apiKey: tenantA.apiKey, region: 'eu' });
+    firmB = await memory.createTenant({ name: 'Firm B', apiKey: tenantB.apiKey });
+    const passwordHash = await hashPassword(PASSWORD);
+    alice = await runWithTenant(firmA, () => storage.createUser({ username: 'alice', passwordHash }));
+
+    const app = express();
+    app.use(bodyParser.json());
+    const server = await registerRoutes(app);
+    serverInstance = server.listen(0);
+  });
+
+  afterAll(() => {
+    try { serverInstance && serverInstance.close(); } catch (e) { /* ignore */ }
+  });
+
+  it('rejects unknown tenant keys', async () => {
+    const res = await request(serverInstance).get('/api/auth/me').set('X-Tenant-Key', 'nope');
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects a region the tenant's data may not be served from", async () => {
+    const res = await request(serverInstance)
+      .get('/api/auth/me')
+      .set('X-Tenant-Key', firmA.apiKey)
+      .set('X-Tenant-Region', 'us');
+    expect(res.status).toBe(403);
+  });
+
+  it('keeps rows written under one tenant invisible to another', async () => {
+    expect(alice.tenantId).toBe(firmA.id);
+    expect(await runWithTenant(firmB, () => storage.getUser(alice.id))).toBeUndefined();
+    expect(await runWithTenant(firmB, () => storage.getUserByUsername('alice'))).toBeUndefined();
+    // The same username is free in another tenant
+    await expect(runWithTenant(firmB, () => storage.createUser({ username: 'alice' }))).resolves.toMatchObject({ tenantId: firmB.id });
+    await expect(runWithTenant(firmA, () => storage.createUser({ username: 'alice' }))).rejects.toThrow(/unique/);
+  });
+
+  it('only finds users within the tenant named by the key', async () => {
+    const wrongTenant = await request(serverInstance)
+      .post('/api/auth/login')
+      .set('X-Tenant-Key', firmB.apiKey)
+      .send({ username: alice.username, password: PASSWORD });
+    expect(wrongTenant.status).toBe(401);
+  });
+
+  it('does not honour a session under another tenant key', async () => {
+    const agent = request.agent(serverInstance);
+    const login = await agent
+      .post('/api/auth/login')
+      .set('X-Tenant-Key', firmA.apiKey)
+      .send({ username: alice.username, password: PASSWORD });
+    expect(login.status).toBe(200);
+
+    expect((await agent.get('/api/auth/me').set('X-Tenant-Key', firmA.apiKey)).status).toBe(200);
+    expect((await agent.get('/api/auth/me').set('X-Tenant-Key', firmB.apiKey)).status).toBe(401);
+    expect((await agent.get('/api/auth/me')).status).toBe(401);
+  });
+});
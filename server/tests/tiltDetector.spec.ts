@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Tenant, User } from '@shared/schema';
+import type { OrderContext } from '@shared/tradePauseAI';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { detectTilt, tiltDetector, type TiltOrder } from '../services/tiltDetector';
+
+const now = new Date('2026-03-02T14:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000);
+const order = (minutes: number, fields: Partial<TiltOrder> = {}): TiltOrder => ({
+  assessmentId: `a-${minutes}`,
+  at: minutesAgo(minutes),
+  instrument: 'EUR/USD',
+  side: 'buy',
+  size: 100_000,
+  ...fields,
+});
+const buy: Pick<OrderContext, 'instrument' | 'side' | 'size'> = { instrument: 'EUR/USD', side: 'buy', size: 100_000 };
+const patterns = (history: TiltOrder[], current = buy) =>
+  detectTilt(history, current, now).evidence.map((found) => found.pattern);
+
+describe('Tilt detector', () => {
+  it('spots re-entry and sizing up right after losses', () => {
+    expect(patterns([order(2, { pnl: -800 })])).toEqual(['rapid_reentry']);
+    expect(patterns([order(20, { pnl: -800 })])).toEqual([]);
+    expect(patterns([order(2, { pnl: 300 })])).toEqual([]);
+    // Counted from when the loss was reported, not from the losing order
+    expect(patterns([order(40, { pnl: -800, reportedAt: minutesAgo(3) })])).toEqual(['rapid_reentry']);
+    expect(patterns([order(3, { pnl: -800 }), order(50, { pnl: 200, reportedAt: minutesAgo(1) })])).toEqual([]);
+
+    const tilt = detectTilt([order(20, { pnl: -500, size: 80_000 }), order(40, { pnl: -300 })], { ...buy, size: 160_000 }, now);
+    expect(tilt.evidence).toEqual([expect.objectContaining({
+      pattern: 'size_escalation',
+      assessmentIds: ['a-20', 'a-40'],
+    })]);
+    expect(tilt).toMatchObject({ score: 30, riskAdjustment: 9 });
+  });
+
+  it('spots flipping direction and orders coming faster', () => {
+    expect(patterns([order(10, { side: 'sell' }), order(30)])).toEqual(['side_flipping']);
+    // A flip on another instrument does not count
+    expect(patterns([order(10, { side: 'sell' }), order(30, { instrument: 'GBP/USD' })])).toEqual([]);
+
+    expect(patterns([order(2), order(8), order(20)])).toEqual(['shrinking_intervals']);
+    expect(patterns([order(2), order(8), order(12)])).toEqual([]);
+    // Orders outside the hour are not on the timeline
+    expect(patterns([order(30), order(50), order(90)])).toEqual([]);
+  });
+
+  describe('with stored assessments', () => {
+    let tenant: Tenant;
+    let trader: User;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Tilt', apiKey: `tilt-${randomUUID()}` });
+      await inTenant(async () => {
+        trader = await storage.createUser({ username: 'alice' });
+      });
+    });
+
+    it('reads losing trades from outcomes and alerts once per cooldown', async () => {
+      await inTenant(() => storage.createAlertPolicy({ name: 'Desk stress' }));
+      const stored = await inTenant(async () => {
+        const { policy } = await storage.resolvePolicy(trader.id);
+        const trade = { userId: trader.id, policyId: policy.id, verdict: 'go', status: 'completed', tradeExecuted: true };
+        await storage.createAssessment({ ...trade, orderContext: { ...buy, side: 'sell' }, tradeOutcome: { executed: true, pnl: -400 } });
+        // Waiting on signals: not an order on the timeline
+        await storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext: buy, verdict: 'pending', status: 'collecting' });
+        return storage.createAssessment({ ...trade, orderContext: buy, tradeOutcome: { executed: true, pnl: -900 } });
+      });
+
+      const tilt = await inTenant(() => tiltDetector.assess(trader.id, { ...buy, side: 'sell', size: 250_000 }));
+      expect(tilt.evidence.map((found) => found.pattern)).toEqual(['rapid_reentry', 'size_escalation', 'side_flipping']);
+      expect(tilt.score).toBe(80);
+      expect(tilt.evidence[0].assessmentIds).toEqual([stored.id]);
+
+      const alert = await inTenant(() => tiltDetector.alertIfTilted(trader.id, tilt, stored.id));
+      expect(alert).toMatchObject({ userId: trader.id, assessmentId: stored.id, score: 80, patterns: ['rapid_reentry', 'size_escalation', 'side_flipping'] });
+      expect(await inTenant(() => tiltDetector.alertIfTilted(trader.id, tilt))).toBeUndefined();
+      expect(await inTenant(() => storage.getAuditLogs({ action: 'tilt_alert_raised' }))).toHaveLength(1);
+
+      const { alerts } = await inTenant(() => storage.getAlertHistory({ userId: trader.id }));
+      expect(alerts).toEqual([expect.objectContaining({ id: alert!.alertId, assessmentId: stored.id, alertType: 'pattern_anomaly', severity: 'urgent' })]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHmac, randomUUID } from 'node:crypto';
+import type { Assessment, Tenant } from '@shared/schema';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import {
+  tradeAuthorization,
+  signTradeToken,
+  verifyTradeToken,
+  tradeTokenKeyFor,
+  TradeAuthorizationError,
+} from '../services/tradeAuthorization';
+
+const order = { instrument: 'EUR/USD', side: 'buy' as const, size: 100_000 };
+
+describe('TradeAuthorizationService', () => {
+  let tenant: Tenant;
+  let assessment: Assessment;
+  const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+  beforeEach(async () => {
+    tenant = await (storage as MemoryStorage).createTenant({ name: 'Tokens', apiKey: `tokens-${randomUUID()}` });
+    assessment = await inTenant(async () => {
+      const trader = await storage.createUser({ username: 'alice' });
+      const policy = await storage.getDefaultPolicy();
+      return storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext: order, verdict: 'go' });
+    });
+  });
+
+  it('issues a token bound to the trader, assessment and order, and audits it', async () => {
+    const grant = await inTenant(() => tradeAuthorization.issue(assessment, order));
+
+    const { claims } = await inTenant(() => tradeAuthorization.verify(grant.token, { consume: false }));
+    expect(claims).toMatchObject({ tenantId: tenant.id, userId: assessment.userId, assessmentId: assessment.id, order });
+    expect(new Date(grant.expiresAt).getTime()).toBe(claims.exp * 1000);
+
+    const [issued] = await inTenant(() => storage.getAuditLogs({ action: 'trade_authorization_issued' }));
+    expect(issued.details).toMatchObject({ authorizationId: claims.id, order });
+  });
+
+  it('refuses expired tokens and tokens issued to another tenant', async () => {
+    const { token } = await inTenant(() => tradeAuthorization.issue(assessment, order));
+
+    const later = new Date(Date.now() + 10 * 60 * 1000);
+    await expect(inTenant(() => tradeAuthorization.verify(token, { now: later }))).rejects.toMatchObject({ status: 410 });
+
+    const otherTenant = await (storage as MemoryStorage).createTenant({ name: 'Other', apiKey: `other-${randomUUID()}` });
+    await expect(runWithTenant(otherTenant, () => tradeAuthorization.verify(token))).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('verifies offline with the tenant key alone', () => {
+    const key = tradeTokenKeyFor('shared-secret', 'tenant-a');
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { id: randomUUID(), tenantId: 'tenant-a', userId: 'u1', assessmentId: 'a1', order, iat: now, exp: now + 60 };
+    const token = signTradeToken(claims, key);
+
+    expect(verifyTradeToken(token, key)).toEqual(claims);
+    expect(() => verifyTradeToken(token, tradeTokenKeyFor('shared-secret', 'tenant-b'))).toThrow(TradeAuthorizationError);
+    expect(() => verifyTradeToken('not-a-token', key)).toThrow('Malformed trade authorization token');
+
+    // As the README tells an order system: openssl's hex output, hex-decoded
+    const hex = createHmac('sha256', 'shared-secret').update('trade-authorization:tenant-a').digest('hex');
+    const [prefix, payload, signature] = token.split('.');
+    expect(createHmac('sha256', Buffer.from(hex, 'hex')).update(`${prefix}.${payload}`).digest('base64url')).toBe(signature);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Tenant, User } from '@shared/schema';
+import type { OrderContext } from '@shared/tradePauseAI';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { lossContext, tradingSessions } from '../services/tradingSessions';
+
+const order: OrderContext = {
+  instrument: 'EUR/USD',
+  size: 100_000,
+  orderType: 'market',
+  side: 'buy',
+  timeOfDay: new Date().toISOString(),
+};
+const trades = (...pnls: number[]) => pnls.map((pnl) => ({ pnl }));
+
+describe('Trading sessions', () => {
+  it('derives the loss streak and drawdown from the ledger', () => {
+    expect(lossContext([])).toEqual({ realizedPnl: 0, lossStreak: 0, drawdown: 0, trades: 0 });
+    expect(lossContext(trades(500, 1000, -400, -300, -200)))
+      .toEqual({ realizedPnl: 600, lossStreak: 3, drawdown: 900, trades: 5 });
+    // A winner breaks the streak; the drawdown stays measured from the high
+    expect(lossContext(trades(-200, -300, 100))).toEqual({ realizedPnl: -400, lossStreak: 0, drawdown: 400, trades: 3 });
+  });
+
+  describe('with stored trades', () => {
+    let tenant: Tenant;
+    let trader: User;
+    const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+
+    const reportTrade = (pnl: number, assessmentId?: string) => inTenant(async () => {
+      const { policy } = await storage.resolvePolicy(trader.id);
+      const id = assessmentId ?? (await storage.createAssessment({
+        userId: trader.id, policyId: policy.id, orderContext: order, verdict: 'go', status: 'rendered', riskScore: 20,
+      })).id;
+      await tradingSessions.recordTrade(trader.id, id, { executed: true, pnl });
+      return id;
+    });
+
+    beforeEach(async () => {
+      tenant = await (storage as MemoryStorage).createTenant({ name: 'Sessions', apiKey: `sessions-${randomUUID()}` });
+      await inTenant(async () => {
+        trader = await storage.createUser({ username: 'alice' });
+      });
+    });
+
+    it('opens one session at a time and books each reported trade once', async () => {
+      const session = await inTenant(() => tradingSessions.start(trader.id));
+      await expect(inTenant(() => tradingSessions.start(trader.id))).rejects.toMatchObject({ status: 409 });
+
+      const first = await reportTrade(-700);
+      await reportTrade(-700, first);
+      await reportTrade(-500);
+      await inTenant(() => tradingSessions.recordTrade(trader.id, first, { executed: false }));
+
+      const { session: ended, context } = await inTenant(() => tradingSessions.end(trader.id));
+      expect(ended).toMatchObject({ id: session.id, realizedPnl: -1200, tradeCount: 2 });
+      expect(ended.endedAt).toBeInstanceOf(Date);
+      expect(context).toMatchObject({ lossStreak: 2, drawdown: 1200 });
+      await expect(inTenant(() => tradingSessions.end(trader.id))).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('scores the ledger in place of the PnL and losses the client claims', async () => {
+      const claimed = { ...order, currentPnL: 5000, recentLosses: 0 };
+      expect(await inTenant(() => tradingSessions.scoringContext(trader.id, { ...order, currentPnL: -9000, recentLosses: 7 })))
+        .toMatchObject({ currentPnL: 0, recentLosses: 0, drawdown: 0 });
+
+      // No session open: the first reported trade starts one
+      await reportTrade(800);
+      await reportTrade(-1500);
+      await reportTrade(-900);
+
+      expect(await inTenant(() => tradingSessions.scoringContext(trader.id, claimed)))
+        .toEqual({ ...order, currentPnL: -1600, recentLosses: 2, drawdown: 2400 });
+      const [started] = await inTenant(() => storage.getAuditLogs({ action: 'trading_session_started' }));
+      expect(started.details).toMatchObject({ startedBy: 'trade_outcome' });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Policy, Tenant, User } from '@shared/schema';
+import type { OrderContext } from '@shared/tradePauseAI';
+import { storage } from '../storage';
+import type { MemoryStorage } from '../memoryStorage';
+import { runWithTenant } from '../tenantContext';
+import { verdictReuse } from '../services/verdictReuse';
+
+const order: OrderContext = { instrument: 'EUR/USD', side: 'buy', size: 100_000, orderType: 'market', timeOfDay: '10:00', leverage: 10 };
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60_000);
+
+describe('VerdictReuseService', () => {
+  let tenant: Tenant;
+  let trader: User;
+  let policy: Policy;
+  const inTenant = <T>(fn: () => Promise<T>) => runWithTenant(tenant, fn);
+  const assess = (verdict: string, status: 'rendered' | 'cooling_down' = 'rendered', orderContext: OrderContext = order) =>
+    inTenant(() => storage.createAssessment({ userId: trader.id, policyId: policy.id, orderContext, verdict, status, riskScore: 30 }));
+
+  beforeEach(async () => {
+    tenant = await (storage as MemoryStorage).createTenant({ name: 'Reuse', apiKey: `reuse-${randomUUID()}` });
+    await inTenant(async () => {
+      trader = await storage.createUser({ username: 'alice' });
+      policy = await storage.createPolicy(
+        { name: 'Scaling in', verdictReuseMinutes: 5, verdictReuseOrders: 2, verdictReuseMarginPct: 10 },
+        { authorId: trader.id, reason: 'test' },
+      );
+      await storage.updateUser(trader.id, { policyId: policy.id });
+    });
+  });
+
+  it('covers further orders within the window up to the order limit', async () => {
+    const allow = await assess('go');
+
+    const first = await inTenant(() => verdictReuse.reuse(trader.id, { ...order, size: 110_000 }));
+    expect(first).toMatchObject({ covered: true, assessment: { id: allow.id, reuseCount: 1 }, ordersRemaining: 1 });
+    expect(await inTenant(() => verdictReuse.reuse(trader.id, order))).toMatchObject({ covered: true, ordersRemaining: 0 });
+    expect(await inTenant(() => verdictReuse.reuse(trader.id, order))).toMatchObject({ covered: false });
+
+    const [audit] = await inTenant(() => storage.getAuditLogs({ action: 'verdict_reused', limit: 1 }));
+    expect(audit).toMatchObject({ assessmentId: allow.id, details: expect.objectContaining({ reuseCount: 2 }) });
+  });
+
+  it('refuses orders beyond the margin, in another instrument or after the window', async () => {
+    await assess('go');
+
+    const decide = (changes: Partial<OrderContext>, now?: Date) =>
+      inTenant(() => verdictReuse.findCover(trader.id, { ...order, ...changes }, now));
+
+    expect(await decide({ size: 111_000 })).toMatchObject({ covered: false, reason: expect.stringContaining('size') });
+    expect(await decide({ leverage: 12 })).toMatchObject({ covered: false, reason: expect.stringContaining('leverage') });
+    expect(await decide({ side: 'sell' })).toMatchObject({ covered: false });
+    expect(await decide({ instrument: 'GBP/USD' })).toMatchObject({ covered: false });
+    expect(await decide({}, minutesFromNow(6))).toMatchObject({ covered: false, reason: expect.stringContaining('window') });
+  });
+
+  it('only reuses the latest verdict, and never under a policy without reuse', async () => {
+    await assess('go');
+    await assess('hold', 'cooling_down');
+    expect(await inTenant(() => verdictReuse.findCover(trader.id, order))).toMatchObject({ covered: false });
+
+    await inTenant(() => storage.updatePolicy(policy.id, { verdictReuseMinutes: 0 }, { authorId: trader.id, reason: 'off' }));
+    await assess('go');
+    expect(await inTenant(() => verdictReuse.findCover(trader.id, order)))
+      .toMatchObject({ covered: false, reason: 'Verdict reuse is off under this policy' });
+  });
+});
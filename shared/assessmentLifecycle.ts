@@ -0,0 +1,44 @@
+// Lifecycle of a pre-trade assessment, shared by the API and the client.
+//
+//   pending ──► collecting ──► rendered ──► cooling_down ──► completed
+//      │            │              │              │
+//      └──► expired ◄┘             └──────────────┴──► overridden
+//
+// pending: opened, no signals yet. collecting: signals arriving, no verdict.
+// rendered: verdict given. cooling_down: the trader is sitting out a hold or
+// block. completed: cooldown served or trade reported. overridden: the trader
+// went ahead against the verdict. expired: abandoned before a verdict.
+
+export const ASSESSMENT_STATUSES = [
+  "pending",
+  "collecting",
+  "rendered",
+  "cooling_down",
+  "completed",
+  "overridden",
+  "expired",
+] as const;
+
+export type AssessmentStatus = (typeof ASSESSMENT_STATUSES)[number];
+
+export const ASSESSMENT_TRANSITIONS: Record<AssessmentStatus, readonly AssessmentStatus[]> = {
+  pending: ["collecting", "rendered", "expired"],
+  collecting: ["rendered", "expired"],
+  rendered: ["cooling_down", "completed", "overridden"],
+  cooling_down: ["completed", "overridden"],
+  completed: [],
+  overridden: [],
+  expired: [],
+};
+
+// Assessments still without a verdict after this long are expired
+export const PENDING_ASSESSMENT_TTL_MS = 15 * 60 * 1000;
+
+export function canTransition(from: AssessmentStatus, to: AssessmentStatus): boolean {
+  return ASSESSMENT_TRANSITIONS[from].includes(to);
+}
+
+/** True while the assessment has no verdict and can still receive signals. */
+export function isAwaitingVerdict(status: AssessmentStatus): boolean {
+  return status === "pending" || status === "collecting";
+}
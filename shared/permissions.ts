@@ -0,0 +1,37 @@
+// Role-based permission model shared by the API and the client.
+// Each permission lists the roles allowed to use it; routes and pages refer to
+// permissions rather than roles so the mapping lives in one place.
+
+export const ROLES = ["trader", "supervisor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = {
+  // Admin console (analytics, policy view, baselines)
+  "admin.view": ["supervisor", "admin"],
+  "policies.update": ["admin"],
+  // Second pair of eyes on sensitive changes to live policies
+  "policies.approve": ["supervisor", "admin"],
+  "policies.simulate": ["supervisor", "admin"],
+  // Co-signing trader overrides of block verdicts and high-risk assessments
+  "overrides.approve": ["supervisor", "admin"],
+  "analytics.team": ["supervisor", "admin"],
+  "audit.read": ["supervisor", "admin"],
+  // On-demand data retention runs (purges are irreversible)
+  "retention.run": ["admin"],
+  // Outcome calibration of the risk score (reliability, Brier scores)
+  "calibration.view": ["admin"],
+  "monitoring.view": ["supervisor", "admin"],
+  "alerts.view": ["supervisor", "admin"],
+  "alerts.resolve": ["supervisor", "admin"],
+  "alerts.manage": ["admin"],
+  "alerts.trigger": ["admin"],
+  // Desks, trader assignment and per-trader policy overrides
+  "desks.view": ["supervisor", "admin"],
+  "desks.manage": ["admin"],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (PERMISSIONS[permission] as readonly string[]).includes(role);
+}
@@ -0,0 +1,95 @@
+// Policy revision helpers shared by the API (snapshots, rollback) and the
+// client (version diff view).
+import type { PolicySettings } from "./schema";
+import { SCORING_COMPONENTS } from "./scoringProfile";
+
+export const POLICY_SETTINGS_FIELDS = [
+  "name",
+  "strictnessLevel",
+  "riskThreshold",
+  "cooldownDuration",
+  "enabledModes",
+  "overrideAllowed",
+  "supervisorNotification",
+  "dataRetentionDays",
+  "verdictReuseMinutes",
+  "verdictReuseOrders",
+  "verdictReuseMarginPct",
+  "overrideDailyLimit",
+  "overrideCosignRiskScore",
+  "overrideAlertCount",
+  "overrideAlertWindowMinutes",
+  "cooldownLadderWindowMinutes",
+  "cooldownLadderGrowthPct",
+  "cooldownLadderMaxSeconds",
+  "cooldownLadderResetAfter",
+  "overtradingLookbackDays",
+  "overtradingZScore",
+  "overtradingMinOrders5m",
+  "overtradingMinOrders60m",
+  "quickCheckEngine",
+  "fullAssessmentEngine",
+  "shadowFullAssessmentEngine",
+  "scoringProfile",
+] as const satisfies readonly (keyof PolicySettings)[];
+
+export function pickPolicySettings(policy: PolicySettings): PolicySettings {
+  const settings = {} as Record<keyof PolicySettings, unknown>;
+  for (const field of POLICY_SETTINGS_FIELDS) {
+    settings[field] = policy[field];
+  }
+  return settings as PolicySettings;
+}
+
+/**
+ * Whether two values of a setting are the same; JSON settings compare by
+ * content, ignoring key order (jsonb does not keep it).
+ */
+export function sameSettingValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => sameSettingValue(item, b[i]));
+  }
+  const aKeys = Object.keys(a);
+  const bRecord = b as Record<string, unknown>;
+  return aKeys.length === Object.keys(b).length
+    && aKeys.every((key) => key in bRecord && sameSettingValue((a as Record<string, unknown>)[key], bRecord[key]));
+}
+
+export interface PolicySettingChange {
+  field: string; // nested mode toggles are reported as "enabledModes.<mode>", profile parts as "scoringProfile.<part>"
+  from: unknown;
+  to: unknown;
+}
+
+/** Field-level differences between two policy snapshots, in settings order. */
+export function diffPolicySettings(from: PolicySettings, to: PolicySettings): PolicySettingChange[] {
+  const changes: PolicySettingChange[] = [];
+  for (const field of POLICY_SETTINGS_FIELDS) {
+    if (field === "enabledModes") {
+      const fromModes = (from.enabledModes ?? {}) as Record<string, unknown>;
+      const toModes = (to.enabledModes ?? {}) as Record<string, unknown>;
+      const modes = Array.from(new Set([...Object.keys(fromModes), ...Object.keys(toModes)]));
+      for (const mode of modes) {
+        if (fromModes[mode] !== toModes[mode]) {
+          changes.push({ field: `enabledModes.${mode}`, from: fromModes[mode], to: toModes[mode] });
+        }
+      }
+    } else if (field === "scoringProfile" && from.scoringProfile && to.scoringProfile) {
+      const parts = [
+        ...SCORING_COMPONENTS.map((component) => [`weights.${component}`, from.scoringProfile!.weights[component], to.scoringProfile!.weights[component]]),
+        ...SCORING_COMPONENTS.map((component) => [`curves.${component}`, from.scoringProfile!.curves[component], to.scoringProfile!.curves[component]]),
+        ["cognitiveOverride", from.scoringProfile.cognitiveOverride, to.scoringProfile.cognitiveOverride],
+      ] as const;
+      for (const [part, fromValue, toValue] of parts) {
+        if (!sameSettingValue(fromValue, toValue)) {
+          changes.push({ field: `scoringProfile.${part}`, from: fromValue, to: toValue });
+        }
+      }
+    } else if (!sameSettingValue(from[field], to[field])) {
+      changes.push({ field, from: from[field], to: to[field] });
+    }
+  }
+  return changes;
+}
@@ -1,34 +1,57 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, real, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, real, uuid, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import type { AssessmentStatus } from "./assessmentLifecycle";
+import { DEFAULT_FULL_ASSESSMENT_ENGINE, DEFAULT_QUICK_CHECK_ENGINE } from "./scoringEngines";
+import type { ScoringProfile } from "./scoringProfile";
+
+// Tenants (firms sharing one deployment). Every tenant-owned row carries a tenantId.
+export const tenants = pgTable("tenants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  apiKey: text("api_key").notNull().unique(), // the SDK's tenantKey
+  region: text("region"), // data residency region, e.g. "eu", "us"
+  defaultPolicyId: varchar("default_policy_id").references((): AnyPgColumn => policies.id),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
 
 // Users table
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  username: text("username").notNull().unique(),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  username: text("username").notNull(), // unique per tenant
+  passwordHash: text("password_hash"), // scrypt hash, salt-prefixed; null for accounts without local login
   email: text("email"),
   firstName: text("first_name"),
   lastName: text("last_name"),
   profileImageUrl: text("profile_image_url"),
   role: text("role").notNull().default("trader"), // trader, admin, supervisor
+  deskId: varchar("desk_id").references((): AnyPgColumn => tradingDesks.id),
+  policyId: varchar("policy_id").references((): AnyPgColumn => policies.id), // per-trader override of the desk/tenant policy
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  tenantUsername: unique("users_tenant_username_unique").on(table.tenantId, table.username),
+}));
 
 // Trading accounts/desks
 export const tradingDesks = pgTable("trading_desks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   name: text("name").notNull(),
   description: text("description"),
   policyId: varchar("policy_id").references(() => policies.id),
+  supervisorId: varchar("supervisor_id").references((): AnyPgColumn => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Policy configurations
 export const policies = pgTable("policies", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   name: text("name").notNull(),
   strictnessLevel: text("strictness_level").notNull().default("standard"), // lenient, standard, strict, custom
   riskThreshold: integer("risk_threshold").notNull().default(65),
@@ -43,14 +66,86 @@ export const policies = pgTable("policies", {
   overrideAllowed: boolean("override_allowed").notNull().default(true),
   supervisorNotification: boolean("supervisor_notification").notNull().default(true),
   dataRetentionDays: integer("data_retention_days").notNull().default(30),
+  // An allow also covers the trader's next orders in the same instrument and
+  // direction for this long and this many orders, if none is larger than the
+  // assessed one by more than the margin. 0 minutes or 0 orders turns reuse off.
+  verdictReuseMinutes: integer("verdict_reuse_minutes").notNull().default(0),
+  verdictReuseOrders: integer("verdict_reuse_orders").notNull().default(0),
+  verdictReuseMarginPct: integer("verdict_reuse_margin_pct").notNull().default(0), // size and leverage headroom
+  // Override governance. Block verdicts always need a supervisor's co-sign;
+  // so do overrides of assessments scoring at or above the co-sign score (null: none).
+  overrideDailyLimit: integer("override_daily_limit").notNull().default(0), // per trader per UTC day, 0 = no limit
+  overrideCosignRiskScore: integer("override_cosign_risk_score"),
+  // Alert supervisors when a trader overrides this many times within the window (0 = off)
+  overrideAlertCount: integer("override_alert_count").notNull().default(0),
+  overrideAlertWindowMinutes: integer("override_alert_window_minutes").notNull().default(60),
+  // Cooldown ladder: each earlier hold or block within the window lengthens the
+  // next cooldown by the growth percentage, up to the cap. A streak of clean
+  // verdicts resets the ladder. A 0-minute window keeps cooldowns flat.
+  cooldownLadderWindowMinutes: integer("cooldown_ladder_window_minutes").notNull().default(0),
+  cooldownLadderGrowthPct: integer("cooldown_ladder_growth_pct").notNull().default(100),
+  cooldownLadderMaxSeconds: integer("cooldown_ladder_max_seconds").notNull().default(600),
+  cooldownLadderResetAfter: integer("cooldown_ladder_reset_after").notNull().default(3), // clean verdicts in a row, 0 = window only
+  // Overtrading: orders in the last 5 and 60 minutes against the trader's own
+  // rate at this time of day over the lookback (0 days = off). A burst counts
+  // once it is both this many standard deviations above the usual rate and at
+  // least the minimum number of orders.
+  overtradingLookbackDays: integer("overtrading_lookback_days").notNull().default(14),
+  overtradingZScore: real("overtrading_z_score").notNull().default(3),
+  overtradingMinOrders5m: integer("overtrading_min_orders_5m").notNull().default(4),
+  overtradingMinOrders60m: integer("overtrading_min_orders_60m").notNull().default(15),
+  // Scoring engines ("<id>@<version>" in the engine registry) for each surface
+  quickCheckEngine: text("quick_check_engine").notNull().default(DEFAULT_QUICK_CHECK_ENGINE),
+  fullAssessmentEngine: text("full_assessment_engine").notNull().default(DEFAULT_FULL_ASSESSMENT_ENGINE),
+  // Candidate full-assessment engine scored alongside the primary without touching the verdict (null = none)
+  shadowFullAssessmentEngine: text("shadow_full_assessment_engine"),
+  // Component weights, curves and cognitive override for full assessments (null = each engine's built-in profile)
+  scoringProfile: jsonb("scoring_profile").$type<ScoringProfile>(),
   version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Immutable policy history: one row per version, written on every policy change.
+// The snapshot holds the editable settings exactly as they were at that version.
+export const policyRevisions = pgTable("policy_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  policyId: varchar("policy_id").notNull().references(() => policies.id),
+  version: integer("version").notNull(),
+  snapshot: jsonb("snapshot").notNull(), // PolicySettings
+  authorId: varchar("author_id").references(() => users.id), // null for revisions backfilled from pre-history rows
+  reason: text("reason").notNull(),
+  restoredVersion: integer("restored_version"), // set on rollbacks: the version whose settings were restored
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  policyVersion: unique("policy_revisions_policy_version_unique").on(table.policyId, table.version),
+}));
+
+// Four-eyes workflow: sensitive edits to a live policy wait here until a second
+// supervisor or admin approves them
+export const policyChangeRequests = pgTable("policy_change_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  policyId: varchar("policy_id").notNull().references(() => policies.id),
+  baseVersion: integer("base_version").notNull(), // policy version the change was proposed against
+  changes: jsonb("changes").notNull(), // Partial<PolicySettings>
+  reason: text("reason").notNull(),
+  restoredVersion: integer("restored_version"), // set when the request is a proposed rollback
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, expired, failed (approved but could not be applied)
+  proposedBy: varchar("proposed_by").notNull().references(() => users.id),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  appliedVersion: integer("applied_version"), // policy version created on approval
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // User baselines for personalized assessment
 export const userBaselines = pgTable("user_baselines", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   userId: varchar("user_id").notNull().references(() => users.id),
   reactionTimeMs: real("reaction_time_ms"),
   reactionTimeStdDev: real("reaction_time_std_dev"),
@@ -67,8 +162,10 @@ export const userBaselines = pgTable("user_baselines", {
 // Pre-trade assessments
 export const assessments = pgTable("assessments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   userId: varchar("user_id").notNull().references(() => users.id),
   policyId: varchar("policy_id").notNull().references(() => policies.id),
+  policyVersion: integer("policy_version"), // with policyId, identifies the policy_revisions row the assessment was scored under
   orderContext: jsonb("order_context").notNull(), // instrument, size, leverage, etc.
   
   // Assessment data
@@ -84,30 +181,47 @@ export const assessments = pgTable("assessments", {
   // Allow null riskScore for placeholder/pending assessments so we don't persist demo numeric fallbacks
   // Server code uses null to indicate pending; keep DB model compatible.
   riskScore: integer("risk_score"), // 0-100 (nullable for pending)
-  verdict: text("verdict").notNull(), // go, hold, block
+  verdict: text("verdict").notNull(), // pending, go, hold, block
+  // Lifecycle position (see shared/assessmentLifecycle.ts); only moved through validated transitions
+  status: text("status").$type<AssessmentStatus>().notNull().default("pending"),
+  statusChangedAt: timestamp("status_changed_at").defaultNow(),
   reasonTags: jsonb("reason_tags").notNull().default([]),
   confidence: real("confidence"),
+  // Engine that rendered the score; null on assessments scored before engines were stamped
+  engineId: text("engine_id"),
+  engineVersion: text("engine_version"),
+  // Shadow engine's score and decision for the same input, for comparison only
+  shadowEngineId: text("shadow_engine_id"),
+  shadowEngineVersion: text("shadow_engine_version"),
+  shadowRiskScore: integer("shadow_risk_score"),
+  shadowDecision: text("shadow_decision").$type<'allow' | 'cooldown' | 'block'>(),
   
   // Actions taken
   cooldownCompleted: boolean("cooldown_completed").default(false),
   cooldownDurationMs: integer("cooldown_duration_ms"),
+  cooldownStep: integer("cooldown_step"), // rung of the policy's cooldown ladder, 0 = base cooldown
   journalEntry: text("journal_entry"),
   journalTrigger: text("journal_trigger"),
   journalPlan: text("journal_plan"),
   overrideUsed: boolean("override_used").default(false),
   overrideReason: text("override_reason"),
   supervisorNotified: boolean("supervisor_notified").default(false),
+  reuseCount: integer("reuse_count").notNull().default(0), // later orders this allow covered (policy verdict reuse)
   
   // Outcomes
   tradeExecuted: boolean("trade_executed").default(false),
   tradeOutcome: jsonb("trade_outcome"), // PnL, duration, etc.
   
+  // Set once the retention job has stripped biometric and free-text fields
+  redactedAt: timestamp("redacted_at"),
+  
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Audit log for compliance
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   userId: varchar("user_id").references(() => users.id),
   assessmentId: varchar("assessment_id").references(() => assessments.id),
   action: text("action").notNull(), // assessment_started, verdict_rendered, override_used, etc.
@@ -120,6 +234,7 @@ export const auditLogs = pgTable("audit_logs", {
 // Real-time events for WebSocket
 export const realTimeEvents = pgTable("real_time_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   eventType: text("event_type").notNull(), // gate_triggered, verdict_rendered, override_used
   userId: varchar("user_id").references(() => users.id),
   assessmentId: varchar("assessment_id").references(() => assessments.id),
@@ -133,6 +248,7 @@ export const realTimeEvents = pgTable("real_time_events", {
 // Alert policies for configurable thresholds
 export const alertPolicies = pgTable("alert_policies", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   name: text("name").notNull(),
   description: text("description"),
   // Configurable stress thresholds for different alert severity levels
@@ -154,6 +270,7 @@ export const alertPolicies = pgTable("alert_policies", {
 // Alert delivery channels configuration
 export const alertChannels = pgTable("alert_channels", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   alertPolicyId: varchar("alert_policy_id").notNull().references(() => alertPolicies.id),
   channelType: text("channel_type").notNull(), // email, sms, webhook, dashboard, websocket
   severity: text("severity").notNull(), // warning, urgent, critical
@@ -170,6 +287,7 @@ export const alertChannels = pgTable("alert_channels", {
 // Alert history for tracking and analytics
 export const alertHistory = pgTable("alert_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   alertPolicyId: varchar("alert_policy_id").notNull().references(() => alertPolicies.id),
   userId: varchar("user_id").notNull().references(() => users.id),
   assessmentId: varchar("assessment_id").references(() => assessments.id),
@@ -198,6 +316,85 @@ export const alertHistory = pgTable("alert_history", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Signed trade authorizations handed to downstream order systems. The token
+// itself is never stored; its id claim is this row's id.
+export const tradeAuthorizations = pgTable("trade_authorizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  assessmentId: varchar("assessment_id").notNull().references(() => assessments.id),
+  // The order the token is bound to
+  instrument: text("instrument").notNull(),
+  side: text("side").notNull(), // buy, sell
+  size: real("size").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"), // set once an order system has redeemed the token
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Responses to client retries: a POST repeated with the same Idempotency-Key
+// gets the stored response instead of running again
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  key: text("key").notNull(),
+  requestPath: text("request_path").notNull(), // e.g. "POST /api/trade-pause/check-trade"
+  requestHash: text("request_hash").notNull(), // SHA-256 of the request body
+  statusCode: integer("status_code"), // null while the original request is still running
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userKey: unique("idempotency_keys_user_key_unique").on(table.tenantId, table.userId, table.key),
+}));
+
+// Overrides waiting on a supervisor's co-sign (block verdicts, high risk scores).
+// The override is applied only once a supervisor approves.
+export const overrideRequests = pgTable("override_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  assessmentId: varchar("assessment_id").notNull().references(() => assessments.id),
+  userId: varchar("user_id").notNull().references(() => users.id), // the trader asking to override
+  reason: text("reason").notNull(),
+  verdict: text("verdict").notNull(), // the verdict being overridden
+  riskScore: integer("risk_score"),
+  trigger: text("trigger").notNull(), // block_verdict, risk_score
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, expired, failed (approved but could not be applied)
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A trader's trading day, from start to end. Scoring reads the trader's PnL and
+// losses from its ledger rather than from what the client claims.
+export const tradingSessions = pgTable("trading_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"), // null while the session is open
+  realizedPnl: real("realized_pnl").notNull().default(0), // running total of the ledger
+  tradeCount: integer("trade_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// The session's ledger: one row per executed trade reported through
+// /api/trade-pause/trade-outcome
+export const sessionTrades = pgTable("session_trades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  sessionId: varchar("session_id").notNull().references(() => tradingSessions.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  assessmentId: varchar("assessment_id").notNull().references(() => assessments.id),
+  pnl: real("pnl").notNull(),
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+}, (table) => ({
+  // An outcome reported twice is booked once
+  sessionAssessment: unique("session_trades_session_assessment_unique").on(table.sessionId, table.assessmentId),
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   assessments: many(assessments),
@@ -209,6 +406,19 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const policiesRelations = relations(policies, ({ many }) => ({
   assessments: many(assessments),
   tradingDesks: many(tradingDesks),
+  revisions: many(policyRevisions),
+  changeRequests: many(policyChangeRequests),
+}));
+
+export const policyChangeRequestsRelations = relations(policyChangeRequests, ({ one }) => ({
+  policy: one(policies, { fields: [policyChangeRequests.policyId], references: [policies.id] }),
+  proposer: one(users, { fields: [policyChangeRequests.proposedBy], references: [users.id] }),
+  reviewer: one(users, { fields: [policyChangeRequests.reviewedBy], references: [users.id] }),
+}));
+
+export const policyRevisionsRelations = relations(policyRevisions, ({ one }) => ({
+  policy: one(policies, { fields: [policyRevisions.policyId], references: [policies.id] }),
+  author: one(users, { fields: [policyRevisions.authorId], references: [users.id] }),
 }));
 
 export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
@@ -239,21 +449,66 @@ export const alertHistoryRelations = relations(alertHistory, ({ one }) => ({
 }));
 
 // Zod schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertPolicySchema = createInsertSchema(policies).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertAssessmentSchema = createInsertSchema(assessments).omit({ id: true, createdAt: true });
-export const insertBaselineSchema = createInsertSchema(userBaselines).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, timestamp: true });
-export const insertEventSchema = createInsertSchema(realTimeEvents).omit({ id: true, createdAt: true });
-export const insertAlertPolicySchema = createInsertSchema(alertPolicies).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertAlertChannelSchema = createInsertSchema(alertChannels).omit({ id: true, createdAt: true });
-export const insertAlertHistorySchema = createInsertSchema(alertHistory).omit({ id: true, createdAt: true });
+// tenantId is omitted everywhere: storage stamps it from the request's tenant context
+export const insertTenantSchema = createInsertSchema(tenants).omit({ id: true, createdAt: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true, tenantId: true });
+export const insertPolicySchema = createInsertSchema(policies).omit({ id: true, createdAt: true, updatedAt: true, tenantId: true });
+export const insertPolicyRevisionSchema = createInsertSchema(policyRevisions).omit({ id: true, createdAt: true, tenantId: true });
+export const insertPolicyChangeRequestSchema = createInsertSchema(policyChangeRequests).omit({ id: true, createdAt: true, tenantId: true });
+export const insertAssessmentSchema = createInsertSchema(assessments).omit({ id: true, createdAt: true, tenantId: true });
+export const insertBaselineSchema = createInsertSchema(userBaselines).omit({ id: true, createdAt: true, updatedAt: true, tenantId: true });
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, timestamp: true, tenantId: true });
+export const insertEventSchema = createInsertSchema(realTimeEvents).omit({ id: true, createdAt: true, tenantId: true });
+export const insertTradingDeskSchema = createInsertSchema(tradingDesks).omit({ id: true, createdAt: true, tenantId: true });
+export const insertAlertPolicySchema = createInsertSchema(alertPolicies).omit({ id: true, createdAt: true, updatedAt: true, tenantId: true });
+export const insertAlertChannelSchema = createInsertSchema(alertChannels).omit({ id: true, createdAt: true, tenantId: true });
+export const insertAlertHistorySchema = createInsertSchema(alertHistory).omit({ id: true, createdAt: true, tenantId: true });
+export const insertTradeAuthorizationSchema = createInsertSchema(tradeAuthorizations).omit({ createdAt: true, tenantId: true, consumedAt: true });
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).omit({ id: true, createdAt: true, tenantId: true });
+export const insertOverrideRequestSchema = createInsertSchema(overrideRequests).omit({ id: true, createdAt: true, tenantId: true });
+export const insertTradingSessionSchema = createInsertSchema(tradingSessions).omit({ id: true, createdAt: true, tenantId: true });
+export const insertSessionTradeSchema = createInsertSchema(sessionTrades).omit({ id: true, tenantId: true });
 
 // Types
+export type Tenant = typeof tenants.$inferSelect;
+export type InsertTenant = z.infer<typeof insertTenantSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Policy = typeof policies.$inferSelect;
 export type InsertPolicy = z.infer<typeof insertPolicySchema>;
+export type PolicyRevision = typeof policyRevisions.$inferSelect;
+export type InsertPolicyRevision = z.infer<typeof insertPolicyRevisionSchema>;
+export type PolicyChangeRequest = typeof policyChangeRequests.$inferSelect;
+export type InsertPolicyChangeRequest = z.infer<typeof insertPolicyChangeRequestSchema>;
+// The settings an admin edits; what a revision snapshots and a rollback restores
+export type PolicySettings = Pick<Policy,
+  | 'name'
+  | 'strictnessLevel'
+  | 'riskThreshold'
+  | 'cooldownDuration'
+  | 'enabledModes'
+  | 'overrideAllowed'
+  | 'supervisorNotification'
+  | 'dataRetentionDays'
+  | 'verdictReuseMinutes'
+  | 'verdictReuseOrders'
+  | 'verdictReuseMarginPct'
+  | 'overrideDailyLimit'
+  | 'overrideCosignRiskScore'
+  | 'overrideAlertCount'
+  | 'overrideAlertWindowMinutes'
+  | 'cooldownLadderWindowMinutes'
+  | 'cooldownLadderGrowthPct'
+  | 'cooldownLadderMaxSeconds'
+  | 'cooldownLadderResetAfter'
+  | 'overtradingLookbackDays'
+  | 'overtradingZScore'
+  | 'overtradingMinOrders5m'
+  | 'overtradingMinOrders60m'
+  | 'quickCheckEngine'
+  | 'fullAssessmentEngine'
+  | 'shadowFullAssessmentEngine'
+  | 'scoringProfile'>;
 export type Assessment = typeof assessments.$inferSelect;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type UserBaseline = typeof userBaselines.$inferSelect;
@@ -263,9 +518,20 @@ export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type RealTimeEvent = typeof realTimeEvents.$inferSelect;
 export type InsertRealTimeEvent = z.infer<typeof insertEventSchema>;
 export type TradingDesk = typeof tradingDesks.$inferSelect;
+export type InsertTradingDesk = z.infer<typeof insertTradingDeskSchema>;
 export type AlertPolicy = typeof alertPolicies.$inferSelect;
 export type InsertAlertPolicy = z.infer<typeof insertAlertPolicySchema>;
 export type AlertChannel = typeof alertChannels.$inferSelect;
 export type InsertAlertChannel = z.infer<typeof insertAlertChannelSchema>;
 export type AlertHistory = typeof alertHistory.$inferSelect;
 export type InsertAlertHistory = z.infer<typeof insertAlertHistorySchema>;
+export type TradeAuthorization = typeof tradeAuthorizations.$inferSelect;
+export type InsertTradeAuthorization = z.infer<typeof insertTradeAuthorizationSchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+export type OverrideRequest = typeof overrideRequests.$inferSelect;
+export type InsertOverrideRequest = z.infer<typeof insertOverrideRequestSchema>;
+export type TradingSession = typeof tradingSessions.$inferSelect;
+export type InsertTradingSession = z.infer<typeof insertTradingSessionSchema>;
+export type SessionTrade = typeof sessionTrades.$inferSelect;
+export type InsertSessionTrade = z.infer<typeof insertSessionTradeSchema>;
@@ -0,0 +1,46 @@
+// Scoring engine references shared by the API (registry, policy validation)
+// and the client (policy engine picker).
+import { sameSettingValue } from "./policyRevisions";
+import type { ScoringProfile } from "./scoringProfile";
+
+// Where an engine scores: the quick check behind check-trade, or the full
+// camera-and-tests assessment
+export type ScoringSurface = 'quick_check' | 'full_assessment';
+
+export type ScoringProfilePart = keyof ScoringProfile;
+
+// What a full-assessment engine makes of a policy's scoring profile
+export interface EngineScoringProfile {
+  parts: ScoringProfilePart[]; // the parts it applies; the rest must stay as built in
+  builtIn: ScoringProfile; // what it scores with when the policy has no profile
+}
+
+export interface ScoringEngineInfo {
+  id: string;
+  version: string;
+  ref: string; // "<id>@<version>", as stored on policies
+  surface: ScoringSurface;
+  description: string;
+  retired: boolean; // still scores policies already on it, but cannot be newly selected
+  profile?: EngineScoringProfile; // full-assessment engines only
+}
+
+export const DEFAULT_QUICK_CHECK_ENGINE = 'risk-scoring@1.0';
+export const DEFAULT_FULL_ASSESSMENT_ENGINE = 'new-scoring-engine@2.5';
+
+export function engineRef(id: string, version: string): string {
+  return `${id}@${version}`;
+}
+
+/** Parts of `scoringProfile` edited away from the engine's built-in profile that it does not apply. */
+export function unappliedProfileParts(engine: EngineScoringProfile, scoringProfile: ScoringProfile | null): ScoringProfilePart[] {
+  if (!scoringProfile) return [];
+  return (Object.keys(engine.builtIn) as ScoringProfilePart[])
+    .filter((part) => !engine.parts.includes(part) && !sameSettingValue(scoringProfile[part], engine.builtIn[part]));
+}
+
+export function parseEngineRef(ref: string): { id: string; version: string } | null {
+  const at = ref.lastIndexOf('@');
+  if (at <= 0 || at === ref.length - 1) return null;
+  return { id: ref.slice(0, at), version: ref.slice(at + 1) };
+}
@@ -0,0 +1,144 @@
+// Policy scoring profiles shared by the API (engine scoring, validation) and
+// the client (profile editor).
+import { z } from "zod";
+
+export type ScoringComponent = 'camera' | 'impulse' | 'focus' | 'reaction';
+
+export const SCORING_COMPONENTS: ScoringComponent[] = ['camera', 'impulse', 'focus', 'reaction'];
+
+// What each component's curve reads, from 0 to 1. The camera curve reads
+// weighted facial stress (higher is worse); the test curves read performance
+// (higher is better).
+export const CURVE_INPUTS: Record<ScoringComponent, string> = {
+  camera: 'Facial stress',
+  impulse: 'Go/no-go accuracy',
+  focus: 'Sustained attention',
+  reaction: 'Reaction stability',
+};
+
+/** A point on a component curve: at input `x`, the component scores `risk`. */
+export interface CurvePoint {
+  x: number; // 0-1
+  risk: number; // 0-100
+}
+
+/**
+ * Cognitive override: once the measure over the three test scores reaches
+ * `atLeast`, the composite is raised to at least `floor`. Rules are checked in
+ * order and the first match applies. "second" is the second-highest test
+ * score, i.e. two or more tests at the threshold.
+ */
+export interface CognitiveOverrideRule {
+  measure: 'max' | 'average' | 'second';
+  atLeast: number;
+  floor: number;
+}
+
+export interface ScoringProfile {
+  weights: Record<ScoringComponent, number>; // sum to 1
+  curves: Record<ScoringComponent, CurvePoint[]>; // x ascending from 0 to 1, linear between points
+  cognitiveOverride: CognitiveOverrideRule[];
+}
+
+// The full-assessment engine's built-in profile
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  weights: { camera: 0.15, impulse: 0.35, focus: 0.30, reaction: 0.20 },
+  curves: {
+    camera: [
+      { x: 0, risk: 0 },
+      { x: 0.2, risk: 25 },
+      { x: 0.5, risk: 60 },
+      { x: 0.8, risk: 85 },
+      { x: 1, risk: 100 },
+    ],
+    impulse: [
+      { x: 0, risk: 100 },
+      { x: 0.4, risk: 90 },
+      { x: 0.6, risk: 70 },
+      { x: 0.75, risk: 45 },
+      { x: 0.9, risk: 20 },
+      { x: 1, risk: 0 },
+    ],
+    focus: [
+      { x: 0, risk: 100 },
+      { x: 0.3, risk: 95 },
+      { x: 0.5, risk: 75 },
+      { x: 0.7, risk: 45 },
+      { x: 0.85, risk: 20 },
+      { x: 1, risk: 0 },
+    ],
+    reaction: [
+      { x: 0, risk: 100 },
+      { x: 0.2, risk: 95 },
+      { x: 0.4, risk: 75 },
+      { x: 0.6, risk: 45 },
+      { x: 0.8, risk: 20 },
+      { x: 1, risk: 0 },
+    ],
+  },
+  cognitiveOverride: [
+    { measure: 'max', atLeast: 95, floor: 85 },
+    { measure: 'max', atLeast: 90, floor: 80 },
+    { measure: 'max', atLeast: 80, floor: 72 },
+    { measure: 'average', atLeast: 75, floor: 70 },
+    { measure: 'average', atLeast: 65, floor: 62 },
+    { measure: 'average', atLeast: 55, floor: 52 },
+    { measure: 'second', atLeast: 75, floor: 72 },
+    { measure: 'second', atLeast: 85, floor: 80 },
+  ],
+};
+
+const curveSchema = z.array(z.object({
+  x: z.number().min(0).max(1),
+  risk: z.number().min(0).max(100),
+})).min(2).max(12)
+  .refine((points) => points.every((point, i) => i === 0 || point.x > points[i - 1].x), "Curve points must be in ascending x order")
+  .refine((points) => points[0].x === 0 && points[points.length - 1].x === 1, "Curves must run from x = 0 to x = 1");
+
+export const scoringProfileSchema = z.object({
+  weights: z.object({
+    camera: z.number().min(0).max(1),
+    impulse: z.number().min(0).max(1),
+    focus: z.number().min(0).max(1),
+    reaction: z.number().min(0).max(1),
+  }).refine(
+    (weights) => Math.abs(SCORING_COMPONENTS.reduce((total, component) => total + weights[component], 0) - 1) < 0.001,
+    "Component weights must sum to 1"
+  ),
+  curves: z.object({
+    camera: curveSchema,
+    impulse: curveSchema,
+    focus: curveSchema,
+    reaction: curveSchema,
+  }),
+  cognitiveOverride: z.array(z.object({
+    measure: z.enum(['max', 'average', 'second']),
+    atLeast: z.number().min(0).max(100),
+    floor: z.number().min(0).max(100),
+  })).max(12),
+}) satisfies z.ZodType<ScoringProfile>;
+
+/** Reads a curve at `x`, interpolating linearly between its points. */
+export function applyCurve(curve: CurvePoint[], x: number): number {
+  const at = Math.min(1, Math.max(0, x));
+  const upper = curve.findIndex((point) => point.x >= at);
+  if (upper === -1) return curve[curve.length - 1].risk;
+  if (upper === 0) return curve[0].risk;
+  const low = curve[upper - 1];
+  const high = curve[upper];
+  return low.risk + ((at - low.x) / (high.x - low.x)) * (high.risk - low.risk);
+}
+
+/** The floor the first matching override rule puts under the composite, if any. */
+export function cognitiveFloor(
+  rules: CognitiveOverrideRule[],
+  scores: { impulse: number; focus: number; reaction: number }
+): number | undefined {
+  const tests = [scores.impulse, scores.focus, scores.reaction].sort((a, b) => b - a);
+  const measures = {
+    max: tests[0],
+    average: (tests[0] + tests[1] + tests[2]) / 3,
+    second: tests[1],
+  };
+  return rules.find((rule) => measures[rule.measure] >= rule.atLeast)?.floor;
+}
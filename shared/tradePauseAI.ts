@@ -27,8 +27,11 @@ export interface OrderContext {
   orderType: 'market' | 'limit';
   side: 'buy' | 'sell';
   leverage?: number;
+  // Scoring replaces currentPnL and recentLosses with the trader's session
+  // ledger and adds drawdown from it; the client's figures are never scored
   currentPnL?: number;
   recentLosses?: number;
+  drawdown?: number;
   timeOfDay: string;
   marketVolatility?: number;
 }
@@ -131,6 +134,89 @@ export interface FullAssessmentRequest {
   tests: FullAssessmentUserState['tests'];
 }
 
+// The part of an order a trade authorization token is bound to
+export type AuthorizedOrder = Pick<OrderContext, 'instrument' | 'side' | 'size'>;
+
+// Issued with an allow verdict; the order system redeems the token before executing the order
+export interface TradeAuthorizationGrant {
+  token: string;
+  expiresAt: string; // ISO timestamp
+}
+
+// Whether an earlier allow covers the next order, so the trader can skip a new assessment
+export type VerdictReuseResponse =
+  | {
+      covered: true;
+      assessmentId: string; // the assessment whose allow covered the order
+      ordersRemaining: number;
+      validUntil: string; // ISO timestamp
+      authorization: TradeAuthorizationGrant;
+    }
+  | { covered: false; reason: string };
+
+// An override either goes through or waits for a supervisor's co-sign. The
+// trader hears the supervisor's decision as an `override_approval_resolved`
+// event on the WebSocket, or by polling the request.
+export type OverrideResponse =
+  | { success: true; status: 'applied' }
+  | {
+      success: false;
+      status: 'pending_approval';
+      requestId: string;
+      trigger: 'block_verdict' | 'risk_score';
+      expiresAt: string; // ISO timestamp
+    };
+
+// Loss context derived from the trader's open session ledger
+export interface SessionLossContext {
+  realizedPnl: number;
+  lossStreak: number; // consecutive losing trades up to the latest
+  drawdown: number; // how far realized PnL sits below the session's high
+  trades: number;
+}
+
+// A trader's order rate now against their own rate at this time of day
+export interface OrderVelocity {
+  last5m: number; // orders in the last 5 minutes, this one included
+  last60m: number;
+  expected5m: number; // the trader's average for the same window on earlier days
+  expected60m: number;
+  z5m: number | null; // null until there are enough earlier trading days to compare with
+  z60m: number | null;
+  overtrading: boolean;
+}
+
+// How an order's size and leverage compare with the trader's own earlier
+// orders on the same instrument
+export interface SizeAnomaly {
+  instrument: string;
+  samples: number; // earlier orders on the instrument
+  sizePercentile: number | null; // 0-100; null until there are enough earlier orders
+  sizeZ: number | null;
+  leveragePercentile: number | null; // null as well when the order carries no leverage
+  leverageZ: number | null;
+  unusual: boolean;
+}
+
+// One input's signed share of the final emotionalRiskScore. Together the
+// contributions sum to the score.
+export interface ScoreContribution {
+  feature: string; // "<component>.<input>", e.g. "impulse.noGoAccuracy", or "override.cognitive", "behaviour.tilt", "cap"
+  label: string;
+  value: number | null; // the input as received, where there is one
+  points: number;
+}
+
+// The empirical chance that a trade taken at this score loses money or breaks
+// a rule, from reported outcomes on the trader's desk (or the whole firm)
+export interface RiskCalibration {
+  probability: number; // 0-1
+  scope: 'desk' | 'firm';
+  deskId: string | null;
+  samples: number; // labelled assessments behind the mapping
+  fittedAt: string;
+}
+
 export interface FullAssessmentResponse {
   allowed: boolean;
   decision: 'allow' | 'cooldown' | 'block';
@@ -150,6 +236,12 @@ export interface FullAssessmentResponse {
       reaction: number;
     };
     signalQuality: number;
+    tiltScore?: number; // 0-100, from the trader's recent orders and outcomes
+    orderVelocity?: OrderVelocity;
+    sizeAnomaly?: SizeAnomaly;
+    attribution?: ScoreContribution[]; // engines that can explain their score
   };
+  calibration?: RiskCalibration; // once enough outcomes have been reported
   assessmentId?: string;
+  authorization?: TradeAuthorizationGrant; // present only when the trade is allowed
 }
@@ -9,6 +9,10 @@ export default defineConfig({
     ],
     environment: 'node',
     globals: true,
+    // Suites exercise real storage flows against the in-memory backend
+    env: {
+      STORAGE_DRIVER: 'memory',
+    },
     coverage: {
       reporter: ['text', 'html'],
     },